@@ -240,7 +240,7 @@ def process_certificates_from_db():
             elif latest_cached_record and "associated_image_file_ids" in latest_cached_record: # Fallback to latest db record's IDs
                  final_associated_ids_for_db = latest_cached_record["associated_image_file_ids"]
             else: # Absolute fallback: all current user images (less accurate for suggestion context)
-                 final_associated_ids_for_db = [str(doc["_id"]) for doc in db.images.files.find({"metadata.userId": user_id}, projection={"_id": 1})]
+                 final_associated_ids_for_db = [str(doc["_id"]) for doc in db.images.files.find({"metadata.userId": user_id, "metadata.isPdfOriginal": {"$ne": True}}, projection={"_id": 1})]
 
             processing_result_dict["associated_image_file_ids"] = final_associated_ids_for_db # Ensure this is in the response
 
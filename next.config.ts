@@ -8,6 +8,8 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // pdf-poppler exits the process at import on Linux, so it must never be bundled; it is only loaded on macOS/Windows.
+  serverExternalPackages: ['pdf-poppler'],
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,67 @@
+'use server';
+
+/**
+ * @fileOverview Certificate field extraction AI agent.
+ *
+ * - extractCertificateFields - Reads a certificate image and returns its structured fields with per-field confidence.
+ * - CertificateExtractionInput - The input type for the extractCertificateFields function.
+ * - CertificateExtractionOutput - The return type for the extractCertificateFields function.
+ *
+ * The model comes from CERTIFICATE_EXTRACTION_MODEL ("stub" for the local stub model, any Genkit model
+ * name otherwise) and falls back to the default model configured in src/ai/genkit.ts.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {CERTIFICATE_EXTRACTION_STUB_MODEL} from '@/ai/models/certificate-extraction-stub';
+import {
+  CertificateExtractionInputSchema,
+  CertificateExtractionOutputSchema,
+  type CertificateExtractionInput,
+  type CertificateExtractionOutput,
+} from '@/ai/schemas/certificate-extraction-schemas';
+
+export type {CertificateExtractionInput, CertificateExtractionOutput};
+
+const resolveExtractionModel = (override?: string): string | undefined => {
+  const configured = override || process.env.CERTIFICATE_EXTRACTION_MODEL;
+  if (configured === 'stub') return CERTIFICATE_EXTRACTION_STUB_MODEL;
+  return configured || undefined;
+};
+
+export async function extractCertificateFields(
+  input: CertificateExtractionInput,
+  options: {model?: string} = {}
+): Promise<CertificateExtractionOutput & {model: string}> {
+  const model = resolveExtractionModel(options.model);
+  const output = await extractCertificateFieldsFlow({...input, model});
+  return {...output, model: model || 'default'};
+}
+
+const prompt = ai.definePrompt({
+  name: 'extractCertificateFieldsPrompt',
+  input: {schema: CertificateExtractionInputSchema},
+  output: {schema: CertificateExtractionOutputSchema},
+  prompt: `You are an expert at reading certificates of completion, course certificates and professional credentials.
+Extract the fields below from the certificate image. Only report text that is actually printed on the certificate;
+use null for anything that is missing or illegible and give it confidence 0. Write dates as YYYY-MM-DD.
+
+Image: {{media url=photoDataUri}}`,
+});
+
+const extractCertificateFieldsFlow = ai.defineFlow(
+  {
+    name: 'extractCertificateFieldsFlow',
+    inputSchema: CertificateExtractionInputSchema.extend({
+      model: z.string().optional().describe('Genkit model to run the prompt with; the default model when omitted.'),
+    }),
+    outputSchema: CertificateExtractionOutputSchema,
+  },
+  async ({model, ...input}) => {
+    const {output} = await prompt(input, model ? {model} : undefined);
+    if (!output) {
+      throw new Error('The model did not return certificate fields in the expected format.');
+    }
+    return output;
+  }
+);
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { initiateEmailOtp } from '@/ai/flows/initiate-email-otp';
+import { getAdminAuth } from '@/lib/firebase/adminConfig';
+import { createMemoryTransport, setEmailTransport, type EmailMessage, type MemoryEmailTransport } from '@/lib/email/transport.server';
+import { captureConsole } from '@/test/captureConsole';
+
+const OTP_PATTERN = /\b\d{6}\b/;
+
+const codeFrom = (message: EmailMessage | undefined) => {
+  const code = message?.text?.match(OTP_PATTERN)?.[0];
+  assert.ok(code, 'the OTP email should contain a 6-digit code');
+  return code;
+};
+
+// The email is always free to register; the flow otherwise stops before issuing a code.
+const stubUnregisteredEmail = (t: TestContext) => {
+  t.mock.method(getAdminAuth(), 'getUserByEmail', async () => {
+    throw Object.assign(new Error('There is no user record.'), { code: 'auth/user-not-found' });
+  });
+};
+
+describe('initiateEmailOtp', () => {
+  let transport: MemoryEmailTransport;
+
+  beforeEach(() => {
+    transport = createMemoryTransport();
+    setEmailTransport(transport);
+  });
+
+  afterEach(() => setEmailTransport(null));
+
+  test('keeps the code out of the response and the logs when the email is sent', async (t) => {
+    stubUnregisteredEmail(t);
+    const logs = captureConsole(t);
+
+    const result = await initiateEmailOtp({ email: 'sent@example.com' });
+
+    assert.equal(result.success, true);
+    assert.equal(transport.messages.length, 1);
+    const code = codeFrom(transport.messages[0]);
+    assert.ok(!JSON.stringify(result).includes(code), 'response must not contain the OTP');
+    assert.ok(!logs.output().includes(code), 'logs must not contain the OTP');
+  });
+
+  test('keeps the code out of the response and the logs when sending fails', async (t) => {
+    stubUnregisteredEmail(t);
+    const attempted: EmailMessage[] = [];
+    setEmailTransport({
+      name: 'smtp',
+      async send(message) {
+        attempted.push(message);
+        return { success: false, message: 'SMTP connection refused.' };
+      },
+    });
+    const logs = captureConsole(t);
+
+    const result = await initiateEmailOtp({ email: 'unsent@example.com' });
+
+    assert.equal(result.success, false);
+    const code = codeFrom(attempted[0]);
+    assert.ok(!JSON.stringify(result).includes(code), 'response must not contain the OTP');
+    assert.ok(!logs.output().includes(code), 'logs must not contain the OTP');
+  });
+
+  test('a refused resend returns no code', async (t) => {
+    stubUnregisteredEmail(t);
+    await initiateEmailOtp({ email: 'resend@example.com' });
+    const code = codeFrom(transport.messages[0]);
+    const logs = captureConsole(t);
+
+    const result = await initiateEmailOtp({ email: 'resend@example.com' });
+
+    assert.equal(result.errorKey, 'OTP_RESEND_COOLDOWN');
+    assert.equal(transport.messages.length, 1);
+    assert.ok(!JSON.stringify(result).match(OTP_PATTERN), 'response must not contain any code');
+    assert.ok(!logs.output().includes(code), 'logs must not contain the OTP');
+  });
+});
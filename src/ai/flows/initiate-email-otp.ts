@@ -2,45 +2,49 @@
 'use server';
 /**
  * @fileOverview Flow to initiate sending an OTP to a user's email for verification.
- * - initiateEmailOtp: Checks if email exists, generates an OTP, stores it, and sends via email.
+ * - initiateEmailOtp: Checks if email exists, issues an OTP (rate limited per email and IP), and sends it via email.
  * - InitiateEmailOtpInput: Input type for the initiateEmailOtp function.
  * - InitiateEmailOtpOutput: Output type for the initiateEmailOtp function.
  */
 import { ai } from '@/ai/genkit';
 import { z } from 'zod';
-import { sendEmail } from '@/lib/emailUtils'; // Import the centralized email utility
+import { sendTemplatedEmail } from '@/lib/emailUtils'; // Import the centralized email utility
 import { getAdminAuth } from '@/lib/firebase/adminConfig'; // Import Firebase Admin Auth
-
-// HACK: In-memory store for OTPs. NOT SUITABLE FOR PRODUCTION.
-// In a real app, use a database (e.g., Firestore, Redis) for OTP storage.
-if (!(globalThis as any).otpStore) {
-  (globalThis as any).otpStore = {};
-}
-const otpStore: Record<string, { otp: string; expiresAt: number }> = (globalThis as any).otpStore;
+import { getOtpService } from '@/lib/otp/otpService.server';
+import { OTP_ERROR_KEYS } from '@/lib/otp/types';
+import { getClientIp_SERVER } from '@/lib/requestIp.server';
 
 const InitiateEmailOtpInputSchema = z.object({
   email: z.string().email({ message: 'Invalid email address.' }),
 });
 export type InitiateEmailOtpInput = z.infer<typeof InitiateEmailOtpInputSchema>;
 
+// The client IP is read from the request by the wrapper below, never taken from the caller's input.
+const InitiateEmailOtpFlowInputSchema = InitiateEmailOtpInputSchema.extend({
+  clientIp: z.string().nullable(),
+});
+
 const InitiateEmailOtpOutputSchema = z.object({
   success: z.boolean(),
   message: z.string(),
+  errorKey: z.enum(OTP_ERROR_KEYS).optional(), // Set when a send limit or lockout applies
+  retryAfterSeconds: z.number().optional(), // How long to wait before asking again
+  resendAfterSeconds: z.number().optional(), // On success: when the next code may be requested
 });
 export type InitiateEmailOtpOutput = z.infer<typeof InitiateEmailOtpOutputSchema>;
 
 // Exported wrapper function
 export async function initiateEmailOtp(input: InitiateEmailOtpInput): Promise<InitiateEmailOtpOutput> {
-  return initiateEmailOtpFlow(input);
+  return initiateEmailOtpFlow({ email: input.email, clientIp: await getClientIp_SERVER() });
 }
 
 const initiateEmailOtpFlow = ai.defineFlow(
   {
     name: 'initiateEmailOtpFlow',
-    inputSchema: InitiateEmailOtpInputSchema,
+    inputSchema: InitiateEmailOtpFlowInputSchema,
     outputSchema: InitiateEmailOtpOutputSchema,
   },
-  async ({ email }) => {
+  async ({ email, clientIp }) => {
     const adminAuth = getAdminAuth(); // Get the admin auth instance
 
     try {
@@ -61,35 +65,35 @@ const initiateEmailOtpFlow = ai.defineFlow(
     }
 
     // Proceed with OTP generation and sending only if email is not found (i.e., available)
-    const otp = Math.floor(100000 + Math.random() * 900000).toString(); // 6-digit OTP
-    const expiresAt = Date.now() + 5 * 60 * 1000; // OTP expires in 5 minutes
-
-    otpStore[email] = { otp, expiresAt };
-    console.log(`initiateEmailOtpFlow: OTP for ${email} is ${otp}. Stored in memory.`);
-
-    const emailSubject = 'Your CertIntel OTP Code';
-    const emailText = `Your OTP code for CertIntel is: ${otp}. This code will expire in 5 minutes.`;
-    const emailHtml = `<p>Your OTP code for CertIntel is: <strong>${otp}</strong>.</p><p>This code will expire in 5 minutes.</p>`;
+    const issued = await getOtpService().issueOtp(email, { ip: clientIp });
+    if (!issued.ok) {
+      console.warn(`initiateEmailOtpFlow: OTP for ${email} refused (${issued.errorKey}, IP ${clientIp || 'unknown'}).`);
+      return { success: false, message: issued.message, errorKey: issued.errorKey, retryAfterSeconds: issued.retryAfterSeconds };
+    }
+    // The code itself is never logged or returned; it only leaves the server in the email below.
+    const { code: otp, expiresAt, resendAfterSeconds, sentAt } = issued;
+    console.log(`initiateEmailOtpFlow: OTP issued for ${email}. Sending email.`);
 
-    const emailResult = await sendEmail({
-      to: email,
-      subject: emailSubject,
-      text: emailText,
-      html: emailHtml,
+    const emailResult = await sendTemplatedEmail(email, 'otp', {
+      code: otp,
+      expiresInMinutes: Math.round((expiresAt.getTime() - Date.now()) / 60000),
     });
 
     if (emailResult.success) {
-      let successMessage = 'OTP has been sent to your email address. Please check your inbox (and spam folder).';
-      if (emailResult.message.includes("simulated to console")) { // Check if it was simulated
-        successMessage = 'OTP generated and logged to console (email sending simulated).';
-      }
-      return { success: true, message: successMessage };
+      const successMessage = emailResult.sink
+        ? 'OTP email captured by the development mail sink. Open /api/dev/mail to read it.'
+        : 'OTP has been sent to your email address. Please check your inbox (and spam folder).';
+      return { success: true, message: successMessage, resendAfterSeconds };
     } else {
-      // Log the OTP to console as a fallback if email sending fails for any reason
-      console.log(`[OTP FALLBACK - Email send failed] OTP for ${email}: ${otp} (Expires at: ${new Date(expiresAt).toLocaleTimeString()})`);
+      // An unsent code is useless to the user, so drop it and give back its sends: a provider outage
+      // must not use up the email's or the network's send allowance.
+      console.error(`initiateEmailOtpFlow: OTP email to ${email} could not be sent: ${emailResult.message}`);
+      const otpService = getOtpService();
+      await otpService.clearOtp(email);
+      await otpService.releaseSends(email, { ip: clientIp, sentAt });
       return { 
         success: false, 
-        message: `${emailResult.message} OTP (for testing if not sent): ${otp}`
+        message: 'We could not send the OTP email right now. Please try again in a minute.',
       };
     }
   }
@@ -0,0 +1,60 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyEmailOtpAndRegister, type VerifyEmailOtpAndRegisterInput } from '@/ai/flows/verify-email-otp-and-register';
+import { DEFAULT_OTP_CONFIG, getOtpService } from '@/lib/otp/otpService.server';
+import { captureConsole } from '@/test/captureConsole';
+
+const issueCode = async (email: string) => {
+  const issued = await getOtpService().issueOtp(email);
+  assert.ok(issued.ok);
+  return issued.code;
+};
+
+// A different 6-digit code, so verification fails without ever reaching Firebase.
+const wrongCodeFor = (code: string) => `${code.slice(0, 5)}${(Number(code[5]) + 1) % 10}`;
+
+const registration = (email: string, otp: string): VerifyEmailOtpAndRegisterInput =>
+  ({ email, otp, password: 'correct-horse', role: 'student', name: 'Asha Rao' });
+
+describe('verifyEmailOtpAndRegister', () => {
+  test('a wrong code is rejected without echoing either code', async (t) => {
+    const code = await issueCode('wrong-code@example.com');
+    const wrongCode = wrongCodeFor(code);
+    const logs = captureConsole(t);
+
+    const result = await verifyEmailOtpAndRegister(registration('wrong-code@example.com', wrongCode));
+
+    assert.equal(result.errorKey, 'OTP_INVALID');
+    for (const secret of [code, wrongCode]) {
+      assert.ok(!JSON.stringify(result).includes(secret), 'response must not contain an OTP');
+      assert.ok(!logs.output().includes(secret), 'logs must not contain an OTP');
+    }
+  });
+
+  test('the lockout after repeated wrong codes reveals no code', async (t) => {
+    const code = await issueCode('locked@example.com');
+    const wrongCode = wrongCodeFor(code);
+    const logs = captureConsole(t);
+
+    const results = [];
+    for (let i = 0; i < DEFAULT_OTP_CONFIG.maxVerifyAttempts + 1; i++) {
+      results.push(await verifyEmailOtpAndRegister(registration('locked@example.com', wrongCode)));
+    }
+
+    assert.equal(results.at(-1)?.errorKey, 'OTP_LOCKED');
+    for (const secret of [code, wrongCode]) {
+      assert.ok(!JSON.stringify(results).includes(secret), 'responses must not contain an OTP');
+      assert.ok(!logs.output().includes(secret), 'logs must not contain an OTP');
+    }
+  });
+
+  test('an unknown email is rejected without echoing the submitted code', async (t) => {
+    const logs = captureConsole(t);
+
+    const result = await verifyEmailOtpAndRegister(registration('never-sent@example.com', '482913'));
+
+    assert.equal(result.errorKey, 'OTP_NOT_FOUND');
+    assert.ok(!JSON.stringify(result).includes('482913'), 'response must not contain the OTP');
+    assert.ok(!logs.output().includes('482913'), 'logs must not contain the OTP');
+  });
+});
@@ -17,13 +17,10 @@ import {
 } from '@/lib/services/userService.server'; // Import from the new .server.ts file
 import type { User, AuthError } from 'firebase/auth';
 // import type { UserProfile } from '@/lib/models/user'; // UserProfile type might still be useful
-import { sendEmail } from '@/lib/emailUtils';
-
-// HACK: In-memory store for OTPs. NOT SUITABLE FOR PRODUCTION.
-if (!(globalThis as any).otpStore) {
-  (globalThis as any).otpStore = {};
-}
-const otpStore: Record<string, { otp: string; expiresAt: number }> = (globalThis as any).otpStore;
+import { connectToDb } from '@/lib/mongodb';
+import { enqueueTemplatedEmail_SERVER } from '@/lib/email/outbox.server';
+import { getOtpService } from '@/lib/otp/otpService.server';
+import { OTP_ERROR_KEYS } from '@/lib/otp/types';
 
 
 const VerifyEmailOtpAndRegisterInputSchema = z.object({
@@ -52,6 +49,9 @@ const VerifyEmailOtpAndRegisterOutputSchema = z.object({
   userId: z.string().optional(),
   role: z.enum(['admin', 'student']).optional(),
   adminUniqueIdGenerated: z.string().optional(), // For new admins, their own shareable ID
+  errorKey: z.enum(OTP_ERROR_KEYS).optional(), // Set when the OTP was rejected
+  retryAfterSeconds: z.number().optional(), // With OTP_LOCKED: how long verification is blocked
+  attemptsRemaining: z.number().optional(), // With OTP_INVALID: wrong codes left before the lockout
 });
 export type VerifyEmailOtpAndRegisterOutput = z.infer<typeof VerifyEmailOtpAndRegisterOutputSchema>;
 
@@ -67,19 +67,16 @@ const verifyEmailOtpAndRegisterFlow = ai.defineFlow(
     outputSchema: VerifyEmailOtpAndRegisterOutputSchema,
   },
   async ({ email, otp, password, role, name, rollNo, adminUniqueId }) => {
-    const storedEntry = otpStore[email];
-
-    if (!storedEntry) {
-      return { success: false, message: 'OTP not found. It might have expired or was never generated. Please request a new OTP.' };
-    }
-
-    if (Date.now() > storedEntry.expiresAt) {
-      delete otpStore[email];
-      return { success: false, message: 'OTP has expired. Please request a new OTP.' };
-    }
-
-    if (storedEntry.otp !== otp) {
-      return { success: false, message: 'Invalid OTP. Please try again.' };
+    const otpService = getOtpService();
+    const otpCheck = await otpService.verifyOtp(email, otp);
+    if (!otpCheck.ok) {
+      return {
+        success: false,
+        message: otpCheck.message,
+        errorKey: otpCheck.errorKey,
+        retryAfterSeconds: otpCheck.retryAfterSeconds,
+        attemptsRemaining: otpCheck.attemptsRemaining,
+      };
     }
 
     // Step 1: Create Firebase Auth user (uses client SDK functions, but called from server context)
@@ -97,7 +94,7 @@ const verifyEmailOtpAndRegisterFlow = ai.defineFlow(
     }
 
     const firebaseUser = firebaseAuthResult as User;
-    delete otpStore[email]; // Valid OTP used
+    await otpService.clearOtp(email); // Valid OTP used
 
     // Step 2: Create Firestore User Profile Document (uses SERVER versions of service functions)
     try {
@@ -111,12 +108,8 @@ const verifyEmailOtpAndRegisterFlow = ai.defineFlow(
         adminUniqueIdForResponse = adminProfileDetails.adminUniqueId; // Their own generated ID
         registrationMessage = `Admin registration successful! Your Admin ID is: ${adminUniqueIdForResponse}`;
 
-        await sendEmail({
-          to: email,
-          subject: 'Welcome to CertIntel, Admin!',
-          text: `Hello Admin,\n\nYour registration with CertIntel is complete. Your unique Admin ID is: ${adminUniqueIdForResponse}. You can share this ID with your students.\n\nRegards,\nThe CertIntel Team`,
-          html: `<p>Hello Admin,</p><p>Your registration with CertIntel is complete. Your unique Admin ID is: <strong>${adminUniqueIdForResponse}</strong>. You can share this ID with your students.</p><p>Regards,<br/>The CertIntel Team</p>`,
-        });
+        const { db } = await connectToDb();
+        await enqueueTemplatedEmail_SERVER(db, email, 'adminWelcome', { adminUniqueId: adminUniqueIdForResponse }, { visibleToUids: [firebaseUser.uid] });
 
       } else if (role === 'student') {
         if (!name) {
@@ -133,25 +126,16 @@ const verifyEmailOtpAndRegisterFlow = ai.defineFlow(
         // createUserProfileDocument_SERVER will now handle finding adminFirebaseId and creating the link request if associatedAdminUniqueId is provided.
         await createUserProfileDocument_SERVER(firebaseUser.uid, email, 'student', studentProfileCreationData);
 
-        let studentWelcomeMessage = `Hello ${userDisplayName},\n\nWelcome to CertIntel! Your registration is complete.`;
-        let studentWelcomeHtml = `<p>Hello ${userDisplayName},</p><p>Welcome to CertIntel! Your registration is complete.</p>`;
-
         if (studentProfileCreationData.associatedAdminUniqueId) {
-          studentWelcomeMessage += ` Your request to link with Teacher/Admin ID ${studentProfileCreationData.associatedAdminUniqueId} has been initiated and is pending approval.`;
-          studentWelcomeHtml += `<p>Your request to link with Teacher/Admin ID <strong>${studentProfileCreationData.associatedAdminUniqueId}</strong> has been initiated and is pending approval.</p>`;
           registrationMessage = `Student registration successful! Your request to link with Teacher ID ${studentProfileCreationData.associatedAdminUniqueId} is pending.`;
         } else {
            registrationMessage = 'Student registration successful! Welcome to CertIntel!';
         }
-        studentWelcomeMessage += `\n\nRegards,\nThe CertIntel Team`;
-        studentWelcomeHtml += `<p>Regards,<br/>The CertIntel Team</p>`;
-
-        await sendEmail({
-          to: email,
-          subject: `Welcome to CertIntel, ${userDisplayName}!`,
-          text: studentWelcomeMessage,
-          html: studentWelcomeHtml,
-        });
+        const { db } = await connectToDb();
+        await enqueueTemplatedEmail_SERVER(db, email, 'studentWelcome', {
+          name: userDisplayName,
+          pendingAdminUniqueId: studentProfileCreationData.associatedAdminUniqueId || null,
+        }, { visibleToUids: [firebaseUser.uid] });
       } else {
         // Should not happen due to Zod enum
         return { success: false, message: 'Invalid role specified.' };
@@ -0,0 +1,41 @@
+/**
+ * @fileOverview Local stand-in for the certificate extraction model.
+ *
+ * Select it with CERTIFICATE_EXTRACTION_MODEL=stub (or pass CERTIFICATE_EXTRACTION_STUB_MODEL as the
+ * flow's model) to run extraction without network access or API keys, e.g. in tests and local development.
+ * It answers every request with a fixed extraction that callers can replace.
+ */
+
+import {ai} from '@/ai/genkit';
+import type {GenerateRequest} from 'genkit';
+import {
+  EMPTY_CERTIFICATE_EXTRACTION,
+  type CertificateExtractionOutput,
+} from '@/ai/schemas/certificate-extraction-schemas';
+
+export const CERTIFICATE_EXTRACTION_STUB_MODEL = 'certintel/certificate-extraction-stub';
+
+type StubResponder = (request: GenerateRequest) => CertificateExtractionOutput;
+
+let respond: StubResponder = () => EMPTY_CERTIFICATE_EXTRACTION;
+
+// Replaces what the stub returns: a fixed extraction, or a function of the incoming request.
+export function setCertificateExtractionStubResponse(response: CertificateExtractionOutput | StubResponder): void {
+  respond = typeof response === 'function' ? response : () => response;
+}
+
+export function resetCertificateExtractionStubResponse(): void {
+  respond = () => EMPTY_CERTIFICATE_EXTRACTION;
+}
+
+export const certificateExtractionStubModel = ai.defineModel(
+  {
+    name: CERTIFICATE_EXTRACTION_STUB_MODEL,
+    label: 'CertIntel - certificate extraction stub',
+    supports: {media: true, output: ['json'], multiturn: false},
+  },
+  async request => ({
+    message: {role: 'model', content: [{text: JSON.stringify(respond(request))}]},
+    finishReason: 'stop',
+  })
+);
@@ -0,0 +1,60 @@
+import {z} from 'genkit';
+
+// Shared by the extraction flow (a 'use server' module, which may only export async functions)
+// and by the local stub model.
+
+const ConfidenceSchema = z.number().min(0).max(1);
+
+export const CertificateExtractionInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "An image of the certificate (or its first page), as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+});
+export type CertificateExtractionInput = z.infer<typeof CertificateExtractionInputSchema>;
+
+export const CertificateExtractionOutputSchema = z.object({
+  issuer: z.string().nullable().describe('Organization that issued the certificate, e.g. "Coursera" or "Stanford University".'),
+  courseTitle: z.string().nullable().describe('Name of the course, program or credential.'),
+  recipientName: z.string().nullable().describe('Full name of the person the certificate was awarded to.'),
+  issueDate: z.string().nullable().describe('Date the certificate was issued, as YYYY-MM-DD.'),
+  expiryDate: z.string().nullable().describe('Date the certificate expires, as YYYY-MM-DD, or null if it does not expire.'),
+  credentialId: z.string().nullable().describe('Credential / certificate ID or serial number printed on the certificate.'),
+  verificationUrl: z.string().nullable().describe('URL printed on the certificate for verifying it.'),
+  confidence: z.object({
+    issuer: ConfidenceSchema,
+    courseTitle: ConfidenceSchema,
+    recipientName: ConfidenceSchema,
+    issueDate: ConfidenceSchema,
+    expiryDate: ConfidenceSchema,
+    credentialId: ConfidenceSchema,
+    verificationUrl: ConfidenceSchema,
+  }).describe('How sure you are of each field, from 0 (guess or not present) to 1 (clearly legible).'),
+});
+export type CertificateExtractionOutput = z.infer<typeof CertificateExtractionOutputSchema>;
+
+export type ExtractedCertificateField = keyof CertificateExtractionOutput['confidence'];
+export const EXTRACTED_CERTIFICATE_FIELDS: ExtractedCertificateField[] = [
+  'issuer', 'courseTitle', 'recipientName', 'issueDate', 'expiryDate', 'credentialId', 'verificationUrl',
+];
+
+// Nothing found: every field null with zero confidence.
+export const EMPTY_CERTIFICATE_EXTRACTION: CertificateExtractionOutput = {
+  issuer: null,
+  courseTitle: null,
+  recipientName: null,
+  issueDate: null,
+  expiryDate: null,
+  credentialId: null,
+  verificationUrl: null,
+  confidence: {
+    issuer: 0,
+    courseTitle: 0,
+    recipientName: 0,
+    issueDate: 0,
+    expiryDate: 0,
+    credentialId: 0,
+    verificationUrl: 0,
+  },
+};
@@ -6,7 +6,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Loader2, CheckCircle, XCircle, Users, ShieldAlert, Inbox, FileText, ArrowLeft, Copy, Trash2 } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, Users, ShieldAlert, Inbox, FileText, ArrowLeft, Copy, Trash2, Mail, MailCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import type { StudentLinkRequest, UserProfile as StudentUserProfile } from '@/lib/models/user';
 import { 
@@ -17,6 +17,7 @@ import {
 } from '@/lib/services/userService';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import ClassReportCard from '@/components/admin/ClassReportCard';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -194,6 +195,14 @@ function AdminDashboardPageContent() {
               </Button>
               <h1 className="text-3xl font-bold font-headline">Admin Dashboard</h1>
           </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href="/admin/email-log"><MailCheck className="mr-2 h-4 w-4" /> Email Log</Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/admin/email-templates"><Mail className="mr-2 h-4 w-4" /> Email Templates</Link>
+            </Button>
+          </div>
         </div>
         
         {userProfile.adminUniqueId && (
@@ -296,6 +305,8 @@ function AdminDashboardPageContent() {
             </CardContent>
           </Card>
         </div>
+
+        {!isLoadingStudents && acceptedStudents.length > 0 && <ClassReportCard students={acceptedStudents} />}
       </div>
       <AlertDialog open={!!studentToRemove} onOpenChange={(open) => !open && setStudentToRemove(null)}>
         <AlertDialogContent>
@@ -0,0 +1,147 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ChevronDown, ChevronRight, Loader2, MailCheck, RefreshCw } from 'lucide-react';
+import ProtectedPage from '@/components/auth/ProtectedPage';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { EMAIL_OUTBOX_STATUSES, type EmailDeliveryLogEntry, type EmailOutboxStatus } from '@/lib/models/emailOutbox';
+
+const STATUS_BADGE: Record<EmailOutboxStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  sending: 'outline',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '-');
+
+// Delivery status of emails sent to the admin or about their students, with every attempt.
+function EmailLogContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<EmailOutboxStatus | 'all'>('all');
+  const [entries, setEntries] = useState<EmailDeliveryLogEntry[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch(`/api/admin/email-outbox${status === 'all' ? '' : `?status=${status}`}`, {
+        headers: { 'Authorization': `Bearer ${idToken}` },
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to load the delivery log.');
+      setEntries(result.entries);
+    } catch (err: any) {
+      toast({ title: 'Error Loading Delivery Log', description: err.message, variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, status, toast]);
+
+  useEffect(() => { loadEntries(); }, [loadEntries]);
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:px-6 lg:px-8">
+      <div className="mb-8 flex items-center gap-3">
+        <Button asChild variant="outline" size="icon" aria-label="Back to Admin Dashboard">
+          <Link href="/admin/dashboard"><ArrowLeft className="h-5 w-5" /></Link>
+        </Button>
+        <h1 className="text-3xl font-bold font-headline">Email Delivery Log</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><MailCheck className="text-primary" /> Outbox</CardTitle>
+          <CardDescription>Emails are queued and sent in the background. Failed attempts are retried with increasing delays before a message is marked as failed.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Select value={status} onValueChange={(value) => setStatus(value as EmailOutboxStatus | 'all')}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {EMAIL_OUTBOX_STATUSES.map(s => <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={loadEntries} disabled={isLoading} aria-label="Refresh">
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          {isLoading && entries.length === 0 ? (
+            <div className="flex justify-center items-center py-6"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-muted-foreground italic">No emails yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Queued</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Sent / next try</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <Fragment key={entry.id}>
+                    <TableRow className="cursor-pointer" onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}>
+                      <TableCell>{expandedId === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}</TableCell>
+                      <TableCell className="text-xs">{formatTime(entry.createdAt)}</TableCell>
+                      <TableCell>{entry.to}</TableCell>
+                      <TableCell className="max-w-xs truncate">{entry.subject}</TableCell>
+                      <TableCell><Badge variant={STATUS_BADGE[entry.status]} className="capitalize">{entry.status}</Badge></TableCell>
+                      <TableCell>{entry.attempts}/{entry.maxAttempts}</TableCell>
+                      <TableCell className="text-xs">{formatTime(entry.sentAt ?? entry.nextAttemptAt)}</TableCell>
+                    </TableRow>
+                    {expandedId === entry.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={6} className="text-xs">
+                          {entry.attemptLog.length === 0 ? (
+                            <p className="text-muted-foreground italic">No delivery attempts yet.</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {entry.attemptLog.map((attempt, index) => (
+                                <li key={index}>
+                                  <span className="font-medium">{formatTime(attempt.at)}</span> &middot; {attempt.transport} &middot;{' '}
+                                  <span className={attempt.success ? 'text-green-600 dark:text-green-400' : 'text-destructive'}>{attempt.message}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function EmailLogPage() {
+  return (
+    <ProtectedPage>
+      <EmailLogContent />
+    </ProtectedPage>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Mail } from 'lucide-react';
+import ProtectedPage from '@/components/auth/ProtectedPage';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import type { EmailTemplateSummary, RenderedEmail } from '@/lib/email/templates/registry';
+import type { EmailLocale, EmailTemplateName } from '@/lib/email/templates/types';
+
+const LOCALE_LABELS: Record<EmailLocale, string> = { en: 'English', hi: 'Hindi' };
+
+// Renders each registered email with sample data, as recipients would see it. Nothing is sent from here.
+function EmailTemplatesContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [locales, setLocales] = useState<EmailLocale[]>([]);
+  const [template, setTemplate] = useState<EmailTemplateName | null>(null);
+  const [locale, setLocale] = useState<EmailLocale>('en');
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    (async () => {
+      try {
+        const idToken = await user.getIdToken();
+        const response = await fetch('/api/admin/email-templates', { headers: { 'Authorization': `Bearer ${idToken}` } });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.message || 'Failed to load email templates.');
+        setTemplates(result.templates);
+        setLocales(result.locales);
+        setLocale(result.defaultLocale);
+        setTemplate(result.templates[0]?.name ?? null);
+      } catch (err: any) {
+        toast({ title: 'Error Loading Templates', description: err.message, variant: 'destructive' });
+      }
+    })();
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (!user || !template) return;
+    let cancelled = false;
+    setIsLoadingPreview(true);
+    (async () => {
+      try {
+        const idToken = await user.getIdToken();
+        const response = await fetch(`/api/admin/email-templates/preview?template=${template}&locale=${locale}`, {
+          headers: { 'Authorization': `Bearer ${idToken}` },
+        });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.message || 'Failed to render the preview.');
+        if (!cancelled) setPreview(result);
+      } catch (err: any) {
+        if (!cancelled) toast({ title: 'Preview Failed', description: err.message, variant: 'destructive' });
+      } finally {
+        if (!cancelled) setIsLoadingPreview(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [user, template, locale, toast]);
+
+  const selected = templates.find(t => t.name === template);
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:px-6 lg:px-8">
+      <div className="mb-8 flex items-center gap-3">
+        <Button asChild variant="outline" size="icon" aria-label="Back to Admin Dashboard">
+          <Link href="/admin/dashboard"><ArrowLeft className="h-5 w-5" /></Link>
+        </Button>
+        <h1 className="text-3xl font-bold font-headline">Email Templates</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Mail className="text-primary" /> Preview</CardTitle>
+          <CardDescription>Every email CertIntel sends, rendered with sample data. Locales without a translation fall back to English.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Template</Label>
+              <Select value={template ?? undefined} onValueChange={(value) => setTemplate(value as EmailTemplateName)}>
+                <SelectTrigger className="w-64"><SelectValue placeholder="Choose a template" /></SelectTrigger>
+                <SelectContent>
+                  {templates.map(t => <SelectItem key={t.name} value={t.name}>{t.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Locale</Label>
+              <Select value={locale} onValueChange={(value) => setLocale(value as EmailLocale)}>
+                <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {locales.map(l => (
+                    <SelectItem key={l} value={l}>
+                      {LOCALE_LABELS[l]}{selected && !selected.locales.includes(l) ? ' (falls back)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isLoadingPreview && <Loader2 className="mb-2 h-5 w-5 animate-spin text-muted-foreground" />}
+          </div>
+          {selected && <p className="text-sm text-muted-foreground">{selected.description}</p>}
+
+          {preview && (
+            <>
+              <p className="text-sm"><span className="font-medium">Subject:</span> {preview.subject}</p>
+              <Tabs defaultValue="html">
+                <TabsList>
+                  <TabsTrigger value="html">HTML</TabsTrigger>
+                  <TabsTrigger value="text">Plain text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html">
+                  <iframe title="Email HTML preview" srcDoc={preview.html} sandbox="" className="h-[600px] w-full rounded-md border bg-white" />
+                </TabsContent>
+                <TabsContent value="text">
+                  <pre className="whitespace-pre-wrap rounded-md border bg-muted/30 p-4 text-sm">{preview.text}</pre>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function EmailTemplatesPage() {
+  return (
+    <ProtectedPage>
+      <EmailTemplatesContent />
+    </ProtectedPage>
+  );
+}
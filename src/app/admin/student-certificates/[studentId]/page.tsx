@@ -3,12 +3,15 @@
 
 import ProtectedPage from '@/components/auth/ProtectedPage';
 import ImageGrid from '@/components/home/ImageGrid';
-import type { UserImage } from '@/components/home/ImageGrid';
+import UploadFAB from '@/components/home/UploadFAB';
+import { isExpiringSoon, type Certificate, type CertificateWithFiles } from '@/lib/models/certificate';
+import ExpiringSoonToggle from '@/components/home/ExpiringSoonToggle';
+import ExportCertificatesMenu from '@/components/home/ExportCertificatesMenu';
 import { useAuth } from '@/hooks/useAuth';
 import { useEffect, useState, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter, useParams } from 'next/navigation';
-import { Loader2, ArrowLeft, User as UserIcon, ShieldAlert, FileWarning } from 'lucide-react';
+import { Loader2, ArrowLeft, User as UserIcon, ShieldAlert, FileWarning, UserX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { getUserProfile } from '@/lib/services/userService'; 
 import type { UserProfile as StudentUserProfileType } from '@/lib/models/user';
@@ -21,16 +24,22 @@ function StudentCertificatesPageContent() {
   const studentId = params.studentId as string;
   
   const { toast } = useToast();
-  const [images, setImages] = useState<UserImage[]>([]);
+  const [certificates, setCertificates] = useState<CertificateWithFiles[]>([]);
   const [isLoadingImages, setIsLoadingImages] = useState(true);
   const [studentProfile, setStudentProfile] = useState<StudentUserProfileType | null>(null); // Student's profile
   const [error, setError] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [showExpiringSoon, setShowExpiringSoon] = useState(false);
 
   const triggerRefresh = useCallback(() => {
     setRefreshKey(prevKey => prevKey + 1);
   }, []);
 
+  // A saved review only changes the record itself, so patch it in place instead of refetching everything.
+  const handleCertificateUpdated = useCallback((updated: Certificate) => {
+    setCertificates(prev => prev.map(c => (c.id === updated.id ? { ...c, ...updated } : c)));
+  }, []);
+
   // Fetch student's profile details first
   useEffect(() => {
     if (studentId && adminUserProfile?.role === 'admin') { // Only fetch if admin is viewing
@@ -55,7 +64,7 @@ function StudentCertificatesPageContent() {
   const fetchStudentImages = useCallback(async () => {
     if (!user || adminUserProfile?.role !== 'admin' || !studentId) {
       setIsLoadingImages(false);
-      setImages([]);
+      setCertificates([]);
       return;
     }
     // Student profile might still be loading here, or failed to load.
@@ -69,7 +78,7 @@ function StudentCertificatesPageContent() {
         throw new Error("Authentication token not available.");
       }
 
-      const fetchUrl = `/api/user-images?userId=${studentId}&adminRequesterId=${user.uid}`; 
+      const fetchUrl = `/api/certificates?userId=${studentId}`; 
       const response = await fetch(fetchUrl, {
         headers: {
           'Authorization': `Bearer ${idToken}`
@@ -80,12 +89,12 @@ function StudentCertificatesPageContent() {
         const errorData = await response.json().catch(() => ({ message: `Error ${response.status}` }));
         throw new Error(errorData.message || `Failed to load student certificates. Server responded with ${response.status}`);
       }
-      const data: UserImage[] = await response.json();
-      setImages(data);
+      const data: CertificateWithFiles[] = await response.json();
+      setCertificates(data);
     } catch (err: any) {
       setError(err.message);
       toast({ title: "Error Loading Certificates", description: err.message, variant: "destructive" });
-      setImages([]);
+      setCertificates([]);
     } finally {
       setIsLoadingImages(false);
     }
@@ -122,6 +131,8 @@ function StudentCertificatesPageContent() {
     );
   }
   
+  const nameMismatchCount = certificates.filter(c => c.nameMatch?.mismatch).length;
+  const expiringSoonCertificates = certificates.filter(c => isExpiringSoon(c));
   const studentNameDisplay = studentProfile?.displayName || studentProfile?.email?.split('@')[0] || (studentId ? "Student" : "Loading student...");
 
   return (
@@ -140,6 +151,12 @@ function StudentCertificatesPageContent() {
                 {!studentProfile && !isLoadingImages && !error && studentId && <p className="text-sm text-muted-foreground">Loading student details...</p>}
             </div>
         </div>
+        {!error && certificates.length > 0 && studentId && (
+          <div className="flex items-center gap-2">
+            <ExpiringSoonToggle count={expiringSoonCertificates.length} active={showExpiringSoon} onToggle={() => setShowExpiringSoon(v => !v)} />
+            <ExportCertificatesMenu ownerUserId={studentId} />
+          </div>
+        )}
       </div>
 
       {error && !isLoadingImages && (
@@ -151,14 +168,26 @@ function StudentCertificatesPageContent() {
         </div>
       )}
 
+      {!error && !isLoadingImages && nameMismatchCount > 0 && (
+        <div className="mb-6 flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          <UserX className="h-4 w-4 shrink-0" />
+          {nameMismatchCount} certificate{nameMismatchCount === 1 ? ' is' : 's are'} issued to a name that does not match {studentNameDisplay}&apos;s profile.
+        </div>
+      )}
+
       {!error && ( // Render ImageGrid even if studentProfile is still loading, API will handle auth
         <ImageGrid
-            images={images}
+            certificates={showExpiringSoon ? expiringSoonCertificates : certificates}
             isLoading={isLoadingImages} // ImageGrid loading is tied to image fetching
             error={null} // Error is handled above
-            onImageDeleted={triggerRefresh} 
+            onCertificateDeleted={triggerRefresh} 
+            onCertificateUpdated={handleCertificateUpdated}
             currentUserId={studentId} 
+            showNameMatch
         />
+      )}
+      {studentProfile && (
+        <UploadFAB onUploadSuccess={triggerRefresh} targetUserId={studentId} targetUserName={studentNameDisplay} />
       )}
        {!error && !studentProfile && !isLoadingImages && !studentId && ( // Case where studentId itself is missing
          <div className="flex flex-col items-center justify-center text-center py-12 text-muted-foreground">
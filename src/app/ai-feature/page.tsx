@@ -17,6 +17,7 @@ import SearchWithSuggestions from '@/components/common/SearchWithSuggestions';
 import type { SearchableItem } from '@/components/common/SearchWithSuggestions';
 import { TooltipProvider, Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import type { UserImage } from '@/components/home/ImageGrid';
+import { getImageSrc } from '@/lib/imageUrls';
 
 
 // --- TypeScript Interfaces ---
@@ -105,7 +106,8 @@ function AiFeaturePageContent() {
         const imagesResponse = await fetch(`/api/user-images?userId=${userId}`, { headers: { 'Authorization': `Bearer ${idToken}`, 'ngrok-skip-browser-warning': 'true' }});
         if (!imagesResponse.ok) throw new Error('Failed to fetch user images metadata.');
         const imagesData: UserImage[] = await imagesResponse.json();
-        setAllUserImageMetas(imagesData);
+        // Original PDFs are kept for download only; OCR runs on their rendered page images.
+        setAllUserImageMetas(imagesData.filter(img => !img.isPdfOriginal));
         console.log("AI Feature: Fetched all user image metas:", imagesData.length);
 
         const latestResultsResponse = await fetch(`${flaskServerBaseUrl}/api/latest-processed-results?userId=${userId}`, {
@@ -634,7 +636,7 @@ function AiFeaturePageContent() {
                       <div className="relative w-full sm:w-24 h-32 sm:h-24 rounded-md overflow-hidden shrink-0 border">
                         {img.file_id !== 'N/A' ? (
                           <NextImage
-                            src={`/api/images/${img.file_id}`}
+                            src={getImageSrc({ fileId: img.file_id, signedUrl: allUserImageMetas.find(m => m.fileId === img.file_id)?.signedUrl })}
                             alt={`Certificate: ${img.original_filename}`}
                             fill sizes="(max-width: 640px) 100vw, 96px" className="object-contain" data-ai-hint="certificate needs naming"
                           />
@@ -705,8 +707,8 @@ function AiFeaturePageContent() {
                               <Tooltip key={`processed-${fileId}`}>
                                 <TooltipTrigger asChild>
                                   <div className="aspect-[4/3] relative rounded-md overflow-hidden border shadow-sm cursor-help">
-                                    <NextImage src={`/api/images/${fileId}`} alt={`Processed certificate image ${fileId}`} fill sizes="(max-width: 640px) 50vw, (max-width: 768px) 33vw, (max-width: 1024px) 25vw, 20vw" className="object-contain" data-ai-hint="certificate image" />
-                                    <a href={`/api/images/${fileId}`} target="_blank" rel="noopener noreferrer" className="absolute top-1 right-1 bg-black/50 text-white p-1 rounded-full hover:bg-black/70 transition-colors" title="Open image" onClick={e=>e.stopPropagation()}><ExternalLink className="w-3 h-3"/></a>
+                                    <NextImage src={getImageSrc({ fileId, signedUrl: imgMeta?.signedUrl })} alt={`Processed certificate image ${fileId}`} fill sizes="(max-width: 640px) 50vw, (max-width: 768px) 33vw, (max-width: 1024px) 25vw, 20vw" className="object-contain" data-ai-hint="certificate image" />
+                                    <a href={getImageSrc({ fileId, signedUrl: imgMeta?.signedUrl })} target="_blank" rel="noopener noreferrer" className="absolute top-1 right-1 bg-black/50 text-white p-1 rounded-full hover:bg-black/70 transition-colors" title="Open image" onClick={e=>e.stopPropagation()}><ExternalLink className="w-3 h-3"/></a>
                                   </div>
                                 </TooltipTrigger>
                                 <TooltipContent><p>{imgMeta?.originalName || fileId}</p></TooltipContent>
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { listEmailDeliveryLog_SERVER } from '@/lib/email/outbox.server';
+import { EMAIL_OUTBOX_STATUSES, type EmailOutboxStatus } from '@/lib/models/emailOutbox';
+
+// GET ?status=pending|sending|sent|failed: delivery log of queued emails sent to the admin or about their students, newest first.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/admin/email-outbox (Req ID: ${reqId}): GET request received.`);
+
+  const auth = await requireAuth(request, { access: ['admin'], logPrefix: `API /api/admin/email-outbox (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  const status = request.nextUrl.searchParams.get('status') || null;
+  if (status && !EMAIL_OUTBOX_STATUSES.includes(status as EmailOutboxStatus)) {
+    return NextResponse.json({ message: `'status' must be one of: ${EMAIL_OUTBOX_STATUSES.join(', ')}.`, errorKey: 'INVALID_STATUS' }, { status: 400 });
+  }
+
+  try {
+    const { db } = await connectToDb();
+    const entries = await listEmailDeliveryLog_SERVER(db, auth.caller.uid, { status: status as EmailOutboxStatus | null });
+    return NextResponse.json({ entries }, { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/admin/email-outbox (Req ID: ${reqId}): Error loading the delivery log. Message: ${error.message}`);
+    return NextResponse.json({ message: `Error loading the delivery log: ${error.message}`, errorKey: 'EMAIL_LOG_FAILED' }, { status: 500 });
+  }
+}
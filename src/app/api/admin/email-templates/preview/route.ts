@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { isEmailTemplateName, renderEmailTemplateSample } from '@/lib/email/templates/registry';
+
+// GET ?template=<name>&locale=<code>: renders a template with its sample data as { subject, html, text, locale }.
+// Nothing is sent; `locale` falls back like real emails do, and the response reports the locale actually used.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  const auth = await requireAuth(request, { access: ['admin'], logPrefix: `API /api/admin/email-templates/preview (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  const template = request.nextUrl.searchParams.get('template');
+  if (!isEmailTemplateName(template)) {
+    return NextResponse.json({ message: `Unknown email template '${template}'.`, errorKey: 'UNKNOWN_EMAIL_TEMPLATE' }, { status: 404 });
+  }
+  return NextResponse.json(renderEmailTemplateSample(template, request.nextUrl.searchParams.get('locale')), {
+    status: 200,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { listEmailTemplates, resolveEmailLocale } from '@/lib/email/templates/registry';
+import { EMAIL_LOCALES } from '@/lib/email/templates/types';
+
+// GET: the registered email templates and the locales each one is written in, for the admin preview page.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  const auth = await requireAuth(request, { access: ['admin'], logPrefix: `API /api/admin/email-templates (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({
+    templates: listEmailTemplates(),
+    locales: EMAIL_LOCALES,
+    defaultLocale: resolveEmailLocale(null),
+  }, { status: 200 });
+}
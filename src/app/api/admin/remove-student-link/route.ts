@@ -1,9 +1,11 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
-import { getAdminAuth, getAdminFirestore } from '@/lib/firebase/adminConfig';
+import { getAdminFirestore } from '@/lib/firebase/adminConfig';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
 import { FieldValue } from 'firebase-admin/firestore';
 import type { UserProfile } from '@/lib/models/user';
-import { sendEmail } from '@/lib/emailUtils';
+import { connectToDb } from '@/lib/mongodb';
+import { notifyUser_SERVER } from '@/lib/services/notificationService.server';
 
 const USERS_COLLECTION = 'users';
 const STUDENT_LINK_REQUESTS_COLLECTION = 'studentLinkRequests';
@@ -13,19 +15,13 @@ export async function POST(request: NextRequest) {
   console.log(`API /api/admin/remove-student-link (Req ID: ${reqId}): POST request received.`);
 
   try {
-    const adminAuth = getAdminAuth();
+    // 1. Authenticate the request and authorize the requester as an admin
+    const auth = await requireAuth(request, { access: ['admin'], logPrefix: `API (Req ID: ${reqId})` });
+    if (!auth.ok) return auth.response;
+    const requesterUid = auth.caller.uid;
+    const adminProfileData = auth.caller.profile;
     const adminFirestore = getAdminFirestore();
-
-    // 1. Authenticate the request
-    const authorizationHeader = request.headers.get('Authorization');
-    if (!authorizationHeader || !authorizationHeader.startsWith('Bearer ')) {
-      console.warn(`API (Req ID: ${reqId}): AUTH FAIL - Missing or invalid Authorization header.`);
-      return NextResponse.json({ message: 'Unauthorized: Missing or invalid ID token.' }, { status: 401 });
-    }
-    const idToken = authorizationHeader.split('Bearer ')[1];
-    const decodedToken = await adminAuth.verifyIdToken(idToken);
-    const requesterUid = decodedToken.uid;
-    console.log(`API (Req ID: ${reqId}): Requester UID (from token): ${requesterUid}`);
+    console.log(`API (Req ID: ${reqId}): Requester ${requesterUid} VERIFIED as admin.`);
 
     // 2. Parse request body
     const { studentToRemoveId } = await request.json();
@@ -35,16 +31,7 @@ export async function POST(request: NextRequest) {
     }
     console.log(`API (Req ID: ${reqId}): Attempting to remove student ${studentToRemoveId} by admin ${requesterUid}`);
 
-    // 3. Authorize the requester as an admin
-    const adminProfileSnap = await adminFirestore.collection(USERS_COLLECTION).doc(requesterUid).get();
-    if (!adminProfileSnap.exists || adminProfileSnap.data()?.role !== 'admin') {
-      console.warn(`API (Req ID: ${reqId}): AUTH FAIL - Requester ${requesterUid} is not an admin.`);
-      return NextResponse.json({ message: 'Forbidden: You are not authorized to perform this action.' }, { status: 403 });
-    }
-    const adminProfileData = adminProfileSnap.data() as UserProfile;
-    console.log(`API (Req ID: ${reqId}): Requester ${requesterUid} VERIFIED as admin.`);
-
-    // 4. Get the student's profile to verify the link and get their email
+    // 3. Get the student's profile to verify the link and get their email
     const studentDocRef = adminFirestore.collection(USERS_COLLECTION).doc(studentToRemoveId);
     const studentProfileSnap = await studentDocRef.get();
     if (!studentProfileSnap.exists) {
@@ -59,7 +46,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: 'Forbidden: This student is not linked to you.' }, { status: 403 });
     }
 
-    // 5. Perform the batched write with Admin SDK privileges
+    // 4. Perform the batched write with Admin SDK privileges
     const batch = adminFirestore.batch();
 
     // Update the student's profile
@@ -89,18 +76,22 @@ export async function POST(request: NextRequest) {
     await batch.commit();
     console.log(`API (Req ID: ${reqId}): Batch commit SUCCESS. Student ${studentToRemoveId} unlinked from admin ${requesterUid}.`);
 
-    // 6. Send notification email (optional, but good UX)
-    if (studentProfileData.email) {
-      const studentName = studentProfileData.displayName || 'Student';
-      const adminName = adminProfileData.displayName || 'your admin';
-      await sendEmail({
-        to: studentProfileData.email,
-        subject: `Update on your CertIntel Admin Link`,
-        text: `Hello ${studentName},\n\nYour link with ${adminName} has been removed by them. You can now link with another admin from your profile settings if you wish.\n\nRegards,\nThe CertIntel Team`,
-        html: `<p>Hello ${studentName},</p><p>Your link with <strong>${adminName}</strong> has been removed by them. You can now link with another admin from your profile settings if you wish.</p><p>Regards,<br/>The CertIntel Team</p>`,
-      });
-      console.log(`API (Req ID: ${reqId}): Notification email sent to student ${studentProfileData.email}.`);
-    }
+    // 5. Notify the student in-app and by email (as their preferences allow; the email outbox delivers and retries)
+    const { db } = await connectToDb();
+    await notifyUser_SERVER(db, {
+      recipientUid: studentToRemoveId,
+      recipientProfile: studentProfileData,
+      type: 'linkRemoved',
+      title: 'Admin link removed',
+      body: `${adminProfileData.displayName || 'Your admin'} removed the link with you. You can link with another admin from your profile settings.`,
+      link: '/profile-settings#teacher-link-management',
+      email: {
+        template: 'studentLinkRemoved',
+        params: { studentName: studentProfileData.displayName || 'Student', adminName: adminProfileData.displayName || null },
+        visibleToUids: [studentToRemoveId, requesterUid],
+      },
+      reqId,
+    });
 
     return NextResponse.json({ success: true, message: 'Student unlinked successfully.' }, { status: 200 });
 
@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import {
+  buildClassReport_SERVER,
+  classReportToCsv,
+  classReportToXlsx,
+  validateClassReportRequest,
+} from '@/lib/export/classReport.server';
+import type { UserProfile } from '@/lib/models/user';
+
+// POST { studentIds, from, to, issuers, format }: per-student certificate report for the calling admin's linked students.
+// `studentIds` comes from the dashboard's list of accepted students; every one is re-checked against the caller here.
+// 'json' returns the report for the preview; 'csv' and 'xlsx' return it as a download.
+export async function POST(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/admin/reports/class (Req ID: ${reqId}): POST request received.`);
+
+  const auth = await requireAuth(request, { access: ['admin'], logPrefix: `API /api/admin/reports/class (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const adminUid = auth.caller.uid;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Request body must be valid JSON.', errorKey: 'INVALID_BODY' }, { status: 400 });
+  }
+  const validation = validateClassReportRequest(body);
+  if (!validation.ok) {
+    return NextResponse.json({ message: validation.message, errorKey: validation.errorKey }, { status: 400 });
+  }
+  const { studentIds, filters, format } = validation.value;
+
+  try {
+    const profiles = await Promise.all(studentIds.map(id => getUserProfile_SERVER(id)));
+    const students = profiles.filter((p): p is UserProfile =>
+      !!p && p.role === 'student' && p.associatedAdminFirebaseId === adminUid && p.linkRequestStatus === 'accepted'
+    );
+    if (students.length !== studentIds.length) {
+      console.warn(`API /api/admin/reports/class (Req ID: ${reqId}): Admin ${adminUid} requested ${studentIds.length - students.length} student(s) not linked to them.`);
+      return NextResponse.json({ message: 'Forbidden: Some of these students are not linked to you.', errorKey: 'STUDENTS_FORBIDDEN' }, { status: 403 });
+    }
+
+    const { db } = await connectToDb();
+    const report = await buildClassReport_SERVER(db, students, filters);
+    console.log(`API /api/admin/reports/class (Req ID: ${reqId}): Built ${format} report of ${report.rows.length} student(s) for admin ${adminUid}.`);
+
+    const fileName = `class-report-${report.generatedAt.slice(0, 10)}`;
+    if (format === 'csv') {
+      return new NextResponse(classReportToCsv(report), {
+        status: 200,
+        headers: { 'Content-Type': 'text/csv; charset=utf-8', 'Content-Disposition': `attachment; filename="${fileName}.csv"`, 'Cache-Control': 'private, no-store' },
+      });
+    }
+    if (format === 'xlsx') {
+      return new NextResponse(await classReportToXlsx(report), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${fileName}.xlsx"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+    return NextResponse.json(report, { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/admin/reports/class (Req ID: ${reqId}): Error building report. Name: ${error.name}, Message: ${error.message}`);
+    return NextResponse.json({ message: `Error building report: ${error.message}`, errorKey: 'REPORT_FAILED' }, { status: 500 });
+  }
+}
@@ -1,9 +1,11 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
-import { getAdminAuth, getAdminFirestore } from '@/lib/firebase/adminConfig';
+import { getAdminFirestore } from '@/lib/firebase/adminConfig';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
 import { FieldValue } from 'firebase-admin/firestore';
-import type { StudentLinkRequest, UserProfile } from '@/lib/models/user';
-import { sendEmail } from '@/lib/emailUtils';
+import type { StudentLinkRequest } from '@/lib/models/user';
+import { connectToDb } from '@/lib/mongodb';
+import { notifyUser_SERVER } from '@/lib/services/notificationService.server';
 
 const USERS_COLLECTION = 'users';
 const STUDENT_LINK_REQUESTS_COLLECTION = 'studentLinkRequests';
@@ -13,18 +15,11 @@ export async function POST(request: NextRequest) {
   console.log(`API /api/admin/resolve-link-request (Req ID: ${reqId}): POST request received.`);
 
   try {
-    const adminAuth = getAdminAuth();
+    // 1. Authenticate the request (admins only)
+    const auth = await requireAuth(request, { access: ['admin'], logPrefix: `API (Req ID: ${reqId})` });
+    if (!auth.ok) return auth.response;
+    const requesterUid = auth.caller.uid;
     const adminFirestore = getAdminFirestore();
-
-    // 1. Authenticate the request
-    const authorizationHeader = request.headers.get('Authorization');
-    if (!authorizationHeader || !authorizationHeader.startsWith('Bearer ')) {
-      console.warn(`API (Req ID: ${reqId}): AUTH FAIL - Missing or invalid Authorization header.`);
-      return NextResponse.json({ message: 'Unauthorized: Missing or invalid ID token.' }, { status: 401 });
-    }
-    const idToken = authorizationHeader.split('Bearer ')[1];
-    const decodedToken = await adminAuth.verifyIdToken(idToken);
-    const requesterUid = decodedToken.uid;
     console.log(`API (Req ID: ${reqId}): Requester UID (from token): ${requesterUid}`);
 
     // 2. Parse request body
@@ -78,31 +73,27 @@ export async function POST(request: NextRequest) {
     await batch.commit();
     console.log(`API (Req ID: ${reqId}): Batch commit SUCCESS. Request ${requestId} resolved to ${newStatus}.`);
 
-    // 5. Send notification email
+    // 5. Notify the student in-app and by email (as their preferences allow; the email outbox delivers and retries)
     const studentName = requestData.studentName || requestData.studentEmail.split('@')[0];
-    let emailSubject = '';
-    let emailText = '';
-    let emailHtml = '';
-
-    if (newStatus === 'accepted') {
-      emailSubject = 'Your Link Request to CertIntel Admin Was Approved!';
-      emailText = `Hello ${studentName},\n\nYour request to link with the CertIntel admin (${requestData.adminUniqueIdTargeted}) has been approved. You are now linked.\n\nRegards,\nThe CertIntel Team`;
-      emailHtml = `<p>Hello ${studentName},</p><p>Your request to link with the CertIntel admin (ID: <strong>${requestData.adminUniqueIdTargeted}</strong>) has been <strong>approved</strong>. You are now linked.</p><p>Regards,<br/>The CertIntel Team</p>`;
-    } else { // rejected
-      emailSubject = 'Update on Your CertIntel Admin Link Request';
-      emailText = `Hello ${studentName},\n\nUnfortunately, your request to link with the CertIntel admin (${requestData.adminUniqueIdTargeted}) was not approved at this time.\n\nIf you believe this is an error, please contact your admin or try requesting again.\n\nRegards,\nThe CertIntel Team`;
-      emailHtml = `<p>Hello ${studentName},</p><p>Unfortunately, your request to link with the CertIntel admin (ID: <strong>${requestData.adminUniqueIdTargeted}</strong>) was <strong>not approved</strong> at this time.</p><p>If you believe this is an error, please contact your admin or try requesting again.</p><p>Regards,<br/>The CertIntel Team</p>`;
-    }
 
-     if (requestData.studentEmail && emailSubject) {
-      await sendEmail({
+    const { db } = await connectToDb();
+    const accepted = newStatus === 'accepted';
+    await notifyUser_SERVER(db, {
+      recipientUid: requestData.studentUserId,
+      type: 'linkRequestDecision',
+      title: accepted ? 'Link request approved' : 'Link request not approved',
+      body: accepted
+        ? `You are now linked with the admin ${requestData.adminUniqueIdTargeted}.`
+        : `Your request to link with the admin ${requestData.adminUniqueIdTargeted} was not approved.`,
+      link: '/profile-settings#teacher-link-management',
+      email: {
+        template: accepted ? 'linkRequestAccepted' : 'linkRequestRejected',
+        params: { studentName, adminUniqueId: requestData.adminUniqueIdTargeted },
         to: requestData.studentEmail,
-        subject: emailSubject,
-        text: emailText,
-        html: emailHtml,
-      });
-      console.log(`API (Req ID: ${reqId}): Notification email sent to student ${requestData.studentEmail}.`);
-    }
+        visibleToUids: [requestData.studentUserId, requesterUid],
+      },
+      reqId,
+    });
 
     return NextResponse.json({ success: true, message: `Request ${newStatus} successfully.` }, { status: 200 });
 
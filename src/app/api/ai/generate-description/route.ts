@@ -6,6 +6,7 @@ import {
   type GenerateImageDescriptionOutput,
 } from '@/ai/flows/generate-image-description';
 import {z} from 'zod';
+import {requireAuth} from '@/lib/auth/apiAuth.server';
 
 // Define the expected request body schema
 const RequestBodySchema = z.object({
@@ -17,6 +18,9 @@ const RequestBodySchema = z.object({
 });
 
 export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req, {logPrefix: 'API /api/ai/generate-description'});
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await req.json();
     const parsedBody = RequestBodySchema.safeParse(body);
@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getAdminAuth } from '@/lib/firebase/adminConfig';
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import { SESSION_COOKIE_MAX_AGE_SECONDS, SESSION_COOKIE_NAME } from '@/lib/auth/accessRules';
+
+// POST: exchange a fresh Firebase ID token for an httpOnly session cookie (used by src/middleware.ts).
+export async function POST(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/auth/session (Req ID: ${reqId}): POST request received.`);
+
+  let idToken: string | undefined;
+  try {
+    ({ idToken } = await request.json());
+  } catch {
+    idToken = undefined;
+  }
+  if (!idToken) {
+    return NextResponse.json({ message: 'idToken is required.', errorKey: 'MISSING_ID_TOKEN' }, { status: 400 });
+  }
+
+  try {
+    const adminAuth = getAdminAuth();
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const sessionCookie = await adminAuth.createSessionCookie(idToken, { expiresIn: SESSION_COOKIE_MAX_AGE_SECONDS * 1000 });
+    console.log(`API /api/auth/session (Req ID: ${reqId}): Session cookie created for UID: ${decodedToken.uid}`);
+
+    const response = NextResponse.json({ success: true }, { status: 200 });
+    response.cookies.set(SESSION_COOKIE_NAME, sessionCookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_COOKIE_MAX_AGE_SECONDS,
+    });
+    return response;
+  } catch (error: any) {
+    console.error(`API /api/auth/session (Req ID: ${reqId}): Failed to create session cookie:`, { message: error.message, code: error.code });
+    return NextResponse.json({ message: `Unauthorized: Could not create session. Details: ${error.message}`, errorKey: 'SESSION_CREATE_FAILED' }, { status: 401 });
+  }
+}
+
+// GET: resolve the current session cookie to { uid, role }. Called by the middleware, which runs on
+// the Edge runtime and cannot use the Firebase Admin SDK itself.
+export async function GET(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    return NextResponse.json({ message: 'No session.', errorKey: 'MISSING_SESSION' }, { status: 401 });
+  }
+
+  try {
+    const decodedClaims = await getAdminAuth().verifySessionCookie(sessionCookie, true);
+    const profile = await getUserProfile_SERVER(decodedClaims.uid);
+    return NextResponse.json({ uid: decodedClaims.uid, role: profile?.role ?? null }, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    console.warn(`API /api/auth/session: Session cookie rejected:`, { message: error.message, code: error.code });
+    return NextResponse.json({ message: 'Session is invalid or has expired.', errorKey: 'INVALID_SESSION' }, { status: 401 });
+  }
+}
+
+// DELETE: clear the session cookie on logout.
+export async function DELETE() {
+  const response = NextResponse.json({ success: true }, { status: 200 });
+  response.cookies.set(SESSION_COOKIE_NAME, '', { httpOnly: true, path: '/', maxAge: 0 });
+  return response;
+}
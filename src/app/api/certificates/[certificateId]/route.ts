@@ -0,0 +1,146 @@
+
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth, type AuthenticatedCaller } from '@/lib/auth/apiAuth.server';
+import {
+  deleteCertificate_SERVER,
+  filesBelongToUser_SERVER,
+  getCertificate_SERVER,
+  resolveCertificateAccess_SERVER,
+  toCertificate,
+  updateCertificate_SERVER,
+  validateCertificateInput,
+  type CertificateAccessRole,
+  type CertificateDocument,
+} from '@/lib/services/certificateService.server';
+import { affectsVerification, scheduleCredentialVerification_SERVER } from '@/lib/services/credentialVerification.server';
+import { deleteStoredFile_SERVER, resolveDeleteRole_SERVER } from '@/lib/uploads/deleteFile.server';
+
+type LoadResult =
+  | { ok: true; certificate: CertificateDocument; role: CertificateAccessRole }
+  | { ok: false; response: NextResponse };
+
+// Loads the certificate and checks that the caller is its owner or the owner's linked admin.
+const loadAccessibleCertificate = async (certificateId: string, caller: AuthenticatedCaller, reqId: string): Promise<LoadResult> => {
+  const { db } = await connectToDb();
+  const certificate = await getCertificate_SERVER(db, certificateId);
+  if (!certificate) {
+    return { ok: false, response: NextResponse.json({ message: 'Certificate not found.', errorKey: 'CERTIFICATE_NOT_FOUND' }, { status: 404 }) };
+  }
+  const role = await resolveCertificateAccess_SERVER(caller, certificate.userId);
+  if (!role) {
+    console.warn(`API /api/certificates/[certificateId] (Req ID: ${reqId}): Caller ${caller.uid} denied access to certificate ${certificateId} of ${certificate.userId}.`);
+    return { ok: false, response: NextResponse.json({ message: 'Forbidden: You do not have access to this certificate.', errorKey: 'CERTIFICATE_FORBIDDEN' }, { status: 403 }) };
+  }
+  return { ok: true, certificate, role };
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { certificateId: string } }
+) {
+  const { certificateId } = params;
+  const reqId = Math.random().toString(36).substring(2, 9);
+  const auth = await requireAuth(request, { logPrefix: `API /api/certificates/[certificateId] (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const loaded = await loadAccessibleCertificate(certificateId, auth.caller, reqId);
+    if (!loaded.ok) return loaded.response;
+    return NextResponse.json(toCertificate(loaded.certificate), { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/certificates/[certificateId] (Req ID: ${reqId}): Error loading certificate ${certificateId}. Message: ${error.message}`);
+    return NextResponse.json({ message: `Error fetching certificate: ${error.message}`, errorKey: 'FETCH_CERTIFICATE_FAILED' }, { status: 500 });
+  }
+}
+
+// PATCH: updates only the fields present in the body; empty strings or null clear a field.
+// Changed fields are recorded in the edit history; `humanVerified: true` marks the record as reviewed.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { certificateId: string } }
+) {
+  const { certificateId } = params;
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/certificates/[certificateId] (Req ID: ${reqId}): PATCH request received for ${certificateId}.`);
+  const auth = await requireAuth(request, { logPrefix: `API /api/certificates/[certificateId] (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Request body must be valid JSON.', errorKey: 'INVALID_BODY' }, { status: 400 });
+  }
+  const validation = validateCertificateInput(body, { partial: true });
+  if (!validation.ok) {
+    return NextResponse.json({ message: validation.message, errorKey: validation.errorKey }, { status: 400 });
+  }
+
+  try {
+    const loaded = await loadAccessibleCertificate(certificateId, auth.caller, reqId);
+    if (!loaded.ok) return loaded.response;
+    const { db } = await connectToDb();
+    if (validation.value.fileIds && !await filesBelongToUser_SERVER(db, loaded.certificate.userId, validation.value.fileIds)) {
+      return NextResponse.json({ message: 'Some files do not exist or belong to another user.', errorKey: 'INVALID_FILE_IDS' }, { status: 400 });
+    }
+    const updated = await updateCertificate_SERVER(db, loaded.certificate, validation.value, { uid: auth.caller.uid, role: loaded.role });
+    if (affectsVerification(Object.keys(validation.value))) {
+      updated.verification = await scheduleCredentialVerification_SERVER(db, updated, reqId);
+    }
+    console.log(`API /api/certificates/[certificateId] (Req ID: ${reqId}): Certificate ${certificateId} updated by ${auth.caller.uid}. Fields: ${Object.keys(validation.value).join(', ')}`);
+    return NextResponse.json(toCertificate(updated), { status: 200 });
+  } catch (error: any) {
+    if (error.errorKey) {
+      return NextResponse.json({ message: error.message, errorKey: error.errorKey }, { status: 400 });
+    }
+    console.error(`API /api/certificates/[certificateId] (Req ID: ${reqId}): Error updating certificate ${certificateId}. Message: ${error.message}`);
+    return NextResponse.json({ message: `Error updating certificate: ${error.message}`, errorKey: 'UPDATE_CERTIFICATE_FAILED' }, { status: 500 });
+  }
+}
+
+// DELETE: removes the certificate together with its files (same permission rules as deleting a file).
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { certificateId: string } }
+) {
+  const { certificateId } = params;
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/certificates/[certificateId] (Req ID: ${reqId}): DELETE request received for ${certificateId}.`);
+  const auth = await requireAuth(request, { logPrefix: `API /api/certificates/[certificateId] (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { db, bucket } = await connectToDb();
+    const certificate = await getCertificate_SERVER(db, certificateId);
+    if (!certificate) {
+      return NextResponse.json({ message: 'Certificate not found.', errorKey: 'CERTIFICATE_NOT_FOUND' }, { status: 404 });
+    }
+    const deletedByRole = await resolveDeleteRole_SERVER(auth.caller.uid, certificate.userId);
+    if (!deletedByRole) {
+      console.warn(`API /api/certificates/[certificateId] (Req ID: ${reqId}): Unauthorized DELETE attempt by ${auth.caller.uid} on certificate ${certificateId} of ${certificate.userId}.`);
+      return NextResponse.json({ message: 'Forbidden: You do not have permission to delete this certificate.', errorKey: 'DELETE_FORBIDDEN' }, { status: 403 });
+    }
+
+    // Page images go with their original PDF, so skip ids already removed by a cascade.
+    const removedFileIds = new Set<string>();
+    const fileDocs = await db.collection('images.files')
+      .find({ _id: { $in: certificate.fileIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) }, 'metadata.userId': certificate.userId })
+      .sort({ 'metadata.isPdfOriginal': -1 })
+      .toArray();
+    for (const fileDoc of fileDocs) {
+      if (removedFileIds.has(fileDoc._id.toString())) continue;
+      const { cascadedPageFileIds } = await deleteStoredFile_SERVER(db, bucket, fileDoc, { deletedBy: auth.caller.uid, deletedByRole, reqId });
+      [fileDoc._id.toString(), ...cascadedPageFileIds].forEach(id => removedFileIds.add(id));
+    }
+    await deleteCertificate_SERVER(db, certificate._id);
+
+    console.log(`API /api/certificates/[certificateId] (Req ID: ${reqId}): Certificate ${certificateId} deleted (${deletedByRole}) with ${removedFileIds.size} file(s).`);
+    return NextResponse.json({ message: 'Certificate deleted successfully.', deletedFileIds: [...removedFileIds] }, { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/certificates/[certificateId] (Req ID: ${reqId}): Error deleting certificate ${certificateId}. Message: ${error.message}`);
+    return NextResponse.json({ message: `Error deleting certificate: ${error.message}`, errorKey: 'DELETE_CERTIFICATE_FAILED' }, { status: 500 });
+  }
+}
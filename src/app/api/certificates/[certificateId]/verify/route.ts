@@ -0,0 +1,40 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { getCertificate_SERVER, resolveCertificateAccess_SERVER, toCertificate } from '@/lib/services/certificateService.server';
+import { scheduleCredentialVerification_SERVER } from '@/lib/services/credentialVerification.server';
+
+// POST: queues a re-check of the credential with its issuer. Answers 202 right away with the pending state;
+// the verification worker (/api/cron/credential-verification) runs the check, so poll GET /api/certificates/[certificateId] for the result.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { certificateId: string } }
+) {
+  const { certificateId } = params;
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/certificates/[certificateId]/verify (Req ID: ${reqId}): POST request received for ${certificateId}.`);
+  const auth = await requireAuth(request, { logPrefix: `API /api/certificates/[certificateId]/verify (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { db } = await connectToDb();
+    const certificate = await getCertificate_SERVER(db, certificateId);
+    if (!certificate) {
+      return NextResponse.json({ message: 'Certificate not found.', errorKey: 'CERTIFICATE_NOT_FOUND' }, { status: 404 });
+    }
+    if (!await resolveCertificateAccess_SERVER(auth.caller, certificate.userId)) {
+      console.warn(`API /api/certificates/[certificateId]/verify (Req ID: ${reqId}): Caller ${auth.caller.uid} denied access to certificate ${certificateId} of ${certificate.userId}.`);
+      return NextResponse.json({ message: 'Forbidden: You do not have access to this certificate.', errorKey: 'CERTIFICATE_FORBIDDEN' }, { status: 403 });
+    }
+    if (!certificate.credentialId && !certificate.verificationUrl) {
+      return NextResponse.json({ message: 'Add a credential ID or verification URL before verifying.', errorKey: 'NOTHING_TO_VERIFY' }, { status: 400 });
+    }
+
+    certificate.verification = await scheduleCredentialVerification_SERVER(db, certificate, reqId);
+    return NextResponse.json(toCertificate(certificate), { status: 202 });
+  } catch (error: any) {
+    console.error(`API /api/certificates/[certificateId]/verify (Req ID: ${reqId}): Error scheduling verification for ${certificateId}. Message: ${error.message}`);
+    return NextResponse.json({ message: `Error starting verification: ${error.message}`, errorKey: 'VERIFY_CERTIFICATE_FAILED' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { resolveCertificateAccess_SERVER } from '@/lib/services/certificateService.server';
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import {
+  CERTIFICATE_EXPORT_FORMATS,
+  buildCombinedCertificatePdf_SERVER,
+  createCertificateZipStream_SERVER,
+  type CertificateExportFormat,
+} from '@/lib/export/certificateExport.server';
+
+// GET ?format=zip|pdf&userId=<owner>: downloads all of the owner's certificates. Defaults to the caller; a linked admin passes a student's UID.
+// 'zip' streams every stored file plus manifest.json and certificates.csv; 'pdf' returns one merged PDF with a cover index.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/certificates/export (Req ID: ${reqId}): GET request received.`);
+
+  const auth = await requireAuth(request, { logPrefix: `API /api/certificates/export (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const { caller } = auth;
+
+  const format = (request.nextUrl.searchParams.get('format') || 'zip') as CertificateExportFormat;
+  if (!CERTIFICATE_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ message: `'format' must be one of: ${CERTIFICATE_EXPORT_FORMATS.join(', ')}.`, errorKey: 'INVALID_EXPORT_FORMAT' }, { status: 400 });
+  }
+
+  const ownerUserId = request.nextUrl.searchParams.get('userId') || caller.uid;
+  if (!await resolveCertificateAccess_SERVER(caller, ownerUserId)) {
+    console.warn(`API /api/certificates/export (Req ID: ${reqId}): Caller ${caller.uid} may not export certificates of ${ownerUserId}.`);
+    return NextResponse.json({ message: 'Forbidden: You do not have access to these certificates.', errorKey: 'CERTIFICATES_FORBIDDEN' }, { status: 403 });
+  }
+
+  try {
+    const { db, bucket } = await connectToDb();
+    const ownerProfile = ownerUserId === caller.uid ? caller.profile : await getUserProfile_SERVER(ownerUserId);
+    const ownerName = ownerProfile?.displayName || ownerProfile?.email?.split('@')[0] || 'Student';
+    const baseName = `certificates-${ownerName.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'export'}-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'pdf') {
+      const result = await buildCombinedCertificatePdf_SERVER(db, bucket, ownerUserId, { ownerName, reqId });
+      if (!result.ok) {
+        return NextResponse.json({ message: result.message, errorKey: result.errorKey }, { status: 413 });
+      }
+      return new NextResponse(Buffer.from(result.pdf), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${baseName}.pdf"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    const archive = await createCertificateZipStream_SERVER(db, bucket, ownerUserId, reqId);
+    return new NextResponse(Readable.toWeb(archive) as unknown as ReadableStream<Uint8Array>, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${baseName}.zip"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error(`API /api/certificates/export (Req ID: ${reqId}): Error exporting certificates of ${ownerUserId}. Name: ${error.name}, Message: ${error.message}`);
+    return NextResponse.json({ message: `Error exporting certificates: ${error.message}`, errorKey: 'EXPORT_FAILED' }, { status: 500 });
+  }
+}
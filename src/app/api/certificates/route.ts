@@ -0,0 +1,83 @@
+
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import {
+  createCertificate_SERVER,
+  filesBelongToUser_SERVER,
+  listCertificatesWithFiles_SERVER,
+  resolveCertificateAccess_SERVER,
+  toCertificate,
+  validateCertificateInput,
+} from '@/lib/services/certificateService.server';
+import { scheduleCredentialVerification_SERVER } from '@/lib/services/credentialVerification.server';
+
+// GET ?userId=<owner>: the owner's certificates with their files. Defaults to the caller; a linked admin passes a student's UID.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/certificates (Req ID: ${reqId}): GET request received.`);
+
+  const auth = await requireAuth(request, { logPrefix: `API /api/certificates (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const { caller } = auth;
+
+  const ownerUserId = request.nextUrl.searchParams.get('userId') || caller.uid;
+  if (!await resolveCertificateAccess_SERVER(caller, ownerUserId)) {
+    console.warn(`API /api/certificates (Req ID: ${reqId}): Caller ${caller.uid} may not list certificates of ${ownerUserId}.`);
+    return NextResponse.json({ message: 'Forbidden: You do not have access to these certificates.', errorKey: 'CERTIFICATES_FORBIDDEN' }, { status: 403 });
+  }
+
+  try {
+    const { db } = await connectToDb();
+    const certificates = await listCertificatesWithFiles_SERVER(db, ownerUserId, caller.uid);
+    console.log(`API /api/certificates (Req ID: ${reqId}): Returning ${certificates.length} certificate(s) for user ${ownerUserId}.`);
+    return NextResponse.json(certificates, { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/certificates (Req ID: ${reqId}): Error listing certificates. Name: ${error.name}, Message: ${error.message}`);
+    return NextResponse.json({ message: `Error fetching certificates: ${error.message}`, errorKey: 'FETCH_CERTIFICATES_FAILED' }, { status: 500 });
+  }
+}
+
+// POST: creates a certificate. Body: certificate fields plus optional `userId` (owner, for linked admins).
+export async function POST(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/certificates (Req ID: ${reqId}): POST request received.`);
+
+  const auth = await requireAuth(request, { logPrefix: `API /api/certificates (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const { caller } = auth;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Request body must be valid JSON.', errorKey: 'INVALID_BODY' }, { status: 400 });
+  }
+
+  const ownerUserId = typeof body?.userId === 'string' && body.userId ? body.userId : caller.uid;
+  if (!await resolveCertificateAccess_SERVER(caller, ownerUserId)) {
+    console.warn(`API /api/certificates (Req ID: ${reqId}): Caller ${caller.uid} may not create certificates for ${ownerUserId}.`);
+    return NextResponse.json({ message: 'Forbidden: You cannot add certificates for this user.', errorKey: 'CERTIFICATES_FORBIDDEN' }, { status: 403 });
+  }
+
+  const { userId: _ignored, ...fields } = body;
+  const validation = validateCertificateInput(fields, { partial: false });
+  if (!validation.ok) {
+    return NextResponse.json({ message: validation.message, errorKey: validation.errorKey }, { status: 400 });
+  }
+
+  try {
+    const { db } = await connectToDb();
+    if (!await filesBelongToUser_SERVER(db, ownerUserId, validation.value.fileIds ?? [])) {
+      return NextResponse.json({ message: 'Some files do not exist or belong to another user.', errorKey: 'INVALID_FILE_IDS' }, { status: 400 });
+    }
+    const created = await createCertificate_SERVER(db, ownerUserId, validation.value, caller.uid);
+    created.verification = await scheduleCredentialVerification_SERVER(db, created, reqId);
+    console.log(`API /api/certificates (Req ID: ${reqId}): Created certificate ${created._id} for user ${ownerUserId}.`);
+    return NextResponse.json(toCertificate(created), { status: 201 });
+  } catch (error: any) {
+    console.error(`API /api/certificates (Req ID: ${reqId}): Error creating certificate. Name: ${error.name}, Message: ${error.message}`);
+    return NextResponse.json({ message: `Error creating certificate: ${error.message}`, errorKey: 'CREATE_CERTIFICATE_FAILED' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { rejectUnlessCronRequest } from '@/lib/auth/cronAuth.server';
+import { runCertificateExpiryJob_SERVER } from '@/lib/services/certificateExpiry.server';
+
+// GET: daily expiry job, called by a scheduler with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  const logPrefix = `API /api/cron/certificate-expiry (Req ID: ${reqId})`;
+  console.log(`${logPrefix}: Scheduled run received.`);
+  const rejection = rejectUnlessCronRequest(request, logPrefix);
+  if (rejection) return rejection;
+
+  try {
+    const { db } = await connectToDb();
+    const summary = await runCertificateExpiryJob_SERVER(db, { reqId });
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error: any) {
+    console.error(`${logPrefix}: Expiry job failed. Message: ${error.message}`);
+    return NextResponse.json({ message: `Expiry job failed: ${error.message}`, errorKey: 'EXPIRY_JOB_FAILED' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { rejectUnlessCronRequest } from '@/lib/auth/cronAuth.server';
+import { processPendingVerifications_SERVER } from '@/lib/services/credentialVerification.server';
+
+// GET: runs pending issuer checks, called every minute by a scheduler with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  const logPrefix = `API /api/cron/credential-verification (Req ID: ${reqId})`;
+  console.log(`${logPrefix}: Scheduled run received.`);
+  const rejection = rejectUnlessCronRequest(request, logPrefix);
+  if (rejection) return rejection;
+
+  try {
+    const { db } = await connectToDb();
+    const summary = await processPendingVerifications_SERVER(db, { reqId });
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error: any) {
+    console.error(`${logPrefix}: Verification run failed. Message: ${error.message}`);
+    return NextResponse.json({ message: `Verification run failed: ${error.message}`, errorKey: 'CREDENTIAL_VERIFICATION_RUN_FAILED' }, { status: 500 });
+  }
+}
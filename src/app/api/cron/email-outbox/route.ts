@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { rejectUnlessCronRequest } from '@/lib/auth/cronAuth.server';
+import { processEmailOutbox_SERVER } from '@/lib/email/outbox.server';
+
+// GET: delivers due messages from the email outbox, called every few minutes by a scheduler with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  const logPrefix = `API /api/cron/email-outbox (Req ID: ${reqId})`;
+  console.log(`${logPrefix}: Scheduled run received.`);
+  const rejection = rejectUnlessCronRequest(request, logPrefix);
+  if (rejection) return rejection;
+
+  try {
+    const { db } = await connectToDb();
+    const summary = await processEmailOutbox_SERVER(db, { reqId });
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error: any) {
+    console.error(`${logPrefix}: Outbox run failed. Message: ${error.message}`);
+    return NextResponse.json({ message: `Outbox run failed: ${error.message}`, errorKey: 'EMAIL_OUTBOX_RUN_FAILED' }, { status: 500 });
+  }
+}
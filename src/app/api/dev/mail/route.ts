@@ -0,0 +1,21 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { listDevMail_SERVER } from '@/lib/email/devMailSink.server';
+import { getEmailTransport } from '@/lib/email/transport.server';
+
+// GET ?to=<email>: mail captured by the development mail sink, newest first. Only exists while the 'sink' transport is active,
+// which is never the case in production.
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  if (getEmailTransport().name !== 'sink') {
+    return NextResponse.json({ message: 'Not found.', errorKey: 'NOT_FOUND' }, { status: 404 });
+  }
+
+  try {
+    const messages = await listDevMail_SERVER({ to: request.nextUrl.searchParams.get('to') });
+    return NextResponse.json({ messages }, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    console.error(`API /api/dev/mail (Req ID: ${reqId}): Error reading the development mail sink. Message: ${error.message}`);
+    return NextResponse.json({ message: `Error reading the development mail sink: ${error.message}`, errorKey: 'DEV_MAIL_SINK_FAILED' }, { status: 500 });
+  }
+}
@@ -3,6 +3,10 @@ import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { ObjectId, MongoError } from 'mongodb';
 import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { isLinkedAdminOfStudent_SERVER } from '@/lib/services/userService.server';
+import { hasImageUrlSignature, verifySignedImageUrl } from '@/lib/imageUrlSigning.server';
+import { deleteStoredFile_SERVER, resolveDeleteRole_SERVER } from '@/lib/uploads/deleteFile.server';
 
 export async function GET(
   request: NextRequest,
@@ -17,6 +21,28 @@ export async function GET(
     return NextResponse.json({ message: 'Invalid or missing fileId.' }, { status: 400 });
   }
 
+  // Resolve the viewer from either a verified ID token or a signed URL issued by /api/user-images.
+  let viewerUid: string;
+  let signedUrlExpiresAt: number | null = null;
+  const authorizationHeader = request.headers.get('Authorization');
+  if (authorizationHeader && authorizationHeader.startsWith('Bearer ')) {
+    const auth = await requireAuth(request, { logPrefix: `API Route /api/images/[fileId] (Req ID: ${reqId})` });
+    if (!auth.ok) return auth.response;
+    viewerUid = auth.caller.uid;
+  } else if (hasImageUrlSignature(request.nextUrl.searchParams)) {
+    const signatureCheck = verifySignedImageUrl(fileId, request.nextUrl.searchParams);
+    if (!signatureCheck.valid) {
+      console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): AUTH FAIL - Signed URL rejected: ${signatureCheck.errorKey}`);
+      const status = signatureCheck.errorKey === 'SIGNING_NOT_CONFIGURED' ? 500 : 401;
+      return NextResponse.json({ message: 'Unauthorized: Signed URL is invalid or has expired.', errorKey: signatureCheck.errorKey }, { status });
+    }
+    viewerUid = signatureCheck.viewerUid;
+    signedUrlExpiresAt = signatureCheck.expiresAt;
+  } else {
+    console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): AUTH FAIL - No ID token or signed URL provided.`);
+    return NextResponse.json({ message: 'Unauthorized: An ID token or signed URL is required.', errorKey: 'MISSING_CREDENTIALS' }, { status: 401 });
+  }
+
   let dbConnection;
   try {
     console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): Attempting to connect to DB for fileId: ${fileId}`);
@@ -36,6 +62,14 @@ export async function GET(
     const fileInfo = fileInfoArray[0];
     console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): File found:`, { filename: fileInfo.filename, contentType: fileInfo.contentType, length: fileInfo.length, uploadDate: fileInfo.uploadDate, metadata: fileInfo.metadata });
 
+    // Authorization check: only the owner or the admin linked to the owning student may read the file.
+    const ownerUserId: string | undefined = fileInfo.metadata?.userId;
+    const isOwner = !!ownerUserId && ownerUserId === viewerUid;
+    if (!isOwner && !(ownerUserId && await isLinkedAdminOfStudent_SERVER(viewerUid, ownerUserId))) {
+      console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): Forbidden GET. Viewer ${viewerUid} is neither the owner (${ownerUserId}) nor their linked admin.`);
+      return NextResponse.json({ message: 'Forbidden: You do not have access to this file.', errorKey: 'READ_FORBIDDEN' }, { status: 403 });
+    }
+
     const downloadStream = bucket.openDownloadStream(objectId);
     console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): Opened download stream for fileId: ${objectId}`);
 
@@ -67,7 +101,9 @@ export async function GET(
     const responseHeaders = new Headers();
     responseHeaders.set('Content-Type', contentType);
     responseHeaders.set('Content-Length', fileInfo.length.toString());
-    responseHeaders.set('Cache-Control', 'public, max-age=604800, immutable'); // Cache for 1 week
+    // Certificates hold personal data: never let shared caches keep them, and never outlive a signed URL.
+    const maxAgeSeconds = signedUrlExpiresAt ? Math.max(0, signedUrlExpiresAt - Math.floor(Date.now() / 1000)) : 0;
+    responseHeaders.set('Cache-Control', `private, max-age=${maxAgeSeconds}`);
 
     console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): Returning response with stream for fileId: ${objectId}`);
     return new NextResponse(webReadableStream, {
@@ -103,18 +139,13 @@ export async function DELETE(
   const reqId = Math.random().toString(36).substring(2, 9);
   console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): DELETE request received for fileId: ${fileId}`);
 
-  // In a real app, you'd get userId from a verified Firebase ID token in the Authorization header.
-  // For now, we'll expect it as a query parameter for simplicity in this prototype.
-  const userIdFromRequest = request.nextUrl.searchParams.get('userId');
-
-  if (!userIdFromRequest) {
-    console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): Missing userId query parameter for DELETE.`);
-    return NextResponse.json({ message: 'Unauthorized: Missing user identification.' }, { status: 401 });
-  }
+  const auth = await requireAuth(request, { logPrefix: `API Route /api/images/[fileId] (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const requesterUid = auth.caller.uid;
 
   if (!fileId || !ObjectId.isValid(fileId)) {
     console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): Invalid fileId for DELETE: ${fileId}`);
-    return NextResponse.json({ message: 'Invalid fileId.' }, { status: 400 });
+    return NextResponse.json({ message: 'Invalid fileId.', errorKey: 'INVALID_FILE_ID' }, { status: 400 });
   }
 
   let dbConnection;
@@ -129,20 +160,22 @@ export async function DELETE(
 
     if (!fileMetadata) {
       console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): File not found for DELETE: ${fileId}`);
-      return NextResponse.json({ message: 'File not found.' }, { status: 404 });
+      return NextResponse.json({ message: 'File not found.', errorKey: 'FILE_NOT_FOUND' }, { status: 404 });
     }
 
-    // Authorization check: Ensure the user deleting owns the file
-    if (fileMetadata.metadata?.userId !== userIdFromRequest) {
-      console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): Unauthorized DELETE attempt. User ${userIdFromRequest} tried to delete file ${fileId} owned by ${fileMetadata.metadata?.userId}.`);
-      return NextResponse.json({ message: 'Unauthorized: You do not have permission to delete this file.' }, { status: 403 });
+    const ownerUserId: string | undefined = fileMetadata.metadata?.userId;
+
+    // Authorization check: the owner may always delete; a linked admin only when the policy allows it.
+    const deletedByRole = await resolveDeleteRole_SERVER(requesterUid, ownerUserId);
+    if (!deletedByRole) {
+      console.warn(`API Route /api/images/[fileId] (Req ID: ${reqId}): Unauthorized DELETE attempt. User ${requesterUid} tried to delete file ${fileId} owned by ${ownerUserId}.`);
+      return NextResponse.json({ message: 'Forbidden: You do not have permission to delete this file.', errorKey: 'DELETE_FORBIDDEN' }, { status: 403 });
     }
 
-    console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): Authorized. Attempting to delete file ${fileId} from GridFS.`);
-    await bucket.delete(objectId);
-    console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): File ${fileId} deleted successfully.`);
+    console.log(`API Route /api/images/[fileId] (Req ID: ${reqId}): Authorized (${deletedByRole}). Attempting to delete file ${fileId} from GridFS.`);
+    const { cascadedPageFileIds } = await deleteStoredFile_SERVER(db, bucket, fileMetadata, { deletedBy: requesterUid, deletedByRole, reqId });
 
-    return NextResponse.json({ message: 'File deleted successfully.' }, { status: 200 });
+    return NextResponse.json({ message: 'File deleted successfully.', cascadedPageFileIds }, { status: 200 });
 
   } catch (error: any) {
     console.error(`API Route /api/images/[fileId] (Req ID: ${reqId}): Error deleting image for fileId ${fileId}:`, {
@@ -1,5 +1,6 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
 // import { MongoClient, ServerApiVersion } from 'mongodb'; // Uncomment when ready for MongoDB
 
 // IMPORTANT: This is a placeholder for your MongoDB connection URI.
@@ -15,11 +16,10 @@ interface ImageMetadata {
   timestamp: string; // ISO date string
 }
 
-// IMPORTANT: Protect this API route!
-// In a real application, you should verify the user's Firebase ID token
-// passed in the Authorization header to ensure only authenticated users can call this.
-
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, { logPrefix: 'API /api/metadata' });
+  if (!auth.ok) return auth.response;
+
   try {
     const metadataArray: ImageMetadata[] | ImageMetadata = await request.json();
     
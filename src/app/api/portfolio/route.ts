@@ -0,0 +1,63 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import {
+  certificatesBelongToUser_SERVER,
+  getPortfolio_SERVER,
+  toPortfolioSettings,
+  updatePortfolio_SERVER,
+  validatePortfolioInput,
+} from '@/lib/services/portfolioService.server';
+
+// GET: the caller's own portfolio settings (defaults when they have never saved any).
+export async function GET(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/portfolio (Req ID: ${reqId}): GET request received.`);
+
+  const auth = await requireAuth(request, { logPrefix: `API /api/portfolio (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { db } = await connectToDb();
+    const portfolio = await getPortfolio_SERVER(db, auth.caller.uid);
+    return NextResponse.json(toPortfolioSettings(portfolio), { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/portfolio (Req ID: ${reqId}): Error loading portfolio. Name: ${error.name}, Message: ${error.message}`);
+    return NextResponse.json({ message: `Error loading portfolio: ${error.message}`, errorKey: 'FETCH_PORTFOLIO_FAILED' }, { status: 500 });
+  }
+}
+
+// PATCH: updates `enabled`, `headline` and/or `certificateIds` (the caller's own certificates, in display order).
+export async function PATCH(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/portfolio (Req ID: ${reqId}): PATCH request received.`);
+
+  const auth = await requireAuth(request, { logPrefix: `API /api/portfolio (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const { caller } = auth;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Request body must be valid JSON.', errorKey: 'INVALID_BODY' }, { status: 400 });
+  }
+  const validation = validatePortfolioInput(body);
+  if (!validation.ok) {
+    return NextResponse.json({ message: validation.message, errorKey: validation.errorKey }, { status: 400 });
+  }
+
+  try {
+    const { db } = await connectToDb();
+    if (validation.value.certificateIds && !await certificatesBelongToUser_SERVER(db, caller.uid, validation.value.certificateIds)) {
+      console.warn(`API /api/portfolio (Req ID: ${reqId}): Caller ${caller.uid} selected certificates they do not own.`);
+      return NextResponse.json({ message: 'Some certificates do not exist or belong to another user.', errorKey: 'INVALID_CERTIFICATE_IDS' }, { status: 400 });
+    }
+    const updated = await updatePortfolio_SERVER(db, caller.uid, validation.value);
+    return NextResponse.json(toPortfolioSettings(updated), { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/portfolio (Req ID: ${reqId}): Error saving portfolio. Name: ${error.name}, Message: ${error.message}`);
+    return NextResponse.json({ message: `Error saving portfolio: ${error.message}`, errorKey: 'UPDATE_PORTFOLIO_FAILED' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { regeneratePortfolioSlug_SERVER, toPortfolioSettings } from '@/lib/services/portfolioService.server';
+
+// POST: replaces the caller's share link. Anyone holding the old link loses access immediately.
+export async function POST(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/portfolio/slug (Req ID: ${reqId}): POST request received.`);
+
+  const auth = await requireAuth(request, { logPrefix: `API /api/portfolio/slug (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { db } = await connectToDb();
+    const updated = await regeneratePortfolioSlug_SERVER(db, auth.caller.uid);
+    if (!updated) {
+      return NextResponse.json({ message: 'Set up your portfolio before creating a share link.', errorKey: 'PORTFOLIO_NOT_FOUND' }, { status: 404 });
+    }
+    return NextResponse.json(toPortfolioSettings(updated), { status: 200 });
+  } catch (error: any) {
+    console.error(`API /api/portfolio/slug (Req ID: ${reqId}): Error replacing share link. Name: ${error.name}, Message: ${error.message}`);
+    return NextResponse.json({ message: `Error replacing share link: ${error.message}`, errorKey: 'REGENERATE_SLUG_FAILED' }, { status: 500 });
+  }
+}
@@ -1,31 +1,45 @@
 
-import { execFile } from 'child_process';
-import { promisify } from 'util';
-const execFileAsync = promisify(execFile);
-
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
-import { MongoError, ObjectId } from 'mongodb';
 import { connectToDb } from '@/lib/mongodb';
-import { promises as fsPromises } from 'fs';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { getUploadLimitsForRole } from '@/lib/uploads/uploadLimits.server';
+import { fileTooLargeError } from '@/lib/uploads/uploadLimits';
+import {
+  processUploadedFile_SERVER,
+  resolveUploadOwner_SERVER,
+  type StoredFileResult,
+  type TempUploadedFile,
+  type UploadContext,
+} from '@/lib/uploads/processUpload.server';
+import { writeFileWithSha256 } from '@/lib/uploads/contentHash.server';
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
-
-interface CustomUploadedFile {
-  filepath: string;
-  originalFilename: string | null;
-  mimetype: string | null;
-  size: number;
-}
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
 
 interface CustomParsedForm {
   fields: { [key: string]: string | string[] };
   files: {
-    [key: string]: CustomUploadedFile | undefined;
+    [key: string]: TempUploadedFile[] | undefined;
   };
 }
 
+// Per-file entry returned in batch mode (multipart field 'files', repeated once per file).
+interface BatchFileResult {
+  index: number;
+  originalName: string;
+  success: boolean;
+  files?: StoredFileResult[];
+  errorKey?: string;
+  message?: string;
+  duplicate?: boolean; // True when the owner already had this file (errorKey DUPLICATE_FILE)
+  existingFileId?: string;
+}
+
+const MAX_BATCH_FILES = Number(process.env.UPLOAD_MAX_BATCH_FILES) || 20;
+
 const parseFormRevised = async (req: NextRequest, reqId: string): Promise<CustomParsedForm> => {
   console.log(`API /api/upload-image (Req ID: ${reqId}, parseFormRevised): Starting formData processing.`);
   const formData = await req.formData();
@@ -41,15 +55,17 @@ const parseFormRevised = async (req: NextRequest, reqId: string): Promise<Custom
       const tempFilePath = path.join(os.tmpdir(), tempFileName);
 
       try {
-        const fileBuffer = Buffer.from(await value.arrayBuffer());
-        await fsPromises.writeFile(tempFilePath, fileBuffer);
+        // Streamed to disk without another in-memory copy; the SHA-256 is taken in the same pass.
+        const { sha256 } = await writeFileWithSha256(Readable.fromWeb(value.stream() as NodeReadableStream<Uint8Array>), tempFilePath);
 
-        filesOutput[key] = {
+        // Keep every entry: batch uploads repeat the 'files' field once per file.
+        (filesOutput[key] ??= []).push({
           filepath: tempFilePath,
           originalFilename: value.name,
           mimetype: value.type,
           size: value.size,
-        };
+          sha256,
+        });
         console.log(`API /api/upload-image (Req ID: ${reqId}, parseFormRevised): File '${value.name}' saved to temp path '${tempFilePath}'.`);
       } catch (error: any) {
         console.error(`API /api/upload-image (Req ID: ${reqId}, parseFormRevised): Error writing file '${value.name}' to temp. Error: ${error.message}`);
@@ -68,26 +84,30 @@ const parseFormRevised = async (req: NextRequest, reqId: string): Promise<Custom
       }
     }
   }
-  console.log(`API /api/upload-image (Req ID: ${reqId}, parseFormRevised): Finished formData processing. Found ${Object.keys(filesOutput).length} file(s).`);
+  console.log(`API /api/upload-image (Req ID: ${reqId}, parseFormRevised): Finished formData processing. Found ${Object.values(filesOutput).flat().length} file(s).`);
   return { fields, files: filesOutput };
 };
 
-const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-const SUPPORTED_PDF_TYPE = 'application/pdf';
-const FLASK_SERVER_URL = process.env.NEXT_PUBLIC_FLASK_SERVER_URL;
-
 export async function POST(request: NextRequest) {
   const reqId = Math.random().toString(36).substring(2, 9);
   console.log(`API /api/upload-image (Req ID: ${reqId}): POST request received.`);
 
+  const auth = await requireAuth(request, { logPrefix: `API /api/upload-image (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const { caller } = auth;
+  const limits = getUploadLimitsForRole(caller.role);
+
+  // Refuse obviously oversized bodies before buffering them; each file is checked again individually.
+  const contentLength = Number(request.headers.get('content-length'));
+  if (Number.isFinite(contentLength) && contentLength > limits.maxFileBytes * MAX_BATCH_FILES) {
+    const { errorKey, message } = fileTooLargeError(contentLength, limits);
+    console.warn(`API /api/upload-image (Req ID: ${reqId}): Request body of ${contentLength} bytes rejected before parsing.`);
+    return NextResponse.json({ message, errorKey, reqId }, { status: 413 });
+  }
+
   let tempFilePathsToDelete: string[] = [];
   let mainError: Error | null = null;
 
-  if (!FLASK_SERVER_URL) {
-    console.error(`API /api/upload-image (Req ID: ${reqId}): Configuration Error - NEXT_PUBLIC_FLASK_SERVER_URL is not set.`);
-    return NextResponse.json({ message: 'Server configuration error: Flask server URL not set.', errorKey: 'FLASK_URL_MISSING' }, { status: 500 });
-  }
-
   try {
     let dbConnection;
     try {
@@ -105,7 +125,7 @@ export async function POST(request: NextRequest) {
       throw mainError;
     }
 
-    const { bucket } = dbConnection;
+    const { db, bucket } = dbConnection;
     let fields: CustomParsedForm['fields'];
     let files: CustomParsedForm['files'];
 
@@ -115,7 +135,7 @@ export async function POST(request: NextRequest) {
       fields = parsedForm.fields;
       files = parsedForm.files;
 
-      Object.values(files).forEach(fileDetail => {
+      Object.values(files).flat().forEach(fileDetail => {
         if (fileDetail?.filepath) tempFilePathsToDelete.push(fileDetail.filepath);
       });
       console.log(`API /api/upload-image (Req ID: ${reqId}): Form data parsed. Fields:`, Object.keys(fields), `File keys:`, Object.keys(files));
@@ -126,128 +146,68 @@ export async function POST(request: NextRequest) {
     }
 
     const userIdField = fields.userId;
-    const userId = Array.isArray(userIdField) ? userIdField[0] : userIdField;
-
-    if (!userId) {
-      console.warn(`API /api/upload-image (Req ID: ${reqId}): Missing userId. Fields:`, fields);
-      return NextResponse.json({ message: 'Missing userId in form data.', errorKey: 'MISSING_USER_ID' }, { status: 400 });
+    const owner = await resolveUploadOwner_SERVER(caller, Array.isArray(userIdField) ? userIdField[0] : userIdField, reqId);
+    if (!owner.ok) {
+      return NextResponse.json({ message: owner.message, errorKey: owner.errorKey }, { status: owner.status });
     }
+    const { userId, uploadedByRole } = owner;
+
+    // Send allowDuplicate=true to store a file even when the owner already has an identical copy.
+    const allowDuplicate = fields.allowDuplicate === 'true';
+    const uploadContext: UploadContext = { reqId, userId, uploadedBy: caller.uid, uploadedByRole, db, bucket, allowDuplicate, limits };
+
+    // Batch mode: every file is processed independently and reported in its own result entry.
+    const batchFiles = files.files;
+    if (batchFiles && batchFiles.length > 0) {
+      if (batchFiles.length > MAX_BATCH_FILES) {
+        console.warn(`API /api/upload-image (Req ID: ${reqId}): Batch of ${batchFiles.length} files exceeds limit of ${MAX_BATCH_FILES}.`);
+        return NextResponse.json({ message: `Too many files in one batch. The limit is ${MAX_BATCH_FILES}.`, errorKey: 'TOO_MANY_FILES', reqId }, { status: 400 });
+      }
 
-    const uploadedFileEntry = files.file;
+      console.log(`API /api/upload-image (Req ID: ${reqId}): Batch mode with ${batchFiles.length} file(s).`);
+      const batchResults: BatchFileResult[] = [];
+      for (const [index, batchFile] of batchFiles.entries()) {
+        const originalName = batchFile.originalFilename || 'unknown_file';
+        const outcome = await processUploadedFile_SERVER(batchFile, uploadContext);
+        batchResults.push(outcome.ok
+          ? { index, originalName, success: true, files: outcome.files }
+          : {
+              index,
+              originalName,
+              success: false,
+              errorKey: outcome.errorKey,
+              message: outcome.message,
+              duplicate: outcome.errorKey === 'DUPLICATE_FILE',
+              existingFileId: outcome.existingFileId,
+            });
+      }
 
-    if (!uploadedFileEntry || !uploadedFileEntry.filepath) {
-      console.warn(`API /api/upload-image (Req ID: ${reqId}): No file uploaded in 'file' field or filepath missing.`);
-      return NextResponse.json({ message: 'No file uploaded or file path missing.', errorKey: 'NO_FILE_UPLOADED' }, { status: 400 });
+      const failureCount = batchResults.filter(r => !r.success).length;
+      console.log(`API /api/upload-image (Req ID: ${reqId}): Batch complete. ${batchResults.length - failureCount} succeeded, ${failureCount} failed.`);
+      // 207 tells the client to inspect each entry; 201 means every file was stored.
+      return NextResponse.json(
+        { reqId, results: batchResults, successCount: batchResults.length - failureCount, failureCount },
+        { status: failureCount > 0 ? 207 : 201 }
+      );
     }
 
-    const actualOriginalName = uploadedFileEntry.originalFilename || 'unknown_file';
-    const tempFilePath = uploadedFileEntry.filepath;
-    const fileType = uploadedFileEntry.mimetype;
-
-    console.log(`API /api/upload-image (Req ID: ${reqId}): Processing file: ${actualOriginalName}, Type: ${fileType}, Temp path: ${tempFilePath}`);
-
-    let results: { originalName: string; fileId: string; filename: string; contentType: string; pageNumber?: number }[] = [];
-
-    if (fileType === SUPPORTED_PDF_TYPE) {
-      console.log(`API /api/upload-image (Req ID: ${reqId}): PDF file detected. Sending to Flask for conversion: '${actualOriginalName}'. Target: ${FLASK_SERVER_URL}/api/convert-pdf-to-images`);
-      
-      const flaskFormData = new FormData();
-      const fileBuffer = await fsPromises.readFile(tempFilePath);
-      const blob = new Blob([fileBuffer], { type: SUPPORTED_PDF_TYPE });
-      
-      flaskFormData.append('pdf_file', blob, actualOriginalName);
-      flaskFormData.append('userId', userId);
-      flaskFormData.append('originalName', actualOriginalName);
+    const uploadedFileEntry = files.file?.[0];
 
-      try {
-        const flaskResponse = await fetch(`${FLASK_SERVER_URL}/api/convert-pdf-to-images`, {
-          method: 'POST',
-          body: flaskFormData,
-        });
-
-        const flaskResponseText = await flaskResponse.text();
-        console.log(`API /api/upload-image (Req ID: ${reqId}): Flask response for PDF conversion. Status: ${flaskResponse.status}. Body preview: ${flaskResponseText.substring(0, 200)}`);
-
-        if (!flaskResponse.ok) {
-          let flaskErrorMsg = `Flask server failed to process PDF '${actualOriginalName}'. Status: ${flaskResponse.status}.`;
-          try {
-            const parsedFlaskError = JSON.parse(flaskResponseText);
-            flaskErrorMsg = parsedFlaskError.error || flaskErrorMsg;
-          } catch (e) { /* ignore parsing error, use status and raw text if short */ 
-             if (flaskResponseText.length < 200) flaskErrorMsg += ` Response: ${flaskResponseText}`;
-          }
-          throw new Error(flaskErrorMsg);
-        }
-        
-        const flaskResult = JSON.parse(flaskResponseText);
-        if (flaskResult.converted_files && Array.isArray(flaskResult.converted_files)) {
-          results = flaskResult.converted_files.map((convertedFile: any) => ({
-            originalName: convertedFile.originalName,
-            fileId: convertedFile.fileId,
-            filename: convertedFile.filename,
-            contentType: 'image/png', 
-            pageNumber: convertedFile.pageNumber,
-          }));
-          console.log(`API /api/upload-image (Req ID: ${reqId}): PDF successfully converted by Flask. ${results.length} page(s) processed for '${actualOriginalName}'.`);
-        } else {
-          throw new Error(`Flask server (for PDF '${actualOriginalName}') did not return expected "converted_files" array.`);
-        }
-      } catch (pdfProcessingError: any) {
-        let detailedErrorMessage = `Failed PDF processing for '${actualOriginalName}'.`;
-        if (pdfProcessingError.message && pdfProcessingError.message.toLowerCase().includes('fetch failed')) {
-          detailedErrorMessage += ` The Next.js server could not connect to the Flask server at ${FLASK_SERVER_URL}/api/convert-pdf-to-images. Please ensure the Flask server is running, accessible, and the URL is correct. Original error: ${pdfProcessingError.message}`;
-        } else {
-          detailedErrorMessage += ` Error during communication with or processing by Flask server: ${pdfProcessingError.message}`;
-        }
-        console.error(`API /api/upload-image (Req ID: ${reqId}): Error during PDF processing via Flask for '${actualOriginalName}'. Detailed Message: ${detailedErrorMessage}`);
-        mainError = new Error(detailedErrorMessage);
-        throw mainError;
-      }
+    if (!uploadedFileEntry || !uploadedFileEntry.filepath) {
+      console.warn(`API /api/upload-image (Req ID: ${reqId}): No file uploaded in 'file' or 'files' field, or filepath missing.`);
+      return NextResponse.json({ message: 'No file uploaded or file path missing.', errorKey: 'NO_FILE_UPLOADED' }, { status: 400 });
     }
-    else if (fileType && SUPPORTED_IMAGE_TYPES.includes(fileType)) {
-      console.log(`API /api/upload-image (Req ID: ${reqId}): Supported image file type (${fileType}) detected. Uploading directly to GridFS for file '${actualOriginalName}'.`);
-      const imageFilename = `${userId}_${Date.now()}_${actualOriginalName.replace(/[^a-zA-Z0-9_.-]/g, '_')}`;
-      const metadata = {
-        originalName: actualOriginalName,
-        userId,
-        uploadedAt: new Date().toISOString(),
-        sourceContentType: fileType, 
-        explicitContentType: fileType, 
-        reqIdParent: reqId,
-      };
-
-      try {
-        const uploadStream = bucket.openUploadStream(imageFilename, { contentType: fileType, metadata });
-        const readable = fs.createReadStream(tempFilePath);
 
-        await new Promise<void>((resolveStream, rejectStream) => {
-          readable.on('error', (err) => {
-            console.error(`API /api/upload-image (Req ID: ${reqId}): Error reading temp file ${tempFilePath} for ${imageFilename}. Name: ${err.name}, Message: ${err.message}`);
-            rejectStream(new Error(`Error reading temporary file: ${err.message}`));
-          });
-          uploadStream.on('error', (err: MongoError) => {
-            console.error(`API /api/upload-image (Req ID: ${reqId}): GridFS Stream Error for image ${imageFilename}. Name: ${err.name}, Message: ${err.message}`);
-            rejectStream(new Error(`GridFS upload error: ${err.message}`));
-          });
-          uploadStream.on('finish', () => {
-            console.log(`API /api/upload-image (Req ID: ${reqId}): GridFS Upload finished successfully for image: ${imageFilename}, ID: ${uploadStream.id}.`);
-            results.push({ originalName: actualOriginalName, fileId: uploadStream.id.toString(), filename: imageFilename, contentType: fileType });
-            resolveStream();
-          });
-          readable.pipe(uploadStream);
-        });
-      } catch (imageProcessingError: any) {
-        console.error(`API /api/upload-image (Req ID: ${reqId}): Error during direct image processing/upload for '${actualOriginalName}'. Message: ${imageProcessingError.message}`);
-        mainError = new Error(`Failed during image processing for '${actualOriginalName}': ${imageProcessingError.message}`);
-        throw mainError;
-      }
-    } else {
-      console.warn(`API /api/upload-image (Req ID: ${reqId}): Unsupported file type: ${fileType} for file ${actualOriginalName}. Only image files and PDFs are supported.`);
-      return NextResponse.json({ message: `Unsupported file type: ${fileType}. Please upload a supported image or PDF file.`, errorKey: 'UNSUPPORTED_FILE_TYPE' }, { status: 415 });
+    const outcome = await processUploadedFile_SERVER(uploadedFileEntry, uploadContext);
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { message: outcome.message, errorKey: outcome.errorKey, existingFileId: outcome.existingFileId, existingOriginalName: outcome.existingOriginalName, reqId },
+        { status: outcome.status }
+      );
     }
 
-    console.log(`API /api/upload-image (Req ID: ${reqId}): Successfully processed file(s). Results count: ${results.length}.`);
-    return NextResponse.json(results, { status: 201 });
+    console.log(`API /api/upload-image (Req ID: ${reqId}): Successfully processed file(s). Results count: ${outcome.files.length}.`);
+    return NextResponse.json(outcome.files, { status: 201 });
   } catch (error: any) {
     const caughtError = mainError || error;
     console.error(`API /api/upload-image (Req ID: ${reqId}): OUTER CATCH BLOCK. Name: ${caughtError.name}, Message: ${caughtError.message}`);
@@ -0,0 +1,12 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { getUploadLimitsForRole } from '@/lib/uploads/uploadLimits.server';
+
+// GET: the caller's upload limits, so ImageUploader can reject oversized files before sending them.
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, { logPrefix: 'API /api/uploads/limits' });
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json(getUploadLimitsForRole(auth.caller.role), { status: 200, headers: { 'Cache-Control': 'private, max-age=300' } });
+}
@@ -0,0 +1,31 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { completeUploadSession_SERVER } from '@/lib/uploads/resumableUpload.server';
+
+// POST: finalize a fully received upload. Responds with the same array of stored files as /api/upload-image.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+  const logPrefix = `API /api/uploads/resumable/[uploadId]/complete (Upload ID: ${uploadId})`;
+  console.log(`${logPrefix}: POST request received.`);
+
+  const auth = await requireAuth(request, { logPrefix });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { db, bucket } = await connectToDb();
+    const result = await completeUploadSession_SERVER(uploadId, auth.caller.uid, { db, bucket });
+    if (!result.ok) {
+      return NextResponse.json({ message: result.message, errorKey: result.errorKey, existingFileId: result.existingFileId, ...result.details }, { status: result.status });
+    }
+    console.log(`${logPrefix}: Upload complete. ${result.files.length} file(s) stored.`);
+    return NextResponse.json(result.files, { status: 201 });
+  } catch (error: any) {
+    console.error(`${logPrefix}: Error:`, error.message);
+    return NextResponse.json({ message: `Server Error: ${error.message}`, errorKey: 'UPLOAD_FINALIZE_FAILED' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import {
+  abortUploadSession_SERVER,
+  appendUploadChunk_SERVER,
+  getUploadSession_SERVER,
+  readChunkBody,
+  RESUMABLE_CHUNK_SIZE_BYTES,
+  type UploadSessionResult,
+} from '@/lib/uploads/resumableUpload.server';
+
+const toResponse = (result: UploadSessionResult) =>
+  result.ok
+    ? NextResponse.json(result.session, { status: 200 })
+    : NextResponse.json({ message: result.message, errorKey: result.errorKey, ...result.details }, { status: result.status });
+
+// GET: current state of an upload session, used by the client to resume after a reload.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+  const auth = await requireAuth(request, { logPrefix: `API /api/uploads/resumable/[uploadId] GET (Upload ID: ${uploadId})` });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { db, bucket } = await connectToDb();
+    return toResponse(await getUploadSession_SERVER(uploadId, auth.caller.uid, { db, bucket }));
+  } catch (error: any) {
+    console.error(`API /api/uploads/resumable/[uploadId] GET (Upload ID: ${uploadId}): Error:`, error.message);
+    return NextResponse.json({ message: `Server Error: ${error.message}`, errorKey: 'UPLOAD_SESSION_READ_FAILED' }, { status: 500 });
+  }
+}
+
+const chunkTooLarge = () =>
+  NextResponse.json({ message: `Chunks must be at most ${RESUMABLE_CHUNK_SIZE_BYTES} bytes.`, errorKey: 'CHUNK_TOO_LARGE' }, { status: 413 });
+
+// PUT ?offset=N: append the raw request body as the next chunk. `offset` must equal the bytes received so far.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+  const auth = await requireAuth(request, { logPrefix: `API /api/uploads/resumable/[uploadId] PUT (Upload ID: ${uploadId})` });
+  if (!auth.ok) return auth.response;
+
+  const offset = Number(request.nextUrl.searchParams.get('offset'));
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    return NextResponse.json({ message: 'A non-negative integer offset query parameter is required.', errorKey: 'INVALID_OFFSET' }, { status: 400 });
+  }
+
+  // Oversized bodies are refused before they are read; the read itself stops at the limit for bodies without a length.
+  if (Number(request.headers.get('content-length')) > RESUMABLE_CHUNK_SIZE_BYTES) return chunkTooLarge();
+
+  try {
+    const chunk = await readChunkBody(request.body, RESUMABLE_CHUNK_SIZE_BYTES);
+    if (!chunk) return chunkTooLarge();
+    const { db, bucket } = await connectToDb();
+    return toResponse(await appendUploadChunk_SERVER(uploadId, auth.caller.uid, offset, chunk, { db, bucket }));
+  } catch (error: any) {
+    console.error(`API /api/uploads/resumable/[uploadId] PUT (Upload ID: ${uploadId}): Error at offset ${offset}:`, error.message);
+    return NextResponse.json({ message: `Server Error: ${error.message}`, errorKey: 'CHUNK_WRITE_FAILED' }, { status: 500 });
+  }
+}
+
+// DELETE: abandon an upload and discard the bytes received so far.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+  const auth = await requireAuth(request, { logPrefix: `API /api/uploads/resumable/[uploadId] DELETE (Upload ID: ${uploadId})` });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { db, bucket } = await connectToDb();
+    return toResponse(await abortUploadSession_SERVER(uploadId, auth.caller.uid, { db, bucket }));
+  } catch (error: any) {
+    console.error(`API /api/uploads/resumable/[uploadId] DELETE (Upload ID: ${uploadId}): Error:`, error.message);
+    return NextResponse.json({ message: `Server Error: ${error.message}`, errorKey: 'UPLOAD_SESSION_ABORT_FAILED' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { connectToDb } from '@/lib/mongodb';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { resolveUploadOwner_SERVER } from '@/lib/uploads/processUpload.server';
+import { createUploadSession_SERVER } from '@/lib/uploads/resumableUpload.server';
+import { getUploadLimitsForRole } from '@/lib/uploads/uploadLimits.server';
+
+// POST: start a resumable upload. Body: { fileName, contentType, totalBytes, userId?, allowDuplicate? }.
+// `userId` follows the same rules as /api/upload-image (self, or a student linked to the calling admin).
+export async function POST(request: NextRequest) {
+  const reqId = Math.random().toString(36).substring(2, 9);
+  console.log(`API /api/uploads/resumable (Req ID: ${reqId}): POST (init) request received.`);
+
+  const auth = await requireAuth(request, { logPrefix: `API /api/uploads/resumable (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const { caller } = auth;
+
+  let body: { fileName?: string; contentType?: string; totalBytes?: number; userId?: string; allowDuplicate?: boolean };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Request body must be JSON.', errorKey: 'INVALID_BODY' }, { status: 400 });
+  }
+  if (!body.fileName || !body.contentType || body.totalBytes === undefined) {
+    return NextResponse.json({ message: 'fileName, contentType and totalBytes are required.', errorKey: 'MISSING_FIELDS' }, { status: 400 });
+  }
+
+  const owner = await resolveUploadOwner_SERVER(caller, body.userId, reqId);
+  if (!owner.ok) {
+    return NextResponse.json({ message: owner.message, errorKey: owner.errorKey }, { status: owner.status });
+  }
+
+  try {
+    const { db, bucket } = await connectToDb();
+    const result = await createUploadSession_SERVER(
+      {
+        userId: owner.userId,
+        uploadedBy: caller.uid,
+        uploadedByRole: owner.uploadedByRole,
+        originalName: body.fileName,
+        contentType: body.contentType,
+        totalBytes: Number(body.totalBytes),
+        allowDuplicate: body.allowDuplicate === true,
+        limits: getUploadLimitsForRole(caller.role),
+      },
+      { db, bucket }
+    );
+    if (!result.ok) {
+      return NextResponse.json({ message: result.message, errorKey: result.errorKey }, { status: result.status });
+    }
+    return NextResponse.json(result.session, { status: 201 });
+  } catch (error: any) {
+    console.error(`API /api/uploads/resumable (Req ID: ${reqId}): Failed to create upload session:`, error.message);
+    return NextResponse.json({ message: `Server Error: ${error.message}`, errorKey: 'UPLOAD_SESSION_CREATE_FAILED', reqId }, { status: 500 });
+  }
+}
@@ -1,60 +1,20 @@
-
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { connectToDb } from '@/lib/mongodb';
-import { getAdminAuth, getAdminFirestore } from '@/lib/firebase/adminConfig'; // Use getters
-import type { UserProfile } from '@/lib/models/user';
-
-const USERS_COLLECTION = 'users';
-
-// Local implementation of getAnyUserProfileWithAdmin for this API route
-const getAnyUserProfileWithAdminLocally = async (userId: string): Promise<UserProfile | null> => {
-  const adminFirestore = getAdminFirestore(); // Get instance
-  if (!userId) {
-    console.warn("user-images API (getAnyUserProfileWithAdminLocally): Called with no userId.");
-    return null;
-  }
-  // getAdminFirestore() will throw if adminFirestore is not initialized, so direct check removed.
-  try {
-    const userDocRef = adminFirestore.collection(USERS_COLLECTION).doc(userId);
-    const userDocSnap = await userDocRef.get();
-    if (userDocSnap.exists) {
-      return userDocSnap.data() as UserProfile;
-    }
-    console.log(`user-images API (getAnyUserProfileWithAdminLocally): No profile found for userId ${userId}.`);
-    return null;
-  } catch (error: any) {
-    console.error(`user-images API (getAnyUserProfileWithAdminLocally): Error fetching profile for UID ${userId}:`, error.message, error);
-    throw error; 
-  }
-};
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import { requireAuth } from '@/lib/auth/apiAuth.server';
+import { listUserFiles_SERVER } from '@/lib/uploads/userFiles.server';
 
 
 export async function GET(request: NextRequest) {
-  const adminAuth = getAdminAuth(); // Get instance
   const reqId = Math.random().toString(36).substring(2, 9);
   console.log(`API Route /api/user-images (Req ID: ${reqId}): GET request received. URL: ${request.url}`);
 
-  const authorizationHeader = request.headers.get('Authorization');
-  if (!authorizationHeader || !authorizationHeader.startsWith('Bearer ')) {
-    console.warn(`API Route /api/user-images (Req ID: ${reqId}): AUTH FAIL - Missing or invalid Authorization header.`);
-    return NextResponse.json({ message: 'Unauthorized: Missing or invalid ID token.', errorKey: 'MISSING_ID_TOKEN' }, { status: 401 });
-  }
-  const idToken = authorizationHeader.split('Bearer ')[1];
-  console.log(`API Route /api/user-images (Req ID: ${reqId}): Received token (first 15 chars): Bearer ${idToken.substring(0,15)}...`);
-
-
-  let decodedToken;
-  try {
-    // getAdminAuth() will throw if adminAuth is not initialized, so direct check removed.
-    decodedToken = await adminAuth.verifyIdToken(idToken);
-    console.log(`API Route /api/user-images (Req ID: ${reqId}): ID Token verified successfully for UID: ${decodedToken.uid}`);
-  } catch (error: any) {
-    console.error(`API Route /api/user-images (Req ID: ${reqId}): AUTH FAIL - ID Token verification failed:`, { message: error.message, code: error.code });
-    return NextResponse.json({ message: `Unauthorized: Invalid ID token. Details: ${error.message}`, errorKey: 'INVALID_ID_TOKEN', detail: error.message, code: error.code }, { status: 401 });
-  }
+  const auth = await requireAuth(request, { logPrefix: `API Route /api/user-images (Req ID: ${reqId})` });
+  if (!auth.ok) return auth.response;
+  const { caller } = auth;
 
-  const requesterUid = decodedToken.uid; 
+  const requesterUid = caller.uid; 
   const targetUserId = request.nextUrl.searchParams.get('userId'); 
   const adminIdFromQuery = request.nextUrl.searchParams.get('adminRequesterId'); 
 
@@ -77,20 +37,13 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ message: 'Forbidden: Mismatch in authenticated user and admin requester ID.', errorKey: 'TOKEN_QUERY_PARAM_UID_MISMATCH_ADMIN' }, { status: 403 });
       }
 
-      console.log(`API Route /api/user-images (Req ID: ${reqId}): AUTH (Admin) - Fetching admin profile for UID: ${requesterUid} using Admin SDK...`);
-      const adminProfile = await getAnyUserProfileWithAdminLocally(requesterUid);
-      
-      if (!adminProfile) {
-        console.warn(`API Route /api/user-images (Req ID: ${reqId}): AUTH FAIL (Admin) - Admin profile for ${requesterUid} NOT FOUND.`);
-        return NextResponse.json({ message: 'Forbidden: Admin identity could not be verified (profile not found).', errorKey: 'ADMIN_PROFILE_NOT_FOUND' }, { status: 403 });
-      }
-      if (adminProfile.role !== 'admin') {
-        console.warn(`API Route /api/user-images (Req ID: ${reqId}): AUTH FAIL (Admin) - Requester ${requesterUid} is NOT an admin. Actual role: '${adminProfile.role}'.`);
+      if (caller.role !== 'admin') {
+        console.warn(`API Route /api/user-images (Req ID: ${reqId}): AUTH FAIL (Admin) - Requester ${requesterUid} is NOT an admin. Actual role: '${caller.role}'.`);
         return NextResponse.json({ message: 'Forbidden: Requester does not have admin privileges.', errorKey: 'NOT_AN_ADMIN' }, { status: 403 });
       }
       console.log(`API Route /api/user-images (Req ID: ${reqId}): AUTH (Admin) - Admin role VERIFIED for ${requesterUid}. Fetching target student profile ${targetUserId}...`);
 
-      const studentProfile = await getAnyUserProfileWithAdminLocally(targetUserId);
+      const studentProfile = await getUserProfile_SERVER(targetUserId);
       if (!studentProfile) {
         console.warn(`API Route /api/user-images (Req ID: ${reqId}): AUTH FAIL (Admin) - Target student profile ${targetUserId} NOT FOUND.`);
         return NextResponse.json({ message: 'Forbidden: Student profile not found.', errorKey: 'STUDENT_PROFILE_NOT_FOUND' }, { status: 403 });
@@ -128,36 +81,8 @@ export async function GET(request: NextRequest) {
     const { db } = dbConnection;
     console.log(`API Route /api/user-images (Req ID: ${reqId}): DB connected. Accessing 'images.files' for user ${finalTargetUserId}.`);
 
-    const filesCollection = db.collection('images.files');
-    const query = { 'metadata.userId': finalTargetUserId }; 
-    console.log(`API Route /api/user-images (Req ID: ${reqId}): Querying 'images.files' with:`, query);
-
-    const userImages = await filesCollection.find(
-      query,
-      {
-        projection: {
-          _id: 1,
-          filename: 1,
-          uploadDate: 1,
-          contentType: 1,
-          length: 1,
-          metadata: 1
-        }
-      }
-    ).sort({ uploadDate: -1 }).toArray();
-
-    console.log(`API Route /api/user-images (Req ID: ${reqId}): Found ${userImages.length} images for user ${finalTargetUserId} from MongoDB.`);
-
-    const formattedImages = userImages.map(img => ({
-      fileId: img._id.toString(),
-      filename: img.filename,
-      uploadDate: img.uploadDate as string, 
-      contentType: img.contentType,
-      originalName: img.metadata?.originalName || img.filename,
-      dataAiHint: img.metadata?.dataAiHint || '',
-      size: img.length || 0,
-      userId: img.metadata?.userId, 
-    }));
+    const formattedImages = await listUserFiles_SERVER(db, finalTargetUserId, requesterUid);
+    console.log(`API Route /api/user-images (Req ID: ${reqId}): Found ${formattedImages.length} images for user ${finalTargetUserId} from MongoDB.`);
 
     return NextResponse.json(formattedImages, { status: 200 });
 
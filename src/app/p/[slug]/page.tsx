@@ -0,0 +1,142 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Image from 'next/image';
+import { BadgeCheck, BadgeHelp, BadgeX, CalendarDays, ExternalLink, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import PrintPortfolioButton from '@/components/portfolio/PrintPortfolioButton';
+import { connectToDb } from '@/lib/mongodb';
+import { getPublicPortfolioBySlug_SERVER } from '@/lib/services/portfolioService.server';
+import type { PublicPortfolioCertificate } from '@/lib/models/portfolio';
+
+// Rendered per request: certificate images use short-lived signed URLs and a revoked link must stop working at once.
+export const dynamic = 'force-dynamic';
+
+interface PortfolioPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+const ISSUER_VERIFICATION_BADGES = {
+  verified: { label: 'Verified by issuer', className: 'text-green-700', Icon: BadgeCheck },
+  invalid: { label: 'Issuer could not verify', className: 'text-destructive', Icon: BadgeX },
+  unknown: { label: 'Not verifiable online', className: 'text-muted-foreground', Icon: BadgeHelp },
+} as const;
+
+const loadPortfolio = async (slug: string) => {
+  const { db } = await connectToDb();
+  return getPublicPortfolioBySlug_SERVER(db, slug);
+};
+
+export async function generateMetadata({ params }: PortfolioPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const portfolio = await loadPortfolio(slug);
+  if (!portfolio) return { title: 'Portfolio not found | CertIntel', robots: { index: false } };
+
+  const title = `${portfolio.ownerName} - Certificates | CertIntel`;
+  const description = portfolio.headline
+    || `${portfolio.certificates.length} certificate${portfolio.certificates.length === 1 ? '' : 's'} shared by ${portfolio.ownerName} on CertIntel.`;
+  return {
+    title,
+    description,
+    // Share links are meant for the people they are sent to, not for search engines.
+    robots: { index: false, follow: false },
+    openGraph: { title, description, type: 'profile', siteName: 'CertIntel' },
+    twitter: { card: 'summary', title, description },
+  };
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+function PortfolioCertificateCard({ certificate }: { certificate: PublicPortfolioCertificate }) {
+  const issuerBadge = certificate.issuerVerification ? ISSUER_VERIFICATION_BADGES[certificate.issuerVerification] : null;
+  return (
+    <Card className="overflow-hidden break-inside-avoid print:shadow-none">
+      {certificate.imageUrl && (
+        <div className="relative aspect-[4/3] w-full bg-muted print:hidden">
+          <Image
+            src={certificate.imageUrl}
+            alt={certificate.courseTitle || 'Certificate'}
+            fill
+            sizes="(max-width: 768px) 100vw, 50vw"
+            className="object-contain"
+          />
+        </div>
+      )}
+      <CardHeader className="pb-2">
+        <CardTitle className="font-headline text-lg">{certificate.courseTitle || 'Untitled certificate'}</CardTitle>
+        {certificate.issuer && <p className="text-sm text-muted-foreground">{certificate.issuer}</p>}
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="flex flex-wrap gap-2">
+          {certificate.humanVerified && (
+            <Badge variant="secondary" className="gap-1"><ShieldCheck className="h-3 w-3" /> Reviewed</Badge>
+          )}
+          {certificate.expired && <Badge variant="destructive">Expired</Badge>}
+          {issuerBadge && (
+            <span className={`text-xs flex items-center ${issuerBadge.className}`}>
+              <issuerBadge.Icon className="w-3 h-3 mr-1" /> {issuerBadge.label}
+            </span>
+          )}
+        </div>
+        {certificate.recipientName && <p>Awarded to <span className="font-medium">{certificate.recipientName}</span></p>}
+        {(certificate.issueDate || certificate.expiryDate) && (
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <CalendarDays className="h-3 w-3" />
+            {certificate.issueDate && `Issued ${formatDate(certificate.issueDate)}`}
+            {certificate.issueDate && certificate.expiryDate && ' · '}
+            {certificate.expiryDate && `${certificate.expired ? 'Expired' : 'Expires'} ${formatDate(certificate.expiryDate)}`}
+          </p>
+        )}
+        {certificate.credentialId && <p className="text-muted-foreground">Credential ID: <span className="font-mono">{certificate.credentialId}</span></p>}
+        {certificate.verificationUrl && (
+          <a href={certificate.verificationUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline break-all">
+            <ExternalLink className="h-3 w-3 shrink-0 print:hidden" /> {certificate.verificationUrl}
+          </a>
+        )}
+        {certificate.skills.length > 0 && (
+          <div className="flex flex-wrap gap-1 pt-1">
+            {certificate.skills.map(skill => <Badge key={skill} variant="outline">{skill}</Badge>)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Public, read-only portfolio behind a share link (see /portfolio for the owner's settings).
+export default async function PublicPortfolioPage({ params }: PortfolioPageProps) {
+  const { slug } = await params;
+  const portfolio = await loadPortfolio(slug);
+  if (!portfolio) notFound();
+
+  return (
+    <div className="container mx-auto max-w-5xl px-4 py-8 print:max-w-none print:py-0">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold font-headline">{portfolio.ownerName}</h1>
+          {portfolio.headline && <p className="text-lg text-muted-foreground mt-1">{portfolio.headline}</p>}
+          <p className="text-sm text-muted-foreground mt-2">
+            {portfolio.certificates.length} certificate{portfolio.certificates.length === 1 ? '' : 's'} &middot; Updated {formatDate(portfolio.updatedAt)}
+          </p>
+        </div>
+        <PrintPortfolioButton />
+      </div>
+
+      {portfolio.certificates.length === 0 ? (
+        <p className="text-muted-foreground">No certificates have been shared yet.</p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 print:grid-cols-2">
+          {portfolio.certificates.map(certificate => (
+            <PortfolioCertificateCard key={certificate.id} certificate={certificate} />
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-10">
+        Details were read from the uploaded certificates. &quot;Reviewed&quot; means the student or their teacher checked them against the file;
+        &quot;Verified by issuer&quot; means the issuer&apos;s website confirmed the credential.
+      </p>
+    </div>
+  );
+}
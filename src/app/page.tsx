@@ -3,9 +3,11 @@
 
 import ProtectedPage from '@/components/auth/ProtectedPage';
 import ImageGrid from '@/components/home/ImageGrid';
-import type { UserImage } from '@/components/home/ImageGrid';
+import { getCertificateDisplayName, isExpiringSoon, type Certificate, type CertificateWithFiles } from '@/lib/models/certificate';
 import UploadFAB from '@/components/home/UploadFAB';
 import AiFAB from '@/components/home/AiFAB';
+import ExpiringSoonToggle from '@/components/home/ExpiringSoonToggle';
+import ExportCertificatesMenu from '@/components/home/ExportCertificatesMenu';
 import SearchWithSuggestions from '@/components/common/SearchWithSuggestions';
 import type { SearchableItem } from '@/components/common/SearchWithSuggestions';
 import { useEffect, useState, useCallback, useMemo } from 'react';
@@ -14,28 +16,34 @@ import { useToast } from '@/hooks/use-toast';
 import { FileText } from 'lucide-react';
 
 function HomePageContent() {
-  const [images, setImages] = useState<UserImage[]>([]);
+  const [certificates, setCertificates] = useState<CertificateWithFiles[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
   const { user, userId } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
+  const [showExpiringSoon, setShowExpiringSoon] = useState(false);
 
   const triggerRefresh = useCallback(() => {
     console.log("HomePageContent: Triggering refresh by incrementing refreshKey.");
     setRefreshKey(prevKey => prevKey + 1);
   }, []);
 
-  const fetchImages = useCallback(async () => {
+  // A saved review only changes the record itself, so patch it in place instead of refetching everything.
+  const handleCertificateUpdated = useCallback((updated: Certificate) => {
+    setCertificates(prev => prev.map(c => (c.id === updated.id ? { ...c, ...updated } : c)));
+  }, []);
+
+  const fetchCertificates = useCallback(async () => {
     if (!userId || !user) {
       setIsLoading(false);
-      setImages([]);
-      console.log("HomePageContent: fetchImages skipped, no userId or user object.");
+      setCertificates([]);
+      console.log("HomePageContent: fetchCertificates skipped, no userId or user object.");
       return;
     }
 
-    console.log(`HomePageContent: Starting fetchImages for userId: ${userId}, refreshKey: ${refreshKey}`);
+    console.log(`HomePageContent: Starting fetchCertificates for userId: ${userId}, refreshKey: ${refreshKey}`);
     setIsLoading(true);
     setError(null);
     try {
@@ -45,7 +53,7 @@ function HomePageContent() {
         throw new Error("Authentication token not available. Please ensure you are logged in or try logging in again.");
       }
 
-      const fetchUrl = `/api/user-images?userId=${userId}`;
+      const fetchUrl = `/api/certificates?userId=${userId}`;
       console.log(`HomePageContent: Fetching from URL: ${fetchUrl} with Authorization header.`);
       const response = await fetch(fetchUrl, {
         headers: {
@@ -76,11 +84,11 @@ function HomePageContent() {
         throw new Error(`API Error: ${displayErrorMessage}`);
       }
 
-      const data: UserImage[] = JSON.parse(responseText); 
+      const data: CertificateWithFiles[] = JSON.parse(responseText); 
       console.log("HomePageContent: Successfully fetched certificate data from API. Count:", data.length);
-      setImages(data);
+      setCertificates(data);
     } catch (err: any) {
-      console.error("HomePageContent: Error in fetchImages catch block:", err);
+      console.error("HomePageContent: Error in fetchCertificates catch block:", err);
       const errorMessage = err.message || "Could not load your certificates due to an unexpected error.";
       setError(errorMessage);
       toast({
@@ -88,41 +96,49 @@ function HomePageContent() {
         description: errorMessage,
         variant: "destructive",
       });
-      setImages([]);
+      setCertificates([]);
     } finally {
-      console.log("HomePageContent: fetchImages finished. Setting isLoading to false.");
+      console.log("HomePageContent: fetchCertificates finished. Setting isLoading to false.");
       setIsLoading(false);
     }
   }, [userId, user, toast, refreshKey]);
 
   useEffect(() => {
-    console.log("HomePageContent: useEffect triggered for fetchImages. Current userId:", userId, "Current refreshKey:", refreshKey);
+    console.log("HomePageContent: useEffect triggered for fetchCertificates. Current userId:", userId, "Current refreshKey:", refreshKey);
     if (userId && user) {
-        fetchImages();
+        fetchCertificates();
     } else {
         setIsLoading(false);
-        setImages([]);
+        setCertificates([]);
     }
-  }, [userId, user, fetchImages, refreshKey]);
+  }, [userId, user, fetchCertificates, refreshKey]);
 
   const handleSearch = (query: string) => {
     setSearchTerm(query.toLowerCase());
   };
 
-  const filteredImages = useMemo(() => {
-    if (!searchTerm) return images;
-    return images.filter(image => 
-      (image.originalName?.toLowerCase() || '').includes(searchTerm) ||
-      (image.filename?.toLowerCase() || '').includes(searchTerm)
+  const expiringSoonCount = useMemo(() => certificates.filter(c => isExpiringSoon(c)).length, [certificates]);
+
+  const filteredCertificates = useMemo(() => {
+    const candidates = showExpiringSoon ? certificates.filter(c => isExpiringSoon(c)) : certificates;
+    if (!searchTerm) return candidates;
+    return candidates.filter(certificate =>
+      getCertificateDisplayName(certificate).toLowerCase().includes(searchTerm) ||
+      (certificate.issuer?.toLowerCase() || '').includes(searchTerm) ||
+      certificate.skills.some(skill => skill.toLowerCase().includes(searchTerm)) ||
+      certificate.files.some(file =>
+        (file.originalName?.toLowerCase() || '').includes(searchTerm) ||
+        (file.filename?.toLowerCase() || '').includes(searchTerm)
+      )
     );
-  }, [images, searchTerm]);
+  }, [certificates, searchTerm, showExpiringSoon]);
 
   const searchableImageNames: SearchableItem[] = useMemo(() => {
-    return images.map(img => ({
-      id: img.fileId,
-      value: img.originalName || img.filename,
+    return certificates.map(certificate => ({
+      id: certificate.id,
+      value: getCertificateDisplayName(certificate),
     }));
-  }, [images]);
+  }, [certificates]);
 
   return (
     <div className="container mx-auto flex h-full flex-col px-2 py-4 sm:px-4 md:py-8">
@@ -133,20 +149,25 @@ function HomePageContent() {
         </div>
       </div>
       
-      <div className="my-4 shrink-0">
-        <SearchWithSuggestions 
-          onSearch={handleSearch} 
-          placeholder="Search certificates by name or filename..."
-          searchableData={searchableImageNames}
-        />
+      <div className="my-4 flex shrink-0 flex-col gap-2 sm:flex-row sm:items-center">
+        <div className="flex-1">
+          <SearchWithSuggestions 
+            onSearch={handleSearch} 
+            placeholder="Search certificates by name or filename..."
+            searchableData={searchableImageNames}
+          />
+        </div>
+        <ExpiringSoonToggle count={expiringSoonCount} active={showExpiringSoon} onToggle={() => setShowExpiringSoon(v => !v)} />
+        {userId && <ExportCertificatesMenu ownerUserId={userId} disabled={certificates.length === 0} />}
       </div>
 
       <div className="min-h-0 flex-1 overflow-y-auto pr-1 md:overflow-visible md:pr-0">
         <ImageGrid
-          images={filteredImages}
+          certificates={filteredCertificates}
           isLoading={isLoading}
           error={error}
-          onImageDeleted={triggerRefresh}
+          onCertificateDeleted={triggerRefresh}
+          onCertificateUpdated={handleCertificateUpdated}
           currentUserId={userId}
         />
       </div>
@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Copy, ExternalLink, Globe, Loader2, RefreshCw, Save } from 'lucide-react';
+import ProtectedPage from '@/components/auth/ProtectedPage';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { getCertificateDisplayName, type CertificateWithFiles } from '@/lib/models/certificate';
+import { MAX_PORTFOLIO_HEADLINE_LENGTH, getPortfolioPath, type PortfolioSettings } from '@/lib/models/portfolio';
+
+// Drafts have no details to show yet and revoked certificates are no longer valid.
+const isShareable = (certificate: CertificateWithFiles) => certificate.status === 'active' || certificate.status === 'expired';
+
+function PortfolioSettingsContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<PortfolioSettings | null>(null);
+  const [certificates, setCertificates] = useState<CertificateWithFiles[]>([]);
+  const [enabled, setEnabled] = useState(false);
+  const [headline, setHeadline] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReplacingLink, setIsReplacingLink] = useState(false);
+
+  const applySettings = (next: PortfolioSettings) => {
+    setSettings(next);
+    setEnabled(next.enabled);
+    setHeadline(next.headline || '');
+    setSelectedIds(new Set(next.certificateIds));
+  };
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    if (!user) throw new Error('You must be logged in.');
+    const idToken = await user.getIdToken();
+    const response = await fetch(url, { ...init, headers: { ...init.headers, 'Authorization': `Bearer ${idToken}` } });
+    const result = await response.json().catch(() => ({ message: 'Failed to parse response from server.' }));
+    if (!response.ok) throw new Error(result.message || `Request failed with status ${response.status}.`);
+    return result;
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    setIsLoading(true);
+    Promise.all([authorizedFetch('/api/portfolio'), authorizedFetch(`/api/certificates?userId=${user.uid}`)])
+      .then(([portfolio, certificateList]: [PortfolioSettings, CertificateWithFiles[]]) => {
+        applySettings(portfolio);
+        setCertificates(certificateList);
+      })
+      .catch((err: any) => toast({ title: 'Error Loading Portfolio', description: err.message, variant: 'destructive' }))
+      .finally(() => setIsLoading(false));
+  }, [user, authorizedFetch, toast]);
+
+  const shareUrl = settings?.slug && typeof window !== 'undefined' ? `${window.location.origin}${getPortfolioPath(settings.slug)}` : null;
+  const orderedSelection = useMemo(() => certificates.filter(c => selectedIds.has(c.id)).map(c => c.id), [certificates, selectedIds]);
+  const isDirty = !!settings && (
+    enabled !== settings.enabled
+    || (headline.trim() || null) !== settings.headline
+    || orderedSelection.join(',') !== settings.certificateIds.join(',')
+  );
+
+  const toggleCertificate = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved: PortfolioSettings = await authorizedFetch('/api/portfolio', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled, headline: headline.trim() || null, certificateIds: orderedSelection }),
+      });
+      applySettings(saved);
+      toast({ title: 'Portfolio Saved', description: saved.enabled ? 'Your public portfolio is up to date.' : 'Your portfolio is not public.' });
+    } catch (err: any) {
+      toast({ title: 'Error Saving Portfolio', description: err.message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReplaceLink = async () => {
+    setIsReplacingLink(true);
+    try {
+      applySettings(await authorizedFetch('/api/portfolio/slug', { method: 'POST' }));
+      toast({ title: 'New Link Created', description: 'The previous link no longer works.' });
+    } catch (err: any) {
+      toast({ title: 'Error Replacing Link', description: err.message, variant: 'destructive' });
+    } finally {
+      setIsReplacingLink(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast({ title: 'Link Copied', description: 'Share it with recruiters or add it to your CV.' });
+    } catch {
+      toast({ title: 'Copy Failed', description: 'Please copy the link manually.', variant: 'destructive' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-var(--header-height,4rem))]">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:px-6 lg:px-8 max-w-3xl">
+      <div className="mb-6 flex items-center gap-3">
+        <Button asChild variant="outline" size="icon" aria-label="Go back to Home">
+          <Link href="/"><ArrowLeft className="h-5 w-5" /></Link>
+        </Button>
+        <h1 className="text-3xl font-bold font-headline">Public Portfolio</h1>
+      </div>
+
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl font-headline flex items-center"><Globe className="mr-2" /> Sharing</CardTitle>
+            <CardDescription>
+              Anyone with the link can see the certificates you pick below, without logging in. Your email and other certificates stay private.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="portfolio-enabled">Make my portfolio public</Label>
+              <Switch id="portfolio-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-headline">Headline (optional)</Label>
+              <Input
+                id="portfolio-headline"
+                placeholder="e.g. Final-year CS student interested in cloud engineering"
+                value={headline}
+                maxLength={MAX_PORTFOLIO_HEADLINE_LENGTH}
+                onChange={(e) => setHeadline(e.target.value)}
+              />
+            </div>
+            {settings?.slug && shareUrl && (
+              <div className="space-y-2">
+                <Label htmlFor="portfolio-link">Share link</Label>
+                <div className="flex gap-2">
+                  <Input id="portfolio-link" value={shareUrl} readOnly className={settings.enabled ? undefined : 'text-muted-foreground'} />
+                  <Button variant="outline" size="icon" onClick={handleCopyLink} aria-label="Copy link"><Copy className="h-4 w-4" /></Button>
+                  {settings.enabled && (
+                    <Button variant="outline" size="icon" asChild aria-label="Open portfolio">
+                      <a href={getPortfolioPath(settings.slug)} target="_blank" rel="noopener noreferrer"><ExternalLink className="h-4 w-4" /></a>
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {settings.enabled ? 'The link is live.' : 'The link is switched off until you make your portfolio public again.'}
+                  {' '}Replacing it stops the current link from working.
+                </p>
+                <Button variant="ghost" size="sm" onClick={handleReplaceLink} disabled={isReplacingLink}>
+                  {isReplacingLink ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                  Replace link
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl font-headline">Certificates to show</CardTitle>
+            <CardDescription>{orderedSelection.length} of {certificates.filter(isShareable).length} selected. Drafts must be completed before they can be shown.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {certificates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You have no certificates yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {certificates.map(certificate => (
+                  <li key={certificate.id} className="flex items-start gap-3">
+                    <Checkbox
+                      id={`portfolio-${certificate.id}`}
+                      checked={selectedIds.has(certificate.id)}
+                      disabled={!isShareable(certificate)}
+                      onCheckedChange={(checked) => toggleCertificate(certificate.id, checked === true)}
+                    />
+                    <Label htmlFor={`portfolio-${certificate.id}`} className="flex-1 font-normal leading-tight">
+                      <span className="font-medium">{getCertificateDisplayName(certificate)}</span>
+                      {certificate.issuer && <span className="text-muted-foreground"> &middot; {certificate.issuer}</span>}
+                    </Label>
+                    {certificate.status !== 'active' && <Badge variant="outline" className="capitalize">{certificate.status}</Badge>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Portfolio
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function PortfolioSettingsPage() {
+  return (
+    <ProtectedPage>
+      <PortfolioSettingsContent />
+    </ProtectedPage>
+  );
+}
@@ -6,12 +6,13 @@ import { useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
-import { ArrowLeft, Loader2, Save, KeyRound, UserCircle, Copy, Link2, Link2Off, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, Loader2, Save, KeyRound, UserCircle, Copy, Link2, Link2Off, AlertTriangle, Bell } from 'lucide-react';
 
 import ProtectedPage from '@/components/auth/ProtectedPage';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useAuth } from '@/hooks/useAuth';
@@ -24,6 +25,14 @@ import {
   getAdminByUniqueId, 
 } from '@/lib/services/userService';
 import type { UserProfile } from '@/lib/models/user';
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_INFO,
+  resolveNotificationPreferences,
+  type NotificationChannelPreference,
+  type NotificationType,
+} from '@/lib/models/notification';
+import { updateNotificationPreferences } from '@/lib/services/notificationService';
 import { doc, getDoc } from 'firebase/firestore';
 import { firestore, auth as firebaseAuth } from '@/lib/firebase/config'; // Import firebaseAuth for direct SDK access
 
@@ -49,6 +58,7 @@ function ProfileSettingsPageContent() {
   const [isSubmittingLinkRequest, setIsSubmittingLinkRequest] = useState(false);
   const [isRemovingLink, setIsRemovingLink] = useState(false);
   const [linkedAdminName, setLinkedAdminName] = useState<string | null>(null);
+  const [isSavingNotificationPrefs, setIsSavingNotificationPrefs] = useState(false);
 
   const profileForm = useForm<ProfileFormValues>({
     resolver: zodResolver(profileFormSchema),
@@ -117,6 +127,21 @@ function ProfileSettingsPageContent() {
     setIsSavingProfile(false);
   };
 
+  const handleNotificationPreferenceChange = async (type: NotificationType, channel: keyof NotificationChannelPreference, enabled: boolean) => {
+    if (!user) return;
+    const current = resolveNotificationPreferences(userProfile?.notificationPreferences);
+    setIsSavingNotificationPrefs(true);
+    try {
+      // The profile listener in AuthContext picks up the saved value, so no local copy is kept.
+      await updateNotificationPreferences(user.uid, { ...current, [type]: { ...current[type], [channel]: enabled } });
+    } catch (error: any) {
+      console.error("[CLIENT] ProfileSettingsPage: handleNotificationPreferenceChange - Error:", error);
+      toast({ title: 'Update Failed', description: error.message || 'Could not save your notification settings.', variant: 'destructive' });
+    } finally {
+      setIsSavingNotificationPrefs(false);
+    }
+  };
+
   const handlePasswordReset = async () => {
     if (!user?.email) {
       toast({ title: 'Error', description: 'No email address found for password reset.', variant: 'destructive' });
@@ -261,6 +286,8 @@ function ProfileSettingsPageContent() {
                              userProfile.linkRequestStatus === 'none' || 
                              userProfile.linkRequestStatus === 'rejected');
   
+  const notificationPreferences = resolveNotificationPreferences(userProfile?.notificationPreferences);
+
   const isLinkPending = userProfile?.role === 'student' && userProfile.linkRequestStatus === 'pending';
   const isLinkAccepted = userProfile?.role === 'student' && userProfile.linkRequestStatus === 'accepted' && userProfile.associatedAdminUniqueId;
 
@@ -425,6 +452,45 @@ function ProfileSettingsPageContent() {
           </Card>
         )}
 
+        <Card id="notification-settings">
+          <CardHeader>
+            <CardTitle className="text-xl font-headline flex items-center"><Bell className="mr-2" /> Notifications</CardTitle>
+            <CardDescription>Choose which updates appear under the bell in the header and which are also sent to you by email.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 pb-2 text-xs font-medium text-muted-foreground">
+                <span>Event</span>
+                <span className="w-12 text-center">In-app</span>
+                <span className="w-12 text-center">Email</span>
+              </div>
+              {NOTIFICATION_TYPES.map(type => (
+                <div key={type} className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6 py-3">
+                  <div>
+                    <p className="font-medium text-sm">{NOTIFICATION_TYPE_INFO[type].label}</p>
+                    <p className="text-xs text-muted-foreground">{NOTIFICATION_TYPE_INFO[type].description}</p>
+                  </div>
+                  <div className="flex w-12 justify-center">
+                    <Switch
+                      checked={notificationPreferences[type].inApp}
+                      onCheckedChange={(checked) => handleNotificationPreferenceChange(type, 'inApp', checked)}
+                      disabled={isSavingNotificationPrefs}
+                      aria-label={`${NOTIFICATION_TYPE_INFO[type].label} in-app`}
+                    />
+                  </div>
+                  <div className="flex w-12 justify-center">
+                    <Switch
+                      checked={notificationPreferences[type].email}
+                      onCheckedChange={(checked) => handleNotificationPreferenceChange(type, 'email', checked)}
+                      disabled={isSavingNotificationPrefs || !NOTIFICATION_TYPE_INFO[type].emailAvailable}
+                      aria-label={`${NOTIFICATION_TYPE_INFO[type].label} email`}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
 
         <Card id="account-settings">
           <CardHeader>
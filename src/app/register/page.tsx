@@ -69,9 +69,11 @@ export default function RegisterPage() {
   const [resendCooldown, setResendCooldown] = useState(0);
   const [resendAttempts, setResendAttempts] = useState(0);
   const maxResendAttempts = 3;
-  const cooldownDuration = 60; // seconds
+  // Set when the server locks the email after too many wrong OTPs; the submit buttons stay disabled until then.
+  const [otpLockedUntil, setOtpLockedUntil] = useState<number | null>(null);
 
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const lockTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const roleForm = useForm<RoleSelectionFormValues>({ resolver: zodResolver(RoleSelectionSchema) });
   const emailForm = useForm<EmailFormValues>({ resolver: zodResolver(EmailSchema), defaultValues: { email: '' } });
@@ -88,9 +90,31 @@ export default function RegisterPage() {
   useEffect(() => {
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
+      if (lockTimerRef.current) clearTimeout(lockTimerRef.current);
     };
   }, []);
 
+  // Counts down the "Resend in Ns" label; the server tells us how long to wait.
+  const startResendCooldown = (seconds: number) => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    setResendCooldown(seconds);
+    timerRef.current = setInterval(() => {
+        setResendCooldown(prev => {
+            if (prev <= 1) {
+                if (timerRef.current) clearInterval(timerRef.current);
+                return 0;
+            }
+            return prev - 1;
+        });
+    }, 1000);
+  };
+
+  const startOtpLockout = (seconds: number) => {
+    if (lockTimerRef.current) clearTimeout(lockTimerRef.current);
+    setOtpLockedUntil(Date.now() + seconds * 1000);
+    lockTimerRef.current = setTimeout(() => setOtpLockedUntil(null), seconds * 1000);
+  };
+
   const handleRoleSelection = (values: RoleSelectionFormValues) => {
     setSelectedRole(values.role);
     setStep(2); // Move to email step
@@ -110,24 +134,16 @@ export default function RegisterPage() {
       if (result.success) {
         toast({
           title: 'OTP Sent',
-          description: result.message + (process.env.NODE_ENV === 'development' ? " Check server console for OTP." : ""),
+          description: result.message,
         });
         setEmail(values.email);
         setStep(3); // Move to OTP + Details + Password step
 
         // Start cooldown timer on first successful send
-        setResendCooldown(cooldownDuration);
-        timerRef.current = setInterval(() => {
-            setResendCooldown(prev => {
-                if (prev <= 1) {
-                    if (timerRef.current) clearInterval(timerRef.current);
-                    return 0;
-                }
-                return prev - 1;
-            });
-        }, 1000);
+        startResendCooldown(result.resendAfterSeconds ?? 60);
 
       } else {
+        if (result.errorKey === 'OTP_LOCKED' && result.retryAfterSeconds) startOtpLockout(result.retryAfterSeconds);
         setServerError(result.message);
         toast({ title: 'Failed to Send OTP', description: result.message, variant: 'destructive' });
       }
@@ -152,21 +168,18 @@ export default function RegisterPage() {
         toast({ title: 'New OTP Sent', description: result.message });
         
         // Start cooldown timer on resend
-        setResendCooldown(cooldownDuration);
-        timerRef.current = setInterval(() => {
-            setResendCooldown(prev => {
-                if (prev <= 1) {
-                    if (timerRef.current) clearInterval(timerRef.current);
-                    return 0;
-                }
-                return prev - 1;
-            });
-        }, 1000);
+        startResendCooldown(result.resendAfterSeconds ?? 60);
 
     } else {
         toast({ title: 'Failed to Resend', description: result.message, variant: 'destructive' });
         // Revert attempt count if resend failed
         setResendAttempts(prev => prev - 1);
+        if (result.errorKey === 'OTP_LOCKED' && result.retryAfterSeconds) {
+          startOtpLockout(result.retryAfterSeconds);
+        } else if (result.retryAfterSeconds) {
+          // Cooldown or hourly send limit: wait as long as the server asks before offering resend again
+          startResendCooldown(result.retryAfterSeconds);
+        }
     }
     setIsResending(false);
   };
@@ -210,6 +223,7 @@ export default function RegisterPage() {
         });
         router.push('/'); // Firebase auth state change should also trigger redirect
       } else {
+        if (result.errorKey === 'OTP_LOCKED' && result.retryAfterSeconds) startOtpLockout(result.retryAfterSeconds);
         setServerError(result.message);
         toast({ title: 'Registration Failed', description: result.message, variant: 'destructive' });
       }
@@ -340,7 +354,6 @@ export default function RegisterPage() {
               <CardTitle className="text-3xl font-headline">Final Step</CardTitle>
               <CardDescription>
                 Enter OTP sent to <span className="font-medium">{email}</span>, and complete your details.
-                {process.env.NODE_ENV === 'development' && " (Check server console for OTP)."}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -396,7 +409,7 @@ export default function RegisterPage() {
                                     variant="link"
                                     className="p-0 h-auto text-xs"
                                     onClick={handleResendOtp}
-                                    disabled={isSubmitting || isResending || resendCooldown > 0}
+                                    disabled={isSubmitting || isResending || resendCooldown > 0 || otpLockedUntil !== null}
                                 >
                                     {isResending && <Loader2 className="mr-2 h-3 w-3 animate-spin"/>}
                                     {resendCooldown > 0 ? `Resend in ${resendCooldown}s` : 'Resend OTP'}
@@ -430,7 +443,7 @@ export default function RegisterPage() {
                         >
                           Back to Email
                         </Button>
-                        <Button type="submit" className="w-full" disabled={isSubmitting}>
+                        <Button type="submit" className="w-full" disabled={isSubmitting || otpLockedUntil !== null}>
                           {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                           Verify & Register
                         </Button>
@@ -454,7 +467,7 @@ export default function RegisterPage() {
                                     variant="link"
                                     className="p-0 h-auto text-xs"
                                     onClick={handleResendOtp}
-                                    disabled={isSubmitting || isResending || resendCooldown > 0}
+                                    disabled={isSubmitting || isResending || resendCooldown > 0 || otpLockedUntil !== null}
                                 >
                                     {isResending && <Loader2 className="mr-2 h-3 w-3 animate-spin"/>}
                                     {resendCooldown > 0 ? `Resend in ${resendCooldown}s` : 'Resend OTP'}
@@ -488,7 +501,7 @@ export default function RegisterPage() {
                         >
                           Back to Email
                         </Button>
-                        <Button type="submit" className="w-full" disabled={isSubmitting}>
+                        <Button type="submit" className="w-full" disabled={isSubmitting || otpLockedUntil !== null}>
                           {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                           Verify & Register Admin
                         </Button>
@@ -0,0 +1,170 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BarChart3, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import type { UserProfile } from '@/lib/models/user';
+import { CLASS_REPORT_COLUMNS, type ClassReport, type ClassReportFormat } from '@/lib/models/classReport';
+
+interface ClassReportCardProps {
+  students: UserProfile[]; // The admin's accepted students, from the dashboard's real-time listener
+}
+
+const filenameFromDisposition = (header: string | null, fallback: string): string =>
+  header?.match(/filename="([^"]+)"/)?.[1] || fallback;
+
+// Per-student certificate summary with date-range and issuer filters, downloadable as CSV or XLSX.
+export default function ClassReportCard({ students }: ClassReportCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [selectedIssuers, setSelectedIssuers] = useState<string[]>([]);
+  const [report, setReport] = useState<ClassReport | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [downloadingFormat, setDownloadingFormat] = useState<ClassReportFormat | null>(null);
+
+  const studentIdsKey = students.map(s => s.uid).sort().join(',');
+
+  const requestReport = useCallback(async (format: ClassReportFormat) => {
+    if (!user) throw new Error('You must be logged in.');
+    const idToken = await user.getIdToken();
+    const response = await fetch('/api/admin/reports/class', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${idToken}` },
+      body: JSON.stringify({
+        studentIds: studentIdsKey ? studentIdsKey.split(',') : [],
+        from: from || null,
+        to: to || null,
+        issuers: selectedIssuers,
+        format,
+      }),
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({ message: `Report failed with status ${response.status}.` }));
+      throw new Error(result.message);
+    }
+    return response;
+  }, [user, studentIdsKey, from, to, selectedIssuers]);
+
+  useEffect(() => {
+    if (!user || (from && to && to < from)) return;
+    let cancelled = false;
+    setIsLoadingPreview(true);
+    requestReport('json')
+      .then(response => response.json())
+      .then((next: ClassReport) => { if (!cancelled) setReport(next); })
+      .catch((err: any) => { if (!cancelled) toast({ title: 'Error Building Report', description: err.message, variant: 'destructive' }); })
+      .finally(() => { if (!cancelled) setIsLoadingPreview(false); });
+    return () => { cancelled = true; };
+  }, [user, requestReport, from, to, toast]);
+
+  const handleDownload = async (format: ClassReportFormat) => {
+    setDownloadingFormat(format);
+    try {
+      const response = await requestReport(format);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filenameFromDisposition(response.headers.get('Content-Disposition'), `class-report.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      toast({ title: 'Download Failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setDownloadingFormat(null);
+    }
+  };
+
+  const toggleIssuer = (issuer: string, checked: boolean) =>
+    setSelectedIssuers(prev => (checked ? [...prev, issuer] : prev.filter(i => i !== issuer)));
+
+  const totals = report?.rows.reduce((sum, row) => ({ certificates: sum.certificates + row.certificateCount, verified: sum.verified + row.verifiedCount }), { certificates: 0, verified: 0 });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><BarChart3 className="text-primary" /> Class Report</CardTitle>
+        <CardDescription>Certificate counts per student for audits. Certificates are dated by their issue date (or upload date when unknown); revoked certificates are left out.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="report-from" className="text-xs">From</Label>
+            <Input id="report-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to" className="text-xs">To</Label>
+            <Input id="report-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="w-40" />
+          </div>
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleDownload('csv')} disabled={downloadingFormat !== null || students.length === 0}>
+              {downloadingFormat === 'csv' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleDownload('xlsx')} disabled={downloadingFormat !== null || students.length === 0}>
+              {downloadingFormat === 'xlsx' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSpreadsheet className="mr-2 h-4 w-4" />}
+              Excel
+            </Button>
+          </div>
+        </div>
+
+        {report && report.availableIssuers.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium">Issuers {selectedIssuers.length === 0 && <span className="text-muted-foreground font-normal">(all)</span>}</p>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {report.availableIssuers.map(issuer => (
+                <div key={issuer} className="flex items-center gap-2">
+                  <Checkbox id={`report-issuer-${issuer}`} checked={selectedIssuers.includes(issuer)} onCheckedChange={(checked) => toggleIssuer(issuer, checked === true)} />
+                  <Label htmlFor={`report-issuer-${issuer}`} className="text-sm font-normal">{issuer}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoadingPreview && !report ? (
+          <div className="flex justify-center items-center py-6"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>
+        ) : !report || report.rows.length === 0 ? (
+          <p className="text-muted-foreground italic">No students to report on yet.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {report.rows.length} student{report.rows.length === 1 ? '' : 's'} &middot; {totals!.certificates} certificate{totals!.certificates === 1 ? '' : 's'} &middot; {totals!.verified} verified
+              {isLoadingPreview && <Loader2 className="ml-2 inline h-3 w-3 animate-spin" />}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {CLASS_REPORT_COLUMNS.filter(c => c.key !== 'email').map(c => <TableHead key={c.key}>{c.label}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map(row => (
+                  <TableRow key={row.studentId}>
+                    <TableCell>{row.rollNo || '-'}</TableCell>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{row.certificateCount}</TableCell>
+                    <TableCell className="max-w-xs text-xs">{row.courses.join(', ') || '-'}</TableCell>
+                    <TableCell className="text-xs">{row.issuers.join(', ') || '-'}</TableCell>
+                    <TableCell>{row.verifiedCount}</TableCell>
+                    <TableCell className="text-xs">{row.lastUploadAt ? new Date(row.lastUploadAt).toLocaleDateString() : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Globe, History, Loader2, Save, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  REVIEWABLE_CERTIFICATE_FIELDS,
+  type Certificate,
+  type CertificateFieldValue,
+  type CertificateWithFiles,
+  type ReviewableCertificateField,
+} from '@/lib/models/certificate';
+
+interface CertificateReviewPanelProps {
+  certificate: CertificateWithFiles;
+  onCertificateUpdated: (certificate: Certificate) => void;
+}
+
+type FormValues = Record<ReviewableCertificateField | 'skills', string>;
+
+const toFormValues = (certificate: Certificate): FormValues => ({
+  ...Object.fromEntries(REVIEWABLE_CERTIFICATE_FIELDS.map(({ field }) => [field, certificate[field] ?? ''])) as Record<ReviewableCertificateField, string>,
+  skills: certificate.skills.join(', '),
+});
+
+const parseSkills = (value: string): string[] => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const fieldLabel = (field: string): string =>
+  REVIEWABLE_CERTIFICATE_FIELDS.find(f => f.field === field)?.label || (field === 'skills' ? 'Skills' : field);
+
+const formatHistoryValue = (value: CertificateFieldValue): string => {
+  if (value === null || (Array.isArray(value) && value.length === 0)) return '(empty)';
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+// Side-by-side editor for the fields of a certificate: shows the extraction confidence per field,
+// highlights low-confidence values and saves corrections (optionally marking the record human verified).
+export default function CertificateReviewPanel({ certificate, onCertificateUpdated }: CertificateReviewPanelProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(certificate));
+  const recordVersion = `${certificate.id}:${certificate.updatedAt}`;
+  const [loadedVersion, setLoadedVersion] = useState(recordVersion);
+  const [savingMode, setSavingMode] = useState<'save' | 'verify' | null>(null);
+  const [isRequestingCheck, setIsRequestingCheck] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const extraction = certificate.extraction;
+
+  // Reset the form only when the record itself changed, not when a background check refreshed its verification.
+  if (loadedVersion !== recordVersion) {
+    setLoadedVersion(recordVersion);
+    setValues(toFormValues(certificate));
+  }
+
+  const changedFields = useMemo(() => {
+    const original = toFormValues(certificate);
+    return (Object.keys(values) as (keyof FormValues)[]).filter(field =>
+      field === 'skills'
+        ? parseSkills(values.skills).join(',') !== certificate.skills.join(',')
+        : values[field].trim() !== original[field]
+    );
+  }, [values, certificate]);
+
+  const handleSave = async (markVerified: boolean) => {
+    if (!user) return;
+    setSavingMode(markVerified ? 'verify' : 'save');
+    try {
+      const body: Record<string, unknown> = Object.fromEntries(
+        changedFields.map(field => [field, field === 'skills' ? parseSkills(values.skills) : values[field].trim()])
+      );
+      if (markVerified) body.humanVerified = true;
+
+      const idToken = await user.getIdToken();
+      const response = await fetch(`/api/certificates/${certificate.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${idToken}` },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json().catch(() => ({ message: 'Failed to parse response from server.' }));
+      if (!response.ok) {
+        throw new Error(result.message || `Failed to save certificate. Status: ${response.status}`);
+      }
+      onCertificateUpdated(result as Certificate);
+      toast({
+        title: markVerified ? 'Certificate Verified' : 'Certificate Saved',
+        description: changedFields.length > 0 ? `Updated: ${changedFields.map(fieldLabel).join(', ')}.` : 'Marked as human verified.',
+      });
+    } catch (err: any) {
+      toast({ title: 'Error Saving Certificate', description: err.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setSavingMode(null);
+    }
+  };
+
+  const handleIssuerCheck = async () => {
+    if (!user) return;
+    setIsRequestingCheck(true);
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch(`/api/certificates/${certificate.id}/verify`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${idToken}` },
+      });
+      const result = await response.json().catch(() => ({ message: 'Failed to parse response from server.' }));
+      if (!response.ok) {
+        throw new Error(result.message || `Failed to start verification. Status: ${response.status}`);
+      }
+      onCertificateUpdated(result as Certificate);
+    } catch (err: any) {
+      toast({ title: 'Verification Failed', description: err.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setIsRequestingCheck(false);
+    }
+  };
+
+  const verification = certificate.verification;
+  const canCheckWithIssuer = !!(certificate.credentialId || certificate.verificationUrl);
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="flex items-center justify-between gap-2 pb-3">
+        <h3 className="font-headline text-base">Certificate details</h3>
+        {certificate.humanVerified ? (
+          <Badge variant="secondary" className="gap-1" title={certificate.verifiedAt ? `Verified ${new Date(certificate.verifiedAt).toLocaleString()}` : undefined}>
+            <ShieldCheck className="h-3 w-3" /> Human verified
+          </Badge>
+        ) : (
+          <Badge variant="outline">Needs review</Badge>
+        )}
+      </div>
+      {extraction && (
+        <p className="text-xs text-muted-foreground pb-3">
+          Read automatically by {extraction.model} on {new Date(extraction.extractedAt).toLocaleDateString()}. Check highlighted fields against the file.
+        </p>
+      )}
+
+      {canCheckWithIssuer && (
+        <div className="flex items-center justify-between gap-2 pb-3 text-xs">
+          <span className="text-muted-foreground" title={verification?.checkedUrl || undefined}>
+            {verification
+              ? verification.status === 'pending' ? 'Checking with the issuer...' : verification.detail
+              : 'Not checked with the issuer yet.'}
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 shrink-0" onClick={handleIssuerCheck} disabled={isRequestingCheck || verification?.status === 'pending'}>
+            {isRequestingCheck ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Globe className="mr-1 h-3 w-3" />}
+            Check online
+          </Button>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1 min-h-0 pr-3">
+        <div className="space-y-3">
+          {REVIEWABLE_CERTIFICATE_FIELDS.map(({ field, label }) => {
+            const confidence = extraction?.confidence[field];
+            const extractedValue = extraction?.values[field] ?? null;
+            const isLowConfidence = !certificate.humanVerified && confidence !== undefined && extractedValue !== null && confidence < LOW_CONFIDENCE_THRESHOLD;
+            const isDate = field === 'issueDate' || field === 'expiryDate';
+            return (
+              <div key={field} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`review-${field}`} className="text-xs">{label}</Label>
+                  {confidence !== undefined && extractedValue !== null && (
+                    <span className={`text-xs ${isLowConfidence ? 'text-amber-600 font-medium' : 'text-muted-foreground'}`}>
+                      {Math.round(confidence * 100)}% confidence
+                    </span>
+                  )}
+                </div>
+                <Input
+                  id={`review-${field}`}
+                  type={isDate ? 'date' : 'text'}
+                  value={values[field]}
+                  onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                  className={isLowConfidence ? 'border-amber-500 focus-visible:ring-amber-500' : undefined}
+                />
+                {isLowConfidence && (
+                  <p className="text-xs text-amber-600 flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                    {values[field] === extractedValue ? 'Low confidence, please check this value.' : (
+                      <>
+                        Read as &quot;{extractedValue}&quot; with low confidence.
+                        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setValues(prev => ({ ...prev, [field]: extractedValue }))}>
+                          Use it
+                        </Button>
+                      </>
+                    )}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          <div className="space-y-1">
+            <Label htmlFor="review-skills" className="text-xs">Skills (comma separated)</Label>
+            <Input id="review-skills" value={values.skills} onChange={(e) => setValues(prev => ({ ...prev, skills: e.target.value }))} />
+          </div>
+
+          {certificate.editHistory.length > 0 && (
+            <div className="pt-2 space-y-2">
+              <p className="text-xs font-medium flex items-center gap-1"><History className="h-3 w-3" /> Edit history</p>
+              <ul className="space-y-2">
+                {[...certificate.editHistory].reverse().map((edit, index) => (
+                  <li key={`${edit.editedAt}-${index}`} className="text-xs text-muted-foreground border-l-2 pl-2">
+                    <p>
+                      {new Date(edit.editedAt).toLocaleString()} &middot; {edit.editedByRole === 'linkedAdmin' ? 'Linked admin' : 'Owner'}
+                      {edit.verified && ' · marked verified'}
+                    </p>
+                    {edit.changes.map(change => (
+                      <p key={change.field}>
+                        {fieldLabel(change.field)}: {formatHistoryValue(change.from)} &rarr; {formatHistoryValue(change.to)}
+                      </p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      <div className="flex flex-wrap justify-end gap-2 pt-3">
+        <Button variant="outline" onClick={() => handleSave(false)} disabled={savingMode !== null || changedFields.length === 0}>
+          {savingMode === 'save' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save
+        </Button>
+        <Button onClick={() => handleSave(true)} disabled={savingMode !== null || (certificate.humanVerified && changedFields.length === 0)}>
+          {savingMode === 'verify' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+          Save &amp; mark verified
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { EXPIRING_SOON_DAYS } from '@/lib/models/certificate';
+
+interface ExpiringSoonToggleProps {
+  count: number; // Certificates currently expiring soon, shown on the button
+  active: boolean;
+  onToggle: () => void;
+}
+
+// Filter switch shared by the home page and the admin student view.
+export default function ExpiringSoonToggle({ count, active, onToggle }: ExpiringSoonToggleProps) {
+  return (
+    <Button
+      variant={active ? 'default' : 'outline'}
+      size="sm"
+      onClick={onToggle}
+      aria-pressed={active}
+      title={`Show only certificates expiring within ${EXPIRING_SOON_DAYS} days`}
+    >
+      <CalendarClock className="mr-2 h-4 w-4" />
+      Expiring soon ({count})
+    </Button>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileArchive, FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+interface ExportCertificatesMenuProps {
+  ownerUserId: string; // Whose certificates to export: the current user, or a linked student for admins
+  disabled?: boolean;
+}
+
+type ExportFormat = 'zip' | 'pdf';
+
+const filenameFromDisposition = (header: string | null, fallback: string): string =>
+  header?.match(/filename="([^"]+)"/)?.[1] || fallback;
+
+// "Export" button shared by the home page and the admin student view.
+export default function ExportCertificatesMenu({ ownerUserId, disabled }: ExportCertificatesMenuProps) {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!user) return;
+    setExportingFormat(format);
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch(`/api/certificates/export?format=${format}&userId=${encodeURIComponent(ownerUserId)}`, {
+        headers: { 'Authorization': `Bearer ${idToken}` },
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({ message: `Export failed with status ${response.status}.` }));
+        throw new Error(result.message);
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filenameFromDisposition(response.headers.get('Content-Disposition'), `certificates.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      toast({ title: 'Export Failed', description: err.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || exportingFormat !== null}>
+          {exportingFormat ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('zip')} className="cursor-pointer">
+          <FileArchive className="mr-2 h-4 w-4" />
+          <span>All files (ZIP with manifest and CSV)</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('pdf')} className="cursor-pointer">
+          <FileText className="mr-2 h-4 w-4" />
+          <span>Combined PDF with index</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -3,8 +3,8 @@
 
 import Image from 'next/image';
 import { Card, CardContent, CardDescription } from '@/components/ui/card';
-import { ImageIcon, Loader2, Eye, Trash2, ExternalLink, Download, FileText, Bot, Sparkles } from 'lucide-react';
-import { useState, useCallback } from 'react';
+import { ImageIcon, Loader2, Eye, Trash2, ExternalLink, Download, FileText, Bot, Sparkles, Copy, ShieldCheck, UserX, BadgeCheck, BadgeX, BadgeHelp, CalendarClock } from 'lucide-react';
+import { useState, useCallback, useEffect } from 'react';
 import ViewImageModal from './ViewImageModal';
 import {
   AlertDialog,
@@ -17,27 +17,72 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getImageSrc } from '@/lib/imageUrls';
+import type { UserImage } from '@/lib/models/userImage';
+import { getCertificateDisplayName, getDaysUntilExpiry, isExpiringSoon, type Certificate, type CertificateWithFiles } from '@/lib/models/certificate';
 
-export interface UserImage {
-  fileId: string;
-  filename: string;
-  uploadDate: string;
-  contentType: string;
-  originalName: string;
-  dataAiHint?: string;
-  size: number;
-  userId?: string;
-}
+export type { UserImage };
 
 interface ImageGridProps {
-  images: UserImage[];
+  certificates: CertificateWithFiles[];
   isLoading: boolean;
   error: string | null;
-  onImageDeleted: () => void;
+  onCertificateDeleted: () => void;
+  onCertificateUpdated: (certificate: Certificate) => void;
   currentUserId: string | null;
+  showNameMatch?: boolean; // Flag certificates whose recipient name does not match the owner's profile (admin view)
+}
+
+// A file to show, or an original PDF with the page images rendered from it.
+interface FileGroup {
+  image: UserImage;
+  pages: UserImage[];
+}
+
+// One card in the grid. `image` is null for a certificate entered without any file.
+interface GridEntry {
+  certificate: CertificateWithFiles;
+  image: UserImage | null;
+  pages: UserImage[];
 }
 
+// Pages whose original PDF is in the list are folded into the PDF's group; anything else stays a group of its own.
+const groupPdfPages = (images: UserImage[]): FileGroup[] => {
+  const originalIds = new Set(images.filter(img => img.isPdfOriginal).map(img => img.fileId));
+  const pagesByParent = new Map<string, UserImage[]>();
+  for (const img of images) {
+    if (img.parentFileId && originalIds.has(img.parentFileId)) {
+      pagesByParent.set(img.parentFileId, [...(pagesByParent.get(img.parentFileId) || []), img]);
+    }
+  }
+  return images
+    .filter(img => !(img.parentFileId && originalIds.has(img.parentFileId)))
+    .map(img => ({
+      image: img,
+      pages: (pagesByParent.get(img.fileId) || []).sort((a, b) => (a.pageNumber || 0) - (b.pageNumber || 0)),
+    }));
+};
+
+// A certificate with several separate files is browsed like a multi-page document.
+const toGridEntry = (certificate: CertificateWithFiles): GridEntry => {
+  const groups = groupPdfPages(certificate.files);
+  if (groups.length === 0) return { certificate, image: null, pages: [] };
+  const pages = groups[0].pages.length > 0 ? groups[0].pages : groups.length > 1 ? groups.map(g => g.image) : [];
+  return { certificate, image: groups[0].image, pages };
+};
+
+const VERIFICATION_POLL_MS = 5000;
+
+const VERIFICATION_BADGES = {
+  pending: { label: 'Checking with issuer', className: 'text-muted-foreground', Icon: Loader2 },
+  verified: { label: 'Verified by issuer', className: 'text-green-700', Icon: BadgeCheck },
+  invalid: { label: 'Issuer could not verify', className: 'text-destructive', Icon: BadgeX },
+  unknown: { label: 'Not verifiable online', className: 'text-muted-foreground', Icon: BadgeHelp },
+} as const;
+
 // Helper function to convert a fetched image URL (Blob) to Data URI
 const blobToDataUri = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -53,62 +98,96 @@ const blobToDataUri = (blob: Blob): Promise<string> => {
 };
 
 
-export default function ImageGrid({ images, isLoading, error, onImageDeleted, currentUserId }: ImageGridProps) {
+export default function ImageGrid({ certificates, isLoading, error, onCertificateDeleted, onCertificateUpdated, currentUserId, showNameMatch = false }: ImageGridProps) {
   const [selectedImageForView, setSelectedImageForView] = useState<UserImage | null>(null);
+  const [selectedPagesForView, setSelectedPagesForView] = useState<UserImage[]>([]);
+  const [selectedCertificateId, setSelectedCertificateId] = useState<string | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
-  const [imageToDelete, setImageToDelete] = useState<UserImage | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<GridEntry | null>(null);
   const [isConfirmDeleteDialogOpen, setIsConfirmDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
   const [generatingDescriptionFor, setGeneratingDescriptionFor] = useState<string | null>(null);
+  const allFiles = certificates.flatMap(c => c.files);
+  const pendingVerificationIds = certificates.filter(c => c.verification?.status === 'pending').map(c => c.id).join(',');
+
+  // Issuer checks run in the background; refresh certificates still waiting for a result.
+  useEffect(() => {
+    if (!pendingVerificationIds || !user) return;
+    const timer = setTimeout(async () => {
+      try {
+        const idToken = await user.getIdToken();
+        for (const certificateId of pendingVerificationIds.split(',')) {
+          const response = await fetch(`/api/certificates/${certificateId}`, { headers: { 'Authorization': `Bearer ${idToken}` } });
+          if (response.ok) onCertificateUpdated(await response.json());
+        }
+      } catch (err: any) {
+        console.warn('ImageGrid: Could not refresh pending verifications:', err.message);
+      }
+    }, VERIFICATION_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [pendingVerificationIds, user, onCertificateUpdated]);
+
+  // Looked up by id so the review panel picks up the updated record after a save.
+  const selectedCertificate = certificates.find(c => c.id === selectedCertificateId) || null;
 
-  const openViewModal = (image: UserImage) => {
+  const openViewModal = ({ certificate, image, pages }: GridEntry) => {
+    if (!image) return;
     setSelectedImageForView(image);
+    setSelectedPagesForView(pages);
+    setSelectedCertificateId(certificate.id);
     setIsViewModalOpen(true);
   };
 
   const closeViewModal = () => {
     setIsViewModalOpen(false);
     setSelectedImageForView(null);
+    setSelectedPagesForView([]);
+    setSelectedCertificateId(null);
   };
 
-  const openDeleteConfirmDialog = (image: UserImage) => {
-    setImageToDelete(image);
+  const openDeleteConfirmDialog = (entry: GridEntry) => {
+    setEntryToDelete(entry);
     setIsConfirmDeleteDialogOpen(true);
   };
 
   const closeDeleteConfirmDialog = () => {
-    setImageToDelete(null);
+    setEntryToDelete(null);
     setIsConfirmDeleteDialogOpen(false);
   };
 
-  const handleImageLinkOpen = (fileId: string) => {
-    window.open(`/api/images/${fileId}`, '_blank');
+  const handleImageLinkOpen = (image: UserImage) => {
+    window.open(getImageSrc(image), '_blank');
   };
 
-  const handleDeleteImage = async () => {
-    if (!imageToDelete || !currentUserId) return;
+  const handleDeleteCertificate = async () => {
+    if (!entryToDelete || !currentUserId || !user) return;
 
     setIsDeleting(true);
     try {
-      const response = await fetch(`/api/images/${imageToDelete.fileId}?userId=${currentUserId}`, {
+      const idToken = await user.getIdToken();
+      const response = await fetch(`/api/certificates/${entryToDelete.certificate.id}`, {
         method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${idToken}`
+        }
       });
 
       const responseBody = await response.json().catch(() => ({ message: 'Failed to parse delete response from server.'}));
 
       if (!response.ok) {
-        throw new Error(responseBody.message || `Failed to delete file. Status: ${response.status}`);
+        throw new Error(responseBody.message || `Failed to delete certificate. Status: ${response.status}`);
       }
 
       toast({
-        title: 'File Deleted',
-        description: `"${imageToDelete.originalName}" has been successfully deleted.`,
+        title: 'Certificate Deleted',
+        description: `"${getCertificateDisplayName(entryToDelete.certificate)}" has been successfully deleted.`,
       });
-      onImageDeleted();
+      onCertificateDeleted();
     } catch (err: any) {
       toast({
-        title: 'Error Deleting File',
+        title: 'Error Deleting Certificate',
         description: err.message || 'An unexpected error occurred.',
         variant: 'destructive',
       });
@@ -127,7 +206,9 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
     toast({ title: 'Generating AI Description', description: `Requesting description for ${image.originalName}...` });
 
     try {
-        const imageResponse = await fetch(`/api/images/${image.fileId}`);
+        if (!user) throw new Error('User not authenticated. Please log in.');
+        const idToken = await user.getIdToken();
+        const imageResponse = await fetch(getImageSrc(image));
         if (!imageResponse.ok) {
             throw new Error(`Failed to fetch image data: ${imageResponse.statusText}`);
         }
@@ -136,7 +217,7 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
 
         const descriptionApiResponse = await fetch('/api/ai/generate-description', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${idToken}` },
             body: JSON.stringify({ photoDataUri }),
         });
 
@@ -184,7 +265,7 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
     );
   }
 
-  if (images.length === 0) {
+  if (certificates.length === 0) {
     return (
       <div className="flex h-full flex-col items-center justify-center text-center py-4 sm:py-8 md:py-12">
         <FileText className="w-12 h-12 sm:w-16 sm:h-16 text-muted-foreground mb-4" />
@@ -197,16 +278,47 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
   return (
     <>
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-6">
-        {images.map((image) => {
-          const imageSrc = `/api/images/${image.fileId}`;
+        {certificates.map(toGridEntry).map((entry) => {
+          const { certificate, image, pages } = entry;
+          const displayName = getCertificateDisplayName(certificate);
+          if (!image) {
+            return (
+              <Card key={certificate.id} className="overflow-hidden shadow-lg group relative flex flex-col">
+                <CardContent className="p-0 flex-shrink-0">
+                  <div className="aspect-square w-full relative flex flex-col items-center justify-center text-muted-foreground">
+                    <FileText className="w-1/3 h-1/3 mb-2" />
+                    <p className="text-xs">No file attached</p>
+                  </div>
+                </CardContent>
+                <div className="absolute top-2 right-2 flex flex-col space-y-1 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-10">
+                  <Button variant="ghost" size="icon" className="h-8 w-8 bg-destructive/70 hover:bg-destructive/90 text-white" onClick={() => openDeleteConfirmDialog(entry)} title="Delete Certificate">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <CertificateCaption certificate={certificate} displayName={displayName} showNameMatch={showNameMatch} />
+              </Card>
+            );
+          }
+          const imageSrc = getImageSrc(image);
           const isPdf = image.contentType === 'application/pdf';
+          // An original PDF is previewed through its first rendered page.
+          const previewImage = isPdf && pages.length > 0 ? pages[0] : null;
           const imageFitClass = 'object-contain'; 
 
           return (
-            <Card key={image.fileId} className="overflow-hidden shadow-lg hover:shadow-xl transition-shadow duration-300 group relative flex flex-col">
-              <CardContent className="p-0 cursor-pointer flex-shrink-0" onClick={() => openViewModal(image)}>
+            <Card key={certificate.id} className="overflow-hidden shadow-lg hover:shadow-xl transition-shadow duration-300 group relative flex flex-col">
+              <CardContent className="p-0 cursor-pointer flex-shrink-0" onClick={() => openViewModal(entry)}>
                 <div className="aspect-square w-full relative flex items-center justify-center">
-                  {isPdf ? (
+                  {previewImage ? (
+                    <Image
+                      src={getImageSrc(previewImage)}
+                      alt={previewImage.originalName || previewImage.filename}
+                      fill
+                      sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+                      className={`${imageFitClass} group-hover:scale-105 transition-transform duration-300`}
+                      data-ai-hint={previewImage.dataAiHint || 'uploaded certificate'}
+                    />
+                  ) : isPdf ? (
                      <FileText className="w-1/2 h-1/2 text-muted-foreground" />
                   ) : (
                     <Image
@@ -226,10 +338,10 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
                 </div>
               </CardContent>
               <div className="absolute top-2 right-2 flex flex-col space-y-1 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-10">
-                <Button variant="ghost" size="icon" className="h-8 w-8 bg-black/40 hover:bg-black/60 text-white" onClick={(e) => { e.stopPropagation(); openViewModal(image);}} title="View File">
+                <Button variant="ghost" size="icon" className="h-8 w-8 bg-black/40 hover:bg-black/60 text-white" onClick={(e) => { e.stopPropagation(); openViewModal(entry);}} title="View File">
                   <Eye className="h-4 w-4" />
                 </Button>
-                <Button variant="ghost" size="icon" className="h-8 w-8 bg-black/40 hover:bg-black/60 text-white" onClick={(e) => { e.stopPropagation(); handleImageLinkOpen(image.fileId); }} title="Open File in New Tab">
+                <Button variant="ghost" size="icon" className="h-8 w-8 bg-black/40 hover:bg-black/60 text-white" onClick={(e) => { e.stopPropagation(); handleImageLinkOpen(image); }} title="Open File in New Tab">
                   <ExternalLink className="h-4 w-4" />
                 </Button>
                 <Button
@@ -241,7 +353,7 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
                   onClick={(e) => e.stopPropagation()}
                 >
                   <a
-                    href={`/api/images/${image.fileId}`}
+                    href={imageSrc}
                     download={image.originalName || image.filename}
                   >
                     <Download className="h-4 w-4" />
@@ -259,14 +371,29 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
                         {generatingDescriptionFor === image.fileId ? <Loader2 className="h-4 w-4 animate-spin"/> : <Bot className="h-4 w-4" />}
                     </Button>
                 )}
-                <Button variant="ghost" size="icon" className="h-8 w-8 bg-destructive/70 hover:bg-destructive/90 text-white" onClick={(e) => { e.stopPropagation(); openDeleteConfirmDialog(image);}} title="Delete File">
+                <Button variant="ghost" size="icon" className="h-8 w-8 bg-destructive/70 hover:bg-destructive/90 text-white" onClick={(e) => { e.stopPropagation(); openDeleteConfirmDialog(entry);}} title="Delete Certificate">
                   <Trash2 className="h-4 w-4" />
                 </Button>
               </div>
-              <div className="p-3 mt-auto border-t bg-card">
-                 <p className="text-sm font-medium truncate text-card-foreground mb-1" title={image.originalName}>{image.originalName}</p>
+              <CertificateCaption certificate={certificate} displayName={displayName} showNameMatch={showNameMatch}>
+                 {image.possibleDuplicateOf && image.possibleDuplicateOf.length > 0 && (
+                   <p
+                     className="text-xs text-amber-600 flex items-center"
+                     title={`Looks the same as: ${image.possibleDuplicateOf.map(id => allFiles.find(i => i.fileId === id)?.originalName || id).join(', ')}`}
+                   >
+                     <Copy className="w-3 h-3 mr-1" /> Possible duplicate
+                   </p>
+                 )}
+                 {pages.length > 0 && (
+                   <p className="text-xs text-muted-foreground flex items-center">
+                     <FileText className="w-3 h-3 mr-1" /> PDF &middot; {pages.length} page{pages.length === 1 ? '' : 's'}
+                   </p>
+                 )}
+                 {image.uploadedByRole === 'linkedAdmin' && (
+                   <p className="text-xs text-muted-foreground">Uploaded by linked admin</p>
+                 )}
                  {/* Removed AI description rendering from here */}
-              </div>
+              </CertificateCaption>
             </Card>
           );
         })}
@@ -277,23 +404,27 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
           isOpen={isViewModalOpen}
           onClose={closeViewModal}
           image={selectedImageForView}
+          pages={selectedPagesForView}
+          certificate={selectedCertificate}
+          onCertificateUpdated={onCertificateUpdated}
         />
       )}
 
-      {imageToDelete && (
+      {entryToDelete && (
         <AlertDialog open={isConfirmDeleteDialogOpen} onOpenChange={setIsConfirmDeleteDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
               <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
               <AlertDialogDescription>
-                This action cannot be undone. This will permanently delete the file
-                &quot;{imageToDelete.originalName}&quot;.
+                This action cannot be undone. This will permanently delete the certificate
+                &quot;{getCertificateDisplayName(entryToDelete.certificate)}&quot;
+                {entryToDelete.certificate.files.length > 0 && ` and its ${entryToDelete.certificate.files.length} file${entryToDelete.certificate.files.length === 1 ? '' : 's'}`}.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel onClick={closeDeleteConfirmDialog} disabled={isDeleting}>Cancel</AlertDialogCancel>
               <AlertDialogAction
-                onClick={handleDeleteImage}
+                onClick={handleDeleteCertificate}
                 disabled={isDeleting}
                 className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
               >
@@ -307,3 +438,48 @@ export default function ImageGrid({ images, isLoading, error, onImageDeleted, cu
     </>
   );
 }
+
+// Footer of a card: certificate title, issuer and dates, plus any per-file notes passed as children.
+function CertificateCaption({ certificate, displayName, showNameMatch, children }: { certificate: CertificateWithFiles; displayName: string; showNameMatch: boolean; children?: React.ReactNode }) {
+  const details = [certificate.issuer, certificate.issueDate].filter(Boolean).join(' · ');
+  return (
+    <div className="p-3 mt-auto border-t bg-card">
+      <p className="text-sm font-medium truncate text-card-foreground mb-1" title={displayName}>{displayName}</p>
+      {details && <p className="text-xs text-muted-foreground truncate" title={details}>{details}</p>}
+      {certificate.status === 'draft' && (
+        <p className="text-xs text-muted-foreground italic">Details not filled in yet</p>
+      )}
+      {isExpiringSoon(certificate) && (() => {
+        const daysLeft = getDaysUntilExpiry(certificate)!;
+        return (
+          <p className="text-xs text-amber-600 flex items-center" title={`Expires on ${certificate.expiryDate}`}>
+            <CalendarClock className="w-3 h-3 mr-1" /> {daysLeft === 0 ? 'Expires today' : `Expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+          </p>
+        );
+      })()}
+      {certificate.verification && (() => {
+        const { label, className, Icon } = VERIFICATION_BADGES[certificate.verification.status];
+        return (
+          <p className={`text-xs flex items-center ${className}`} title={certificate.verification.detail || label}>
+            <Icon className={`w-3 h-3 mr-1 ${certificate.verification.status === 'pending' ? 'animate-spin' : ''}`} /> {label}
+          </p>
+        );
+      })()}
+      {certificate.humanVerified && (
+        <p className="text-xs text-muted-foreground flex items-center"><ShieldCheck className="w-3 h-3 mr-1" /> Human verified</p>
+      )}
+      {showNameMatch && certificate.nameMatch?.mismatch && (
+        <p
+          className="text-xs text-destructive flex items-center"
+          title={`Issued to "${certificate.nameMatch.checkedName}" (name match ${Math.round(certificate.nameMatch.score * 100)}%)`}
+        >
+          <UserX className="w-3 h-3 mr-1" /> Name mismatch
+        </p>
+      )}
+      {(certificate.status === 'expired' || certificate.status === 'revoked') && (
+        <Badge variant="destructive" className="mt-1 capitalize">{certificate.status}</Badge>
+      )}
+      {children}
+    </div>
+  );
+}
@@ -8,26 +8,36 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertCircle, Bot, Camera, CheckCircle, FileText, FileUp, ImagePlus, Loader2, Trash2, UploadCloud } from 'lucide-react';
+import { AlertCircle, Bot, Camera, CheckCircle, Copy, FileText, FileUp, ImagePlus, Loader2, Trash2, UploadCloud } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  RESUMABLE_UPLOAD_THRESHOLD_BYTES,
+  discardPendingResumableUpload,
+  listPendingResumableUploads,
+  uploadFileResumable,
+  type PendingResumableUpload,
+} from '@/lib/uploads/resumableUploadClient';
+import { formatMegabytes, validateFileBeforeUpload, type UploadLimits } from '@/lib/uploads/uploadLimits';
 
 interface UploadedFileEntry {
   file: File;
   previewUrl: string;
   progress: number;
-  status: 'pending' | 'uploading' | 'success' | 'error';
+  status: 'pending' | 'uploading' | 'success' | 'error' | 'duplicate' | 'invalid'; // 'invalid' failed the pre-upload checks and is never sent
   error?: string;
   fileId?: string;
   isGeneratingDescription: boolean;
   isPdf: boolean;
   aiDescription?: string; // Added to store AI description
+  duplicateOfFileId?: string; // Existing file with the same content, when the server reported DUPLICATE_FILE
 }
 
 interface ImageUploaderProps {
   onUploadComplete: (uploadedFiles: { originalName: string; fileId: string }[]) => void;
   closeModal: () => void;
+  targetUserId?: string; // Set when a linked admin uploads on behalf of a student; defaults to the signed-in user
 }
 
 // Helper function to convert File to Data URI
@@ -44,13 +54,68 @@ const fileToDataUri = (file: File): Promise<string> => {
   });
 };
 
-export default function ImageUploader({ onUploadComplete, closeModal }: ImageUploaderProps) {
+// Per-file entry of the batch response from /api/upload-image (see the route for the full shape).
+interface BatchUploadResult {
+  index: number;
+  originalName: string;
+  success: boolean;
+  files?: { originalName: string; fileId: string; pageNumber?: number }[];
+  errorKey?: string;
+  message?: string;
+  duplicate?: boolean;
+  existingFileId?: string;
+}
+
+// fetch() cannot report upload progress, so batch uploads go through XMLHttpRequest.
+const postBatchWithProgress = (
+  formData: FormData,
+  idToken: string,
+  onProgress: (loadedBytes: number) => void
+): Promise<{ status: number; responseText: string }> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', '/api/upload-image');
+    xhr.setRequestHeader('Authorization', `Bearer ${idToken}`);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => resolve({ status: xhr.status, responseText: xhr.responseText });
+    xhr.onerror = () => reject(new Error('Upload failed due to a network issue.'));
+    xhr.send(formData);
+  });
+};
+
+export default function ImageUploader({ onUploadComplete, closeModal, targetUserId }: ImageUploaderProps) {
   const [selectedFiles, setSelectedFiles] = useState<UploadedFileEntry[]>([]);
   const [isUploading, setIsUploading] = useState(false);
-  const { userId } = useAuth();
+  const { user, userId } = useAuth();
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingResumableUploads, setPendingResumableUploads] = useState<PendingResumableUpload[]>([]);
+  const [uploadLimits, setUploadLimits] = useState<UploadLimits | null>(null);
+
+  // The server enforces these limits anyway; knowing them lets us reject files before sending any bytes.
+  React.useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    user.getIdToken()
+      .then(idToken => fetch('/api/uploads/limits', { headers: { 'Authorization': `Bearer ${idToken}` } }))
+      .then(response => (response.ok ? response.json() : null))
+      .then((limits: UploadLimits | null) => { if (!cancelled && limits) setUploadLimits(limits); })
+      .catch(error => console.warn('ImageUploader: Could not load upload limits. Relying on server-side checks.', error));
+    return () => { cancelled = true; };
+  }, [user]);
+
+  // Large uploads interrupted by a reload or a dropped connection can be continued by selecting the same file again.
+  React.useEffect(() => {
+    const ownerUserId = targetUserId || userId;
+    setPendingResumableUploads(listPendingResumableUploads().filter(p => p.ownerUserId === ownerUserId));
+  }, [targetUserId, userId, isUploading]);
+
+  const handleDiscardPendingUpload = async (pending: PendingResumableUpload) => {
+    if (!user) return;
+    await discardPendingResumableUpload(pending.uploadId, await user.getIdToken());
+    setPendingResumableUploads(prev => prev.filter(p => p.uploadId !== pending.uploadId));
+  };
 
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -70,6 +135,16 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
         });
       setSelectedFiles(prev => [...prev, ...newFileEntries]);
       if(event.target) event.target.value = "";
+
+      if (uploadLimits) {
+        newFileEntries.forEach(async entry => {
+          const problem = await validateFileBeforeUpload(entry.file, uploadLimits);
+          if (problem) {
+            const identity = entry.file.name + entry.file.lastModified;
+            setSelectedFiles(prev => prev.map(f => f.file.name + f.file.lastModified === identity ? { ...f, status: 'invalid', error: `${problem.message} [${problem.errorKey}]` } : f));
+          }
+        });
+      }
     }
   };
 
@@ -109,6 +184,8 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
     ));
 
     try {
+      if (!user) throw new Error('User not authenticated. Please log in.');
+      const idToken = await user.getIdToken();
       const photoDataUri = await fileToDataUri(targetFileEntry.file);
       console.log(`ImageUploader: Calling API '/api/ai/generate-description' for ${targetFileEntry.file.name}`);
 
@@ -116,6 +193,7 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
         },
         body: JSON.stringify({ photoDataUri }),
       });
@@ -155,87 +233,127 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
   };
 
 
-  const handleUpload = async () => {
-    if (!userId) {
+  // `override` re-sends files the server flagged as duplicates, asking it to store them anyway.
+  const handleUpload = async (override?: { entries: UploadedFileEntry[]; allowDuplicate: true }) => {
+    if (!userId || !user) {
       toast({ title: 'Authentication Error', description: 'User not authenticated. Please log in.', variant: 'destructive' });
       return;
     }
 
-    const filesToUpload = selectedFiles.filter(f => f.status === 'pending' || f.status === 'error');
+    const allowDuplicate = !!override?.allowDuplicate;
+    const filesToUpload = override?.entries ?? selectedFiles.filter(f => f.status === 'pending' || f.status === 'error');
     if (filesToUpload.length === 0) {
       toast({ title: 'No New Files', description: 'No new files or files with errors to attempt uploading.'});
       return;
     }
 
     setIsUploading(true);
+    const ownerUserId = targetUserId || userId;
+    const updateEntry = (identity: string, patch: Partial<UploadedFileEntry>) =>
+      setSelectedFiles(prev => prev.map(f => f.file.name + f.file.lastModified === identity ? { ...f, ...patch } : f));
     let allUploadedFileMetas: { originalName: string; fileId: string }[] = [];
+    let duplicateCount = 0;
 
-    for (const fileEntry of filesToUpload) {
-      setSelectedFiles(prev => prev.map(f => f.file.name + f.file.lastModified === fileEntry.file.name + fileEntry.file.lastModified ? { ...f, status: 'uploading', progress: 30, error: undefined, aiDescription: undefined } : f));
-
-      const formData = new FormData();
-      formData.append('file', fileEntry.file);
-      formData.append('userId', userId);
-      formData.append('originalName', fileEntry.file.name);
-      formData.append('contentType', fileEntry.file.type);
+    // Large files go through the chunked, resumable protocol one at a time; everything else in one batch request.
+    const resumableEntries = filesToUpload.filter(f => f.file.size >= RESUMABLE_UPLOAD_THRESHOLD_BYTES);
+    const batchEntries = filesToUpload.filter(f => f.file.size < RESUMABLE_UPLOAD_THRESHOLD_BYTES);
 
+    for (const fileEntry of resumableEntries) {
+      const identity = fileEntry.file.name + fileEntry.file.lastModified;
+      updateEntry(identity, { status: 'uploading', progress: 0, error: undefined, aiDescription: undefined, duplicateOfFileId: undefined });
       try {
-        setSelectedFiles(prev => prev.map(f => f.file.name + f.file.lastModified === fileEntry.file.name + fileEntry.file.lastModified ? { ...f, progress: 60 } : f));
-
-        const response = await fetch('/api/upload-image', {
-          method: 'POST',
-          body: formData,
+        const outcome = await uploadFileResumable(fileEntry.file, {
+          ownerUserId,
+          getIdToken: () => user.getIdToken(),
+          allowDuplicate,
+          onProgress: fraction => updateEntry(identity, { progress: Math.round(fraction * 95) }),
         });
+        if (outcome.ok) {
+          if (outcome.resumedFromBytes > 0) {
+            console.log(`ImageUploader: Resumed upload of ${fileEntry.file.name} from byte ${outcome.resumedFromBytes}.`);
+          }
+          allUploadedFileMetas.push(...outcome.files);
+          updateEntry(identity, { status: 'success', progress: 100, fileId: outcome.files[0]?.fileId });
+        } else if (outcome.errorKey === 'DUPLICATE_FILE') {
+          duplicateCount += 1;
+          updateEntry(identity, { status: 'duplicate', error: outcome.message, progress: 0, duplicateOfFileId: outcome.existingFileId });
+        } else {
+          const errorMsg = `${outcome.message}${outcome.errorKey ? ` [${outcome.errorKey}]` : ''}`;
+          console.error(`ImageUploader: Resumable upload failed for ${fileEntry.file.name}. Error:`, errorMsg);
+          updateEntry(identity, { status: 'error', error: errorMsg, progress: 0 });
+        }
+      } catch (networkError: any) {
+        console.error(`ImageUploader: Network error during resumable upload for file: ${fileEntry.file.name}. Error:`, networkError.message, networkError);
+        updateEntry(identity, { status: 'error', error: `${networkError.message || 'Upload failed due to a network issue.'} Select the file again to resume.`, progress: 0 });
+      }
+    }
 
-        const responseText = await response.text();
+    if (batchEntries.length > 0) {
+      const identities = batchEntries.map(f => f.file.name + f.file.lastModified);
 
-        if (!response.ok) {
-          let errorMsg = `Upload failed. Server responded with status ${response.status}.`;
-          let reqIdFromServer = null;
+      setSelectedFiles(prev => prev.map(f => identities.includes(f.file.name + f.file.lastModified) ? { ...f, status: 'uploading', progress: 0, error: undefined, aiDescription: undefined, duplicateOfFileId: undefined } : f));
 
-          try {
-            const parsedError = JSON.parse(responseText);
-            if (typeof parsedError === 'object' && parsedError !== null) {
-              errorMsg = parsedError.message || errorMsg;
-              reqIdFromServer = parsedError.reqId || null;
-              if (reqIdFromServer && !errorMsg.includes('Req ID:')) {
-                errorMsg += ` (Req ID: ${reqIdFromServer})`;
-              }
-            } else {
-                errorMsg = responseText.length < 100 ? responseText : `Server error ${response.status}. Invalid error format received.`;
-            }
-          } catch (e) {
-            console.warn(`ImageUploader: Server error response for ${fileEntry.file.name} was not valid JSON. Status: ${response.status}. Raw Response:`, responseText.substring(0,500));
-            errorMsg = responseText.length < 200 ? `Server error ${response.status}: ${responseText}` : `Server error ${response.status}. See console for details.`;
-          }
-          console.error(`ImageUploader: Upload failed for ${fileEntry.file.name}. Status: ${response.status}. Error:`, errorMsg);
-          setSelectedFiles(prev => prev.map(f => f.file.name + f.file.lastModified === fileEntry.file.name + fileEntry.file.lastModified ? { ...f, status: 'error', error: errorMsg, progress: 0 } : f));
-          continue;
-        }
+      // One request for the whole batch; the server answers with one result entry per file, in order.
+      const formData = new FormData();
+      formData.append('userId', ownerUserId);
+      if (allowDuplicate) formData.append('allowDuplicate', 'true');
+      batchEntries.forEach(fileEntry => formData.append('files', fileEntry.file));
 
-        let responseBodyArray;
+      try {
+        const idToken = await user.getIdToken();
+        const { status, responseText } = await postBatchWithProgress(formData, idToken, loadedBytes => {
+          // Spread the request's upload progress over the files in the order they were appended.
+          // Capped at 90% because the server still has to store (or convert) each file afterwards.
+          let offset = 0;
+          const progressByIdentity = new Map<string, number>();
+          batchEntries.forEach((fileEntry, i) => {
+            const size = fileEntry.file.size || 1;
+            const sent = Math.min(Math.max(loadedBytes - offset, 0), size);
+            progressByIdentity.set(identities[i], Math.round((sent / size) * 90));
+            offset += size;
+          });
+          setSelectedFiles(prev => prev.map(f => {
+            const progress = progressByIdentity.get(f.file.name + f.file.lastModified);
+            return progress !== undefined && f.status === 'uploading' ? { ...f, progress } : f;
+          }));
+        });
+
+        let body: any = null;
         try {
-            responseBodyArray = JSON.parse(responseText);
+          body = JSON.parse(responseText);
         } catch (e) {
-            console.error(`ImageUploader: Successfully received 2xx response for ${fileEntry.file.name}, but body was not valid JSON. Raw text:`, responseText.substring(0,500));
-            setSelectedFiles(prev => prev.map(f => f.file.name + f.file.lastModified === fileEntry.file.name + fileEntry.file.lastModified ? { ...f, status: 'error', error: 'Server sent success status but invalid data format.', progress: 0 } : f));
-            continue;
+          console.warn(`ImageUploader: Batch upload response was not valid JSON. Status: ${status}. Raw Response:`, responseText.substring(0, 500));
         }
 
-        const successfulUploadsForThisFile = (Array.isArray(responseBodyArray) ? responseBodyArray : [responseBodyArray]).filter((meta: any) => meta.fileId);
-        allUploadedFileMetas.push(...successfulUploadsForThisFile);
-
-        setSelectedFiles(prev => prev.map(f => {
-          if (f.file.name + f.file.lastModified === fileEntry.file.name + fileEntry.file.lastModified) {
-            return { ...f, status: 'success', progress: 100, fileId: successfulUploadsForThisFile.length > 0 ? successfulUploadsForThisFile[0].fileId : undefined };
+        if (status < 200 || status >= 300 || !body || !Array.isArray(body.results)) {
+          let errorMsg = body?.message || (responseText.length < 200 ? `Server error ${status}: ${responseText}` : `Upload failed. Server responded with status ${status}.`);
+          if (body?.reqId && !errorMsg.includes('Req ID:')) {
+            errorMsg += ` (Req ID: ${body.reqId})`;
           }
-          return f;
-        }));
-
+          console.error(`ImageUploader: Batch upload failed. Status: ${status}. Error:`, errorMsg);
+          identities.forEach(identity => updateEntry(identity, { status: 'error', error: errorMsg, progress: 0 }));
+        } else {
+          for (const result of body.results as BatchUploadResult[]) {
+            const identity = identities[result.index];
+            if (!identity) continue;
+            if (result.success) {
+              const storedFiles = result.files || [];
+              allUploadedFileMetas.push(...storedFiles);
+              updateEntry(identity, { status: 'success', progress: 100, fileId: storedFiles[0]?.fileId });
+            } else if (result.duplicate) {
+              duplicateCount += 1;
+              updateEntry(identity, { status: 'duplicate', error: result.message, progress: 0, duplicateOfFileId: result.existingFileId });
+            } else {
+              const errorMsg = `${result.message || 'Upload failed.'}${result.errorKey ? ` [${result.errorKey}]` : ''}`;
+              console.error(`ImageUploader: Upload failed for ${result.originalName}. Error:`, errorMsg);
+              updateEntry(identity, { status: 'error', error: errorMsg, progress: 0 });
+            }
+          }
+        }
       } catch (networkError: any) {
-        console.error(`ImageUploader: Network error during upload for file: ${fileEntry.file.name}. Error:`, networkError.message, networkError);
+        console.error('ImageUploader: Network error during batch upload. Error:', networkError.message, networkError);
         const errorMessage = networkError.message || 'Upload failed due to a network issue.';
-        setSelectedFiles(prev => prev.map(f => f.file.name + f.file.lastModified === fileEntry.file.name + fileEntry.file.lastModified ? { ...f, status: 'error', error: errorMessage, progress: 0 } : f));
+        identities.forEach(identity => updateEntry(identity, { status: 'error', error: errorMessage, progress: 0 }));
       }
     }
 
@@ -244,6 +362,8 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
     if (allUploadedFileMetas.length > 0) {
       onUploadComplete(allUploadedFileMetas);
       toast({ title: 'Upload Process Complete', description: `${allUploadedFileMetas.length} file(s) processed.` });
+    } else if (duplicateCount > 0 && duplicateCount === filesToUpload.length) {
+      toast({ title: 'Already Uploaded', description: 'These files are already in the hub. Use "Upload Anyway" to store another copy.' });
     } else if (filesToUpload.length > 0) {
       toast({ title: 'Upload Failed', description: 'No files were successfully uploaded in this batch.', variant: 'destructive' });
     }
@@ -286,7 +406,33 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
           <span className="sr-only">Select images or PDFs to upload</span>
         </Button>
       )}
+      {uploadLimits && (
+        <p className="text-xs text-muted-foreground text-center -mt-4">
+          Up to {formatMegabytes(uploadLimits.maxFileBytes)} per file. PDFs up to {uploadLimits.maxPdfPages} pages.
+        </p>
+      )}
+
 
+      {pendingResumableUploads.length > 0 && (
+        <Card className="border-dashed bg-muted/40">
+          <CardHeader className="p-3 pb-1">
+            <CardTitle className="text-sm font-medium">Unfinished uploads</CardTitle>
+          </CardHeader>
+          <CardContent className="p-3 pt-0 space-y-2">
+            <p className="text-xs text-muted-foreground">Select the same file again and press upload to continue where it stopped.</p>
+            {pendingResumableUploads.map(pending => (
+              <div key={pending.uploadId} className="flex items-center justify-between gap-2">
+                <p className="text-xs truncate" title={pending.fileName}>
+                  {pending.fileName} ({(pending.size / 1024 / 1024).toFixed(2)} MB)
+                </p>
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleDiscardPendingUpload(pending)} disabled={isUploading}>
+                  Discard
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
 
       {selectedFiles.length > 0 && (
         <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
@@ -353,6 +499,23 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
                         )}
                       </>
                     )}
+                    {uploadedFile.status === 'duplicate' && (
+                      <>
+                        <p className="text-xs text-amber-600 flex items-center" title={uploadedFile.error}>
+                          <Copy className="w-3 h-3 mr-1"/>{uploadedFile.error || 'You already uploaded this file.'}
+                        </p>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="mt-2"
+                          onClick={() => handleUpload({ entries: [uploadedFile], allowDuplicate: true })}
+                          disabled={isUploading}
+                        >
+                          Upload Anyway
+                        </Button>
+                      </>
+                    )}
+                    {uploadedFile.status === 'invalid' && <p className="text-xs text-destructive flex items-center" title={uploadedFile.error}><AlertCircle className="w-3 h-3 mr-1"/>{uploadedFile.error}</p>}
                     {uploadedFile.status === 'error' && <p className="text-xs text-destructive flex items-center" title={uploadedFile.error}><AlertCircle className="w-3 h-3 mr-1"/>{uploadedFile.error}</p>}
                   </div>
                   {uploadedFile.status !== 'uploading' && !uploadedFile.isGeneratingDescription && (
@@ -377,7 +540,7 @@ export default function ImageUploader({ onUploadComplete, closeModal }: ImageUpl
 
       {selectedFiles.length > 0 && (
         <Button
-          onClick={handleUpload}
+          onClick={() => handleUpload()}
           disabled={isUploading || !selectedFiles.some(f => f.status === 'pending' || f.status === 'error')}
           className="w-full"
         >
@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { LogOut, User as UserIcon, Settings, LifeBuoy } from 'lucide-react';
+import { LogOut, User as UserIcon, Settings, LifeBuoy, Globe } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
   DropdownMenu,
@@ -86,6 +86,12 @@ export default function ProfileDropdown() {
               <span>Settings</span>
             </Link>
           </DropdownMenuItem>
+          <DropdownMenuItem asChild className="cursor-pointer">
+            <Link href="/portfolio">
+              <Globe className="mr-2 h-4 w-4" />
+              <span>Public Portfolio</span>
+            </Link>
+          </DropdownMenuItem>
         </DropdownMenuGroup>
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleLogout} className="cursor-pointer text-destructive focus:text-destructive focus:bg-destructive/10">
@@ -8,9 +8,11 @@ import { useAuth } from '@/hooks/useAuth';
 
 interface UploadFABProps {
   onUploadSuccess: () => void; // Callback to refresh image grid
+  targetUserId?: string; // Linked admin uploading on behalf of this student
+  targetUserName?: string;
 }
 
-export default function UploadFAB({ onUploadSuccess }: UploadFABProps) {
+export default function UploadFAB({ onUploadSuccess, targetUserId, targetUserName }: UploadFABProps) {
   const { user } = useAuth();
 
   if (!user) return null;
@@ -29,6 +31,8 @@ export default function UploadFAB({ onUploadSuccess }: UploadFABProps) {
         </Button>
       }
       onUploadProcessed={onUploadSuccess} // This will call triggerRefresh in HomePageContent
+      targetUserId={targetUserId}
+      targetUserName={targetUserName}
     />
   );
 }
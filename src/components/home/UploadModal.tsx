@@ -20,6 +20,8 @@ interface UploadModalProps {
   trigger: React.ReactNode;
   user: User | null;
   onUploadProcessed: () => void;
+  targetUserId?: string; // Upload into this student's hub instead of the signed-in user's (linked admins only)
+  targetUserName?: string;
 }
 
 // This is the type of data ImageUploader's onUploadComplete will provide
@@ -31,7 +33,7 @@ interface UploadedFileMeta {
   pageNumber?: number; // If it was a PDF page
 }
 
-export default function UploadModal({ trigger, user, onUploadProcessed }: UploadModalProps) {
+export default function UploadModal({ trigger, user, onUploadProcessed, targetUserId, targetUserName }: UploadModalProps) {
   const [isOpen, setIsOpen] = useState(false);
 
   const handleUploadComplete = async (uploadedFiles: UploadedFileMeta[]) => {
@@ -52,13 +54,16 @@ export default function UploadModal({ trigger, user, onUploadProcessed }: Upload
       <DialogTrigger asChild>{trigger}</DialogTrigger>
       <DialogContent className="sm:max-w-[625px] max-h-[90vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle className="font-headline text-2xl">Upload Files to Database</DialogTitle>
+          <DialogTitle className="font-headline text-2xl">
+            {targetUserId ? `Upload Certificates for ${targetUserName || 'Student'}` : 'Upload Files to Database'}
+          </DialogTitle>
           <DialogDescription>
             Select images or PDF documents from your device. PDFs will be converted to images per page.
+            {targetUserId && ' Files will be added to the student\'s hub and recorded as uploaded by you.'}
           </DialogDescription>
         </DialogHeader>
         <div className="flex-grow overflow-y-auto pr-1 py-4">
-          <ImageUploader onUploadComplete={handleUploadComplete} closeModal={() => setIsOpen(false)} />
+          <ImageUploader onUploadComplete={handleUploadComplete} closeModal={() => setIsOpen(false)} targetUserId={targetUserId} />
         </div>
         <DialogFooter>
             <DialogClose asChild>
@@ -13,30 +13,46 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import type { UserImage } from './ImageGrid';
+import CertificateReviewPanel from './CertificateReviewPanel';
+import type { Certificate, CertificateWithFiles } from '@/lib/models/certificate';
+import { getImageSrc } from '@/lib/imageUrls';
 import { useEffect, useState } from 'react';
-import { FileText, ExternalLink, AlertTriangle } from 'lucide-react';
+import { FileText, ExternalLink, AlertTriangle, ChevronLeft, ChevronRight, QrCode } from 'lucide-react';
 
 interface ViewImageModalProps {
   isOpen: boolean;
   onClose: () => void;
   image: UserImage | null;
+  pages?: UserImage[]; // Page images of an original PDF, in page order; browsed with page navigation
+  certificate?: CertificateWithFiles | null; // When set, the certificate's fields are shown for review next to the file
+  onCertificateUpdated?: (certificate: Certificate) => void;
 }
 
-export default function ViewImageModal({ isOpen, onClose, image }: ViewImageModalProps) {
+export default function ViewImageModal({ isOpen, onClose, image, pages = [], certificate = null, onCertificateUpdated }: ViewImageModalProps) {
   const [imageLoadError, setImageLoadError] = useState(false);
+  const [pageIndex, setPageIndex] = useState(0);
 
   useEffect(() => {
     if (image) {
       setImageLoadError(false); // Reset error state when a new image is passed
+      setPageIndex(0);
     }
   }, [image]);
 
+  useEffect(() => {
+    setImageLoadError(false);
+  }, [pageIndex]);
+
   if (!image) {
     return null;
   }
 
-  const imageSrc = `/api/images/${image.fileId}`;
-  const isPdf = image.contentType === 'application/pdf';
+  const hasPages = pages.length > 0;
+  // With pages, the stage shows the current page; `image` (the original PDF) stays available via the footer link.
+  const displayedImage = hasPages ? pages[Math.min(pageIndex, pages.length - 1)] : image;
+  const imageSrc = getImageSrc(displayedImage);
+  const isPdf = displayedImage.contentType === 'application/pdf';
+  const decodedCodes = displayedImage.decodedCodes || [];
 
   return (
     <Dialog
@@ -47,7 +63,7 @@ export default function ViewImageModal({ isOpen, onClose, image }: ViewImageModa
     >
       <DialogContent
         key={image.fileId ? `${image.fileId}-dialog-content` : 'dialog-empty'}
-        className="sm:max-w-3xl w-[95vw] max-h-[90vh] flex flex-col p-0 overflow-hidden" // Changed to overflow-hidden to prevent double scrollbars if content fits
+        className={`${certificate ? 'sm:max-w-6xl' : 'sm:max-w-3xl'} w-[95vw] max-h-[90vh] flex flex-col p-0 overflow-hidden`} // Changed to overflow-hidden to prevent double scrollbars if content fits
       >
         <DialogHeader className="p-4 sm:p-6 pb-2 sm:pb-4 shrink-0 border-b">
           <DialogTitle className="font-headline text-lg sm:text-xl truncate" title={image.originalName}>
@@ -58,9 +74,10 @@ export default function ViewImageModal({ isOpen, onClose, image }: ViewImageModa
           </DialogDescription>
         </DialogHeader>
         
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row overflow-y-auto md:overflow-hidden">
         <div // This is the content stage, now handles scrolling internally if needed
           key={`${image.fileId}-content-stage`}
-          className="flex-1 min-h-0 w-full flex items-center justify-center p-4 overflow-y-auto" 
+          className="flex-1 min-h-0 w-full flex items-center justify-center p-4 md:overflow-y-auto" 
         >
           {isPdf ? (
             <div className="flex flex-col items-center justify-center text-center space-y-4">
@@ -81,15 +98,15 @@ export default function ViewImageModal({ isOpen, onClose, image }: ViewImageModa
             </div>
           ) : (
             <Image
-              key={`${image.fileId}-modal-image`}
+              key={`${displayedImage.fileId}-modal-image`}
               src={imageSrc}
-              alt={`View of ${image.originalName}`}
+              alt={`View of ${displayedImage.originalName}`}
               width={1200} 
               height={1200} 
               className="object-contain max-w-full max-h-full" 
               sizes="(max-width: 767px) 90vw, 700px" 
               priority
-              data-ai-hint={image.dataAiHint || 'full view image'}
+              data-ai-hint={displayedImage.dataAiHint || 'full view image'}
               onLoad={(event) => {
                 const target = event.target as HTMLImageElement;
                 console.log(`ViewImageModal: Next/Image onLoad for src: ${target.src}. Natural dimensions: ${target.naturalWidth}x${target.naturalHeight}. Styled dimensions: ${target.width}x${target.height}.`);
@@ -103,8 +120,50 @@ export default function ViewImageModal({ isOpen, onClose, image }: ViewImageModa
             />
           )}
         </div>
+        {certificate && onCertificateUpdated && (
+          <div className="md:w-[360px] shrink-0 border-t md:border-t-0 md:border-l p-4 min-h-0 flex flex-col">
+            <CertificateReviewPanel certificate={certificate} onCertificateUpdated={onCertificateUpdated} />
+          </div>
+        )}
+        </div>
 
-        <DialogFooter className="p-4 sm:p-6 pt-2 sm:pt-4 shrink-0 border-t">
+        {decodedCodes.length > 0 && (
+          <div className="shrink-0 border-t px-4 sm:px-6 py-2 space-y-1">
+            {decodedCodes.map(code => (
+              <p key={code.text} className="text-sm flex items-center gap-2 min-w-0">
+                <QrCode className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="text-muted-foreground shrink-0">{code.format === 'QR_CODE' ? 'QR code' : 'Barcode'}:</span>
+                {code.url ? (
+                  <a href={code.url} target="_blank" rel="noopener noreferrer" className="text-primary underline truncate" title="Open verification link">
+                    {code.url}
+                  </a>
+                ) : (
+                  <span className="truncate" title={code.text}>{code.text}</span>
+                )}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="p-4 sm:p-6 pt-2 sm:pt-4 shrink-0 border-t sm:justify-between gap-2">
+          {hasPages && (
+            <div className="flex items-center justify-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => setPageIndex(i => Math.max(0, i - 1))} disabled={pageIndex === 0} title="Previous page">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                Page {displayedImage.pageNumber || pageIndex + 1} of {pages.length}
+              </span>
+              <Button variant="outline" size="icon" onClick={() => setPageIndex(i => Math.min(pages.length - 1, i + 1))} disabled={pageIndex >= pages.length - 1} title="Next page">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <a href={getImageSrc(image)} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="mr-2 h-4 w-4" /> Original PDF
+                </a>
+              </Button>
+            </div>
+          )}
           <DialogClose asChild>
             <Button variant="outline">Close</Button>
           </DialogClose>
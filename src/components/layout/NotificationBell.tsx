@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import type { AppNotification } from '@/lib/models/notification';
+import {
+  getNotificationsRealtime,
+  getUnreadNotificationCountRealtime,
+  markAllNotificationsRead,
+  markNotificationsRead,
+} from '@/lib/services/notificationService';
+
+// Header bell with the unread count and a real-time list of the user's latest notifications.
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState({ count: 0, isCapped: false });
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount({ count: 0, isCapped: false });
+      return;
+    }
+    const unsubscribeFeed = getNotificationsRealtime(user.uid, setNotifications, (error) => {
+      console.error('NotificationBell: Notification listener failed.', error);
+    });
+    // Counted separately so unread notifications older than the feed still show up in the badge.
+    const unsubscribeCount = getUnreadNotificationCountRealtime(user.uid, (count, isCapped) => setUnreadCount({ count, isCapped }), (error) => {
+      console.error('NotificationBell: Unread count listener failed.', error);
+    });
+    return () => {
+      unsubscribeFeed();
+      unsubscribeCount();
+    };
+  }, [user]);
+
+  const unreadLabel = `${unreadCount.count}${unreadCount.isCapped ? '+' : ''}`;
+
+  const markRead = async (ids: string[]) => {
+    if (!user) return;
+    try {
+      await markNotificationsRead(user.uid, ids);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message || 'Could not update notifications.', variant: 'destructive' });
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+    try {
+      await markAllNotificationsRead(user.uid);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message || 'Could not update notifications.', variant: 'destructive' });
+    }
+  };
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.read && notification.id) markRead([notification.id]);
+    if (notification.link) {
+      setIsOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={unreadCount.count > 0 ? `Notifications (${unreadLabel} unread)` : 'Notifications'}>
+          <Bell className="h-5 w-5" />
+          {unreadCount.count > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-accent px-1 text-[10px] font-bold text-accent-foreground">
+              {unreadCount.count > 9 ? '9+' : unreadCount.count}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <p className="text-sm font-semibold">Notifications</p>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              disabled={unreadCount.count === 0}
+              onClick={markAllRead}
+            >
+              <CheckCheck className="mr-1 h-3 w-3" /> Mark all read
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+              <Link href="/profile-settings#notification-settings" aria-label="Notification settings" onClick={() => setIsOpen(false)}>
+                <Settings className="h-4 w-4" />
+              </Link>
+            </Button>
+          </div>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">You have no notifications yet.</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <ul>
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpenNotification(notification)}
+                    className={cn('w-full border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted/50', !notification.read && 'bg-primary/5')}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-accent" aria-hidden />}
+                      <div className="min-w-0">
+                        <p className={cn('text-sm', !notification.read && 'font-semibold')}>{notification.title}</p>
+                        <p className="text-xs text-muted-foreground">{notification.body}</p>
+                        {notification.createdAt && (
+                          <p className="mt-1 text-[11px] text-muted-foreground">{formatDistanceToNow(notification.createdAt.toDate(), { addSuffix: true })}</p>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
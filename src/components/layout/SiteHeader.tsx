@@ -4,6 +4,7 @@
 import Link from 'next/link';
 import AppLogo from '@/components/common/AppLogo';
 import ProfileDropdown from '@/components/home/ProfileDropdown';
+import NotificationBell from '@/components/layout/NotificationBell';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { LayoutDashboard } from 'lucide-react';
@@ -43,7 +44,7 @@ export default function SiteHeader() {
   return (
     <TooltipProvider>
       <header 
-        className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60"
+        className="sticky top-0 z-50 w-full print:hidden border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60"
         style={{ '--header-height': '4rem' } as React.CSSProperties}
       >
         <div className="container flex h-16 max-w-screen-2xl items-center">
@@ -76,6 +77,7 @@ export default function SiteHeader() {
                 </Tooltip>
               </>
             )}
+            {user && <NotificationBell />}
             {user && <ProfileDropdown />}
           </div>
         </div>
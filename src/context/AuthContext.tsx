@@ -3,7 +3,7 @@
 
 import type { User } from 'firebase/auth';
 import { createContext, useState, useEffect, type ReactNode, useCallback } from 'react';
-import { onAuthStateChanged as firebaseOnAuthStateChanged } from '@/lib/firebase/auth'; // Renamed to avoid conflict
+import { onAuthStateChanged as firebaseOnAuthStateChanged, syncServerSession } from '@/lib/firebase/auth'; // Renamed to avoid conflict
 import { firestore } from '@/lib/firebase/config'; // Direct import for firestore
 import { doc, onSnapshot, type Unsubscribe } from 'firebase/firestore'; // Import onSnapshot and Unsubscribe
 import type { UserProfile } from '@/lib/models/user';
@@ -56,6 +56,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         profileListenerUnsubscribe = undefined;
       }
       
+      // Establish (or clear) the session cookie before exposing the user, so that pages which redirect
+      // as soon as `user` is set (e.g. /login -> /) do not race the middleware's cookie check.
+      await syncServerSession(firebaseUser);
+
       setUser(firebaseUser); // Set Firebase user
       setUserId(firebaseUser ? firebaseUser.uid : null); // Set userId
       setUserProfile(null); // Reset profile initially on auth change
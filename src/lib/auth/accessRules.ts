@@ -0,0 +1,38 @@
+// Declarative access rules shared by src/middleware.ts (Edge runtime) and the API auth guard.
+// Keep this file free of Node-only and Firebase imports so the middleware can bundle it.
+import type { UserRole } from '@/lib/models/user';
+
+// Firebase App Hosting only forwards a cookie named "__session" to the server.
+export const SESSION_COOKIE_NAME = '__session';
+export const SESSION_COOKIE_MAX_AGE_SECONDS = 5 * 24 * 60 * 60; // 5 days (Firebase allows up to 14)
+
+export type AccessRequirement = 'public' | 'authenticated' | UserRole[];
+
+export interface PageAccessRule {
+  prefix: string; // Matches the path itself and everything below it
+  access: AccessRequirement;
+}
+
+// First matching rule wins. Paths not listed here require an authenticated user.
+export const PAGE_ACCESS_RULES: PageAccessRule[] = [
+  { prefix: '/login', access: 'public' },
+  { prefix: '/register', access: 'public' },
+  { prefix: '/forgot-password', access: 'public' },
+  { prefix: '/p', access: 'public' }, // Shared portfolios (/p/<slug>); the owner's settings live under /portfolio
+  { prefix: '/admin', access: ['admin'] },
+];
+
+const matchesPrefix = (pathname: string, prefix: string): boolean =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export const getPageAccessRequirement = (pathname: string): AccessRequirement => {
+  const rule = PAGE_ACCESS_RULES.find(r => matchesPrefix(pathname, r.prefix));
+  return rule ? rule.access : 'authenticated';
+};
+
+// Call only for a verified session: 'authenticated' holds even when the profile (and so the role) is
+// missing, e.g. mid-registration or after a failed profile lookup. Role lists need a matching role.
+export const isRoleAllowed = (role: UserRole | null | undefined, requirement: AccessRequirement): boolean => {
+  if (requirement === 'public' || requirement === 'authenticated') return true;
+  return !!role && requirement.includes(role);
+};
@@ -0,0 +1,77 @@
+// NO 'use client'; directive
+import { NextResponse, type NextRequest } from 'next/server';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { getAdminAuth } from '@/lib/firebase/adminConfig';
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import type { UserProfile, UserRole } from '@/lib/models/user';
+import { isRoleAllowed, type AccessRequirement } from '@/lib/auth/accessRules';
+
+export interface AuthenticatedCaller {
+  uid: string;
+  role: UserRole;
+  profile: UserProfile;
+  decodedToken: DecodedIdToken;
+}
+
+export type AuthGuardResult =
+  | { ok: true; caller: AuthenticatedCaller }
+  | { ok: false; response: NextResponse };
+
+const deny = (message: string, errorKey: string, status: number, extra: Record<string, unknown> = {}): AuthGuardResult => ({
+  ok: false,
+  response: NextResponse.json({ message, errorKey, ...extra }, { status }),
+});
+
+/**
+ * Shared guard for API route handlers. Verifies the `Authorization: Bearer <Firebase ID token>` header,
+ * resolves the caller's UserProfile (and therefore role) from Firestore with the Admin SDK, and
+ * enforces the route's declared access requirement.
+ *
+ * Usage in a route:
+ *   const auth = await requireAuth(request, { access: ['admin'], logPrefix: `API /api/... (Req ID: ${reqId})` });
+ *   if (!auth.ok) return auth.response;
+ *   const { caller } = auth;
+ */
+export async function requireAuth(
+  request: NextRequest,
+  { access = 'authenticated', logPrefix = 'apiAuth' }: { access?: Exclude<AccessRequirement, 'public'>; logPrefix?: string } = {}
+): Promise<AuthGuardResult> {
+  const authorizationHeader = request.headers.get('Authorization');
+  if (!authorizationHeader || !authorizationHeader.startsWith('Bearer ')) {
+    console.warn(`${logPrefix}: AUTH FAIL - Missing or invalid Authorization header.`);
+    return deny('Unauthorized: Missing or invalid ID token.', 'MISSING_ID_TOKEN', 401);
+  }
+  const idToken = authorizationHeader.split('Bearer ')[1];
+
+  let decodedToken: DecodedIdToken;
+  try {
+    decodedToken = await getAdminAuth().verifyIdToken(idToken);
+  } catch (error: any) {
+    if (error.message && error.message.includes('Firebase Admin Auth service is not available')) {
+      console.error(`${logPrefix}: AUTH FAIL - Admin SDK not ready:`, error.message);
+      return deny('Server configuration error: Firebase Admin services not ready.', 'ADMIN_SDK_NOT_READY', 503);
+    }
+    console.error(`${logPrefix}: AUTH FAIL - ID Token verification failed:`, { message: error.message, code: error.code });
+    return deny(`Unauthorized: Invalid ID token. Details: ${error.message}`, 'INVALID_ID_TOKEN', 401, { detail: error.message, code: error.code });
+  }
+
+  let profile: UserProfile | null;
+  try {
+    profile = await getUserProfile_SERVER(decodedToken.uid);
+  } catch (error: any) {
+    console.error(`${logPrefix}: AUTH FAIL - Could not load profile for UID ${decodedToken.uid}:`, error.message);
+    return deny('Server configuration error: Firebase Admin services not ready.', 'ADMIN_SDK_NOT_READY', 503);
+  }
+  if (!profile) {
+    console.warn(`${logPrefix}: AUTH FAIL - No profile found for UID ${decodedToken.uid}.`);
+    return deny('Forbidden: User profile not found.', 'PROFILE_NOT_FOUND', 403);
+  }
+
+  if (!isRoleAllowed(profile.role, access)) {
+    console.warn(`${logPrefix}: AUTH FAIL - UID ${decodedToken.uid} with role '${profile.role}' does not satisfy requirement ${JSON.stringify(access)}.`);
+    return deny('Forbidden: Your role does not permit this action.', 'ROLE_NOT_PERMITTED', 403);
+  }
+
+  console.log(`${logPrefix}: AUTH OK - UID ${decodedToken.uid} (role: ${profile.role}).`);
+  return { ok: true, caller: { uid: decodedToken.uid, role: profile.role, profile, decodedToken } };
+}
@@ -0,0 +1,23 @@
+// NO 'use client'; directive
+import { timingSafeEqual } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Guard for scheduled-job routes (Cloud Scheduler, Vercel Cron, ...). The scheduler must send
+ * `Authorization: Bearer <CRON_SECRET>`. Returns an error response to send, or null when the call is allowed.
+ */
+export function rejectUnlessCronRequest(request: NextRequest, logPrefix: string): NextResponse | null {
+  if (!CRON_SECRET) {
+    console.error(`${logPrefix}: CRON_SECRET is not set; refusing to run scheduled job.`);
+    return NextResponse.json({ message: 'Server configuration error: CRON_SECRET is not set.', errorKey: 'CRON_NOT_CONFIGURED' }, { status: 500 });
+  }
+  const provided = Buffer.from(request.headers.get('Authorization') || '');
+  const expected = Buffer.from(`Bearer ${CRON_SECRET}`);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    console.warn(`${logPrefix}: AUTH FAIL - Missing or wrong cron secret.`);
+    return NextResponse.json({ message: 'Unauthorized.', errorKey: 'INVALID_CRON_SECRET' }, { status: 401 });
+  }
+  return null;
+}
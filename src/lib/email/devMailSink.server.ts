@@ -0,0 +1,49 @@
+// NO 'use client'; directive - local mail sink for development, so codes and links can be read without a real mailbox.
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailMessage } from '@/lib/email/transport.server';
+
+export interface DevMailSinkMessage extends EmailMessage {
+  id: string;
+  capturedAt: string;
+}
+
+const MAX_LISTED_MESSAGES = 50;
+
+const getSinkDir = () => path.resolve(process.env.EMAIL_DEV_SINK_DIR || '.dev-mail');
+
+// One JSON file per message, so captured mail survives dev-server restarts and can be opened directly.
+export async function captureDevMail_SERVER(options: EmailMessage): Promise<DevMailSinkMessage> {
+  const capturedAt = new Date();
+  const message: DevMailSinkMessage = {
+    id: `${capturedAt.getTime()}-${randomBytes(4).toString('hex')}`,
+    capturedAt: capturedAt.toISOString(),
+    ...options,
+  };
+  const dir = getSinkDir();
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${message.id}.json`), JSON.stringify(message, null, 2), 'utf8');
+  return message;
+}
+
+// Newest first, optionally only mail sent to one address.
+export async function listDevMail_SERVER({ to, limit = MAX_LISTED_MESSAGES }: { to?: string | null; limit?: number } = {}): Promise<DevMailSinkMessage[]> {
+  let names: string[];
+  try {
+    names = (await fs.readdir(getSinkDir())).filter(name => name.endsWith('.json'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  // File names start with the capture time in milliseconds, so sorting them numerically sorts by time.
+  names.sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+
+  const messages: DevMailSinkMessage[] = [];
+  for (const name of names) {
+    if (messages.length >= limit) break;
+    const message: DevMailSinkMessage = JSON.parse(await fs.readFile(path.join(getSinkDir(), name), 'utf8'));
+    if (!to || message.to.toLowerCase() === to.toLowerCase()) messages.push(message);
+  }
+  return messages;
+}
@@ -0,0 +1,65 @@
+// Branded HTML and plain-text layouts shared by every email template.
+import type { EmailContent, EmailInline, EmailLayoutStrings, EmailParagraph } from '@/lib/email/templates/types';
+
+// Theme colours from globals.css: gold primary, light beige background, dark brown text.
+const BRAND = {
+  gold: '#FACC15',
+  beige: '#F8F7F3',
+  border: '#EBE8E2',
+  text: '#2B2925',
+  muted: '#6B665C',
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const inlines = (paragraph: EmailParagraph): EmailInline[] => (Array.isArray(paragraph) ? paragraph : [paragraph]);
+
+const inlineToText = (inline: EmailInline) => (typeof inline === 'string' ? inline : inline.strong);
+
+const inlineToHtml = (inline: EmailInline) =>
+  typeof inline === 'string' ? escapeHtml(inline) : `<strong>${escapeHtml(inline.strong)}</strong>`;
+
+export function renderEmailText(content: EmailContent, strings: EmailLayoutStrings): string {
+  const blocks = [
+    content.greeting,
+    ...content.paragraphs.map(p => inlines(p).map(inlineToText).join('')),
+    ...(content.highlight ? [`${content.highlight.label}: ${content.highlight.value}`] : []),
+    strings.signOff.join('\n'),
+    `--\n${strings.footer}`,
+  ];
+  return blocks.join('\n\n');
+}
+
+// Table-based markup with inline styles, since many mail clients ignore <style> blocks.
+export function renderEmailHtml(content: EmailContent, strings: EmailLayoutStrings, locale: string): string {
+  const paragraph = (html: string) => `<p style="margin:0 0 16px;font-size:15px;line-height:1.6;color:${BRAND.text};">${html}</p>`;
+  const highlight = content.highlight
+    ? `<div style="margin:8px 0 24px;padding:16px;border-radius:8px;background:${BRAND.beige};border:1px solid ${BRAND.border};text-align:center;">` +
+      `<div style="font-size:12px;text-transform:uppercase;letter-spacing:1px;color:${BRAND.muted};">${escapeHtml(content.highlight.label)}</div>` +
+      `<div style="margin-top:6px;font-size:28px;font-weight:bold;letter-spacing:4px;color:${BRAND.text};font-family:'Courier New',monospace;">${escapeHtml(content.highlight.value)}</div>` +
+      `</div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(content.subject)}</title></head>
+<body style="margin:0;padding:0;background:${BRAND.beige};font-family:'Open Sans',Arial,sans-serif;">
+${content.preheader ? `<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(content.preheader)}</div>` : ''}
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:${BRAND.beige};padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border:1px solid ${BRAND.border};border-radius:12px;overflow:hidden;">
+<tr><td style="background:${BRAND.gold};padding:16px 24px;font-family:'Poppins',Arial,sans-serif;font-size:20px;font-weight:bold;color:${BRAND.text};">CertIntel</td></tr>
+<tr><td style="padding:24px;">
+${paragraph(escapeHtml(content.greeting))}
+${content.paragraphs.map(p => paragraph(inlines(p).map(inlineToHtml).join(''))).join('\n')}
+${highlight}
+${paragraph(strings.signOff.map(escapeHtml).join('<br/>'))}
+</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid ${BRAND.border};font-size:12px;color:${BRAND.muted};">${escapeHtml(strings.footer)}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
@@ -0,0 +1,206 @@
+// NO 'use client'; directive - persistent email outbox: messages are queued in MongoDB and delivered with retries.
+import { ObjectId, type Db, type Filter } from 'mongodb';
+import { getEmailTransport, type EmailMessage } from '@/lib/email/transport.server';
+import { renderEmailTemplate } from '@/lib/email/templates/registry';
+import type { EmailTemplateName, EmailTemplateParams } from '@/lib/email/templates/types';
+import type { EmailDeliveryLogEntry, EmailOutboxStatus } from '@/lib/models/emailOutbox';
+
+export const EMAIL_OUTBOX_COLLECTION = 'emailOutbox';
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const RETRY_BASE_SECONDS = 60; // 1 min, 4 min, 16 min, ~1 h, ~4 h between attempts
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+const CLAIM_SECONDS = 5 * 60; // A 'sending' message whose worker died is picked up again after this
+const MAX_LOGGED_ERROR_LENGTH = 500;
+
+interface EmailAttemptRecord {
+  at: Date;
+  success: boolean;
+  transport: string;
+  message: string;
+}
+
+export interface EmailOutboxDocument extends EmailMessage {
+  _id: ObjectId;
+  template: EmailTemplateName | null;
+  locale: string | null;
+  visibleToUids: string[]; // Users whose delivery log lists this message (recipient and/or related admin)
+  status: EmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date | null;
+  claimedUntil: Date | null;
+  lastError: string | null;
+  attemptLog: EmailAttemptRecord[];
+  createdAt: Date;
+  updatedAt: Date;
+  sentAt: Date | null;
+}
+
+export interface EmailOutboxRunSummary {
+  claimed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+export interface EnqueueEmailOptions {
+  visibleToUids?: (string | null | undefined)[];
+  reqId?: string;
+}
+
+const outbox = (db: Db) => db.collection<EmailOutboxDocument>(EMAIL_OUTBOX_COLLECTION);
+
+const logPrefix = (reqId: string) => `emailOutbox (Req ID: ${reqId})`;
+
+export const retryDelaySeconds = (attempts: number): number =>
+  Math.min(RETRY_MAX_SECONDS, RETRY_BASE_SECONDS * 4 ** Math.max(0, attempts - 1));
+
+async function enqueue(
+  db: Db,
+  message: EmailMessage,
+  template: EmailTemplateName | null,
+  locale: string | null,
+  { visibleToUids = [], reqId = 'outbox' }: EnqueueEmailOptions
+): Promise<ObjectId> {
+  const now = new Date();
+  const doc: EmailOutboxDocument = {
+    _id: new ObjectId(),
+    ...message,
+    template,
+    locale,
+    visibleToUids: [...new Set(visibleToUids.filter((uid): uid is string => !!uid))],
+    status: 'pending',
+    attempts: 0,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    nextAttemptAt: now,
+    claimedUntil: null,
+    lastError: null,
+    attemptLog: [],
+    createdAt: now,
+    updatedAt: now,
+    sentAt: null,
+  };
+  await outbox(db).insertOne(doc);
+  console.log(`${logPrefix(reqId)}: Queued email ${doc._id} to ${message.to} (Subject: "${message.subject}").`);
+
+  // First attempt right away without holding up the caller; the outbox worker retries anything left over.
+  deliverQueuedEmail_SERVER(db, doc._id, reqId).catch((error: any) => {
+    console.error(`${logPrefix(reqId)}: Immediate delivery of email ${doc._id} failed:`, error.message);
+  });
+  return doc._id;
+}
+
+/**
+ * Queues a rendered message. Do not queue secrets such as OTPs: bodies are stored until the message
+ * is delivered, so those are sent directly with `sendEmail`.
+ */
+export const enqueueEmail_SERVER = (db: Db, message: EmailMessage, options: EnqueueEmailOptions = {}): Promise<ObjectId> =>
+  enqueue(db, message, null, null, options);
+
+// Renders a registered template now and queues the result.
+export function enqueueTemplatedEmail_SERVER<K extends EmailTemplateName>(
+  db: Db,
+  to: string,
+  template: K,
+  params: EmailTemplateParams[K],
+  { locale, ...options }: EnqueueEmailOptions & { locale?: string | null } = {}
+): Promise<ObjectId> {
+  const rendered = renderEmailTemplate(template, params, locale);
+  return enqueue(db, { to, subject: rendered.subject, text: rendered.text, html: rendered.html }, template, rendered.locale, options);
+}
+
+// Due messages, plus messages stuck in 'sending' after their claim ran out.
+const claimableFilter = (now: Date): Filter<EmailOutboxDocument> => ({
+  $or: [
+    { status: 'pending', nextAttemptAt: { $lte: now } },
+    { status: 'sending', claimedUntil: { $lt: now } },
+  ],
+});
+
+// Claims one message atomically, so concurrent workers never send the same message twice.
+async function claim(db: Db, filter: Filter<EmailOutboxDocument>, now: Date): Promise<EmailOutboxDocument | null> {
+  return outbox(db).findOneAndUpdate(
+    filter,
+    { $set: { status: 'sending', claimedUntil: new Date(now.getTime() + CLAIM_SECONDS * 1000), updatedAt: now } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+async function attemptDelivery(db: Db, doc: EmailOutboxDocument, reqId: string): Promise<EmailOutboxStatus> {
+  const transport = getEmailTransport();
+  const result = await transport.send({ to: doc.to, subject: doc.subject, text: doc.text, html: doc.html });
+  const now = new Date();
+  const attempts = doc.attempts + 1;
+  const attempt: EmailAttemptRecord = { at: now, success: result.success, transport: transport.name, message: result.message.slice(0, MAX_LOGGED_ERROR_LENGTH) };
+
+  if (result.success) {
+    await outbox(db).updateOne({ _id: doc._id }, {
+      $set: { status: 'sent', attempts, sentAt: now, nextAttemptAt: null, claimedUntil: null, lastError: null, updatedAt: now },
+      $push: { attemptLog: attempt },
+    });
+    return 'sent';
+  }
+
+  const finalAttempt = attempts >= doc.maxAttempts;
+  const nextAttemptAt = finalAttempt ? null : new Date(now.getTime() + retryDelaySeconds(attempts) * 1000);
+  await outbox(db).updateOne({ _id: doc._id }, {
+    $set: { status: finalAttempt ? 'failed' : 'pending', attempts, nextAttemptAt, claimedUntil: null, lastError: attempt.message, updatedAt: now },
+    $push: { attemptLog: attempt },
+  });
+  console.warn(`${logPrefix(reqId)}: Attempt ${attempts}/${doc.maxAttempts} for email ${doc._id} to ${doc.to} failed: ${attempt.message}. ${finalAttempt ? 'Giving up.' : `Retrying at ${nextAttemptAt!.toISOString()}.`}`);
+  return finalAttempt ? 'failed' : 'pending';
+}
+
+// Sends one queued message if it is still due (used for the immediate attempt after queueing).
+export async function deliverQueuedEmail_SERVER(db: Db, id: ObjectId, reqId: string): Promise<EmailOutboxStatus | null> {
+  const now = new Date();
+  const doc = await claim(db, { _id: id, ...claimableFilter(now) }, now);
+  return doc ? attemptDelivery(db, doc, reqId) : null;
+}
+
+// Worker run for the outbox cron route: sends up to `limit` due messages, oldest first.
+export async function processEmailOutbox_SERVER(db: Db, { reqId, limit = 50 }: { reqId: string; limit?: number }): Promise<EmailOutboxRunSummary> {
+  const summary: EmailOutboxRunSummary = { claimed: 0, sent: 0, retrying: 0, failed: 0 };
+  while (summary.claimed < limit) {
+    const now = new Date();
+    const doc = await claim(db, claimableFilter(now), now);
+    if (!doc) break;
+    summary.claimed += 1;
+    const status = await attemptDelivery(db, doc, reqId);
+    if (status === 'sent') summary.sent += 1;
+    else if (status === 'failed') summary.failed += 1;
+    else summary.retrying += 1;
+  }
+  console.log(`${logPrefix(reqId)}: Outbox run done.`, summary);
+  return summary;
+}
+
+const toLogEntry = (doc: EmailOutboxDocument): EmailDeliveryLogEntry => ({
+  id: doc._id.toHexString(),
+  to: doc.to,
+  subject: doc.subject,
+  template: doc.template,
+  status: doc.status,
+  attempts: doc.attempts,
+  maxAttempts: doc.maxAttempts,
+  lastError: doc.lastError,
+  nextAttemptAt: doc.status === 'pending' && doc.nextAttemptAt ? doc.nextAttemptAt.toISOString() : null,
+  createdAt: doc.createdAt.toISOString(),
+  sentAt: doc.sentAt?.toISOString() ?? null,
+  attemptLog: doc.attemptLog.map(a => ({ ...a, at: a.at.toISOString() })),
+});
+
+// Newest first. Bodies are left out, since queued mail can contain personal details of other users.
+export async function listEmailDeliveryLog_SERVER(
+  db: Db,
+  viewerUid: string,
+  { status, limit = 100 }: { status?: EmailOutboxStatus | null; limit?: number } = {}
+): Promise<EmailDeliveryLogEntry[]> {
+  const docs = await outbox(db)
+    .find({ visibleToUids: viewerUid, ...(status ? { status } : {}) }, { projection: { text: 0, html: 0 } })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+  return docs.map(toLogEntry);
+}
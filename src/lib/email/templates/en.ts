@@ -0,0 +1,82 @@
+import type { EmailLocaleBundle, EmailTemplateVariants } from '@/lib/email/templates/types';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// English is the reference locale: every template must exist here, other locales fall back to it.
+export const englishTemplates: EmailTemplateVariants = {
+  otp: ({ code, expiresInMinutes }) => ({
+    subject: 'Your CertIntel OTP Code',
+    preheader: `Your verification code expires in ${plural(expiresInMinutes, 'minute')}.`,
+    greeting: 'Hello,',
+    paragraphs: [
+      'Use this code to verify your email address and finish registering with CertIntel.',
+      `This code will expire in ${plural(expiresInMinutes, 'minute')}. If you did not request it, you can ignore this email.`,
+    ],
+    highlight: { label: 'Your OTP code', value: code },
+  }),
+
+  adminWelcome: ({ adminUniqueId }) => ({
+    subject: 'Welcome to CertIntel, Admin!',
+    greeting: 'Hello Admin,',
+    paragraphs: ['Your registration with CertIntel is complete. You can share your unique Admin ID with your students so they can link to you.'],
+    highlight: { label: 'Your Admin ID', value: adminUniqueId },
+  }),
+
+  studentWelcome: ({ name, pendingAdminUniqueId }) => ({
+    subject: `Welcome to CertIntel, ${name}!`,
+    greeting: `Hello ${name},`,
+    paragraphs: [
+      'Welcome to CertIntel! Your registration is complete.',
+      ...(pendingAdminUniqueId
+        ? [['Your request to link with Teacher/Admin ID ', { strong: pendingAdminUniqueId }, ' has been initiated and is pending approval.']]
+        : []),
+    ],
+  }),
+
+  linkRequestAccepted: ({ studentName, adminUniqueId }) => ({
+    subject: 'Your Link Request to CertIntel Admin Was Approved!',
+    greeting: `Hello ${studentName},`,
+    paragraphs: [['Your request to link with the CertIntel admin (ID: ', { strong: adminUniqueId }, ') has been ', { strong: 'approved' }, '. You are now linked.']],
+  }),
+
+  linkRequestRejected: ({ studentName, adminUniqueId }) => ({
+    subject: 'Update on Your CertIntel Admin Link Request',
+    greeting: `Hello ${studentName},`,
+    paragraphs: [
+      ['Unfortunately, your request to link with the CertIntel admin (ID: ', { strong: adminUniqueId }, ') was ', { strong: 'not approved' }, ' at this time.'],
+      'If you believe this is an error, please contact your admin or try requesting again.',
+    ],
+  }),
+
+  studentLinkRemoved: ({ studentName, adminName }) => ({
+    subject: 'Update on your CertIntel Admin Link',
+    greeting: `Hello ${studentName},`,
+    paragraphs: [['Your link with ', { strong: adminName || 'your admin' }, ' has been removed by them. You can now link with another admin from your profile settings if you wish.']],
+  }),
+
+  certificateExpiryReminder: ({ studentName, courseTitle, certificateName, daysLeft, expiryDate }) => ({
+    subject: `Your certificate "${courseTitle}" expires ${daysLeft === 0 ? 'today' : `in ${daysLeft} days`}`,
+    greeting: `Hello ${studentName},`,
+    paragraphs: [
+      ['Your certificate ', { strong: certificateName }, ' expires ', { strong: daysLeft === 0 ? 'today' : `in ${plural(daysLeft, 'day')} (${expiryDate})` }, '.'],
+      'If it can be renewed, plan the renewal now and upload the new certificate to CertIntel once you have it.',
+    ],
+  }),
+
+  certificateExpiryAdminNotice: ({ adminName, studentName, certificateName, daysLeft, expiryDate }) => ({
+    subject: `${studentName}'s certificate expires in ${plural(daysLeft, 'day')}`,
+    greeting: `Hello ${adminName},`,
+    paragraphs: [
+      ['The certificate ', { strong: certificateName }, ' of your student ', { strong: studentName }, ' expires on ', { strong: expiryDate }, ` (${plural(daysLeft, 'day')} left).`],
+      'The student has been reminded as well.',
+    ],
+  }),
+};
+
+export const englishBundle: EmailLocaleBundle = {
+  layout: {
+    signOff: ['Regards,', 'The CertIntel Team'],
+    footer: 'You are receiving this email because of your CertIntel account.',
+  },
+  templates: englishTemplates,
+};
@@ -0,0 +1,78 @@
+import type { EmailLocaleBundle } from '@/lib/email/templates/types';
+
+// Hindi variants. Templates missing here are sent in English.
+export const hindiBundle: EmailLocaleBundle = {
+  layout: {
+    signOff: ['धन्यवाद,', 'CertIntel टीम'],
+    footer: 'आपको यह ईमेल आपके CertIntel खाते के कारण मिला है।',
+  },
+  templates: {
+    otp: ({ code, expiresInMinutes }) => ({
+      subject: 'आपका CertIntel OTP कोड',
+      preheader: `आपका सत्यापन कोड ${expiresInMinutes} मिनट में समाप्त हो जाएगा।`,
+      greeting: 'नमस्ते,',
+      paragraphs: [
+        'अपना ईमेल पता सत्यापित करने और CertIntel पर पंजीकरण पूरा करने के लिए इस कोड का उपयोग करें।',
+        `यह कोड ${expiresInMinutes} मिनट में समाप्त हो जाएगा। यदि आपने इसका अनुरोध नहीं किया है, तो इस ईमेल को अनदेखा करें।`,
+      ],
+      highlight: { label: 'आपका OTP कोड', value: code },
+    }),
+
+    adminWelcome: ({ adminUniqueId }) => ({
+      subject: 'CertIntel में आपका स्वागत है, एडमिन!',
+      greeting: 'नमस्ते एडमिन,',
+      paragraphs: ['CertIntel पर आपका पंजीकरण पूरा हो गया है। अपनी विशिष्ट एडमिन ID अपने छात्रों के साथ साझा करें ताकि वे आपसे जुड़ सकें।'],
+      highlight: { label: 'आपकी एडमिन ID', value: adminUniqueId },
+    }),
+
+    studentWelcome: ({ name, pendingAdminUniqueId }) => ({
+      subject: `CertIntel में आपका स्वागत है, ${name}!`,
+      greeting: `नमस्ते ${name},`,
+      paragraphs: [
+        'CertIntel में आपका स्वागत है! आपका पंजीकरण पूरा हो गया है।',
+        ...(pendingAdminUniqueId
+          ? [['शिक्षक/एडमिन ID ', { strong: pendingAdminUniqueId }, ' से जुड़ने का आपका अनुरोध भेज दिया गया है और स्वीकृति की प्रतीक्षा में है।']]
+          : []),
+      ],
+    }),
+
+    linkRequestAccepted: ({ studentName, adminUniqueId }) => ({
+      subject: 'CertIntel एडमिन से जुड़ने का आपका अनुरोध स्वीकृत हो गया!',
+      greeting: `नमस्ते ${studentName},`,
+      paragraphs: [['CertIntel एडमिन (ID: ', { strong: adminUniqueId }, ') से जुड़ने का आपका अनुरोध ', { strong: 'स्वीकृत' }, ' हो गया है। अब आप जुड़ गए हैं।']],
+    }),
+
+    linkRequestRejected: ({ studentName, adminUniqueId }) => ({
+      subject: 'आपके CertIntel एडमिन लिंक अनुरोध पर अपडेट',
+      greeting: `नमस्ते ${studentName},`,
+      paragraphs: [
+        ['खेद है, CertIntel एडमिन (ID: ', { strong: adminUniqueId }, ') से जुड़ने का आपका अनुरोध अभी ', { strong: 'स्वीकृत नहीं' }, ' हुआ है।'],
+        'यदि आपको लगता है कि यह गलती है, तो अपने एडमिन से संपर्क करें या फिर से अनुरोध करें।',
+      ],
+    }),
+
+    studentLinkRemoved: ({ studentName, adminName }) => ({
+      subject: 'आपके CertIntel एडमिन लिंक पर अपडेट',
+      greeting: `नमस्ते ${studentName},`,
+      paragraphs: [[{ strong: adminName || 'आपके एडमिन' }, ' ने आपके साथ अपना लिंक हटा दिया है। आप चाहें तो प्रोफ़ाइल सेटिंग्स से किसी दूसरे एडमिन से जुड़ सकते हैं।']],
+    }),
+
+    certificateExpiryReminder: ({ studentName, courseTitle, certificateName, daysLeft, expiryDate }) => ({
+      subject: `आपका प्रमाणपत्र "${courseTitle}" ${daysLeft === 0 ? 'आज' : `${daysLeft} दिन में`} समाप्त हो रहा है`,
+      greeting: `नमस्ते ${studentName},`,
+      paragraphs: [
+        ['आपका प्रमाणपत्र ', { strong: certificateName }, ' ', { strong: daysLeft === 0 ? 'आज' : `${daysLeft} दिन में (${expiryDate})` }, ' समाप्त हो रहा है।'],
+        'यदि इसका नवीनीकरण संभव है, तो अभी योजना बनाएँ और नया प्रमाणपत्र मिलने पर उसे CertIntel पर अपलोड करें।',
+      ],
+    }),
+
+    certificateExpiryAdminNotice: ({ adminName, studentName, certificateName, daysLeft, expiryDate }) => ({
+      subject: `${studentName} का प्रमाणपत्र ${daysLeft} दिन में समाप्त हो रहा है`,
+      greeting: `नमस्ते ${adminName},`,
+      paragraphs: [
+        ['आपके छात्र ', { strong: studentName }, ' का प्रमाणपत्र ', { strong: certificateName }, ' ', { strong: expiryDate }, ` को समाप्त हो रहा है (${daysLeft} दिन शेष)।`],
+        'छात्र को भी याद दिलाया गया है।',
+      ],
+    }),
+  },
+};
@@ -0,0 +1,118 @@
+// Typed registry of every email the app sends, with per-locale variants and sample data for previews.
+import { renderEmailHtml, renderEmailText } from '@/lib/email/layout';
+import { englishBundle, englishTemplates } from '@/lib/email/templates/en';
+import { hindiBundle } from '@/lib/email/templates/hi';
+import {
+  EMAIL_LOCALES,
+  type EmailContent,
+  type EmailLocale,
+  type EmailLocaleBundle,
+  type EmailTemplateName,
+  type EmailTemplateParams,
+} from '@/lib/email/templates/types';
+
+const BUNDLES: Record<EmailLocale, EmailLocaleBundle> = {
+  en: englishBundle,
+  hi: hindiBundle,
+};
+
+interface EmailTemplateInfo<K extends EmailTemplateName> {
+  description: string;
+  sample: EmailTemplateParams[K];
+}
+
+const TEMPLATE_INFO: { [K in EmailTemplateName]: EmailTemplateInfo<K> } = {
+  otp: {
+    description: 'Verification code sent while registering.',
+    sample: { code: '482913', expiresInMinutes: 5 },
+  },
+  adminWelcome: {
+    description: 'Sent to a new admin with their shareable Admin ID.',
+    sample: { adminUniqueId: 'ADM-7F3K9Q' },
+  },
+  studentWelcome: {
+    description: 'Sent to a new student; mentions a pending link request if they entered an Admin ID.',
+    sample: { name: 'Asha Verma', pendingAdminUniqueId: 'ADM-7F3K9Q' },
+  },
+  linkRequestAccepted: {
+    description: "Sent to a student when an admin accepts their link request.",
+    sample: { studentName: 'Asha Verma', adminUniqueId: 'ADM-7F3K9Q' },
+  },
+  linkRequestRejected: {
+    description: "Sent to a student when an admin rejects their link request.",
+    sample: { studentName: 'Asha Verma', adminUniqueId: 'ADM-7F3K9Q' },
+  },
+  studentLinkRemoved: {
+    description: 'Sent to a student when their admin removes the link.',
+    sample: { studentName: 'Asha Verma', adminName: 'Prof. Rao' },
+  },
+  certificateExpiryReminder: {
+    description: 'Reminder to a student that a certificate is about to expire.',
+    sample: { studentName: 'Asha Verma', courseTitle: 'AWS Cloud Practitioner', certificateName: 'AWS Cloud Practitioner from Amazon Web Services', daysLeft: 30, expiryDate: '2026-11-18' },
+  },
+  certificateExpiryAdminNotice: {
+    description: "Copy of an expiry reminder for the student's linked admin.",
+    sample: { adminName: 'Prof. Rao', studentName: 'Asha Verma', certificateName: 'AWS Cloud Practitioner from Amazon Web Services', daysLeft: 30, expiryDate: '2026-11-18' },
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(TEMPLATE_INFO) as EmailTemplateName[];
+
+export interface RenderedEmail {
+  template: EmailTemplateName;
+  locale: EmailLocale; // The locale actually used, after falling back
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTemplateSummary {
+  name: EmailTemplateName;
+  description: string;
+  locales: EmailLocale[];
+}
+
+export const isEmailTemplateName = (value: unknown): value is EmailTemplateName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEMPLATE_INFO, value);
+
+/**
+ * Picks a supported locale for a requested one ('hi-IN' becomes 'hi'), falling back to
+ * EMAIL_DEFAULT_LOCALE and then English.
+ */
+export function resolveEmailLocale(requested?: string | null): EmailLocale {
+  for (const candidate of [requested, process.env.EMAIL_DEFAULT_LOCALE]) {
+    const base = candidate?.trim().toLowerCase().split(/[-_]/)[0];
+    if (base && (EMAIL_LOCALES as readonly string[]).includes(base)) return base as EmailLocale;
+  }
+  return 'en';
+}
+
+export function renderEmailTemplate<K extends EmailTemplateName>(
+  template: K,
+  params: EmailTemplateParams[K],
+  requestedLocale?: string | null
+): RenderedEmail {
+  const wanted = resolveEmailLocale(requestedLocale);
+  const variant = BUNDLES[wanted].templates[template];
+  const locale: EmailLocale = variant ? wanted : 'en';
+  const render = (variant ?? englishTemplates[template]) as (p: EmailTemplateParams[K]) => EmailContent;
+  const content = render(params);
+  const strings = BUNDLES[locale].layout;
+  return {
+    template,
+    locale,
+    subject: content.subject,
+    text: renderEmailText(content, strings),
+    html: renderEmailHtml(content, strings, locale),
+  };
+}
+
+export const renderEmailTemplateSample = (template: EmailTemplateName, locale?: string | null): RenderedEmail =>
+  renderEmailTemplate(template, TEMPLATE_INFO[template].sample as never, locale);
+
+export const listEmailTemplates = (): EmailTemplateSummary[] =>
+  EMAIL_TEMPLATE_NAMES.map(name => ({
+    name,
+    description: TEMPLATE_INFO[name].description,
+    locales: EMAIL_LOCALES.filter(locale => locale === 'en' || !!BUNDLES[locale].templates[name]),
+  }));
@@ -0,0 +1,46 @@
+// Shared types for the email template registry. Kept free of Node-only imports so templates can be rendered anywhere.
+
+export const EMAIL_LOCALES = ['en', 'hi'] as const;
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+// Inline rich text: plain strings, with `{ strong }` segments rendered bold in HTML and as-is in plain text.
+export type EmailInline = string | { strong: string };
+export type EmailParagraph = EmailInline | EmailInline[];
+
+// What a template produces; the layout turns it into branded HTML and plain text.
+export interface EmailContent {
+  subject: string;
+  preheader?: string; // Preview line shown by mail clients next to the subject
+  greeting: string;
+  paragraphs: EmailParagraph[];
+  highlight?: { label: string; value: string }; // Shown in a large box, e.g. an OTP or an admin ID
+}
+
+// Parameters for every template. Adding a template means adding it here, to the registry and to the 'en' variants.
+export interface EmailTemplateParams {
+  otp: { code: string; expiresInMinutes: number };
+  adminWelcome: { adminUniqueId: string };
+  studentWelcome: { name: string; pendingAdminUniqueId: string | null };
+  linkRequestAccepted: { studentName: string; adminUniqueId: string };
+  linkRequestRejected: { studentName: string; adminUniqueId: string };
+  studentLinkRemoved: { studentName: string; adminName: string | null };
+  certificateExpiryReminder: { studentName: string; courseTitle: string; certificateName: string; daysLeft: number; expiryDate: string };
+  certificateExpiryAdminNotice: { adminName: string; studentName: string; certificateName: string; daysLeft: number; expiryDate: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplateParams;
+
+export type EmailTemplateVariants = {
+  [K in EmailTemplateName]: (params: EmailTemplateParams[K]) => EmailContent;
+};
+
+// Fixed wording used by the layout around every message.
+export interface EmailLayoutStrings {
+  signOff: string[];
+  footer: string;
+}
+
+export interface EmailLocaleBundle {
+  layout: EmailLayoutStrings;
+  templates: Partial<EmailTemplateVariants>;
+}
@@ -0,0 +1,163 @@
+// NO 'use client'; directive - outgoing mail transports (SMTP, Gmail, development sink, in-memory) selected by env.
+import nodemailer from 'nodemailer';
+import { captureDevMail_SERVER } from '@/lib/email/devMailSink.server';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  message: string;
+  error?: any;
+  sink?: boolean; // True when the message was captured locally instead of being delivered
+}
+
+export const EMAIL_TRANSPORT_NAMES = ['smtp', 'gmail', 'sink', 'memory', 'disabled'] as const;
+export type EmailTransportName = (typeof EMAIL_TRANSPORT_NAMES)[number];
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export interface MemoryEmailTransport extends EmailTransport {
+  messages: EmailMessage[];
+  clear(): void;
+}
+
+// Message bodies can carry OTPs and other secrets, so transports only ever log the recipient and subject.
+const describe = (message: EmailMessage) => `to ${message.to} (Subject: "${message.subject}")`;
+
+const defaultFrom = (address: string | undefined) => process.env.EMAIL_FROM || `"CertIntel" <${address}>`;
+
+function createNodemailerTransport(name: 'smtp' | 'gmail', transporter: nodemailer.Transporter, from: string): EmailTransport {
+  return {
+    name,
+    async send(message) {
+      try {
+        const info = await transporter.sendMail({ from, ...message });
+        console.log(`emailTransport (${name}): Email sent ${describe(message)}. Message ID: ${info.messageId}`);
+        return { success: true, message: 'Email sent successfully.' };
+      } catch (error: any) {
+        console.error(`emailTransport (${name}): Error sending email ${describe(message)}: ${error.message}`);
+        return { success: false, message: `Failed to send email: ${error.message}`, error };
+      }
+    },
+  };
+}
+
+export function createSmtpTransport({ host, port, secure, user, pass, from }: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from?: string;
+}): EmailTransport {
+  const transporter = nodemailer.createTransport({ host, port, secure, auth: user ? { user, pass } : undefined });
+  return createNodemailerTransport('smtp', transporter, from || defaultFrom(user));
+}
+
+export function createGmailTransport({ user, pass, from }: { user: string; pass: string; from?: string }): EmailTransport {
+  const transporter = nodemailer.createTransport({ service: 'gmail', auth: { user, pass } });
+  return createNodemailerTransport('gmail', transporter, from || defaultFrom(user));
+}
+
+// Writes each message to the local mail sink folder (see devMailSink.server.ts) and notes it on the console.
+export function createSinkTransport(): EmailTransport {
+  return {
+    name: 'sink',
+    async send(message) {
+      try {
+        const captured = await captureDevMail_SERVER(message);
+        console.log(`[EMAIL DEV SINK] Email ${describe(message)} captured as ${captured.id}. Read it at /api/dev/mail.`);
+        return { success: true, message: 'Email captured by the development mail sink.', sink: true };
+      } catch (error: any) {
+        console.error(`emailTransport (sink): Failed to capture email ${describe(message)}: ${error.message}`);
+        return { success: false, message: 'Failed to capture email in the development mail sink.', error };
+      }
+    },
+  };
+}
+
+// Keeps messages in memory so scripts and tests can inspect what would have been sent.
+export function createMemoryTransport(): MemoryEmailTransport {
+  const messages: EmailMessage[] = [];
+  return {
+    name: 'memory',
+    messages,
+    async send(message) {
+      messages.push({ ...message });
+      return { success: true, message: 'Email captured in memory.', sink: true };
+    },
+    clear() {
+      messages.length = 0;
+    },
+  };
+}
+
+function createDisabledTransport(reason: string): EmailTransport {
+  return {
+    name: 'disabled',
+    async send(message) {
+      console.error(`emailTransport: Cannot send email ${describe(message)}: ${reason}`);
+      return { success: false, message: 'Email is not configured on the server.' };
+    },
+  };
+}
+
+/**
+ * Chooses the transport from EMAIL_TRANSPORT, or when it is unset: Gmail if its credentials are set,
+ * then SMTP if SMTP_HOST is set, then the local sink outside production. The sink and memory
+ * transports keep message bodies (and therefore OTPs) around, so they are refused in production.
+ */
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const isProduction = env.NODE_ENV === 'production';
+  const hasGmail = !!(env.GMAIL_EMAIL_ADDRESS && env.GMAIL_APP_PASSWORD);
+  const requested = (env.EMAIL_TRANSPORT || '').trim().toLowerCase();
+  const name = requested || (hasGmail ? 'gmail' : env.SMTP_HOST ? 'smtp' : isProduction ? 'disabled' : 'sink');
+
+  switch (name) {
+    case 'gmail':
+      if (!hasGmail) return createDisabledTransport('GMAIL_EMAIL_ADDRESS and GMAIL_APP_PASSWORD must be set for the Gmail transport.');
+      return createGmailTransport({ user: env.GMAIL_EMAIL_ADDRESS!, pass: env.GMAIL_APP_PASSWORD! });
+    case 'smtp': {
+      if (!env.SMTP_HOST) return createDisabledTransport('SMTP_HOST must be set for the SMTP transport.');
+      const port = parseInt(env.SMTP_PORT || '587', 10);
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASSWORD || undefined,
+      });
+    }
+    case 'sink':
+    case 'memory':
+      if (isProduction) return createDisabledTransport(`The '${name}' email transport is not available in production.`);
+      return name === 'sink' ? createSinkTransport() : createMemoryTransport();
+    case 'disabled':
+      return createDisabledTransport('No email transport is configured. Set EMAIL_TRANSPORT, Gmail credentials or SMTP_HOST.');
+    default:
+      return createDisabledTransport(`Unknown EMAIL_TRANSPORT '${requested}'. Use one of: ${EMAIL_TRANSPORT_NAMES.join(', ')}.`);
+  }
+}
+
+let activeTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+    console.log(`emailTransport: Using the '${activeTransport.name}' email transport.`);
+  }
+  return activeTransport;
+}
+
+// Swaps the app-wide transport, e.g. for a memory transport in scripts and tests. Pass null to re-read env.
+export function setEmailTransport(transport: EmailTransport | null): void {
+  activeTransport = transport;
+}
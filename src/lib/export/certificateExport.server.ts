@@ -0,0 +1,305 @@
+// NO 'use client'; directive - builds certificate exports (ZIP archive, combined PDF) from GridFS.
+import archiver from 'archiver';
+import { ObjectId, type Db, type GridFSBucket } from 'mongodb';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { Readable } from 'stream';
+import { CERTIFICATES_COLLECTION, toCertificate, type CertificateDocument } from '@/lib/services/certificateService.server';
+import { readGridFsFile } from '@/lib/uploads/gridFsFiles.server';
+import { toCsv } from '@/lib/export/csv';
+import type { Certificate } from '@/lib/models/certificate';
+
+export type CertificateExportFormat = 'zip' | 'pdf';
+export const CERTIFICATE_EXPORT_FORMATS: CertificateExportFormat[] = ['zip', 'pdf'];
+
+// The combined PDF is assembled in memory, so the files going into it are capped.
+const MAX_COMBINED_PDF_SOURCE_BYTES = 150 * 1024 * 1024;
+
+// A stored file as listed in the export manifest; `path` is its location inside the ZIP.
+export interface ExportedFile {
+  fileId: string;
+  path: string;
+  originalName: string;
+  contentType: string;
+  size: number;
+  uploadDate: string;
+  isPdfOriginal: boolean;
+  pageNumber: number | null;
+  parentFileId: string | null;
+  certificateId: string | null;
+}
+
+export interface CertificateExportManifest {
+  version: 1;
+  exportedAt: string;
+  userId: string;
+  certificates: (Certificate & { files: string[] })[]; // `files` are ZIP paths
+  files: ExportedFile[];
+}
+
+export type CombinedPdfResult =
+  | { ok: true; pdf: Uint8Array; pageCount: number }
+  | { ok: false; errorKey: 'EXPORT_TOO_LARGE'; message: string };
+
+interface ExportData {
+  certificates: Certificate[];
+  files: ExportedFile[];
+}
+
+const logPrefix = (reqId: string) => `certificateExport (Req ID: ${reqId})`;
+
+// Keeps ZIP entry names portable: no directories, reserved characters or overly long names.
+const toSafeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/^\.+/, '').slice(-120) || 'file';
+
+const loadExportData = async (db: Db, userId: string): Promise<ExportData> => {
+  const docs = await db.collection<CertificateDocument>(CERTIFICATES_COLLECTION).find({ userId }).sort({ createdAt: -1 }).toArray();
+  const certificates = docs.map(toCertificate);
+  const certificateByFileId = new Map(certificates.flatMap(c => c.fileIds.map(fileId => [fileId, c.id] as const)));
+
+  const stored = await db.collection('images.files').find(
+    { 'metadata.userId': userId },
+    { projection: { _id: 1, filename: 1, uploadDate: 1, contentType: 1, length: 1, metadata: 1 } }
+  ).sort({ uploadDate: 1 }).toArray();
+
+  const files = stored.map((file): ExportedFile => {
+    const fileId = file._id.toString();
+    const originalName = file.metadata?.originalName || file.filename;
+    return {
+      fileId,
+      path: `files/${fileId}_${toSafeFileName(originalName)}`,
+      originalName,
+      contentType: file.contentType || 'application/octet-stream',
+      size: file.length || 0,
+      uploadDate: new Date(file.uploadDate).toISOString(),
+      isPdfOriginal: file.metadata?.isPdfOriginal === true,
+      pageNumber: file.metadata?.pageNumber ?? null,
+      parentFileId: file.metadata?.parentFileId ?? null,
+      certificateId: certificateByFileId.get(fileId) ?? null,
+    };
+  });
+  return { certificates, files };
+};
+
+export const buildCertificateManifest = (userId: string, { certificates, files }: ExportData, exportedAt: Date = new Date()): CertificateExportManifest => {
+  const pathById = new Map(files.map(f => [f.fileId, f.path]));
+  return {
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    userId,
+    certificates: certificates.map(c => ({ ...c, files: c.fileIds.map(id => pathById.get(id)).filter((p): p is string => !!p) })),
+    files,
+  };
+};
+
+// One row per certificate with the details a spreadsheet user needs; the manifest has everything else.
+export const buildCertificateCsv = ({ certificates, files }: ExportData): string => {
+  const pathById = new Map(files.map(f => [f.fileId, f.path]));
+  return toCsv(
+    ['id', 'courseTitle', 'issuer', 'recipientName', 'issueDate', 'expiryDate', 'credentialId', 'verificationUrl', 'skills', 'status', 'humanVerified', 'issuerVerification', 'nameMatchScore', 'files', 'createdAt', 'updatedAt'],
+    certificates.map(c => [
+      c.id,
+      c.courseTitle,
+      c.issuer,
+      c.recipientName,
+      c.issueDate,
+      c.expiryDate,
+      c.credentialId,
+      c.verificationUrl,
+      c.skills.join('; '),
+      c.status,
+      c.humanVerified,
+      c.verification?.status ?? null,
+      c.nameMatch?.score ?? null,
+      c.fileIds.map(id => pathById.get(id)).filter(Boolean).join('; '),
+      c.createdAt,
+      c.updatedAt,
+    ])
+  );
+};
+
+/**
+ * Streams a ZIP with every stored file of the user under `files/`, plus `manifest.json` (certificates,
+ * files and which file belongs to which certificate) and `certificates.csv`. Files are read from
+ * GridFS one at a time while the archive is being sent, so memory use does not grow with the export.
+ */
+export async function createCertificateZipStream_SERVER(db: Db, bucket: GridFSBucket, userId: string, reqId: string): Promise<Readable> {
+  const data = await loadExportData(db, userId);
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  archive.on('warning', (error) => console.warn(`${logPrefix(reqId)}: ZIP warning for user ${userId}: ${error.message}`));
+  archive.on('error', (error) => console.error(`${logPrefix(reqId)}: ZIP export for user ${userId} failed: ${error.message}`));
+
+  archive.append(JSON.stringify(buildCertificateManifest(userId, data), null, 2), { name: 'manifest.json' });
+  archive.append(buildCertificateCsv(data), { name: 'certificates.csv' });
+  for (const file of data.files) {
+    // Images and PDFs are already compressed; storing them as-is saves CPU without making the ZIP bigger.
+    archive.append(bucket.openDownloadStream(new ObjectId(file.fileId)), { name: file.path, date: new Date(file.uploadDate), store: true });
+  }
+  archive.finalize().catch(() => { /* Reported through the 'error' listener */ });
+
+  console.log(`${logPrefix(reqId)}: Streaming ZIP of ${data.certificates.length} certificate(s) and ${data.files.length} file(s) for user ${userId}.`);
+  return archive;
+}
+
+// --- Combined PDF ---
+
+const A4: [number, number] = [595.28, 841.89];
+const PAGE_MARGIN = 48;
+const IMAGE_PAGE_MARGIN = 24;
+const INDEX_ENTRIES_PER_PAGE = 22;
+const INDEX_ENTRY_HEIGHT = 30;
+
+// The standard PDF fonts cannot encode most non-Latin text: accents are dropped, other characters become '?'.
+const toPdfText = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '?');
+
+const fitText = (text: string, font: PDFFont, size: number, maxWidth: number): string => {
+  let fitted = toPdfText(text);
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted}...`;
+};
+
+// GIF and WebP cannot be embedded directly; they are redrawn as PNG with the same canvas setup the code scanner uses.
+const embedImage = async (pdf: PDFDocument, bytes: Buffer, contentType: string) => {
+  if (contentType === 'image/jpeg') return pdf.embedJpg(bytes);
+  if (contentType === 'image/png') return pdf.embedPng(bytes);
+  const { createCanvas, loadImage } = await import('canvas');
+  const image = await loadImage(bytes);
+  const canvas = createCanvas(image.width, image.height);
+  canvas.getContext('2d').drawImage(image, 0, 0);
+  return pdf.embedPng(canvas.toBuffer('image/png'));
+};
+
+const addImagePage = async (pdf: PDFDocument, bytes: Buffer, contentType: string) => {
+  const image = await embedImage(pdf, bytes, contentType);
+  const [width, height] = image.width > image.height ? [A4[1], A4[0]] : A4;
+  const scale = Math.min((width - 2 * IMAGE_PAGE_MARGIN) / image.width, (height - 2 * IMAGE_PAGE_MARGIN) / image.height, 1);
+  const page = pdf.addPage([width, height]);
+  page.drawImage(image, {
+    x: (width - image.width * scale) / 2,
+    y: (height - image.height * scale) / 2,
+    width: image.width * scale,
+    height: image.height * scale,
+  });
+};
+
+const addPlaceholderPage = (pdf: PDFDocument, font: PDFFont, file: ExportedFile) => {
+  const page = pdf.addPage(A4);
+  page.drawText(fitText(`"${file.originalName}" (${file.contentType}) could not be included.`, font, 12, A4[0] - 2 * PAGE_MARGIN), { x: PAGE_MARGIN, y: A4[1] / 2, size: 12, font });
+  page.drawText('The original file is part of the ZIP export.', { x: PAGE_MARGIN, y: A4[1] / 2 - 18, size: 10, font, color: rgb(0.4, 0.4, 0.4) });
+};
+
+const describeForIndex = (certificate: Certificate): string => [
+  certificate.issuer,
+  certificate.issueDate && `Issued ${certificate.issueDate}`,
+  certificate.expiryDate && `Expires ${certificate.expiryDate}`,
+  certificate.status !== 'active' && certificate.status,
+  certificate.verification?.status === 'verified' && 'verified by issuer',
+  certificate.humanVerified && 'reviewed',
+].filter(Boolean).join(' | ');
+
+const drawIndexPage = (page: PDFPage, fonts: { regular: PDFFont; bold: PDFFont }, heading: { title: string; subtitle: string }, entries: { label: string; detail: string; page: number | null }[]) => {
+  const width = A4[0] - 2 * PAGE_MARGIN;
+  let y = A4[1] - PAGE_MARGIN - 20;
+  page.drawText(fitText(heading.title, fonts.bold, 20, width), { x: PAGE_MARGIN, y, size: 20, font: fonts.bold });
+  y -= 20;
+  page.drawText(fitText(heading.subtitle, fonts.regular, 10, width), { x: PAGE_MARGIN, y, size: 10, font: fonts.regular, color: rgb(0.4, 0.4, 0.4) });
+  y -= 36;
+  for (const entry of entries) {
+    const pageLabel = entry.page === null ? 'no file' : `p. ${entry.page}`;
+    const pageLabelWidth = fonts.regular.widthOfTextAtSize(pageLabel, 11);
+    page.drawText(fitText(entry.label, fonts.bold, 11, width - pageLabelWidth - 12), { x: PAGE_MARGIN, y, size: 11, font: fonts.bold });
+    page.drawText(pageLabel, { x: A4[0] - PAGE_MARGIN - pageLabelWidth, y, size: 11, font: fonts.regular });
+    if (entry.detail) {
+      page.drawText(fitText(entry.detail, fonts.regular, 9, width), { x: PAGE_MARGIN + 14, y: y - 13, size: 9, font: fonts.regular, color: rgb(0.4, 0.4, 0.4) });
+    }
+    y -= INDEX_ENTRY_HEIGHT;
+  }
+};
+
+/**
+ * Builds one PDF with a cover index followed by every certificate: the original PDF when there is one
+ * (its page images otherwise), or its images one per page. Files that cannot be embedded get a
+ * placeholder page, so the index still lines up.
+ */
+export async function buildCombinedCertificatePdf_SERVER(
+  db: Db,
+  bucket: GridFSBucket,
+  userId: string,
+  { ownerName, reqId, now = new Date() }: { ownerName: string; reqId: string; now?: Date }
+): Promise<CombinedPdfResult> {
+  const { certificates, files } = await loadExportData(db, userId);
+  const filesById = new Map(files.map(f => [f.fileId, f]));
+  const sections = certificates.map(certificate => {
+    const certificateFiles = certificate.fileIds.map(id => filesById.get(id)).filter((f): f is ExportedFile => !!f);
+    return {
+      certificate,
+      original: certificateFiles.find(f => f.isPdfOriginal) ?? null,
+      images: certificateFiles.filter(f => !f.isPdfOriginal).sort((a, b) => (a.pageNumber ?? 0) - (b.pageNumber ?? 0)),
+    };
+  });
+
+  const sourceBytes = sections.reduce((sum, s) => sum + (s.original ? s.original.size : s.images.reduce((t, f) => t + f.size, 0)), 0);
+  if (sourceBytes > MAX_COMBINED_PDF_SOURCE_BYTES) {
+    console.warn(`${logPrefix(reqId)}: Combined PDF for user ${userId} refused: ${sourceBytes} bytes of files.`);
+    return { ok: false, errorKey: 'EXPORT_TOO_LARGE', message: 'These certificates are too large to combine into one PDF. Please use the ZIP export instead.' };
+  }
+
+  const pdf = await PDFDocument.create();
+  const fonts = { regular: await pdf.embedFont(StandardFonts.Helvetica), bold: await pdf.embedFont(StandardFonts.HelveticaBold) };
+  const startPages: (number | null)[] = [];
+
+  for (const section of sections) {
+    const before = pdf.getPageCount();
+    let includedOriginal = false;
+    if (section.original) {
+      try {
+        const source = await PDFDocument.load(await readGridFsFile(bucket, new ObjectId(section.original.fileId)), { ignoreEncryption: true });
+        for (const page of await pdf.copyPages(source, source.getPageIndices())) pdf.addPage(page);
+        includedOriginal = true;
+      } catch (error: any) {
+        console.warn(`${logPrefix(reqId)}: Could not copy PDF ${section.original.fileId}, using its page images: ${error.message}`);
+      }
+    }
+    if (!includedOriginal) {
+      for (const file of section.images) {
+        try {
+          await addImagePage(pdf, await readGridFsFile(bucket, new ObjectId(file.fileId)), file.contentType);
+        } catch (error: any) {
+          console.warn(`${logPrefix(reqId)}: Could not embed file ${file.fileId} (${file.contentType}): ${error.message}`);
+          addPlaceholderPage(pdf, fonts.regular, file);
+        }
+      }
+    }
+    startPages.push(pdf.getPageCount() > before ? before : null);
+  }
+
+  // The index goes in front, so every section start shifts by the number of index pages.
+  const indexPageCount = Math.max(1, Math.ceil(sections.length / INDEX_ENTRIES_PER_PAGE));
+  const entries = sections.map((section, i) => ({
+    label: `${i + 1}. ${section.certificate.courseTitle || section.original?.originalName || section.images[0]?.originalName || 'Untitled certificate'}`,
+    detail: describeForIndex(section.certificate),
+    page: startPages[i] === null ? null : startPages[i]! + indexPageCount + 1,
+  }));
+  for (let i = 0; i < indexPageCount; i++) {
+    drawIndexPage(
+      pdf.insertPage(i, A4),
+      fonts,
+      {
+        title: i === 0 ? `Certificates of ${ownerName}` : 'Certificates (continued)',
+        subtitle: `${certificates.length} certificate${certificates.length === 1 ? '' : 's'}, exported from CertIntel on ${now.toISOString().slice(0, 10)}`,
+      },
+      entries.slice(i * INDEX_ENTRIES_PER_PAGE, (i + 1) * INDEX_ENTRIES_PER_PAGE)
+    );
+  }
+  if (sections.length === 0) {
+    pdf.getPage(0).drawText('No certificates yet.', { x: PAGE_MARGIN, y: A4[1] - PAGE_MARGIN - 96, size: 11, font: fonts.regular });
+  }
+
+  pdf.setTitle(toPdfText(`Certificates of ${ownerName}`));
+  pdf.setCreator('CertIntel');
+  pdf.setCreationDate(now);
+  const bytes = await pdf.save();
+  console.log(`${logPrefix(reqId)}: Built combined PDF for user ${userId}: ${certificates.length} certificate(s), ${pdf.getPageCount()} page(s), ${bytes.length} bytes.`);
+  return { ok: true, pdf: bytes, pageCount: pdf.getPageCount() };
+}
@@ -0,0 +1,178 @@
+// NO 'use client'; directive - builds the admin class report from certificate records and renders it as CSV/XLSX.
+import ExcelJS from 'exceljs';
+import type { Db } from 'mongodb';
+import { CERTIFICATES_COLLECTION, type CertificateDocument } from '@/lib/services/certificateService.server';
+import { neutralizeSpreadsheetFormula, toCsv } from '@/lib/export/csv';
+import type { UserProfile } from '@/lib/models/user';
+import {
+  CLASS_REPORT_COLUMNS,
+  CLASS_REPORT_FORMATS,
+  type ClassReport,
+  type ClassReportFilters,
+  type ClassReportFormat,
+  type ClassReportRow,
+} from '@/lib/models/classReport';
+
+const MAX_REPORT_STUDENTS = 500;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ClassReportRequestResult =
+  | { ok: true; value: { studentIds: string[]; filters: ClassReportFilters; format: ClassReportFormat } }
+  | { ok: false; errorKey: string; message: string };
+
+const isValidDate = (value: string) => DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+export function validateClassReportRequest(body: unknown): ClassReportRequestResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errorKey: 'INVALID_BODY', message: 'Request body must be a JSON object.' };
+  }
+  const { studentIds, from = null, to = null, issuers = [], format = 'json' } = body as Record<string, unknown>;
+
+  if (!Array.isArray(studentIds) || !studentIds.every(id => typeof id === 'string' && id)) {
+    return { ok: false, errorKey: 'INVALID_FIELD', message: "'studentIds' must be an array of student IDs." };
+  }
+  if (studentIds.length > MAX_REPORT_STUDENTS) {
+    return { ok: false, errorKey: 'TOO_MANY_STUDENTS', message: `A report can cover at most ${MAX_REPORT_STUDENTS} students.` };
+  }
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== null && (typeof value !== 'string' || !isValidDate(value))) {
+      return { ok: false, errorKey: 'INVALID_DATE', message: `'${name}' must be a date in YYYY-MM-DD format or null.` };
+    }
+  }
+  if (from && to && (to as string) < (from as string)) {
+    return { ok: false, errorKey: 'INVALID_DATE', message: "'to' cannot be before 'from'." };
+  }
+  if (!Array.isArray(issuers) || !issuers.every(issuer => typeof issuer === 'string')) {
+    return { ok: false, errorKey: 'INVALID_FIELD', message: "'issuers' must be an array of issuer names." };
+  }
+  if (!CLASS_REPORT_FORMATS.includes(format as ClassReportFormat)) {
+    return { ok: false, errorKey: 'INVALID_REPORT_FORMAT', message: `'format' must be one of: ${CLASS_REPORT_FORMATS.join(', ')}.` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      studentIds: [...new Set(studentIds as string[])],
+      filters: { from: from as string | null, to: to as string | null, issuers: (issuers as string[]).map(i => i.trim()).filter(Boolean) },
+      format: format as ClassReportFormat,
+    },
+  };
+}
+
+// Distinct values ignoring case and surrounding spaces ("Coursera" / "coursera "), keeping the first spelling seen.
+const uniqueSorted = (values: (string | null)[]): string[] => {
+  const byKey = new Map<string, string>();
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (trimmed && !byKey.has(trimmed.toLowerCase())) byKey.set(trimmed.toLowerCase(), trimmed);
+  }
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * One row per student: their certificates (revoked ones excluded) within the date range and from the
+ * selected issuers. Certificates are dated by their issue date, or by when they were added when the
+ * issue date is unknown. `students` must already be checked to be linked to the requesting admin.
+ */
+export async function buildClassReport_SERVER(db: Db, students: UserProfile[], filters: ClassReportFilters, now: Date = new Date()): Promise<ClassReport> {
+  const studentIds = students.map(s => s.uid);
+  const certificates = studentIds.length === 0 ? [] : await db.collection<CertificateDocument>(CERTIFICATES_COLLECTION).find(
+    { userId: { $in: studentIds }, status: { $ne: 'revoked' } },
+    { projection: { userId: 1, courseTitle: 1, issuer: 1, issueDate: 1, createdAt: 1, humanVerified: 1, verification: 1 } }
+  ).toArray();
+  const lastUploads = studentIds.length === 0 ? [] : await db.collection('images.files').aggregate<{ _id: string; lastUploadAt: Date }>([
+    { $match: { 'metadata.userId': { $in: studentIds } } },
+    { $group: { _id: '$metadata.userId', lastUploadAt: { $max: '$uploadDate' } } },
+  ]).toArray();
+  const lastUploadByStudent = new Map(lastUploads.map(u => [u._id, u.lastUploadAt]));
+
+  const from = filters.from ? Date.parse(filters.from) : -Infinity;
+  const toExclusive = filters.to ? Date.parse(filters.to) + DAY_MS : Infinity;
+  const issuerFilter = new Set(filters.issuers.map(i => i.toLowerCase()));
+  const included = certificates.filter(c => {
+    const dated = (c.issueDate ?? c.createdAt).getTime();
+    if (dated < from || dated >= toExclusive) return false;
+    return issuerFilter.size === 0 || (!!c.issuer && issuerFilter.has(c.issuer.trim().toLowerCase()));
+  });
+
+  const rows = students.map((student): ClassReportRow => {
+    const own = included.filter(c => c.userId === student.uid);
+    const lastUpload = lastUploadByStudent.get(student.uid);
+    return {
+      studentId: student.uid,
+      rollNo: student.rollNo || null,
+      name: student.displayName || student.email?.split('@')[0] || 'Unnamed student',
+      email: student.email,
+      certificateCount: own.length,
+      courses: uniqueSorted(own.map(c => c.courseTitle)),
+      issuers: uniqueSorted(own.map(c => c.issuer)),
+      verifiedCount: own.filter(c => c.humanVerified || c.verification?.status === 'verified').length,
+      lastUploadAt: lastUpload ? new Date(lastUpload).toISOString() : null,
+    };
+  });
+  rows.sort((a, b) => (a.rollNo || '\uffff').localeCompare(b.rollNo || '\uffff', undefined, { numeric: true }) || a.name.localeCompare(b.name));
+
+  return {
+    generatedAt: now.toISOString(),
+    filters,
+    rows,
+    availableIssuers: uniqueSorted(certificates.map(c => c.issuer)),
+  };
+}
+
+const describeFilters = ({ from, to, issuers }: ClassReportFilters): string[][] => [
+  ['Certificates dated from', from || 'any date'],
+  ['Certificates dated to', to || 'any date'],
+  ['Issuers', issuers.length > 0 ? issuers.join('; ') : 'all'],
+];
+
+const toCellValues = (row: ClassReportRow) => ({
+  rollNo: row.rollNo,
+  name: row.name,
+  email: row.email,
+  certificateCount: row.certificateCount,
+  courses: row.courses.join('; '),
+  issuers: row.issuers.join('; '),
+  verifiedCount: row.verifiedCount,
+  lastUploadAt: row.lastUploadAt,
+});
+
+export const classReportToCsv = (report: ClassReport): string =>
+  toCsv(
+    CLASS_REPORT_COLUMNS.map(c => c.label),
+    report.rows.map(row => {
+      const values = toCellValues(row);
+      return CLASS_REPORT_COLUMNS.map(c => values[c.key]);
+    })
+  );
+
+// Two sheets: the per-student table (dates as real Excel dates) and the filters the report was built with.
+export async function classReportToXlsx(report: ClassReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'CertIntel';
+  workbook.created = new Date(report.generatedAt);
+
+  const sheet = workbook.addWorksheet('Students');
+  sheet.columns = CLASS_REPORT_COLUMNS.map(c => ({
+    header: c.label,
+    key: c.key,
+    width: c.key === 'courses' ? 60 : c.key === 'issuers' || c.key === 'email' ? 32 : c.key === 'name' ? 28 : 16,
+  }));
+  // Names, courses and issuers come from students, so text cells are neutralised like the CSV.
+  const asText = (value: string | number | null) => (typeof value === 'string' ? neutralizeSpreadsheetFormula(value) : value);
+  for (const row of report.rows) {
+    const values = Object.fromEntries(Object.entries(toCellValues(row)).map(([key, value]) => [key, asText(value)]));
+    sheet.addRow({ ...values, lastUploadAt: row.lastUploadAt ? new Date(row.lastUploadAt) : null });
+  }
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.getColumn('lastUploadAt').numFmt = 'yyyy-mm-dd hh:mm';
+  sheet.getColumn('courses').alignment = { wrapText: true, vertical: 'top' };
+
+  const filtersSheet = workbook.addWorksheet('Filters');
+  filtersSheet.columns = [{ width: 28 }, { width: 60 }];
+  filtersSheet.addRows([['Generated at', report.generatedAt], ...describeFilters(report.filters).map(([label, value]) => [label, asText(value)])]);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,41 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+import { classReportToCsv, classReportToXlsx } from '@/lib/export/classReport.server';
+import type { ClassReport } from '@/lib/models/classReport';
+
+const report: ClassReport = {
+  generatedAt: '2024-05-01T10:00:00.000Z',
+  filters: { from: null, to: null, issuers: ['=cmd|"/c calc"!A1'] },
+  rows: [{
+    studentId: 'student-1',
+    rollNo: '+91',
+    name: '@SUM(1+1)',
+    email: 'asha@example.com',
+    certificateCount: 2,
+    courses: ['=HYPERLINK("http://evil.example","Open")', 'Machine Learning'],
+    issuers: ['-Coursera'],
+    verifiedCount: 1,
+    lastUploadAt: '2024-04-30T09:00:00.000Z',
+  }],
+  availableIssuers: [],
+};
+
+describe('class report export', () => {
+  test('CSV prefixes values that would start a formula', () => {
+    const [, dataLine] = classReportToCsv(report).split('\r\n');
+    assert.equal(dataLine, `'+91,'@SUM(1+1),asha@example.com,2,"'=HYPERLINK(""http://evil.example"",""Open""); Machine Learning",'-Coursera,1,2024-04-30T09:00:00.000Z`);
+  });
+
+  test('XLSX stores those values as plain text with the same prefix', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const xlsx = await classReportToXlsx(report);
+    await workbook.xlsx.load(new Uint8Array(xlsx).buffer);
+    const row = workbook.getWorksheet('Students')!.getRow(2);
+    assert.equal(row.getCell(1).value, "'+91");
+    assert.equal(row.getCell(2).value, "'@SUM(1+1)");
+    assert.equal(row.getCell(4).value, 2);
+    assert.equal(row.getCell(6).value, "'-Coursera");
+    assert.equal(workbook.getWorksheet('Filters')!.getRow(4).getCell(2).value, `'=cmd|"/c calc"!A1`);
+  });
+});
@@ -0,0 +1,20 @@
+// Minimal RFC 4180 CSV writer: quotes fields containing separators, quotes or line breaks,
+// and keeps text from being read as a spreadsheet formula.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run text starting with one of these as a formula ("=HYPERLINK(...)", "@SUM(...)").
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Prefixes user-supplied text that would start a formula with `'`, so spreadsheets show it as text.
+export const neutralizeSpreadsheetFormula = (text: string): string => (FORMULA_TRIGGER.test(text) ? `'${text}` : text);
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? neutralizeSpreadsheetFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CRLF line endings and a leading BOM so Excel opens UTF-8 names and titles correctly.
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  '\uFEFF' + [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
@@ -39,6 +39,28 @@ export const signOut = async (): Promise<void | AuthError> => {
   }
 };
 
+// Keeps the server-side session cookie (checked by src/middleware.ts for page routes) in step with
+// the client-side Firebase auth state. Failures are logged, not thrown: API routes still use ID tokens.
+export const syncServerSession = async (user: User | null): Promise<void> => {
+  try {
+    if (user) {
+      const idToken = await user.getIdToken();
+      const response = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ idToken }),
+      });
+      if (!response.ok) {
+        console.warn(`syncServerSession: Server rejected session creation. Status: ${response.status}`);
+      }
+    } else {
+      await fetch('/api/auth/session', { method: 'DELETE' });
+    }
+  } catch (error: any) {
+    console.error("syncServerSession error:", error.message);
+  }
+};
+
 export const onAuthStateChanged = (callback: (user: User | null) => void) => {
   return firebaseOnAuthStateChanged(auth, callback);
 };
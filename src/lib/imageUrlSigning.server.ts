@@ -0,0 +1,58 @@
+// NO 'use client'; directive - uses Node's crypto and a server-only secret.
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const IMAGE_URL_SIGNING_SECRET = process.env.IMAGE_URL_SIGNING_SECRET;
+const DEFAULT_SIGNED_URL_TTL_SECONDS = Number(process.env.IMAGE_URL_TTL_SECONDS) || 60 * 60; // 1 hour
+
+export type SignedImageUrlCheck =
+  | { valid: true; viewerUid: string; expiresAt: number }
+  | { valid: false; errorKey: 'SIGNED_URL_INCOMPLETE' | 'SIGNED_URL_EXPIRED' | 'SIGNED_URL_INVALID' | 'SIGNING_NOT_CONFIGURED' };
+
+let missingSecretWarned = false;
+
+// HMAC over the file, viewer and expiry. Callers check that the secret is set first.
+const computeSignature = (secret: string, fileId: string, viewerUid: string, expiresAt: number): string =>
+  createHmac('sha256', secret).update(`${fileId}:${viewerUid}:${expiresAt}`).digest('base64url');
+
+// Builds a short-lived URL for /api/images/[fileId]. The signature binds the file, the viewer the URL
+// was issued to and the expiry, so the route can still re-check the viewer's access when it is used.
+// Returns null when IMAGE_URL_SIGNING_SECRET is not set, so listings still load without signed URLs.
+export const createSignedImageUrl = (fileId: string, viewerUid: string, ttlSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS): string | null => {
+  if (!IMAGE_URL_SIGNING_SECRET) {
+    if (!missingSecretWarned) {
+      console.warn('imageUrlSigning: IMAGE_URL_SIGNING_SECRET is not set. Signed image URLs are not issued; images load only with an Authorization header.');
+      missingSecretWarned = true;
+    }
+    return null;
+  }
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const sig = computeSignature(IMAGE_URL_SIGNING_SECRET, fileId, viewerUid, expiresAt);
+  const search = new URLSearchParams({ uid: viewerUid, exp: expiresAt.toString(), sig });
+  return `/api/images/${fileId}?${search.toString()}`;
+};
+
+export const hasImageUrlSignature = (searchParams: URLSearchParams): boolean => searchParams.has('sig');
+
+export const verifySignedImageUrl = (fileId: string, searchParams: URLSearchParams): SignedImageUrlCheck => {
+  const viewerUid = searchParams.get('uid');
+  const expParam = searchParams.get('exp');
+  const sig = searchParams.get('sig');
+  if (!viewerUid || !expParam || !sig) {
+    return { valid: false, errorKey: 'SIGNED_URL_INCOMPLETE' };
+  }
+  if (!IMAGE_URL_SIGNING_SECRET) {
+    return { valid: false, errorKey: 'SIGNING_NOT_CONFIGURED' };
+  }
+
+  const expiresAt = Number(expParam);
+  if (!Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return { valid: false, errorKey: 'SIGNED_URL_EXPIRED' };
+  }
+
+  const expected = Buffer.from(computeSignature(IMAGE_URL_SIGNING_SECRET, fileId, viewerUid, expiresAt));
+  const provided = Buffer.from(sig);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, errorKey: 'SIGNED_URL_INVALID' };
+  }
+  return { valid: true, viewerUid, expiresAt };
+};
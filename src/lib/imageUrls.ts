@@ -0,0 +1,10 @@
+// Client-safe helpers for building URLs to files served by /api/images/[fileId].
+
+interface ImageUrlSource {
+  fileId: string;
+  signedUrl?: string;
+}
+
+// /api/images/[fileId] requires either an Authorization header or a signed URL. Plain <img>, next/image
+// and new-tab links cannot send headers, so they must use the signed URL issued by /api/user-images.
+export const getImageSrc = (image: ImageUrlSource): string => image.signedUrl || `/api/images/${image.fileId}`;
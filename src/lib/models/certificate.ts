@@ -0,0 +1,111 @@
+import type { UserImage } from '@/lib/models/userImage';
+
+// 'draft': created automatically for an uploaded file, details not filled in yet.
+// 'active': described by the owner (or their linked admin). 'expired' / 'revoked': no longer valid.
+export type CertificateStatus = 'draft' | 'active' | 'expired' | 'revoked';
+export const CERTIFICATE_STATUSES: CertificateStatus[] = ['draft', 'active', 'expired', 'revoked'];
+
+// A certificate as returned by /api/certificates. Dates are ISO strings (YYYY-MM-DD for issue/expiry).
+export interface Certificate {
+  id: string;
+  userId: string; // Owner (Firebase UID)
+  fileIds: string[]; // GridFS files in the 'images' bucket: an image, or an original PDF and its pages
+  issuer: string | null;
+  courseTitle: string | null;
+  recipientName: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+  credentialId: string | null;
+  verificationUrl: string | null;
+  skills: string[];
+  status: CertificateStatus;
+  createdBy: string; // UID of whoever created the record (owner, linked admin, or the owner's upload for drafts)
+  createdAt: string;
+  updatedAt: string;
+  // Automatic field extraction: model used, what it read, per-field confidence (0-1) and the fields it filled in.
+  extraction: {
+    model: string;
+    extractedAt: string;
+    values: Record<string, string | null>;
+    confidence: Record<string, number>;
+    appliedFields: string[];
+  } | null;
+  humanVerified: boolean; // Someone reviewed the fields against the file and confirmed them
+  verifiedBy: string | null;
+  verifiedAt: string | null;
+  editHistory: CertificateEdit[]; // Manual edits, oldest first (the most recent 50 are kept)
+  // Recipient name compared with the owner's profile name (score 0-1); null when either name is missing.
+  // `checkedName` is the name read from the certificate file when there is one, else the entered name.
+  nameMatch: { score: number; mismatch: boolean; checkedName: string; checkedAt: string } | null;
+  // Online check of the credential with its issuer; null when the certificate has no credential ID or verification URL.
+  verification: {
+    status: CertificateVerificationStatus;
+    verifierId: string | null; // Issuer adapter used, e.g. 'coursera'
+    detail: string | null;
+    checkedUrl: string | null;
+    matchedFields: string[];
+    checkedAt: string | null;
+  } | null;
+}
+
+export type CertificateVerificationStatus = 'pending' | 'verified' | 'invalid' | 'unknown';
+
+export type CertificateFieldValue = string | string[] | null;
+
+// One manual change to a certificate. `changes` is empty when a save only marked the record as verified.
+export interface CertificateEdit {
+  editedBy: string;
+  editedByRole: 'owner' | 'linkedAdmin';
+  editedAt: string;
+  changes: { field: string; from: CertificateFieldValue; to: CertificateFieldValue }[];
+  verified: boolean; // This save marked the certificate as human verified
+}
+
+// The list endpoint embeds the certificate's files so the grid can render thumbnails without a second request.
+export interface CertificateWithFiles extends Certificate {
+  files: UserImage[];
+}
+
+// Fields a client may set on create (POST) or change on update (PATCH).
+export type CertificateInput = Partial<Pick<Certificate,
+  'fileIds' | 'issuer' | 'courseTitle' | 'recipientName' | 'issueDate' | 'expiryDate' | 'credentialId' | 'verificationUrl' | 'skills' | 'status' | 'humanVerified'
+>>;
+
+// Fields the extraction flow reads, in the order the review editor shows them.
+export const REVIEWABLE_CERTIFICATE_FIELDS = [
+  { field: 'courseTitle', label: 'Course title' },
+  { field: 'issuer', label: 'Issuer' },
+  { field: 'recipientName', label: 'Recipient name' },
+  { field: 'issueDate', label: 'Issue date' },
+  { field: 'expiryDate', label: 'Expiry date' },
+  { field: 'credentialId', label: 'Credential ID' },
+  { field: 'verificationUrl', label: 'Verification URL' },
+] as const;
+
+export type ReviewableCertificateField = typeof REVIEWABLE_CERTIFICATE_FIELDS[number]['field'];
+
+// Extracted values below this confidence are not applied automatically and are highlighted for review.
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Certificates expiring within this many days count as "expiring soon" (also the first reminder email).
+export const EXPIRING_SOON_DAYS = 60;
+
+// Whole days from today until the expiry date (0 on the expiry day, negative once expired); null without an expiry date.
+export const getDaysUntilExpiry = (certificate: Pick<Certificate, 'expiryDate'>, now: Date = new Date()): number | null => {
+  if (!certificate.expiryDate) return null;
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((Date.parse(certificate.expiryDate) - today) / (24 * 60 * 60 * 1000));
+};
+
+export const isExpiringSoon = (certificate: Pick<Certificate, 'expiryDate' | 'status'>, now: Date = new Date()): boolean => {
+  if (certificate.status === 'expired' || certificate.status === 'revoked') return false;
+  const days = getDaysUntilExpiry(certificate, now);
+  return days !== null && days >= 0 && days <= EXPIRING_SOON_DAYS;
+};
+
+// Title to show for a certificate: its course title, or the name of its first file while still a draft.
+export const getCertificateDisplayName = (certificate: CertificateWithFiles): string =>
+  certificate.courseTitle
+  || certificate.files.find(f => f.isPdfOriginal)?.originalName
+  || certificate.files[0]?.originalName
+  || 'Untitled certificate';
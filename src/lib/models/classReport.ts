@@ -0,0 +1,41 @@
+// Per-student certificate summary for an admin's linked students, as returned by /api/admin/reports/class.
+
+export type ClassReportFormat = 'json' | 'csv' | 'xlsx';
+export const CLASS_REPORT_FORMATS: ClassReportFormat[] = ['json', 'csv', 'xlsx'];
+
+export interface ClassReportFilters {
+  from: string | null; // YYYY-MM-DD, inclusive; compared with the issue date (the upload date when a certificate has none)
+  to: string | null;
+  issuers: string[]; // Only certificates from these issuers (case-insensitive); empty for all
+}
+
+export interface ClassReportRow {
+  studentId: string;
+  rollNo: string | null;
+  name: string;
+  email: string | null;
+  certificateCount: number;
+  courses: string[];
+  issuers: string[];
+  verifiedCount: number; // Reviewed by a person or confirmed by the issuer
+  lastUploadAt: string | null; // Most recent file upload, regardless of the filters
+}
+
+export interface ClassReport {
+  generatedAt: string;
+  filters: ClassReportFilters;
+  rows: ClassReportRow[];
+  availableIssuers: string[]; // Every issuer among the students' certificates, for the issuer filter
+}
+
+// Column headings shared by the preview table and the CSV/XLSX files.
+export const CLASS_REPORT_COLUMNS = [
+  { key: 'rollNo', label: 'Roll number' },
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'certificateCount', label: 'Certificates' },
+  { key: 'courses', label: 'Courses' },
+  { key: 'issuers', label: 'Issuers' },
+  { key: 'verifiedCount', label: 'Verified' },
+  { key: 'lastUploadAt', label: 'Last upload' },
+] as const;
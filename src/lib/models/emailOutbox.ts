@@ -0,0 +1,28 @@
+import type { EmailTemplateName } from '@/lib/email/templates/types';
+
+export const EMAIL_OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'failed'] as const;
+// pending: waiting for (another) attempt; sending: claimed by a worker; sent / failed: final.
+export type EmailOutboxStatus = (typeof EMAIL_OUTBOX_STATUSES)[number];
+
+export interface EmailDeliveryAttempt {
+  at: string;
+  success: boolean;
+  transport: string;
+  message: string;
+}
+
+// One row of the admin delivery log, as returned by /api/admin/email-outbox. Message bodies are never included.
+export interface EmailDeliveryLogEntry {
+  id: string;
+  to: string;
+  subject: string;
+  template: EmailTemplateName | null;
+  status: EmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null; // Only while pending
+  createdAt: string;
+  sentAt: string | null;
+  attemptLog: EmailDeliveryAttempt[];
+}
@@ -0,0 +1,64 @@
+import type { Timestamp } from 'firebase/firestore';
+
+export const NOTIFICATION_TYPES = ['linkRequestDecision', 'linkRemoved', 'certificateProcessed', 'certificateExpiry'] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Stored in the users/{uid}/notifications subcollection; written by the server, only `read`/`readAt` change on the client.
+export interface AppNotification {
+  id?: string; // Firestore document ID
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string | null; // In-app path to open when the notification is clicked
+  read: boolean;
+  createdAt: Timestamp;
+  readAt?: Timestamp | null;
+}
+
+export interface NotificationChannelPreference {
+  inApp: boolean;
+  email: boolean;
+}
+
+export type NotificationPreferences = Record<NotificationType, NotificationChannelPreference>;
+
+export const NOTIFICATION_TYPE_INFO: Record<NotificationType, { label: string; description: string; emailAvailable: boolean }> = {
+  linkRequestDecision: {
+    label: 'Link request decisions',
+    description: 'When an admin accepts or rejects your request to link with them.',
+    emailAvailable: true,
+  },
+  linkRemoved: {
+    label: 'Link removals',
+    description: 'When your admin removes the link with you.',
+    emailAvailable: true,
+  },
+  certificateProcessed: {
+    label: 'Certificate processing',
+    description: 'When the details of an uploaded certificate have been read, or could not be read.',
+    emailAvailable: false,
+  },
+  certificateExpiry: {
+    label: 'Expiry reminders',
+    description: "Before your certificates (or, for admins, your students' certificates) expire.",
+    emailAvailable: true,
+  },
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  linkRequestDecision: { inApp: true, email: true },
+  linkRemoved: { inApp: true, email: true },
+  certificateProcessed: { inApp: true, email: false },
+  certificateExpiry: { inApp: true, email: true },
+};
+
+// Fills in defaults for types the user never changed, so newly added types start switched on.
+export const resolveNotificationPreferences = (stored?: Partial<NotificationPreferences> | null): NotificationPreferences =>
+  Object.fromEntries(NOTIFICATION_TYPES.map(type => [
+    type,
+    {
+      ...DEFAULT_NOTIFICATION_PREFERENCES[type],
+      ...stored?.[type],
+      ...(NOTIFICATION_TYPE_INFO[type].emailAvailable ? {} : { email: false }),
+    },
+  ])) as NotificationPreferences;
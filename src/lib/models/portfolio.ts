@@ -0,0 +1,43 @@
+import type { CertificateVerificationStatus } from '@/lib/models/certificate';
+
+// Limits for the owner-editable portfolio text.
+export const MAX_PORTFOLIO_HEADLINE_LENGTH = 160;
+export const MAX_PORTFOLIO_CERTIFICATES = 100;
+
+// The owner's portfolio settings, as returned by /api/portfolio.
+export interface PortfolioSettings {
+  enabled: boolean; // Nothing is public until the student switches this on
+  slug: string | null; // Share link path segment (/p/<slug>); null until the portfolio is first enabled
+  headline: string | null;
+  certificateIds: string[]; // Certificates the student chose to show, in display order
+  updatedAt: string | null;
+}
+
+export type PortfolioSettingsInput = Partial<Pick<PortfolioSettings, 'enabled' | 'headline' | 'certificateIds'>>;
+
+// One certificate as shown to anonymous visitors: extracted details and verification state, no internals.
+export interface PublicPortfolioCertificate {
+  id: string;
+  courseTitle: string | null;
+  issuer: string | null;
+  recipientName: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+  credentialId: string | null;
+  verificationUrl: string | null;
+  skills: string[];
+  expired: boolean;
+  humanVerified: boolean;
+  issuerVerification: Exclude<CertificateVerificationStatus, 'pending'> | null; // Last finished check with the issuer
+  imageUrl: string | null; // Short-lived signed URL of the first page/image
+}
+
+export interface PublicPortfolio {
+  slug: string;
+  ownerName: string;
+  headline: string | null;
+  certificates: PublicPortfolioCertificate[];
+  updatedAt: string;
+}
+
+export const getPortfolioPath = (slug: string): string => `/p/${slug}`;
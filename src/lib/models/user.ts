@@ -1,5 +1,6 @@
 
 import type { Timestamp } from 'firebase/firestore';
+import type { NotificationPreferences } from '@/lib/models/notification';
 
 export type UserRole = 'admin' | 'student';
 export type LinkRequestStatus = 'pending' | 'accepted' | 'rejected' | 'none';
@@ -18,6 +19,8 @@ export interface UserProfile {
   associatedAdminFirebaseId?: string | null; // Firebase UID of the linked Admin
   associatedAdminUniqueId?: string | null; // The unique ID of the admin they linked/requested to link with
   linkRequestStatus?: LinkRequestStatus;
+
+  notificationPreferences?: Partial<NotificationPreferences>; // Per-type in-app/email switches; see resolveNotificationPreferences
   
   createdAt: Timestamp;
   updatedAt: Timestamp;
@@ -0,0 +1,27 @@
+// A QR code or barcode decoded from an image at upload time.
+export interface DecodedCode {
+  format: string; // ZXing format name, e.g. 'QR_CODE'
+  text: string;
+  url: string | null; // `text` when it is an http(s) URL, e.g. the issuer's verification page
+}
+
+// A stored file (GridFS 'images' bucket) as returned by /api/user-images and embedded in certificates.
+export interface UserImage {
+  fileId: string;
+  filename: string;
+  uploadDate: string;
+  contentType: string;
+  originalName: string;
+  dataAiHint?: string;
+  size: number;
+  userId?: string;
+  uploadedBy?: string; // UID of whoever uploaded the file (the owner or their linked admin)
+  uploadedByRole?: 'owner' | 'linkedAdmin';
+  possibleDuplicateOf?: string[]; // fileIds of identical or near-identical items in the same hub
+  isPdfOriginal?: boolean; // The uploaded PDF itself; its pages are separate entries pointing back via parentFileId
+  pageCount?: number; // Only set on an original PDF
+  pageNumber?: number; // Only set on a page rendered from a PDF
+  parentFileId?: string; // fileId of the original PDF this page was rendered from
+  decodedCodes?: DecodedCode[]; // QR codes / barcodes found on the image (not set for original PDFs)
+  signedUrl?: string; // Short-lived URL usable without an Authorization header (img tags, new tabs)
+}
@@ -0,0 +1,49 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isNameMismatch, scoreNameMatch } from '@/lib/nameMatch';
+
+const accepts = (candidate: string, expected: string) =>
+  assert.equal(isNameMismatch(scoreNameMatch(candidate, expected)), false, `'${candidate}' should match '${expected}'`);
+const flags = (candidate: string, expected: string) =>
+  assert.equal(isNameMismatch(scoreNameMatch(candidate, expected)), true, `'${candidate}' should not match '${expected}'`);
+
+describe('scoreNameMatch', () => {
+  test('accepts the same name written differently', () => {
+    assert.equal(scoreNameMatch('Sam Smith', 'Sam Smith'), 1);
+    accepts('Smith, Sam', 'Sam Smith');
+    accepts('José García', 'Jose Garcia');
+    accepts('S. Smith', 'Sam Smith');
+    accepts('Priya Sharma', 'Priya R. Sharma');
+    accepts('Jon Smith', 'John Smith');
+    accepts('Maryann Lee', 'Mary Ann Lee');
+    accepts('Maryann', 'Mary Ann');
+  });
+
+  test('accepts a single-token name that matches as a whole', () => {
+    accepts('Sam', 'Sam');
+    accepts('Priyanka', 'Priyanka.');
+    accepts('Subramaniam', 'Subramanian');
+  });
+
+  test('flags an initial on its own', () => {
+    flags('S', 'Sam Smith');
+    flags('S.', 'Sam Smith');
+  });
+
+  test('flags a single token, even when it is part of the expected name', () => {
+    flags('Smith', 'Sam Smith');
+    flags('Sam', 'Sam Smith');
+    flags('Sam Smith', 'Smith');
+  });
+
+  test('flags names that share only one token', () => {
+    flags('Sam Jones', 'Sam Smith');
+    flags('Rahul Kumar', 'Rohan Kumar');
+    flags('S. Jones', 'Sam Smith');
+  });
+
+  test('returns 0 when either name is empty', () => {
+    assert.equal(scoreNameMatch('', 'Sam Smith'), 0);
+    assert.equal(scoreNameMatch('Sam Smith', ' - '), 0);
+  });
+});
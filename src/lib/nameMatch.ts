@@ -0,0 +1,103 @@
+// Fuzzy comparison of person names, e.g. a certificate's recipient against a student's profile name.
+// Tolerates diacritics ("José" / "Jose"), reordering ("Smith, John"), initials ("J. Smith"),
+// extra middle names and small spelling differences. A name that agrees on a single token only (a bare
+// surname or initial) is not accepted: one full token and a second token have to correspond, unless the
+// two names are the same as a whole ("Sam" / "Sam").
+
+// Below this score a certificate is flagged as naming someone else.
+export const NAME_MISMATCH_THRESHOLD = 0.75;
+
+// Each name token present in only one of the two names lowers the score by this factor.
+const UNMATCHED_TOKEN_FACTOR = 0.9;
+const INITIAL_MATCH_SCORE = 0.9;
+// Two full tokens at least this similar count as the same name part ("Jon" / "John").
+const FULL_TOKEN_MATCH_SCORE = 0.75;
+// Whole-name similarity at which names count as the same, e.g. apart from spacing ("Mary Ann" / "Maryann").
+const WHOLE_NAME_MATCH_SCORE = 0.9;
+// Highest score for names that share fewer than two tokens; keeps them under NAME_MISMATCH_THRESHOLD.
+const WEAK_MATCH_MAX_SCORE = 0.5;
+
+// Lowercase ASCII tokens: diacritics stripped, punctuation treated as a separator.
+export const normalizeNameTokens = (name: string): string[] =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const stringSimilarity = (a: string, b: string): number =>
+  a.length === 0 && b.length === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  // "j" matches "john"; two different initials or a short token that is not an initial do not.
+  if ((a.length === 1 && b.length > 1 && b.startsWith(a)) || (b.length === 1 && a.length > 1 && a.startsWith(b))) {
+    return INITIAL_MATCH_SCORE;
+  }
+  if (a.length === 1 || b.length === 1) return 0;
+  return stringSimilarity(a, b);
+};
+
+interface TokenPairing {
+  score: number;
+  fullMatches: number; // Pairs of full tokens that correspond
+  initialMatches: number; // Pairs of an initial and the token it abbreviates
+}
+
+// Pairs tokens regardless of order, always taking the most similar remaining pair first.
+const orderIndependentScore = (a: string[], b: string[]): TokenPairing => {
+  const pairs = a.flatMap((tokenA, i) => b.map((tokenB, j) => ({ i, j, score: tokenSimilarity(tokenA, tokenB) })));
+  pairs.sort((x, y) => y.score - x.score);
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  let total = 0;
+  let fullMatches = 0;
+  let initialMatches = 0;
+  for (const pair of pairs) {
+    if (usedA.has(pair.i) || usedB.has(pair.j)) continue;
+    usedA.add(pair.i);
+    usedB.add(pair.j);
+    total += pair.score;
+    if (a[pair.i].length > 1 && b[pair.j].length > 1) {
+      if (pair.score >= FULL_TOKEN_MATCH_SCORE) fullMatches += 1;
+    } else if (pair.score > 0) {
+      initialMatches += 1;
+    }
+  }
+  const paired = Math.min(a.length, b.length);
+  const unmatched = Math.max(a.length, b.length) - paired;
+  return { score: (total / paired) * Math.pow(UNMATCHED_TOKEN_FACTOR, unmatched), fullMatches, initialMatches };
+};
+
+/**
+ * Returns a similarity score between 0 (unrelated) and 1 (same name) for two person names.
+ * Names written with or without spaces ("Mary Ann" / "Maryann") are compared as a whole as well.
+ * Unless one full token and a second token (full or initial) correspond, or the names are (nearly)
+ * the same as a whole, the score stays below NAME_MISMATCH_THRESHOLD.
+ */
+export function scoreNameMatch(candidate: string, expected: string): number {
+  const a = normalizeNameTokens(candidate);
+  const b = normalizeNameTokens(expected);
+  if (a.length === 0 || b.length === 0) return 0;
+  const pairing = orderIndependentScore(a, b);
+  const joined = stringSimilarity(a.join(''), b.join(''));
+  const corroborated = joined >= WHOLE_NAME_MATCH_SCORE || (pairing.fullMatches >= 1 && pairing.fullMatches + pairing.initialMatches >= 2);
+  const score = Math.max(pairing.score, joined);
+  return Math.round((corroborated ? score : Math.min(score, WEAK_MATCH_MAX_SCORE)) * 100) / 100;
+}
+
+export const isNameMismatch = (score: number): boolean => score < NAME_MISMATCH_THRESHOLD;
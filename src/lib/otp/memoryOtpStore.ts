@@ -0,0 +1,43 @@
+// In-memory OtpStore for tests and local development. Codes are lost on restart and not shared between instances.
+import type { OtpChallenge, OtpStore } from '@/lib/otp/types';
+
+const MAX_SENDS_KEPT = 50;
+
+export function createMemoryOtpStore(): OtpStore {
+  const challenges = new Map<string, OtpChallenge>();
+  const sends = new Map<string, Date[]>();
+
+  return {
+    async findChallenge(email) {
+      const challenge = challenges.get(email);
+      return challenge ? { ...challenge } : null;
+    },
+    async saveChallenge(challenge) {
+      challenges.set(challenge.email, { ...challenge });
+    },
+    async incrementAttempts(email) {
+      const challenge = challenges.get(email);
+      if (!challenge) return 0;
+      challenge.attempts += 1;
+      return challenge.attempts;
+    },
+    async lockChallenge(email, until) {
+      const challenge = challenges.get(email);
+      if (challenge) challenge.lockedUntil = until;
+    },
+    async deleteChallenge(email) {
+      challenges.delete(email);
+    },
+    async reserveSend(key, at, { windowStart, maxSends, cooldownStart }) {
+      const recent = (sends.get(key) || []).filter(sentAt => sentAt >= windowStart);
+      if (recent.length >= maxSends || (cooldownStart && recent.some(sentAt => sentAt > cooldownStart))) {
+        return { ok: false, sends: recent };
+      }
+      sends.set(key, [...recent, at].slice(-MAX_SENDS_KEPT));
+      return { ok: true };
+    },
+    async releaseSend(key, at) {
+      sends.set(key, (sends.get(key) || []).filter(sentAt => sentAt.getTime() !== at.getTime()));
+    },
+  };
+}
@@ -0,0 +1,97 @@
+// NO 'use client'; directive - MongoDB-backed OtpStore shared by every server instance.
+import { MongoServerError, type Db } from 'mongodb';
+import type { OtpChallenge, OtpStore } from '@/lib/otp/types';
+
+export const OTP_CHALLENGES_COLLECTION = 'otpChallenges';
+export const OTP_SEND_LOG_COLLECTION = 'otpSendLog';
+
+const MAX_SENDS_KEPT = 50;
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Keyed by email (challenges) and throttle key (send log), so every operation is a single-document update.
+// `purgeAt` drives the TTL indexes: a challenge is kept until it expires or its lock ends, whichever is later,
+// and a send log until its newest send leaves the throttle window.
+type OtpChallengeDocument = Omit<OtpChallenge, 'email'> & { _id: string; purgeAt: Date };
+interface OtpSendLogDocument {
+  _id: string;
+  sentAt: Date[];
+  purgeAt: Date;
+}
+
+const sendsSince = (since: Date) => ({ $filter: { input: { $ifNull: ['$sentAt', []] }, cond: { $gte: ['$$this', since] } } });
+
+export function createMongoOtpStore(getDb: () => Promise<Db>): OtpStore {
+  let indexesReady: Promise<void> | null = null;
+
+  // Creates the TTL indexes once per process; a failure is retried on the next call.
+  const ensureIndexes = (db: Db): Promise<void> => {
+    indexesReady ??= Promise.all([
+      db.collection(OTP_CHALLENGES_COLLECTION).createIndex({ purgeAt: 1 }, { expireAfterSeconds: 0 }),
+      db.collection(OTP_SEND_LOG_COLLECTION).createIndex({ purgeAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).then(() => undefined).catch((error: any) => {
+      indexesReady = null;
+      console.warn('mongoOtpStore: Could not create TTL indexes:', error.message);
+    });
+    return indexesReady;
+  };
+
+  const database = async () => {
+    const db = await getDb();
+    await ensureIndexes(db);
+    return db;
+  };
+  const challenges = async () => (await database()).collection<OtpChallengeDocument>(OTP_CHALLENGES_COLLECTION);
+  const sendLog = async () => (await database()).collection<OtpSendLogDocument>(OTP_SEND_LOG_COLLECTION);
+
+  return {
+    async findChallenge(email) {
+      const doc = await (await challenges()).findOne({ _id: email });
+      if (!doc) return null;
+      const { _id, purgeAt, ...rest } = doc;
+      return { email: _id, ...rest };
+    },
+    async saveChallenge({ email, ...rest }) {
+      await (await challenges()).replaceOne({ _id: email }, { ...rest, purgeAt: rest.lockedUntil && rest.lockedUntil > rest.expiresAt ? rest.lockedUntil : rest.expiresAt }, { upsert: true });
+    },
+    async incrementAttempts(email) {
+      const updated = await (await challenges()).findOneAndUpdate({ _id: email }, { $inc: { attempts: 1 } }, { returnDocument: 'after' });
+      return updated?.attempts ?? 0;
+    },
+    async lockChallenge(email, until) {
+      await (await challenges()).updateOne({ _id: email }, { $set: { lockedUntil: until }, $max: { purgeAt: until } });
+    },
+    async deleteChallenge(email) {
+      await (await challenges()).deleteOne({ _id: email });
+    },
+    async reserveSend(key, at, { windowStart, maxSends, cooldownStart, keepUntil }) {
+      const collection = await sendLog();
+      // Matches only while the key is within its limits; the send is pushed by the same update.
+      const withinLimits = {
+        _id: key,
+        $expr: {
+          $and: [
+            { $lt: [{ $size: sendsSince(windowStart) }, maxSends] },
+            ...(cooldownStart ? [{ $eq: [{ $size: { $filter: { input: { $ifNull: ['$sentAt', []] }, cond: { $gt: ['$$this', cooldownStart] } } } }, 0] }] : []),
+          ],
+        },
+      };
+      const update = { $push: { sentAt: { $each: [at], $slice: -MAX_SENDS_KEPT } }, $max: { purgeAt: keepUntil } };
+
+      // A key without a log is inserted by the upsert. When the log exists but is over its limits the
+      // upsert collides with it instead; one retry covers two first sends racing to create the log.
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          await collection.findOneAndUpdate(withinLimits, update, { upsert: true });
+          return { ok: true };
+        } catch (error) {
+          if (!(error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR)) throw error;
+        }
+      }
+      const doc = await collection.findOne({ _id: key });
+      return { ok: false, sends: (doc?.sentAt || []).filter(sentAt => sentAt >= windowStart) };
+    },
+    async releaseSend(key, at) {
+      await (await sendLog()).updateOne({ _id: key }, { $pull: { sentAt: at } });
+    },
+  };
+}
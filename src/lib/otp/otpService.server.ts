@@ -0,0 +1,174 @@
+// NO 'use client'; directive - issues and verifies email OTPs with hashing, expiry, attempt limits and send throttling.
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { connectToDb } from '@/lib/mongodb';
+import { createMemoryOtpStore } from '@/lib/otp/memoryOtpStore';
+import { createMongoOtpStore } from '@/lib/otp/mongoOtpStore.server';
+import type { OtpErrorKey, OtpStore } from '@/lib/otp/types';
+
+export interface OtpConfig {
+  codeTtlSeconds: number;
+  maxVerifyAttempts: number; // Wrong codes allowed before the email is locked
+  lockoutSeconds: number;
+  resendCooldownSeconds: number; // Minimum time between two codes for the same email
+  maxSendsPerEmail: number; // Codes per email within `sendWindowSeconds`
+  maxSendsPerIp: number; // Codes per client IP within `sendWindowSeconds`
+  sendWindowSeconds: number;
+}
+
+export const DEFAULT_OTP_CONFIG: OtpConfig = {
+  codeTtlSeconds: 5 * 60,
+  maxVerifyAttempts: 5,
+  lockoutSeconds: 15 * 60,
+  resendCooldownSeconds: 60,
+  maxSendsPerEmail: 5,
+  maxSendsPerIp: 20,
+  sendWindowSeconds: 60 * 60,
+};
+
+export interface OtpFailure {
+  ok: false;
+  errorKey: OtpErrorKey;
+  message: string;
+  retryAfterSeconds?: number;
+  attemptsRemaining?: number;
+}
+
+export type OtpIssueResult =
+  | { ok: true; code: string; expiresAt: Date; resendAfterSeconds: number; sentAt: Date } // `sentAt` identifies the send reservations
+  | OtpFailure;
+
+export type OtpVerifyResult = { ok: true } | OtpFailure;
+
+export interface OtpService {
+  // Creates a new code for the email (replacing any earlier one) unless a lock or send limit applies.
+  issueOtp(email: string, options?: { ip?: string | null }): Promise<OtpIssueResult>;
+  // Checks a code without using it up, so a registration that fails afterwards can be retried.
+  verifyOtp(email: string, code: string): Promise<OtpVerifyResult>;
+  // Removes the email's code once it has served its purpose.
+  clearOtp(email: string): Promise<void>;
+  // Gives back the email and IP send reservations of an issued code that was never delivered.
+  releaseSends(email: string, options: { ip?: string | null; sentAt: Date }): Promise<void>;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const hashCode = (code: string, salt: string) => createHash('sha256').update(`${salt}:${code}`).digest('hex');
+
+const secondsUntil = (until: number, now: number) => Math.max(1, Math.ceil((until - now) / 1000));
+
+const describeWait = (seconds: number) =>
+  seconds < 60 ? `${seconds} second${seconds === 1 ? '' : 's'}` : `${Math.ceil(seconds / 60)} minute${Math.ceil(seconds / 60) === 1 ? '' : 's'}`;
+
+const failure = (errorKey: OtpErrorKey, message: string, extra: Pick<OtpFailure, 'retryAfterSeconds' | 'attemptsRemaining'> = {}): OtpFailure =>
+  ({ ok: false, errorKey, message, ...extra });
+
+export function createOtpService({
+  store,
+  config = DEFAULT_OTP_CONFIG,
+  now = () => new Date(),
+}: { store: OtpStore; config?: OtpConfig; now?: () => Date }): OtpService {
+  const lockedFailure = (lockedUntil: Date, current: number) => {
+    const retryAfterSeconds = secondsUntil(lockedUntil.getTime(), current);
+    return failure('OTP_LOCKED', `Too many incorrect codes. Please try again in ${describeWait(retryAfterSeconds)}.`, { retryAfterSeconds });
+  };
+
+  return {
+    async issueOtp(rawEmail, { ip } = {}) {
+      const email = normalizeEmail(rawEmail);
+      const current = now().getTime();
+      const windowStart = new Date(current - config.sendWindowSeconds * 1000);
+
+      const existing = await store.findChallenge(email);
+      if (existing?.lockedUntil && existing.lockedUntil.getTime() > current) {
+        return lockedFailure(existing.lockedUntil, current);
+      }
+
+      // Reserving the sends first (check and record in one step) keeps concurrent requests within the limits.
+      const sentAt = new Date(current);
+      const keepUntil = new Date(current + config.sendWindowSeconds * 1000);
+      const emailReservation = await store.reserveSend(`email:${email}`, sentAt, {
+        windowStart,
+        maxSends: config.maxSendsPerEmail,
+        cooldownStart: new Date(current - config.resendCooldownSeconds * 1000),
+        keepUntil,
+      });
+      if (!emailReservation.ok) {
+        const emailSends = emailReservation.sends;
+        const lastSend = emailSends[emailSends.length - 1];
+        if (lastSend && current - lastSend.getTime() < config.resendCooldownSeconds * 1000) {
+          const retryAfterSeconds = secondsUntil(lastSend.getTime() + config.resendCooldownSeconds * 1000, current);
+          return failure('OTP_RESEND_COOLDOWN', `Please wait ${describeWait(retryAfterSeconds)} before requesting another code.`, { retryAfterSeconds });
+        }
+        const retryAfterSeconds = secondsUntil(emailSends[Math.max(0, emailSends.length - config.maxSendsPerEmail)].getTime() + config.sendWindowSeconds * 1000, current);
+        return failure('OTP_EMAIL_SEND_LIMIT', `Too many codes were sent to this email. Please try again in ${describeWait(retryAfterSeconds)}.`, { retryAfterSeconds });
+      }
+      if (ip) {
+        const ipReservation = await store.reserveSend(`ip:${ip}`, sentAt, { windowStart, maxSends: config.maxSendsPerIp, cooldownStart: null, keepUntil });
+        if (!ipReservation.ok) {
+          await store.releaseSend(`email:${email}`, sentAt);
+          const ipSends = ipReservation.sends;
+          const retryAfterSeconds = secondsUntil(ipSends[Math.max(0, ipSends.length - config.maxSendsPerIp)].getTime() + config.sendWindowSeconds * 1000, current);
+          return failure('OTP_IP_SEND_LIMIT', `Too many codes were requested from your network. Please try again in ${describeWait(retryAfterSeconds)}.`, { retryAfterSeconds });
+        }
+      }
+
+      const code = randomInt(0, 1000000).toString().padStart(6, '0');
+      const salt = randomBytes(16).toString('hex');
+      const expiresAt = new Date(current + config.codeTtlSeconds * 1000);
+      await store.saveChallenge({ email, codeHash: hashCode(code, salt), salt, expiresAt, attempts: 0, lockedUntil: null, createdAt: new Date(current) });
+      return { ok: true, code, expiresAt, resendAfterSeconds: config.resendCooldownSeconds, sentAt };
+    },
+
+    async verifyOtp(rawEmail, code) {
+      const email = normalizeEmail(rawEmail);
+      const current = now().getTime();
+      const challenge = await store.findChallenge(email);
+      if (!challenge) {
+        return failure('OTP_NOT_FOUND', 'OTP not found. It might have expired or was never generated. Please request a new OTP.');
+      }
+      if (challenge.lockedUntil && challenge.lockedUntil.getTime() > current) {
+        return lockedFailure(challenge.lockedUntil, current);
+      }
+      if (challenge.expiresAt.getTime() <= current) {
+        await store.deleteChallenge(email);
+        return failure('OTP_EXPIRED', 'OTP has expired. Please request a new OTP.');
+      }
+
+      const expected = Buffer.from(challenge.codeHash, 'hex');
+      const provided = Buffer.from(hashCode(code.trim(), challenge.salt), 'hex');
+      if (timingSafeEqual(expected, provided)) return { ok: true };
+
+      const attempts = await store.incrementAttempts(email);
+      if (attempts >= config.maxVerifyAttempts) {
+        const lockedUntil = new Date(current + config.lockoutSeconds * 1000);
+        await store.lockChallenge(email, lockedUntil);
+        console.warn(`otpService: ${email} locked until ${lockedUntil.toISOString()} after ${attempts} incorrect codes.`);
+        return lockedFailure(lockedUntil, current);
+      }
+      const attemptsRemaining = config.maxVerifyAttempts - attempts;
+      return failure('OTP_INVALID', `Invalid OTP. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} left.`, { attemptsRemaining });
+    },
+
+    async clearOtp(rawEmail) {
+      await store.deleteChallenge(normalizeEmail(rawEmail));
+    },
+
+    async releaseSends(rawEmail, { ip, sentAt }) {
+      await store.releaseSend(`email:${normalizeEmail(rawEmail)}`, sentAt);
+      if (ip) await store.releaseSend(`ip:${ip}`, sentAt);
+    },
+  };
+}
+
+let defaultService: OtpService | null = null;
+
+// The app-wide service: MongoDB-backed, or in-memory when OTP_STORE=memory (single-instance development only).
+export function getOtpService(): OtpService {
+  if (!defaultService) {
+    const store = process.env.OTP_STORE === 'memory'
+      ? createMemoryOtpStore()
+      : createMongoOtpStore(async () => (await connectToDb()).db);
+    defaultService = createOtpService({ store });
+  }
+  return defaultService;
+}
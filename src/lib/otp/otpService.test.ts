@@ -0,0 +1,51 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryOtpStore } from '@/lib/otp/memoryOtpStore';
+import { createOtpService, DEFAULT_OTP_CONFIG } from '@/lib/otp/otpService.server';
+
+const fixedClock = (start = Date.UTC(2024, 0, 1)) => {
+  let current = start;
+  return { now: () => new Date(current), advance: (seconds: number) => { current += seconds * 1000; } };
+};
+
+describe('otpService send limits', () => {
+  test('concurrent requests for one email send a single code', async () => {
+    const clock = fixedClock();
+    const otp = createOtpService({ store: createMemoryOtpStore(), now: clock.now });
+    const results = await Promise.all(Array.from({ length: 5 }, () => otp.issueOtp('asha@example.com')));
+    assert.equal(results.filter(r => r.ok).length, 1);
+    assert.ok(results.filter(r => !r.ok).every(r => !r.ok && r.errorKey === 'OTP_RESEND_COOLDOWN'));
+  });
+
+  test('stops at the per-email limit within the window', async () => {
+    const clock = fixedClock();
+    const otp = createOtpService({ store: createMemoryOtpStore(), now: clock.now });
+    for (let i = 0; i < DEFAULT_OTP_CONFIG.maxSendsPerEmail; i++) {
+      assert.equal((await otp.issueOtp('Asha@Example.com')).ok, true);
+      clock.advance(DEFAULT_OTP_CONFIG.resendCooldownSeconds);
+    }
+    const blocked = await otp.issueOtp('asha@example.com');
+    assert.equal(blocked.ok, false);
+    assert.equal(!blocked.ok && blocked.errorKey, 'OTP_EMAIL_SEND_LIMIT');
+  });
+
+  test('an IP over its limit does not use up the email allowance', async () => {
+    const clock = fixedClock();
+    const otp = createOtpService({ store: createMemoryOtpStore(), config: { ...DEFAULT_OTP_CONFIG, maxSendsPerIp: 1 }, now: clock.now });
+    assert.equal((await otp.issueOtp('first@example.com', { ip: '203.0.113.7' })).ok, true);
+    const blocked = await otp.issueOtp('second@example.com', { ip: '203.0.113.7' });
+    assert.equal(!blocked.ok && blocked.errorKey, 'OTP_IP_SEND_LIMIT');
+    // The released email reservation means no cooldown applies to second@ from another network.
+    assert.equal((await otp.issueOtp('second@example.com', { ip: '198.51.100.2' })).ok, true);
+  });
+
+  test('released sends of an undelivered code do not count against either limit', async () => {
+    const clock = fixedClock();
+    const otp = createOtpService({ store: createMemoryOtpStore(), config: { ...DEFAULT_OTP_CONFIG, maxSendsPerEmail: 1, maxSendsPerIp: 1 }, now: clock.now });
+    const undelivered = await otp.issueOtp('asha@example.com', { ip: '203.0.113.7' });
+    assert.ok(undelivered.ok);
+    await otp.releaseSends('Asha@Example.com', { ip: '203.0.113.7', sentAt: undelivered.sentAt });
+    // No cooldown, email limit or IP limit left behind by the failed send.
+    assert.equal((await otp.issueOtp('asha@example.com', { ip: '203.0.113.7' })).ok, true);
+  });
+});
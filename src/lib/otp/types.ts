@@ -0,0 +1,46 @@
+// Storage-independent OTP types. Kept free of Node-only imports so the register page can use the error keys.
+
+// Errors the register page can act on: wait `retryAfterSeconds` before trying again.
+export const OTP_ERROR_KEYS = [
+  'OTP_RESEND_COOLDOWN', // A code was sent moments ago
+  'OTP_EMAIL_SEND_LIMIT', // Too many codes sent to this email recently
+  'OTP_IP_SEND_LIMIT', // Too many codes requested from this network recently
+  'OTP_LOCKED', // Too many wrong codes; verification and new codes are blocked for a while
+  'OTP_NOT_FOUND',
+  'OTP_EXPIRED',
+  'OTP_INVALID',
+] as const;
+export type OtpErrorKey = typeof OTP_ERROR_KEYS[number];
+
+// One pending code per email. Only a salted hash of the code is stored.
+export interface OtpChallenge {
+  email: string;
+  codeHash: string;
+  salt: string;
+  expiresAt: Date;
+  attempts: number; // Wrong codes entered so far
+  lockedUntil: Date | null;
+  createdAt: Date;
+}
+
+// Limits a send must stay within, checked against the key's earlier sends.
+export interface OtpSendLimits {
+  windowStart: Date; // Sends before this no longer count
+  maxSends: number; // Sends allowed since `windowStart`
+  cooldownStart: Date | null; // No send may have happened after this; null for no cooldown
+  keepUntil: Date; // When the store may forget this send
+}
+
+export type OtpSendReservation = { ok: true } | { ok: false; sends: Date[] }; // `sends`: the key's sends since windowStart, oldest first
+
+export interface OtpStore {
+  findChallenge(email: string): Promise<OtpChallenge | null>;
+  saveChallenge(challenge: OtpChallenge): Promise<void>; // Replaces any earlier challenge for the email
+  incrementAttempts(email: string): Promise<number>; // Atomically counts a wrong code; returns the new total
+  lockChallenge(email: string, until: Date): Promise<void>;
+  deleteChallenge(email: string): Promise<void>;
+  // Send history per throttle key (e.g. "email:a@b.c", "ip:1.2.3.4"). Checking the limits and recording the
+  // send is one atomic step, so concurrent requests cannot all pass the same check.
+  reserveSend(key: string, at: Date, limits: OtpSendLimits): Promise<OtpSendReservation>;
+  releaseSend(key: string, at: Date): Promise<void>; // Gives back a reservation that was not used
+}
@@ -0,0 +1,22 @@
+// NO 'use client'; directive - reads the caller's IP inside server actions and route handlers.
+import { headers } from 'next/headers';
+
+// Proxies in front of Next.js that append to X-Forwarded-For (App Hosting's load balancer adds the client
+// and its own address, so it needs 2). Entries left of those were sent by the client and can be forged.
+const TRUSTED_PROXY_HOPS = Math.max(1, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS)) || 1);
+
+// The X-Forwarded-For entry written by the outermost trusted proxy, counted from the right.
+export const clientIpFromForwardedFor = (forwardedFor: string | null | undefined, trustedHops: number = TRUSTED_PROXY_HOPS): string | null => {
+  const hops = (forwardedFor || '').split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops.length > 0 ? hops[Math.max(0, hops.length - trustedHops)] : null;
+};
+
+// Null outside a request or when no proxy reported an address.
+export async function getClientIp_SERVER(): Promise<string | null> {
+  try {
+    const requestHeaders = await headers();
+    return clientIpFromForwardedFor(requestHeaders.get('x-forwarded-for'));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,19 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { clientIpFromForwardedFor } from '@/lib/requestIp.server';
+
+describe('clientIpFromForwardedFor', () => {
+  test('ignores entries the client prepended', () => {
+    assert.equal(clientIpFromForwardedFor('1.1.1.1, 2.2.2.2, 203.0.113.7', 1), '203.0.113.7');
+    assert.equal(clientIpFromForwardedFor('1.1.1.1, 203.0.113.7, 10.0.0.1', 2), '203.0.113.7');
+  });
+
+  test('uses the only entry when there are fewer than the trusted hops', () => {
+    assert.equal(clientIpFromForwardedFor('203.0.113.7', 2), '203.0.113.7');
+  });
+
+  test('returns null without the header', () => {
+    assert.equal(clientIpFromForwardedFor(null, 1), null);
+    assert.equal(clientIpFromForwardedFor(' , ', 1), null);
+  });
+});
@@ -0,0 +1,113 @@
+// NO 'use client'; directive - scheduled expiry handling: marks expired certificates and sends reminders.
+import type { Db } from 'mongodb';
+import { notifyUser_SERVER } from '@/lib/services/notificationService.server';
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import { CERTIFICATES_COLLECTION, type CertificateDocument } from '@/lib/services/certificateService.server';
+import type { UserProfile } from '@/lib/models/user';
+
+// Students are reminded this many days before a certificate expires; the linked admin gets a copy of each.
+export const EXPIRY_REMINDER_DAYS = [60, 30, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpiryJobSummary {
+  markedExpired: number;
+  remindersSent: number; // In-app and/or email, as each user's notification preferences allow
+  adminNoticesSent: number;
+}
+
+const logPrefix = (reqId: string) => `certificateExpiry (Req ID: ${reqId})`;
+
+const describeCertificate = (certificate: CertificateDocument): string =>
+  [certificate.courseTitle || 'Untitled certificate', certificate.issuer].filter(Boolean).join(' from ');
+
+/**
+ * Daily expiry run. Certificates past their expiry date become 'expired'; certificates reaching a
+ * reminder threshold trigger one email to the student and one to their linked admin. A certificate
+ * that crosses several thresholds between runs (e.g. expiry entered 5 days ahead) gets a single
+ * reminder for the nearest one. Handled thresholds are recorded, so re-running the job is safe; the
+ * email outbox takes care of delivery and retries.
+ */
+export async function runCertificateExpiryJob_SERVER(db: Db, { reqId, now = new Date() }: { reqId: string; now?: Date }): Promise<ExpiryJobSummary> {
+  const certificates = db.collection<CertificateDocument>(CERTIFICATES_COLLECTION);
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const summary: ExpiryJobSummary = { markedExpired: 0, remindersSent: 0, adminNoticesSent: 0 };
+
+  const expiredResult = await certificates.updateMany(
+    { status: { $in: ['active', 'draft'] }, expiryDate: { $lt: today } },
+    { $set: { status: 'expired', updatedAt: now } }
+  );
+  summary.markedExpired = expiredResult.modifiedCount;
+
+  const horizon = new Date(today.getTime() + Math.max(...EXPIRY_REMINDER_DAYS) * DAY_MS);
+  const upcoming = await certificates.find({
+    status: { $in: ['active', 'draft'] },
+    expiryDate: { $gte: today, $lte: horizon },
+  }).toArray();
+
+  // Profiles are looked up once per run, since one student or admin often has several certificates.
+  const profiles = new Map<string, Promise<UserProfile | null>>();
+  const loadProfile = (uid: string) => {
+    if (!profiles.has(uid)) profiles.set(uid, getUserProfile_SERVER(uid).catch(() => null));
+    return profiles.get(uid)!;
+  };
+
+  for (const certificate of upcoming) {
+    const daysLeft = Math.round((certificate.expiryDate!.getTime() - today.getTime()) / DAY_MS);
+    const alreadySent = certificate.expiryRemindersSent || [];
+    const due = EXPIRY_REMINDER_DAYS.filter(days => daysLeft <= days && !alreadySent.includes(days));
+    if (due.length === 0) continue;
+
+    const student = await loadProfile(certificate.userId);
+    if (!student?.email) {
+      console.warn(`${logPrefix(reqId)}: Certificate ${certificate._id} expires in ${daysLeft} day(s) but owner ${certificate.userId} has no email. Skipping.`);
+      continue;
+    }
+    const expiryDate = certificate.expiryDate!.toISOString().slice(0, 10);
+    const studentName = student.displayName || student.email.split('@')[0];
+    const certificateName = describeCertificate(certificate);
+    const linkedAdminUid = student.linkRequestStatus === 'accepted' ? student.associatedAdminFirebaseId : null;
+    const when = daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'} (${expiryDate})`;
+    await notifyUser_SERVER(db, {
+      recipientUid: certificate.userId,
+      recipientProfile: student,
+      type: 'certificateExpiry',
+      title: 'Certificate expiring soon',
+      body: `${certificateName} expires ${when}.`,
+      link: '/',
+      email: {
+        template: 'certificateExpiryReminder',
+        params: { studentName, courseTitle: certificate.courseTitle || 'Untitled certificate', certificateName, daysLeft, expiryDate },
+        visibleToUids: [certificate.userId, linkedAdminUid],
+      },
+      reqId,
+    });
+    summary.remindersSent += 1;
+
+    if (linkedAdminUid) {
+      const admin = await loadProfile(linkedAdminUid);
+      if (admin) {
+        await notifyUser_SERVER(db, {
+          recipientUid: linkedAdminUid,
+          recipientProfile: admin,
+          type: 'certificateExpiry',
+          title: `${studentName}'s certificate expires soon`,
+          body: `${certificateName} expires on ${expiryDate} (${daysLeft} day${daysLeft === 1 ? '' : 's'} left).`,
+          link: `/admin/student-certificates/${certificate.userId}`,
+          email: {
+            template: 'certificateExpiryAdminNotice',
+            params: { adminName: admin.displayName || 'Admin', studentName, certificateName, daysLeft, expiryDate },
+          },
+          reqId,
+        });
+        summary.adminNoticesSent += 1;
+      }
+    }
+
+    await certificates.updateOne({ _id: certificate._id }, { $addToSet: { expiryRemindersSent: { $each: due } } });
+    console.log(`${logPrefix(reqId)}: Reminded ${certificate.userId} about certificate ${certificate._id} (${daysLeft} day(s) left; thresholds ${due.join(', ')}).`);
+  }
+
+  console.log(`${logPrefix(reqId)}: Expiry job done.`, summary);
+  return summary;
+}
@@ -0,0 +1,170 @@
+// NO 'use client'; directive - runs the Genkit extraction flow and writes certificate records.
+import { ObjectId, type Db, type GridFSBucket } from 'mongodb';
+import { extractCertificateFields } from '@/ai/flows/extract-certificate-fields';
+import { EXTRACTED_CERTIFICATE_FIELDS, type ExtractedCertificateField } from '@/ai/schemas/certificate-extraction-schemas';
+import {
+  CERTIFICATES_COLLECTION,
+  checkRecipientName_SERVER,
+  upsertDraftCertificate_SERVER,
+  validateCertificateInput,
+  type CertificateDocument,
+  type CertificateExtractionRecord,
+} from '@/lib/services/certificateService.server';
+import { affectsVerification, scheduleCredentialVerification_SERVER } from '@/lib/services/credentialVerification.server';
+import { readGridFsFile } from '@/lib/uploads/gridFsFiles.server';
+import { LOW_CONFIDENCE_THRESHOLD } from '@/lib/models/certificate';
+import type { DecodedCode } from '@/lib/models/userImage';
+import { findCredentialVerifier } from '@/lib/verification/registry';
+import { notifyUser_SERVER } from '@/lib/services/notificationService.server';
+
+// Set to "false" to skip automatic extraction after uploads (certificates are still created as drafts).
+const EXTRACTION_ON_UPLOAD = process.env.CERTIFICATE_EXTRACTION_ON_UPLOAD !== 'false';
+// Extracted values below this confidence are recorded but not copied onto the certificate.
+const MIN_CONFIDENCE = Number(process.env.CERTIFICATE_EXTRACTION_MIN_CONFIDENCE) || LOW_CONFIDENCE_THRESHOLD;
+
+const logPrefix = (reqId: string) => `certificateExtraction (Req ID: ${reqId})`;
+
+interface UploadedCertificateInput {
+  db: Db;
+  bucket: GridFSBucket;
+  userId: string;
+  uploadedBy: string;
+  reqId: string;
+  fileIds: string[]; // Every file of the upload: the image, or the original PDF followed by its pages
+  analyzeFileId: string; // The image the model reads: the image itself, or page 1 of a PDF
+}
+
+/**
+ * Creates the draft certificate for a finished upload and, unless disabled, starts field extraction in the
+ * background so the upload response is not held up by the model. The owner gets an in-app notification
+ * with the outcome; extraction failures are otherwise only logged.
+ * A verification link found in a QR code on the files becomes the certificate's verification URL.
+ */
+export async function recordUploadedCertificate_SERVER(input: UploadedCertificateInput): Promise<string> {
+  const { certificate } = await upsertDraftCertificate_SERVER(input.db, input.userId, {
+    primaryFileId: input.fileIds[0],
+    fileIds: input.fileIds,
+    createdBy: input.uploadedBy,
+  });
+  const certificateId = certificate._id.toString();
+  console.log(`${logPrefix(input.reqId)}: Draft certificate ${certificateId} holds ${input.fileIds.length} uploaded file(s).`);
+  await applyDecodedVerificationUrl(input.db, certificate, input.fileIds, input.reqId);
+
+  if (EXTRACTION_ON_UPLOAD) {
+    runCertificateExtraction_SERVER(input.db, input.bucket, certificate._id, input.analyzeFileId, input.reqId)
+      .then(record => notifyExtractionOutcome(input, record))
+      .catch(async (error: any) => {
+        console.error(`${logPrefix(input.reqId)}: Extraction for certificate ${certificateId} failed:`, error.message);
+        await notifyExtractionOutcome(input, null);
+      })
+      .catch((error: any) => {
+        console.error(`${logPrefix(input.reqId)}: Could not notify ${input.userId} about certificate ${certificateId}:`, error.message);
+      });
+  }
+  return certificateId;
+}
+
+const notifyExtractionOutcome = (input: UploadedCertificateInput, record: CertificateExtractionRecord | null) => {
+  const courseTitle = record?.values.courseTitle;
+  return notifyUser_SERVER(input.db, {
+    recipientUid: input.userId,
+    type: 'certificateProcessed',
+    title: record ? 'Certificate details ready' : 'Certificate details could not be read',
+    body: !record
+      ? 'Reading the details of your uploaded certificate failed. You can fill them in yourself.'
+      : record.appliedFields.length > 0
+        ? `${record.appliedFields.length} detail${record.appliedFields.length === 1 ? '' : 's'} of ${courseTitle ? `"${courseTitle}"` : 'your uploaded certificate'} were filled in. Please review them.`
+        : 'Your uploaded certificate was read, but no details could be filled in confidently. You can add them yourself.',
+    link: '/',
+    reqId: input.reqId,
+  });
+};
+
+// Prefers a link some issuer adapter can check (e.g. a Coursera /verify/ URL) over any other link.
+const applyDecodedVerificationUrl = async (db: Db, certificate: CertificateDocument, fileIds: string[], reqId: string): Promise<void> => {
+  if (certificate.verificationUrl) return;
+  const files = await db.collection('images.files')
+    .find({ _id: { $in: fileIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) } }, { projection: { 'metadata.decodedCodes': 1 } })
+    .toArray();
+  const urls = files.flatMap(f => ((f.metadata?.decodedCodes || []) as DecodedCode[]).map(c => c.url).filter((url): url is string => !!url));
+  if (urls.length === 0) return;
+  const verificationUrl = urls.find(url =>
+    findCredentialVerifier({ issuer: null, courseTitle: null, recipientName: null, credentialId: null, verificationUrl: url })
+  ) || urls[0];
+
+  const updated = await db.collection<CertificateDocument>(CERTIFICATES_COLLECTION).findOneAndUpdate(
+    { _id: certificate._id, verificationUrl: null },
+    { $set: { verificationUrl, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (!updated) return;
+  console.log(`${logPrefix(reqId)}: Certificate ${certificate._id} verification URL taken from a QR code: ${verificationUrl}`);
+  await scheduleCredentialVerification_SERVER(db, updated, reqId);
+};
+
+/**
+ * Reads `fileId` with the extraction flow and fills the certificate's still-empty fields with values the
+ * model is confident about. Fields someone already filled in are never overwritten.
+ */
+export async function runCertificateExtraction_SERVER(db: Db, bucket: GridFSBucket, certificateId: ObjectId, fileId: string, reqId: string): Promise<CertificateExtractionRecord> {
+  const fileObjectId = new ObjectId(fileId);
+  const fileDoc = await db.collection('images.files').findOne({ _id: fileObjectId }, { projection: { contentType: 1 } });
+  if (!fileDoc) throw new Error(`File ${fileId} not found.`);
+  const buffer = await readGridFsFile(bucket, fileObjectId);
+  const photoDataUri = `data:${fileDoc.contentType || 'image/png'};base64,${buffer.toString('base64')}`;
+
+  console.log(`${logPrefix(reqId)}: Extracting fields for certificate ${certificateId} from file ${fileId} (${buffer.length} bytes).`);
+  const extracted = await extractCertificateFields({ photoDataUri });
+
+  const certificates = db.collection<CertificateDocument>(CERTIFICATES_COLLECTION);
+  const certificate = await certificates.findOne({ _id: certificateId });
+  if (!certificate) throw new Error(`Certificate ${certificateId} was deleted during extraction.`);
+
+  const updates: Record<string, unknown> = {};
+  let appliedFields: ExtractedCertificateField[] = [];
+  for (const field of EXTRACTED_CERTIFICATE_FIELDS) {
+    const value = extracted[field];
+    // A human-verified record is left exactly as the reviewer saved it.
+    if (certificate.humanVerified || value === null || certificate[field] !== null || extracted.confidence[field] < MIN_CONFIDENCE) continue;
+    // Same normalization as user edits; a value the model got wrong in form (bad date, bad URL) is skipped.
+    const normalized = validateCertificateInput({ [field]: value }, { partial: true });
+    if (!normalized.ok) {
+      console.warn(`${logPrefix(reqId)}: Discarding extracted ${field} '${value}': ${normalized.message}`);
+      continue;
+    }
+    updates[field] = normalized.value[field];
+    appliedFields.push(field);
+  }
+  const issueDate = (updates.issueDate as Date | undefined) ?? certificate.issueDate;
+  const expiryDate = (updates.expiryDate as Date | undefined) ?? certificate.expiryDate;
+  if (issueDate && expiryDate && expiryDate < issueDate) {
+    delete updates.expiryDate;
+    appliedFields = appliedFields.filter(f => f !== 'expiryDate');
+  }
+
+  const record: CertificateExtractionRecord = {
+    model: extracted.model,
+    extractedAt: new Date(),
+    fileId,
+    values: Object.fromEntries(EXTRACTED_CERTIFICATE_FIELDS.map(f => [f, extracted[f]])),
+    confidence: extracted.confidence,
+    appliedFields,
+  };
+  // The name check follows the name read from the file, including when a recipient name was already entered.
+  if (record.values.recipientName || updates.recipientName) {
+    updates.nameMatch = await checkRecipientName_SERVER(certificate.userId, {
+      recipientName: (updates.recipientName as string | undefined) ?? certificate.recipientName,
+      extraction: record,
+    });
+  }
+  const updated = await certificates.findOneAndUpdate(
+    { _id: certificateId },
+    { $set: { ...updates, extraction: record, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (updated && affectsVerification(appliedFields)) {
+    await scheduleCredentialVerification_SERVER(db, updated, reqId);
+  }
+  console.log(`${logPrefix(reqId)}: Certificate ${certificateId} extraction done with ${record.model}. Applied: ${appliedFields.join(', ') || 'none'}.`);
+  return record;
+}
@@ -0,0 +1,126 @@
+import { afterEach, before, describe, test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { ObjectId, type Db, type GridFSBucket } from 'mongodb';
+import { CERTIFICATE_EXTRACTION_STUB_MODEL, resetCertificateExtractionStubResponse, setCertificateExtractionStubResponse } from '@/ai/models/certificate-extraction-stub';
+import { EMPTY_CERTIFICATE_EXTRACTION, type CertificateExtractionOutput } from '@/ai/schemas/certificate-extraction-schemas';
+import { getAdminFirestore } from '@/lib/firebase/adminConfig';
+import { runCertificateExtraction_SERVER } from '@/lib/services/certificateExtraction.server';
+import { CERTIFICATES_COLLECTION, type CertificateDocument } from '@/lib/services/certificateService.server';
+
+const FILE_ID = new ObjectId().toString();
+
+const draft = (overrides: Partial<CertificateDocument> = {}): CertificateDocument => ({
+  _id: new ObjectId(),
+  userId: 'student-1',
+  fileIds: [FILE_ID],
+  issuer: null,
+  courseTitle: null,
+  recipientName: null,
+  issueDate: null,
+  expiryDate: null,
+  credentialId: null,
+  verificationUrl: null,
+  skills: [],
+  status: 'draft',
+  createdBy: 'student-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+// Holds one certificate and one image file; `$set` updates are applied to `stored`.
+const fakeStorage = (certificate: CertificateDocument) => {
+  const store = { stored: certificate };
+  const db = {
+    collection: (name: string) => name === CERTIFICATES_COLLECTION
+      ? {
+          findOne: async () => store.stored,
+          findOneAndUpdate: async (_filter: unknown, update: { $set: Partial<CertificateDocument> }) => (store.stored = { ...store.stored, ...update.$set }),
+          updateOne: async () => ({ modifiedCount: 1 }),
+        }
+      : { findOne: async () => ({ _id: new ObjectId(FILE_ID), contentType: 'image/png' }) },
+  } as unknown as Db;
+  const bucket = { openDownloadStream: () => Readable.from([Buffer.from('certificate image')]) } as unknown as GridFSBucket;
+  return { db, bucket, store };
+};
+
+const extraction = (values: Partial<Omit<CertificateExtractionOutput, 'confidence'>>, confidence: Partial<CertificateExtractionOutput['confidence']>): CertificateExtractionOutput => ({
+  ...EMPTY_CERTIFICATE_EXTRACTION,
+  ...values,
+  confidence: { ...EMPTY_CERTIFICATE_EXTRACTION.confidence, ...confidence },
+});
+
+const stubProfileName = (t: TestContext, displayName: string) => {
+  const profile = { exists: true, data: () => ({ role: 'student', displayName }) };
+  t.mock.method(getAdminFirestore(), 'collection', () => ({ doc: () => ({ get: async () => profile }) }));
+};
+
+describe('runCertificateExtraction_SERVER with the stub model', () => {
+  before(() => { process.env.CERTIFICATE_EXTRACTION_MODEL = 'stub'; });
+  afterEach(() => resetCertificateExtractionStubResponse());
+
+  test('fills empty fields with confident values and records what the model read', async () => {
+    const { db, bucket, store } = fakeStorage(draft());
+    let sentImage = '';
+    setCertificateExtractionStubResponse(request => {
+      sentImage = JSON.stringify(request.messages);
+      return extraction({ issuer: 'Coursera', courseTitle: 'Machine Learning', issueDate: '2024-03-01' }, { issuer: 0.95, courseTitle: 0.9, issueDate: 0.8 });
+    });
+
+    const record = await runCertificateExtraction_SERVER(db, bucket, store.stored._id, FILE_ID, 'test');
+
+    assert.ok(sentImage.includes(`data:image/png;base64,${Buffer.from('certificate image').toString('base64')}`));
+    assert.equal(record.model, CERTIFICATE_EXTRACTION_STUB_MODEL);
+    assert.deepEqual(record.appliedFields, ['issuer', 'courseTitle', 'issueDate']);
+    assert.equal(store.stored.issuer, 'Coursera');
+    assert.equal(store.stored.courseTitle, 'Machine Learning');
+    assert.equal(store.stored.issueDate?.toISOString().slice(0, 10), '2024-03-01');
+    assert.equal(store.stored.extraction?.values.issuer, 'Coursera');
+  });
+
+  test('never overwrites a field that is already filled in', async () => {
+    const { db, bucket, store } = fakeStorage(draft({ courseTitle: 'Deep Learning Specialization' }));
+    setCertificateExtractionStubResponse(extraction({ issuer: 'Coursera', courseTitle: 'Neural Networks' }, { issuer: 0.95, courseTitle: 0.95 }));
+
+    const record = await runCertificateExtraction_SERVER(db, bucket, store.stored._id, FILE_ID, 'test');
+
+    assert.deepEqual(record.appliedFields, ['issuer']);
+    assert.equal(store.stored.courseTitle, 'Deep Learning Specialization');
+    assert.equal(store.stored.extraction?.values.courseTitle, 'Neural Networks');
+  });
+
+  test('records low-confidence values without applying them', async () => {
+    const { db, bucket, store } = fakeStorage(draft());
+    setCertificateExtractionStubResponse(extraction({ issuer: 'Courserra', courseTitle: 'Machine Learning' }, { issuer: 0.3, courseTitle: 0.9 }));
+
+    const record = await runCertificateExtraction_SERVER(db, bucket, store.stored._id, FILE_ID, 'test');
+
+    assert.deepEqual(record.appliedFields, ['courseTitle']);
+    assert.equal(store.stored.issuer, null);
+    assert.equal(record.values.issuer, 'Courserra');
+    assert.equal(record.confidence.issuer, 0.3);
+  });
+
+  test('leaves a human-verified certificate exactly as reviewed', async () => {
+    const { db, bucket, store } = fakeStorage(draft({ status: 'active', humanVerified: true }));
+    setCertificateExtractionStubResponse(extraction({ issuer: 'Coursera', courseTitle: 'Machine Learning' }, { issuer: 0.99, courseTitle: 0.99 }));
+
+    const record = await runCertificateExtraction_SERVER(db, bucket, store.stored._id, FILE_ID, 'test');
+
+    assert.deepEqual(record.appliedFields, []);
+    assert.equal(store.stored.issuer, null);
+    assert.equal(store.stored.courseTitle, null);
+  });
+
+  test('checks the extracted recipient name against the profile', async (t) => {
+    stubProfileName(t, 'Priya Sharma');
+    const { db, bucket, store } = fakeStorage(draft());
+    setCertificateExtractionStubResponse(extraction({ recipientName: 'Rahul Kumar' }, { recipientName: 0.9 }));
+
+    await runCertificateExtraction_SERVER(db, bucket, store.stored._id, FILE_ID, 'test');
+
+    assert.equal(store.stored.recipientName, 'Rahul Kumar');
+    assert.equal(store.stored.nameMatch?.mismatch, true);
+  });
+});
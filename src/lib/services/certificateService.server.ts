@@ -0,0 +1,496 @@
+// NO 'use client'; directive
+import { ObjectId, type Db } from 'mongodb';
+import type { AuthenticatedCaller } from '@/lib/auth/apiAuth.server';
+import { getUserProfile_SERVER, isLinkedAdminOfStudent_SERVER } from '@/lib/services/userService.server';
+import { isNameMismatch, scoreNameMatch } from '@/lib/nameMatch';
+import { listUserFiles_SERVER } from '@/lib/uploads/userFiles.server';
+import {
+  CERTIFICATE_STATUSES,
+  type Certificate,
+  type CertificateFieldValue,
+  type CertificateInput,
+  type CertificateStatus,
+  type CertificateWithFiles,
+} from '@/lib/models/certificate';
+import type { UserImage } from '@/lib/models/userImage';
+import type { ExtractedCertificateField } from '@/ai/schemas/certificate-extraction-schemas';
+import type { VerificationEvidence, VerificationStatus } from '@/lib/verification/types';
+
+export const CERTIFICATES_COLLECTION = 'certificates';
+
+const MAX_TEXT_FIELD_LENGTH = 300;
+const MAX_SKILLS = 50;
+const MAX_EDIT_HISTORY = 50;
+
+// Stored shape in MongoDB. Dates are real Date objects so expiry queries can use range filters.
+export interface CertificateDocument {
+  _id: ObjectId;
+  userId: string;
+  fileIds: string[];
+  issuer: string | null;
+  courseTitle: string | null;
+  recipientName: string | null;
+  issueDate: Date | null;
+  expiryDate: Date | null;
+  credentialId: string | null;
+  verificationUrl: string | null;
+  skills: string[];
+  status: CertificateStatus;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  extraction?: CertificateExtractionRecord; // Last automatic field extraction, if any
+  // Review state; missing on records created before manual review existed.
+  humanVerified?: boolean;
+  verifiedBy?: string | null;
+  verifiedAt?: Date | null;
+  editHistory?: CertificateEditRecord[];
+  nameMatch?: CertificateNameMatchRecord | null; // Recipient name vs. the owner's profile name; null when either is missing
+  verification?: CertificateVerificationRecord | null; // Online check with the issuer; null when there is nothing to check
+  expiryRemindersSent?: number[]; // Reminder thresholds (days before expiry) already emailed for the current expiry date
+}
+
+export interface CertificateVerificationRecord {
+  runId: string; // Identifies the latest requested check, so an older check finishing late cannot overwrite it
+  status: VerificationStatus | 'pending';
+  verifierId: string | null;
+  evidence: VerificationEvidence | null;
+  requestedAt: Date;
+  checkedAt: Date | null;
+  claimedUntil?: Date | null; // Set while a verification worker is checking this run (see credentialVerification.server.ts)
+}
+
+export interface CertificateNameMatchRecord {
+  score: number; // 0-1, see src/lib/nameMatch.ts
+  mismatch: boolean;
+  checkedName?: string; // The certificate's name that was compared (see recipientNameForCheck); missing on older checks
+  comparedWith: string; // The profile display name at the time of the check
+  checkedAt: Date;
+}
+
+export interface CertificateEditRecord {
+  editedBy: string;
+  editedByRole: CertificateAccessRole;
+  editedAt: Date;
+  changes: { field: string; from: CertificateFieldValue; to: CertificateFieldValue }[];
+  verified: boolean;
+}
+
+// What the extraction flow read from the certificate, and which of those values were copied onto the record.
+export interface CertificateExtractionRecord {
+  model: string;
+  extractedAt: Date;
+  fileId: string;
+  values: Partial<Record<ExtractedCertificateField, string | null>>;
+  confidence: Partial<Record<ExtractedCertificateField, number>>;
+  appliedFields: ExtractedCertificateField[];
+}
+
+type StoredCertificateFields = Omit<CertificateDocument,
+  '_id' | 'userId' | 'createdBy' | 'createdAt' | 'updatedAt' | 'extraction' | 'verifiedBy' | 'verifiedAt' | 'editHistory' | 'nameMatch' | 'verification' | 'expiryRemindersSent'
+>;
+
+export type CertificateInputResult =
+  | { ok: true; value: Partial<StoredCertificateFields> }
+  | { ok: false; errorKey: string; message: string };
+
+export type CertificateAccessRole = 'owner' | 'linkedAdmin';
+
+const toDateOnlyString = (date: Date | null): string | null => (date ? date.toISOString().slice(0, 10) : null);
+
+export const toCertificate = (doc: CertificateDocument): Certificate => ({
+  id: doc._id.toString(),
+  userId: doc.userId,
+  fileIds: doc.fileIds,
+  issuer: doc.issuer,
+  courseTitle: doc.courseTitle,
+  recipientName: doc.recipientName,
+  issueDate: toDateOnlyString(doc.issueDate),
+  expiryDate: toDateOnlyString(doc.expiryDate),
+  credentialId: doc.credentialId,
+  verificationUrl: doc.verificationUrl,
+  skills: doc.skills,
+  status: doc.status,
+  createdBy: doc.createdBy,
+  createdAt: doc.createdAt.toISOString(),
+  updatedAt: doc.updatedAt.toISOString(),
+  extraction: doc.extraction
+    ? {
+        model: doc.extraction.model,
+        extractedAt: doc.extraction.extractedAt.toISOString(),
+        values: doc.extraction.values,
+        confidence: doc.extraction.confidence,
+        appliedFields: doc.extraction.appliedFields,
+      }
+    : null,
+  humanVerified: doc.humanVerified ?? false,
+  verifiedBy: doc.verifiedBy ?? null,
+  verifiedAt: doc.verifiedAt ? doc.verifiedAt.toISOString() : null,
+  editHistory: (doc.editHistory || []).map(edit => ({ ...edit, editedAt: edit.editedAt.toISOString() })),
+  nameMatch: doc.nameMatch
+    ? {
+        score: doc.nameMatch.score,
+        mismatch: doc.nameMatch.mismatch,
+        checkedName: doc.nameMatch.checkedName ?? doc.recipientName ?? '',
+        checkedAt: doc.nameMatch.checkedAt.toISOString(),
+      }
+    : null,
+  verification: doc.verification
+    ? {
+        status: doc.verification.status,
+        verifierId: doc.verification.verifierId,
+        detail: doc.verification.evidence?.detail ?? null,
+        checkedUrl: doc.verification.evidence?.checkedUrl ?? null,
+        matchedFields: doc.verification.evidence?.matchedFields ?? [],
+        checkedAt: doc.verification.checkedAt ? doc.verification.checkedAt.toISOString() : null,
+      }
+    : null,
+});
+
+const certificatesCollection = (db: Db) => db.collection<CertificateDocument>(CERTIFICATES_COLLECTION);
+
+type NameCheckFields = Pick<CertificateDocument, 'recipientName' | 'extraction'>;
+
+/**
+ * The recipient name a certificate is checked by: the one extraction read from the file when there is one,
+ * so that typing the profile name over it cannot clear a mismatch, otherwise the name entered by hand.
+ */
+export const recipientNameForCheck = ({ recipientName, extraction }: NameCheckFields): string | null =>
+  extraction?.values.recipientName || recipientName;
+
+const buildNameMatch = (fields: NameCheckFields, profileName: string | null | undefined): CertificateNameMatchRecord | null => {
+  const checkedName = recipientNameForCheck(fields);
+  if (!checkedName || !profileName) return null;
+  const score = scoreNameMatch(checkedName, profileName);
+  return { score, mismatch: isNameMismatch(score), checkedName, comparedWith: profileName, checkedAt: new Date() };
+};
+
+/**
+ * Compares a certificate's recipient name (see recipientNameForCheck) with the owner's profile name.
+ * A failed profile lookup yields null (no verdict) rather than failing the save that triggered the check.
+ */
+export async function checkRecipientName_SERVER(userId: string, fields: NameCheckFields): Promise<CertificateNameMatchRecord | null> {
+  if (!recipientNameForCheck(fields)) return null;
+  try {
+    const profile = await getUserProfile_SERVER(userId);
+    return buildNameMatch(fields, profile?.displayName);
+  } catch (error: any) {
+    console.warn(`[SERVICE_SERVER/checkRecipientName_SERVER] - Could not load profile of ${userId} for the name check: ${error.message}`);
+    return null;
+  }
+}
+
+// Re-checks certificates whose name check is missing, was made against an older profile name or compared another certificate name.
+const refreshStaleNameMatches = async (db: Db, userId: string, docs: CertificateDocument[]): Promise<void> => {
+  const withRecipient = docs.filter(doc => recipientNameForCheck(doc));
+  if (withRecipient.length === 0) return;
+  let profileName: string | null | undefined;
+  try {
+    profileName = (await getUserProfile_SERVER(userId))?.displayName;
+  } catch (error: any) {
+    console.warn(`[SERVICE_SERVER/refreshStaleNameMatches] - Could not load profile of ${userId}: ${error.message}`);
+    return;
+  }
+  for (const doc of withRecipient) {
+    const checkedName = recipientNameForCheck(doc);
+    if (doc.nameMatch !== undefined && (doc.nameMatch?.comparedWith ?? null) === (profileName || null) && (doc.nameMatch === null || doc.nameMatch.checkedName === checkedName)) continue;
+    doc.nameMatch = buildNameMatch(doc, profileName);
+    await certificatesCollection(db).updateOne({ _id: doc._id }, { $set: { nameMatch: doc.nameMatch } });
+  }
+};
+
+// Owners manage their own certificates; an admin with an accepted link manages their students' certificates.
+export async function resolveCertificateAccess_SERVER(caller: AuthenticatedCaller, ownerUserId: string): Promise<CertificateAccessRole | null> {
+  if (caller.uid === ownerUserId) return 'owner';
+  if (caller.role === 'admin' && await isLinkedAdminOfStudent_SERVER(caller.uid, ownerUserId)) return 'linkedAdmin';
+  return null;
+}
+
+/**
+ * Validates and normalizes a create/update body. With `partial`, only the fields present are returned,
+ * so a PATCH leaves everything else untouched. Empty strings clear a field.
+ */
+export function validateCertificateInput(body: unknown, { partial }: { partial: boolean }): CertificateInputResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errorKey: 'INVALID_BODY', message: 'Request body must be a JSON object.' };
+  }
+  const input = body as Record<string, unknown>;
+  const value: Partial<StoredCertificateFields> = {};
+  const fail = (errorKey: string, message: string): CertificateInputResult => ({ ok: false, errorKey, message });
+
+  for (const field of ['issuer', 'courseTitle', 'recipientName', 'credentialId'] as const) {
+    if (!(field in input)) continue;
+    const raw = input[field];
+    if (raw !== null && typeof raw !== 'string') return fail('INVALID_FIELD', `'${field}' must be a string.`);
+    const trimmed = (raw ?? '').trim();
+    if (trimmed.length > MAX_TEXT_FIELD_LENGTH) return fail('INVALID_FIELD', `'${field}' must be at most ${MAX_TEXT_FIELD_LENGTH} characters.`);
+    value[field] = trimmed || null;
+  }
+
+  for (const field of ['issueDate', 'expiryDate'] as const) {
+    if (!(field in input)) continue;
+    const raw = input[field];
+    if (raw === null || raw === '') {
+      value[field] = null;
+      continue;
+    }
+    const parsed = typeof raw === 'string' ? new Date(raw) : null;
+    if (!parsed || Number.isNaN(parsed.getTime())) return fail('INVALID_DATE', `'${field}' must be a date (YYYY-MM-DD).`);
+    value[field] = parsed;
+  }
+  if (value.issueDate && value.expiryDate && value.expiryDate < value.issueDate) {
+    return fail('INVALID_DATE', 'The expiry date cannot be before the issue date.');
+  }
+
+  if ('verificationUrl' in input) {
+    const raw = input.verificationUrl;
+    if (raw !== null && typeof raw !== 'string') return fail('INVALID_FIELD', `'verificationUrl' must be a string.`);
+    const trimmed = (raw ?? '').trim();
+    if (trimmed) {
+      let url: URL;
+      try {
+        url = new URL(trimmed);
+      } catch {
+        return fail('INVALID_URL', `'verificationUrl' must be a valid URL.`);
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') return fail('INVALID_URL', `'verificationUrl' must be an http(s) URL.`);
+    }
+    value.verificationUrl = trimmed || null;
+  }
+
+  if ('skills' in input) {
+    const raw = input.skills;
+    if (!Array.isArray(raw) || raw.some(s => typeof s !== 'string')) return fail('INVALID_FIELD', `'skills' must be an array of strings.`);
+    const skills = [...new Set((raw as string[]).map(s => s.trim()).filter(Boolean))];
+    if (skills.length > MAX_SKILLS) return fail('INVALID_FIELD', `At most ${MAX_SKILLS} skills can be listed.`);
+    value.skills = skills;
+  }
+
+  if ('status' in input) {
+    if (!CERTIFICATE_STATUSES.includes(input.status as CertificateStatus)) {
+      return fail('INVALID_STATUS', `'status' must be one of: ${CERTIFICATE_STATUSES.join(', ')}.`);
+    }
+    value.status = input.status as CertificateStatus;
+  }
+
+  if ('humanVerified' in input) {
+    if (typeof input.humanVerified !== 'boolean') return fail('INVALID_FIELD', `'humanVerified' must be true or false.`);
+    value.humanVerified = input.humanVerified;
+  }
+
+  if ('fileIds' in input) {
+    const raw = input.fileIds;
+    if (!Array.isArray(raw) || raw.some(id => typeof id !== 'string' || !ObjectId.isValid(id))) {
+      return fail('INVALID_FILE_IDS', `'fileIds' must be an array of file ids.`);
+    }
+    value.fileIds = [...new Set(raw as string[])];
+  }
+
+  if (!partial && !value.courseTitle && (!value.fileIds || value.fileIds.length === 0)) {
+    return fail('MISSING_FIELDS', 'A certificate needs at least a course title or one file.');
+  }
+  return { ok: true, value };
+}
+
+// Every referenced file must belong to the certificate's owner.
+export async function filesBelongToUser_SERVER(db: Db, userId: string, fileIds: string[]): Promise<boolean> {
+  if (fileIds.length === 0) return true;
+  const count = await db.collection('images.files').countDocuments({
+    _id: { $in: fileIds.map(id => new ObjectId(id)) },
+    'metadata.userId': userId,
+  });
+  return count === fileIds.length;
+}
+
+/**
+ * Returns the certificate holding `primaryFileId`, creating a 'draft' for `fileIds` if there is none.
+ * Upserts on the primary file so two concurrent callers cannot create two drafts for it.
+ */
+export async function upsertDraftCertificate_SERVER(
+  db: Db,
+  userId: string,
+  { primaryFileId, fileIds, createdBy, createdAt = new Date() }: { primaryFileId: string; fileIds: string[]; createdBy: string; createdAt?: Date }
+): Promise<{ certificate: CertificateDocument; created: boolean }> {
+  const result = await certificatesCollection(db).findOneAndUpdate(
+    { userId, fileIds: primaryFileId },
+    {
+      $setOnInsert: {
+        userId,
+        issuer: null,
+        courseTitle: null,
+        recipientName: null,
+        issueDate: null,
+        expiryDate: null,
+        credentialId: null,
+        verificationUrl: null,
+        skills: [],
+        status: 'draft',
+        createdBy,
+        createdAt,
+        updatedAt: createdAt,
+      },
+      $addToSet: { fileIds: { $each: fileIds } },
+    },
+    { upsert: true, returnDocument: 'after', includeResultMetadata: true }
+  );
+  return { certificate: result.value!, created: !result.lastErrorObject?.updatedExisting };
+}
+
+/**
+ * Makes sure every stored file of `userId` belongs to some certificate by creating 'draft' records for
+ * files no certificate references yet (new uploads, and files stored before certificates existed).
+ * An original PDF and its rendered pages become a single draft.
+ */
+export async function syncDraftCertificates_SERVER(db: Db, userId: string, files: UserImage[]): Promise<number> {
+  const referenced = new Set(
+    (await certificatesCollection(db).find({ userId }, { projection: { fileIds: 1 } }).toArray()).flatMap(c => c.fileIds)
+  );
+  const unreferenced = files.filter(f => !referenced.has(f.fileId));
+  if (unreferenced.length === 0) return 0;
+
+  const originalIds = new Set(files.filter(f => f.isPdfOriginal).map(f => f.fileId));
+  const groups = new Map<string, UserImage[]>();
+  for (const file of unreferenced) {
+    const groupKey = file.parentFileId && originalIds.has(file.parentFileId) ? file.parentFileId : file.fileId;
+    groups.set(groupKey, [...(groups.get(groupKey) || []), file]);
+  }
+
+  let created = 0;
+  for (const [primaryFileId, groupFiles] of groups) {
+    const primary = groupFiles.find(f => f.fileId === primaryFileId) || groupFiles[0];
+    const { created: wasCreated } = await upsertDraftCertificate_SERVER(db, userId, {
+      primaryFileId,
+      fileIds: groupFiles.map(f => f.fileId),
+      createdBy: primary.uploadedBy || userId,
+      createdAt: primary.uploadDate ? new Date(primary.uploadDate) : new Date(),
+    });
+    if (wasCreated) created += 1;
+  }
+  console.log(`[SERVICE_SERVER/syncDraftCertificates_SERVER] - Created ${created} draft certificate(s) for ${unreferenced.length} unreferenced file(s) of user ${userId}.`);
+  return created;
+}
+
+// Lists the owner's certificates (newest first) with their files embedded; signed file URLs are issued to `viewerUid`.
+export async function listCertificatesWithFiles_SERVER(db: Db, userId: string, viewerUid: string): Promise<CertificateWithFiles[]> {
+  const files = await listUserFiles_SERVER(db, userId, viewerUid);
+  await syncDraftCertificates_SERVER(db, userId, files);
+
+  const filesById = new Map(files.map(f => [f.fileId, f]));
+  const docs = await certificatesCollection(db).find({ userId }).sort({ createdAt: -1 }).toArray();
+  await refreshStaleNameMatches(db, userId, docs);
+  return docs.map(doc => ({
+    ...toCertificate(doc),
+    files: doc.fileIds.map(id => filesById.get(id)).filter((f): f is UserImage => !!f),
+  }));
+}
+
+export async function getCertificate_SERVER(db: Db, certificateId: string): Promise<CertificateDocument | null> {
+  if (!ObjectId.isValid(certificateId)) return null;
+  return certificatesCollection(db).findOne({ _id: new ObjectId(certificateId) });
+}
+
+export async function createCertificate_SERVER(
+  db: Db,
+  userId: string,
+  fields: Partial<StoredCertificateFields>,
+  createdBy: string
+): Promise<CertificateDocument> {
+  const now = new Date();
+  const doc: CertificateDocument = {
+    _id: new ObjectId(),
+    userId,
+    fileIds: fields.fileIds ?? [],
+    issuer: fields.issuer ?? null,
+    courseTitle: fields.courseTitle ?? null,
+    recipientName: fields.recipientName ?? null,
+    issueDate: fields.issueDate ?? null,
+    expiryDate: fields.expiryDate ?? null,
+    credentialId: fields.credentialId ?? null,
+    verificationUrl: fields.verificationUrl ?? null,
+    skills: fields.skills ?? [],
+    status: fields.status ?? 'active',
+    humanVerified: fields.humanVerified ?? false,
+    verifiedBy: fields.humanVerified ? createdBy : null,
+    verifiedAt: fields.humanVerified ? now : null,
+    editHistory: [],
+    nameMatch: await checkRecipientName_SERVER(userId, { recipientName: fields.recipientName ?? null }),
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await certificatesCollection(db).insertOne(doc);
+  // A file belongs to one certificate: take over the files from any draft that held them.
+  if (doc.fileIds.length > 0) {
+    await detachFilesFromOtherCertificates(db, userId, doc._id, doc.fileIds);
+  }
+  console.log(`[SERVICE_SERVER/createCertificate_SERVER] - Created certificate ${doc._id} for user ${userId} by ${createdBy}.`);
+  return doc;
+}
+
+// Comparable form of a stored field for the edit history: dates as YYYY-MM-DD, everything else as stored.
+const toHistoryValue = (value: unknown): CertificateFieldValue => {
+  if (value instanceof Date) return toDateOnlyString(value);
+  if (Array.isArray(value)) return value.map(String);
+  return value === null || value === undefined ? null : String(value);
+};
+
+/**
+ * Applies `fields` and appends an edit history entry listing the fields that actually changed.
+ * `humanVerified: true` records who verified the certificate and when; `false` clears it.
+ */
+export async function updateCertificate_SERVER(
+  db: Db,
+  existing: CertificateDocument,
+  fields: Partial<StoredCertificateFields>,
+  editor: { uid: string; role: CertificateAccessRole }
+): Promise<CertificateDocument> {
+  const merged = { ...existing, ...fields };
+  if (merged.issueDate && merged.expiryDate && merged.expiryDate < merged.issueDate) {
+    throw Object.assign(new Error('The expiry date cannot be before the issue date.'), { errorKey: 'INVALID_DATE' });
+  }
+  const now = new Date();
+  const { humanVerified, ...dataFields } = fields;
+  const changes = (Object.keys(dataFields) as (keyof typeof dataFields)[])
+    .map(field => ({ field, from: toHistoryValue(existing[field]), to: toHistoryValue(dataFields[field]) }))
+    .filter(change => JSON.stringify(change.from) !== JSON.stringify(change.to));
+  const verified = humanVerified === true;
+
+  const $set: Record<string, unknown> = { ...fields, updatedAt: now };
+  // A new expiry date starts a new reminder cycle.
+  if (changes.some(change => change.field === 'expiryDate')) {
+    $set.expiryRemindersSent = [];
+    // Renewed (expiry moved into the future): no longer expired unless the caller says otherwise.
+    if (existing.status === 'expired' && !fields.status && merged.expiryDate && merged.expiryDate >= now) $set.status = 'active';
+  }
+  if ('recipientName' in fields) $set.nameMatch = await checkRecipientName_SERVER(existing.userId, merged);
+  // Verifying a draft means its details are now filled in.
+  if (verified && existing.status === 'draft' && !fields.status) $set.status = 'active';
+  if (humanVerified !== undefined) {
+    $set.verifiedBy = verified ? editor.uid : null;
+    $set.verifiedAt = verified ? now : null;
+  }
+  const update: Record<string, unknown> = { $set };
+  if (changes.length > 0 || verified) {
+    const entry: CertificateEditRecord = { editedBy: editor.uid, editedByRole: editor.role, editedAt: now, changes, verified };
+    update.$push = { editHistory: { $each: [entry], $slice: -MAX_EDIT_HISTORY } };
+  }
+
+  const updated = await certificatesCollection(db).findOneAndUpdate({ _id: existing._id }, update, { returnDocument: 'after' });
+  if (fields.fileIds && fields.fileIds.length > 0) {
+    await detachFilesFromOtherCertificates(db, existing.userId, existing._id, fields.fileIds);
+  }
+  return updated ?? { ...merged, updatedAt: now };
+}
+
+export async function deleteCertificate_SERVER(db: Db, certificateId: ObjectId): Promise<void> {
+  await certificatesCollection(db).deleteOne({ _id: certificateId });
+}
+
+const detachFilesFromOtherCertificates = async (db: Db, userId: string, keepCertificateId: ObjectId, fileIds: string[]) => {
+  await certificatesCollection(db).updateMany(
+    { userId, _id: { $ne: keepCertificateId }, fileIds: { $in: fileIds } },
+    { $pull: { fileIds: { $in: fileIds } }, $set: { updatedAt: new Date() } }
+  );
+  // Drafts exist only to hold files; once emptied they are noise.
+  await certificatesCollection(db).deleteMany({ userId, status: 'draft', fileIds: { $size: 0 } });
+};
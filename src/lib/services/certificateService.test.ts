@@ -0,0 +1,70 @@
+import { describe, test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId, type Db } from 'mongodb';
+import { getAdminFirestore } from '@/lib/firebase/adminConfig';
+import { updateCertificate_SERVER, type CertificateDocument } from '@/lib/services/certificateService.server';
+
+// Every profile lookup returns `displayName`.
+const stubProfileName = (t: TestContext, displayName: string) => {
+  const profile = { exists: true, data: () => ({ role: 'student', displayName }) };
+  t.mock.method(getAdminFirestore(), 'collection', () => ({ doc: () => ({ get: async () => profile }) }));
+};
+
+// A Db whose certificates collection applies `$set` to `doc` and returns the result.
+const fakeDb = (doc: CertificateDocument) => ({
+  collection: () => ({
+    findOneAndUpdate: async (_filter: unknown, update: { $set: Partial<CertificateDocument> }) => ({ ...doc, ...update.$set }),
+  }),
+}) as unknown as Db;
+
+const certificate = (overrides: Partial<CertificateDocument> = {}): CertificateDocument => ({
+  _id: new ObjectId(),
+  userId: 'student-1',
+  fileIds: [],
+  issuer: 'Coursera',
+  courseTitle: 'Machine Learning',
+  recipientName: 'Rahul Kumar',
+  issueDate: null,
+  expiryDate: null,
+  credentialId: null,
+  verificationUrl: null,
+  skills: [],
+  status: 'active',
+  createdBy: 'student-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const extraction = (recipientName: string): CertificateDocument['extraction'] => ({
+  model: 'stub',
+  extractedAt: new Date(),
+  fileId: new ObjectId().toString(),
+  values: { recipientName },
+  confidence: { recipientName: 0.95 },
+  appliedFields: ['recipientName'],
+});
+
+describe('updateCertificate_SERVER name check', () => {
+  test('typing the profile name over an extracted name keeps the mismatch', async (t) => {
+    stubProfileName(t, 'Rohan Kumar');
+    const existing = certificate({ extraction: extraction('Rahul Kumar') });
+
+    const updated = await updateCertificate_SERVER(fakeDb(existing), existing, { recipientName: 'Rohan Kumar' }, { uid: 'student-1', role: 'owner' });
+
+    assert.equal(updated.recipientName, 'Rohan Kumar');
+    assert.equal(updated.nameMatch?.mismatch, true);
+    assert.equal(updated.nameMatch?.checkedName, 'Rahul Kumar');
+  });
+
+  test('an entered name is checked when nothing was extracted', async (t) => {
+    stubProfileName(t, 'Rohan Kumar');
+    const existing = certificate();
+
+    const matching = await updateCertificate_SERVER(fakeDb(existing), existing, { recipientName: 'Kumar, Rohan' }, { uid: 'student-1', role: 'owner' });
+    const different = await updateCertificate_SERVER(fakeDb(existing), existing, { recipientName: 'Priya Sharma' }, { uid: 'student-1', role: 'owner' });
+
+    assert.equal(matching.nameMatch?.mismatch, false);
+    assert.equal(different.nameMatch?.mismatch, true);
+  });
+});
@@ -0,0 +1,111 @@
+// NO 'use client'; directive - queues issuer verification and runs it from the verification worker, storing the result on the certificate.
+import { randomBytes } from 'crypto';
+import type { Db, Filter } from 'mongodb';
+import {
+  CERTIFICATES_COLLECTION,
+  type CertificateDocument,
+  type CertificateVerificationRecord,
+} from '@/lib/services/certificateService.server';
+import { verifyCredential } from '@/lib/verification/registry';
+import type { VerificationFetcher } from '@/lib/verification/types';
+
+// Changing any of these invalidates an earlier verification result.
+export const VERIFICATION_INPUT_FIELDS = ['issuer', 'courseTitle', 'recipientName', 'credentialId', 'verificationUrl'] as const;
+
+// A check whose worker died is claimed again after this (each issuer request times out after 10 s).
+const CLAIM_SECONDS = 5 * 60;
+
+export interface CredentialVerificationRunSummary {
+  claimed: number;
+  completed: number;
+  superseded: number; // Fields changed during the check; the newer request is checked on a later claim
+}
+
+const logPrefix = (reqId: string) => `credentialVerification (Req ID: ${reqId})`;
+
+const certificatesCollection = (db: Db) => db.collection<CertificateDocument>(CERTIFICATES_COLLECTION);
+
+export const affectsVerification = (changedFields: string[]): boolean =>
+  changedFields.some(field => (VERIFICATION_INPUT_FIELDS as readonly string[]).includes(field));
+
+/**
+ * Marks the certificate's verification as pending; the verification worker checks it with the issuer.
+ * Certificates without a credential ID or verification URL have nothing to check and get `verification: null`.
+ * Returns the stored record (null when nothing is checked) without waiting for the issuer.
+ */
+export async function scheduleCredentialVerification_SERVER(
+  db: Db,
+  certificate: CertificateDocument,
+  reqId: string
+): Promise<CertificateVerificationRecord | null> {
+  if (!certificate.credentialId && !certificate.verificationUrl) {
+    if (certificate.verification) {
+      await certificatesCollection(db).updateOne({ _id: certificate._id }, { $set: { verification: null } });
+    }
+    return null;
+  }
+
+  const pending: CertificateVerificationRecord = {
+    runId: randomBytes(8).toString('hex'),
+    status: 'pending',
+    verifierId: null,
+    evidence: null,
+    requestedAt: new Date(),
+    checkedAt: null,
+    claimedUntil: null,
+  };
+  await certificatesCollection(db).updateOne({ _id: certificate._id }, { $set: { verification: pending } });
+  console.log(`${logPrefix(reqId)}: Verification ${pending.runId} queued for certificate ${certificate._id}.`);
+  return pending;
+}
+
+// Pending checks nobody works on, plus checks whose worker's claim ran out.
+const claimableFilter = (now: Date): Filter<CertificateDocument> => ({
+  'verification.status': 'pending',
+  $or: [{ 'verification.claimedUntil': null }, { 'verification.claimedUntil': { $lt: now } }],
+});
+
+// Claims one pending check atomically, so concurrent workers never run the same check twice.
+async function claim(db: Db, now: Date): Promise<CertificateDocument | null> {
+  return certificatesCollection(db).findOneAndUpdate(
+    claimableFilter(now),
+    { $set: { 'verification.claimedUntil': new Date(now.getTime() + CLAIM_SECONDS * 1000) } },
+    { sort: { 'verification.requestedAt': 1 }, returnDocument: 'after' }
+  );
+}
+
+// Checks a claimed certificate as it is now; returns false when a newer request replaced the claimed one meanwhile.
+async function runCredentialVerification(db: Db, certificate: CertificateDocument, reqId: string, fetcher?: VerificationFetcher): Promise<boolean> {
+  const pending = certificate.verification!;
+  const result = await verifyCredential(certificate, { fetcher }).catch((error: any) => ({
+    status: 'unknown' as const,
+    verifierId: null,
+    evidence: { checkedUrl: null, httpStatus: null, matchedFields: [], detail: `Verification failed: ${error.message}` },
+  }));
+  const record: CertificateVerificationRecord = { ...pending, ...result, checkedAt: new Date(), claimedUntil: null };
+
+  // Only the latest requested run may write its result.
+  const { modifiedCount } = await certificatesCollection(db).updateOne(
+    { _id: certificate._id, 'verification.runId': pending.runId },
+    { $set: { verification: record } }
+  );
+  console.log(`${logPrefix(reqId)}: Certificate ${certificate._id} verification ${pending.runId}: ${record.status} via ${record.verifierId || 'no adapter'}${modifiedCount === 0 ? ' (superseded, not stored)' : ''}. ${record.evidence?.detail}`);
+  return modifiedCount > 0;
+}
+
+// Worker run for the credential verification cron route: checks up to `limit` pending certificates, oldest request first.
+export async function processPendingVerifications_SERVER(
+  db: Db,
+  { reqId, limit = 20, fetcher }: { reqId: string; limit?: number; fetcher?: VerificationFetcher }
+): Promise<CredentialVerificationRunSummary> {
+  const summary: CredentialVerificationRunSummary = { claimed: 0, completed: 0, superseded: 0 };
+  while (summary.claimed < limit) {
+    const certificate = await claim(db, new Date());
+    if (!certificate) break;
+    summary.claimed += 1;
+    if (await runCredentialVerification(db, certificate, reqId, fetcher)) summary.completed += 1;
+    else summary.superseded += 1;
+  }
+  console.log(`${logPrefix(reqId)}: Verification run done.`, summary);
+  return summary;
+}
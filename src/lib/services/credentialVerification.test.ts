@@ -0,0 +1,96 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId, type Db } from 'mongodb';
+import type { CertificateDocument, CertificateVerificationRecord } from '@/lib/services/certificateService.server';
+import { processPendingVerifications_SERVER, scheduleCredentialVerification_SERVER } from '@/lib/services/credentialVerification.server';
+import { createFixtureFetcher } from '@/lib/verification/fixtureFetcher';
+import { COURSERA_VERIFIED, RECIPIENT_NAME, issuerPageFixtures } from '@/lib/verification/fixtures/issuerPages';
+
+const fetcher = createFixtureFetcher(issuerPageFixtures);
+
+const certificate = (overrides: Partial<CertificateDocument> = {}): CertificateDocument => ({
+  _id: new ObjectId(),
+  userId: 'student-1',
+  fileIds: [],
+  issuer: 'Coursera',
+  courseTitle: 'Machine Learning',
+  recipientName: RECIPIENT_NAME,
+  issueDate: null,
+  expiryDate: null,
+  credentialId: null,
+  verificationUrl: COURSERA_VERIFIED,
+  skills: [],
+  status: 'draft',
+  createdBy: 'student-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const isClaimable = (verification: CertificateVerificationRecord | null | undefined, now: Date) =>
+  verification?.status === 'pending' && (!verification.claimedUntil || verification.claimedUntil < now);
+
+// Holds one certificate and applies the verification updates the service makes to it.
+const fakeDb = (stored: CertificateDocument) => {
+  const store: { stored: CertificateDocument; beforeCheck: () => Promise<void> | void } = { stored, beforeCheck: () => {} };
+  const db = {
+    collection: () => ({
+      findOneAndUpdate: async (_filter: unknown, update: { $set: { 'verification.claimedUntil': Date } }) => {
+        if (!isClaimable(store.stored.verification, new Date())) return null;
+        store.stored = { ...store.stored, verification: { ...store.stored.verification!, claimedUntil: update.$set['verification.claimedUntil'] } };
+        const claimed = structuredClone(store.stored);
+        await store.beforeCheck();
+        return claimed;
+      },
+      updateOne: async (filter: { 'verification.runId'?: string }, update: { $set: { verification: CertificateVerificationRecord | null } }) => {
+        if (filter['verification.runId'] && filter['verification.runId'] !== store.stored.verification?.runId) return { modifiedCount: 0 };
+        store.stored = { ...store.stored, verification: update.$set.verification };
+        return { modifiedCount: 1 };
+      },
+    }),
+  } as unknown as Db;
+  return { db, store };
+};
+
+describe('credential verification worker', () => {
+  test('scheduling only queues the check; the worker runs it and stores the result', async () => {
+    const { db, store } = fakeDb(certificate());
+    const pending = await scheduleCredentialVerification_SERVER(db, store.stored, 'test');
+    assert.equal(pending?.status, 'pending');
+    assert.equal(store.stored.verification?.status, 'pending');
+
+    const summary = await processPendingVerifications_SERVER(db, { reqId: 'test', fetcher });
+
+    assert.deepEqual(summary, { claimed: 1, completed: 1, superseded: 0 });
+    assert.equal(store.stored.verification?.status, 'verified');
+    assert.equal(store.stored.verification?.runId, pending?.runId);
+    assert.equal(store.stored.verification?.claimedUntil, null);
+  });
+
+  test('skips a check another worker has claimed until the claim runs out', async () => {
+    const { db, store } = fakeDb(certificate());
+    await scheduleCredentialVerification_SERVER(db, store.stored, 'test');
+    store.stored.verification!.claimedUntil = new Date(Date.now() + 60_000);
+    assert.equal((await processPendingVerifications_SERVER(db, { reqId: 'test', fetcher })).claimed, 0);
+
+    store.stored.verification!.claimedUntil = new Date(Date.now() - 1000);
+    assert.equal((await processPendingVerifications_SERVER(db, { reqId: 'test', fetcher })).completed, 1);
+    assert.equal(store.stored.verification?.status, 'verified');
+  });
+
+  test('does not store the result when the certificate was re-queued during the check', async () => {
+    const { db, store } = fakeDb(certificate());
+    await scheduleCredentialVerification_SERVER(db, store.stored, 'test');
+    let requeued: CertificateVerificationRecord | null = null;
+    store.beforeCheck = async () => {
+      store.beforeCheck = () => {};
+      requeued = await scheduleCredentialVerification_SERVER(db, store.stored, 'test');
+    };
+
+    const summary = await processPendingVerifications_SERVER(db, { reqId: 'test', fetcher, limit: 1 });
+
+    assert.deepEqual(summary, { claimed: 1, completed: 0, superseded: 1 });
+    assert.equal(store.stored.verification?.status, 'pending');
+    assert.equal(store.stored.verification?.runId, requeued!.runId);
+  });
+});
@@ -0,0 +1,71 @@
+// NO 'use client'; directive - creates in-app notifications and sends the matching email, following each user's preferences.
+import type { Db } from 'mongodb';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminFirestore } from '@/lib/firebase/adminConfig';
+import { enqueueTemplatedEmail_SERVER } from '@/lib/email/outbox.server';
+import type { EmailTemplateName, EmailTemplateParams } from '@/lib/email/templates/types';
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import type { UserProfile } from '@/lib/models/user';
+import { resolveNotificationPreferences, type NotificationType } from '@/lib/models/notification';
+
+export const USERS_COLLECTION = 'users';
+export const NOTIFICATIONS_SUBCOLLECTION = 'notifications';
+
+// Any registered template together with its parameters.
+export type NotificationEmail = {
+  [K in EmailTemplateName]: { template: K; params: EmailTemplateParams[K] };
+}[EmailTemplateName];
+
+export interface NotifyUserInput {
+  recipientUid: string;
+  recipientProfile?: UserProfile | null; // Saves a lookup when the caller already has it
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string | null;
+  email?: NotificationEmail & { to?: string | null; visibleToUids?: (string | null | undefined)[] };
+  reqId: string;
+}
+
+export interface NotifyUserResult {
+  notificationId: string | null; // null when the user switched off in-app notifications of this type
+  emailQueued: boolean;
+}
+
+const logPrefix = (reqId: string) => `notificationService (Req ID: ${reqId})`;
+
+/**
+ * Records an in-app notification and queues the email for the same event, each only if the
+ * recipient's preferences allow it. The email goes to the profile's address unless `email.to` is given.
+ */
+export async function notifyUser_SERVER(db: Db, input: NotifyUserInput): Promise<NotifyUserResult> {
+  const profile = input.recipientProfile === undefined ? await getUserProfile_SERVER(input.recipientUid) : input.recipientProfile;
+  const preference = resolveNotificationPreferences(profile?.notificationPreferences)[input.type];
+  const result: NotifyUserResult = { notificationId: null, emailQueued: false };
+
+  if (preference.inApp) {
+    const ref = await getAdminFirestore()
+      .collection(USERS_COLLECTION).doc(input.recipientUid)
+      .collection(NOTIFICATIONS_SUBCOLLECTION)
+      .add({
+        type: input.type,
+        title: input.title,
+        body: input.body,
+        link: input.link ?? null,
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+        readAt: null,
+      });
+    result.notificationId = ref.id;
+  }
+
+  const to = input.email?.to || profile?.email;
+  if (input.email && preference.email && to) {
+    const { template, params, visibleToUids = [input.recipientUid] } = input.email;
+    await enqueueTemplatedEmail_SERVER(db, to, template, params, { visibleToUids, reqId: input.reqId });
+    result.emailQueued = true;
+  }
+
+  console.log(`${logPrefix(input.reqId)}: '${input.type}' for ${input.recipientUid}: in-app ${result.notificationId ? 'created' : 'off'}, email ${result.emailQueued ? 'queued' : input.email ? 'off' : 'n/a'}.`);
+  return result;
+}
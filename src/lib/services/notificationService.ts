@@ -0,0 +1,100 @@
+// src/lib/services/notificationService.ts
+'use client'; // Client-side Firestore access to the signed-in user's notifications and preferences
+import { firestore } from '@/lib/firebase/config';
+import type { AppNotification, NotificationPreferences } from '@/lib/models/notification';
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type Unsubscribe,
+} from 'firebase/firestore';
+
+const USERS_COLLECTION = 'users';
+const NOTIFICATIONS_SUBCOLLECTION = 'notifications';
+const FEED_SIZE = 30;
+const UNREAD_COUNT_LIMIT = 100; // The bell shows "99+" beyond this, so there is no need to listen to more
+const BATCH_WRITE_LIMIT = 500; // Firestore's maximum number of writes per batch
+
+const notificationsCollection = (userId: string) => collection(firestore, USERS_COLLECTION, userId, NOTIFICATIONS_SUBCOLLECTION);
+
+// CLIENT-SIDE: Real-time feed of the user's most recent notifications, newest first.
+export const getNotificationsRealtime = (
+  userId: string,
+  callback: (notifications: AppNotification[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  console.log(`[SERVICE_CLIENT/getNotificationsRealtime] Setting up listener for user: ${userId}`);
+  const q = query(
+    notificationsCollection(userId),
+    orderBy('createdAt', 'desc'),
+    limit(FEED_SIZE)
+  );
+
+  const unsubscribe = onSnapshot(q,
+    (querySnapshot) => {
+      const notifications = querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as AppNotification));
+      callback(notifications);
+    },
+    (error) => {
+      console.error(`[SERVICE_CLIENT/getNotificationsRealtime] Error for user ${userId}:`, error);
+      onError(error);
+    }
+  );
+  return unsubscribe;
+};
+
+// CLIENT-SIDE: Real-time count of the user's unread notifications, including ones older than the feed.
+// Counts above UNREAD_COUNT_LIMIT are reported as UNREAD_COUNT_LIMIT.
+export const getUnreadNotificationCountRealtime = (
+  userId: string,
+  callback: (count: number, isCapped: boolean) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(notificationsCollection(userId), where('read', '==', false), limit(UNREAD_COUNT_LIMIT));
+  return onSnapshot(q,
+    (querySnapshot) => callback(querySnapshot.size, querySnapshot.size >= UNREAD_COUNT_LIMIT),
+    (error) => {
+      console.error(`[SERVICE_CLIENT/getUnreadNotificationCountRealtime] Error for user ${userId}:`, error);
+      onError(error);
+    }
+  );
+};
+
+// CLIENT-SIDE: Marks notifications as read. Security rules only allow the owner to change `read` and `readAt`.
+export const markNotificationsRead = async (userId: string, notificationIds: string[]): Promise<void> => {
+  if (notificationIds.length === 0) return;
+  const batch = writeBatch(firestore);
+  for (const id of notificationIds) {
+    batch.update(doc(notificationsCollection(userId), id), { read: true, readAt: serverTimestamp() });
+  }
+  await batch.commit();
+};
+
+// CLIENT-SIDE: Marks every unread notification as read, not only the ones in the feed. Each batch drops out of
+// the unread query once committed, so the loop ends when none are left.
+export const markAllNotificationsRead = async (userId: string): Promise<void> => {
+  const unreadQuery = query(notificationsCollection(userId), where('read', '==', false), limit(BATCH_WRITE_LIMIT));
+  for (;;) {
+    const snapshot = await getDocs(unreadQuery);
+    if (snapshot.empty) return;
+    const batch = writeBatch(firestore);
+    snapshot.docs.forEach(docSnap => batch.update(docSnap.ref, { read: true, readAt: serverTimestamp() }));
+    await batch.commit();
+  }
+};
+
+// CLIENT-SIDE: Saves per-type in-app/email switches on the user's profile; the server reads them before notifying.
+export const updateNotificationPreferences = async (userId: string, preferences: NotificationPreferences): Promise<void> => {
+  await updateDoc(doc(firestore, USERS_COLLECTION, userId), {
+    notificationPreferences: preferences,
+    updatedAt: serverTimestamp(),
+  });
+};
@@ -0,0 +1,194 @@
+// NO 'use client'; directive - stores portfolio settings and builds the public portfolio view.
+import { randomBytes } from 'crypto';
+import { ObjectId, type Db } from 'mongodb';
+import { getUserProfile_SERVER } from '@/lib/services/userService.server';
+import { CERTIFICATES_COLLECTION, type CertificateDocument } from '@/lib/services/certificateService.server';
+import { createSignedImageUrl } from '@/lib/imageUrlSigning.server';
+import {
+  MAX_PORTFOLIO_CERTIFICATES,
+  MAX_PORTFOLIO_HEADLINE_LENGTH,
+  type PortfolioSettings,
+  type PortfolioSettingsInput,
+  type PublicPortfolio,
+  type PublicPortfolioCertificate,
+} from '@/lib/models/portfolio';
+
+export const PORTFOLIOS_COLLECTION = 'portfolios';
+
+// Images on the public page are served through signed URLs issued to the owner; they only need to outlive a visit.
+const PUBLIC_IMAGE_URL_TTL_SECONDS = 30 * 60;
+
+// One document per user; created the first time the student saves their portfolio settings.
+export interface PortfolioDocument {
+  _id: ObjectId;
+  userId: string;
+  enabled: boolean;
+  slug: string | null;
+  headline: string | null;
+  certificateIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PortfolioInputResult =
+  | { ok: true; value: PortfolioSettingsInput }
+  | { ok: false; errorKey: string; message: string };
+
+const portfoliosCollection = (db: Db) => db.collection<PortfolioDocument>(PORTFOLIOS_COLLECTION);
+
+// 12 URL-safe characters (72 random bits): unguessable, so only people given the link can find the page.
+const generateSlug = (): string => randomBytes(9).toString('base64url');
+
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+
+export const toPortfolioSettings = (doc: PortfolioDocument | null): PortfolioSettings => ({
+  enabled: doc?.enabled ?? false,
+  slug: doc?.slug ?? null,
+  headline: doc?.headline ?? null,
+  certificateIds: doc?.certificateIds ?? [],
+  updatedAt: doc ? doc.updatedAt.toISOString() : null,
+});
+
+export function validatePortfolioInput(body: unknown): PortfolioInputResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errorKey: 'INVALID_BODY', message: 'Request body must be a JSON object.' };
+  }
+  const input = body as Record<string, unknown>;
+  const value: PortfolioSettingsInput = {};
+
+  if ('enabled' in input) {
+    if (typeof input.enabled !== 'boolean') {
+      return { ok: false, errorKey: 'INVALID_FIELD', message: "'enabled' must be a boolean." };
+    }
+    value.enabled = input.enabled;
+  }
+  if ('headline' in input) {
+    if (input.headline !== null && typeof input.headline !== 'string') {
+      return { ok: false, errorKey: 'INVALID_FIELD', message: "'headline' must be a string or null." };
+    }
+    const headline = typeof input.headline === 'string' ? input.headline.trim() : '';
+    if (headline.length > MAX_PORTFOLIO_HEADLINE_LENGTH) {
+      return { ok: false, errorKey: 'FIELD_TOO_LONG', message: `'headline' must be at most ${MAX_PORTFOLIO_HEADLINE_LENGTH} characters.` };
+    }
+    value.headline = headline || null;
+  }
+  if ('certificateIds' in input) {
+    const ids = input.certificateIds;
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string' && ObjectId.isValid(id))) {
+      return { ok: false, errorKey: 'INVALID_FIELD', message: "'certificateIds' must be an array of certificate IDs." };
+    }
+    if (ids.length > MAX_PORTFOLIO_CERTIFICATES) {
+      return { ok: false, errorKey: 'TOO_MANY_CERTIFICATES', message: `A portfolio can show at most ${MAX_PORTFOLIO_CERTIFICATES} certificates.` };
+    }
+    value.certificateIds = [...new Set(ids as string[])];
+  }
+  return { ok: true, value };
+}
+
+// True when every ID names a certificate owned by `userId`.
+export async function certificatesBelongToUser_SERVER(db: Db, userId: string, certificateIds: string[]): Promise<boolean> {
+  if (certificateIds.length === 0) return true;
+  const count = await db.collection<CertificateDocument>(CERTIFICATES_COLLECTION).countDocuments({
+    _id: { $in: certificateIds.map(id => new ObjectId(id)) },
+    userId,
+  });
+  return count === certificateIds.length;
+}
+
+export async function getPortfolio_SERVER(db: Db, userId: string): Promise<PortfolioDocument | null> {
+  return portfoliosCollection(db).findOne({ userId });
+}
+
+/**
+ * Saves the owner's settings. Enabling the portfolio for the first time (or after the link was
+ * revoked) issues a share slug; disabling keeps the slug so re-enabling restores the same link.
+ */
+export async function updatePortfolio_SERVER(db: Db, userId: string, fields: PortfolioSettingsInput): Promise<PortfolioDocument> {
+  const now = new Date();
+  const existing = await getPortfolio_SERVER(db, userId);
+  const $set: Partial<PortfolioDocument> = { ...fields, updatedAt: now };
+  if (fields.enabled && !existing?.slug) $set.slug = generateSlug();
+
+  const updated = await portfoliosCollection(db).findOneAndUpdate(
+    { userId },
+    {
+      $set,
+      $setOnInsert: {
+        _id: new ObjectId(),
+        createdAt: now,
+        ...('enabled' in fields ? {} : { enabled: false }),
+        ...('slug' in $set ? {} : { slug: null }),
+        ...('headline' in fields ? {} : { headline: null }),
+        ...('certificateIds' in fields ? {} : { certificateIds: [] }),
+      },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+  console.log(`[SERVICE_SERVER/updatePortfolio_SERVER] - Saved portfolio of user ${userId} (enabled: ${updated!.enabled}, ${updated!.certificateIds.length} certificate(s)).`);
+  return updated!;
+}
+
+// Replaces the share slug, so the previous link stops working immediately.
+export async function regeneratePortfolioSlug_SERVER(db: Db, userId: string): Promise<PortfolioDocument | null> {
+  const updated = await portfoliosCollection(db).findOneAndUpdate(
+    { userId },
+    { $set: { slug: generateSlug(), updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (updated) console.log(`[SERVICE_SERVER/regeneratePortfolioSlug_SERVER] - Issued a new share link for user ${userId}; the old one is revoked.`);
+  return updated;
+}
+
+const toPublicCertificate = (doc: CertificateDocument, imageFileId: string | null): PublicPortfolioCertificate => ({
+  id: doc._id.toString(),
+  courseTitle: doc.courseTitle,
+  issuer: doc.issuer,
+  recipientName: doc.recipientName,
+  issueDate: doc.issueDate ? doc.issueDate.toISOString().slice(0, 10) : null,
+  expiryDate: doc.expiryDate ? doc.expiryDate.toISOString().slice(0, 10) : null,
+  credentialId: doc.credentialId,
+  verificationUrl: doc.verificationUrl,
+  skills: doc.skills,
+  expired: doc.status === 'expired',
+  humanVerified: doc.humanVerified ?? false,
+  issuerVerification: doc.verification && doc.verification.status !== 'pending' ? doc.verification.status : null,
+  imageUrl: imageFileId ? createSignedImageUrl(imageFileId, doc.userId, PUBLIC_IMAGE_URL_TTL_SECONDS) : null,
+});
+
+/**
+ * The public view behind a share link, or null when the slug is unknown, revoked or the portfolio is
+ * switched off. Only the selected certificates that still belong to the owner and are not revoked or
+ * still drafts are shown, in the order the student chose.
+ */
+export async function getPublicPortfolioBySlug_SERVER(db: Db, slug: string): Promise<PublicPortfolio | null> {
+  if (!SLUG_PATTERN.test(slug)) return null;
+  const portfolio = await portfoliosCollection(db).findOne({ slug, enabled: true });
+  if (!portfolio) return null;
+
+  const ids = portfolio.certificateIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+  const docs = ids.length === 0 ? [] : await db.collection<CertificateDocument>(CERTIFICATES_COLLECTION).find({
+    _id: { $in: ids },
+    userId: portfolio.userId,
+    status: { $in: ['active', 'expired'] },
+  }).toArray();
+  const docsById = new Map(docs.map(doc => [doc._id.toString(), doc]));
+  const shown = portfolio.certificateIds.map(id => docsById.get(id)).filter((doc): doc is CertificateDocument => !!doc);
+
+  // The preview is the certificate's first image: a page of a PDF rather than the PDF itself.
+  const fileIds = shown.flatMap(doc => doc.fileIds).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+  const previewable = new Set(
+    (await db.collection('images.files').find(
+      { _id: { $in: fileIds }, 'metadata.userId': portfolio.userId, 'metadata.isPdfOriginal': { $ne: true } },
+      { projection: { _id: 1 } }
+    ).toArray()).map(file => file._id.toString())
+  );
+
+  const profile = await getUserProfile_SERVER(portfolio.userId).catch(() => null);
+  return {
+    slug,
+    ownerName: profile?.displayName || 'CertIntel user',
+    headline: portfolio.headline,
+    certificates: shown.map(doc => toPublicCertificate(doc, doc.fileIds.find(id => previewable.has(id)) ?? null)),
+    updatedAt: portfolio.updatedAt.toISOString(),
+  };
+}
@@ -155,3 +155,29 @@ export const createStudentLinkRequest_SERVER = async (
       throw error;
   }
 };
+
+// SERVER-SIDE function to fetch any user profile with Admin SDK privileges (bypasses client security rules)
+export const getUserProfile_SERVER = async (userId: string): Promise<UserProfile | null> => {
+  const adminFirestore = getAdminFirestore(); // Get instance
+  if (!userId) {
+    console.warn("[SERVICE_SERVER/getUserProfile_SERVER] - Called with no userId.");
+    return null;
+  }
+  const userDocSnap = await adminFirestore.collection(USERS_COLLECTION).doc(userId).get();
+  if (!userDocSnap.exists) {
+    console.log(`[SERVICE_SERVER/getUserProfile_SERVER] - No profile found for userId ${userId}.`);
+    return null;
+  }
+  return userDocSnap.data() as UserProfile;
+};
+
+// SERVER-SIDE check: is `adminUserId` an admin with an ACCEPTED link to the student `studentUserId`?
+export const isLinkedAdminOfStudent_SERVER = async (adminUserId: string, studentUserId: string): Promise<boolean> => {
+  const [adminProfile, studentProfile] = await Promise.all([
+    getUserProfile_SERVER(adminUserId),
+    getUserProfile_SERVER(studentUserId),
+  ]);
+  if (!adminProfile || adminProfile.role !== 'admin') return false;
+  if (!studentProfile || studentProfile.role !== 'student') return false;
+  return studentProfile.associatedAdminFirebaseId === adminUserId && studentProfile.linkRequestStatus === 'accepted';
+};
@@ -0,0 +1,104 @@
+// NO 'use client'; directive - decodes QR codes and barcodes from stored images with canvas + ZXing.
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import type { DecodedCode } from '@/lib/models/userImage';
+
+// Larger images are scaled down before decoding; certificate codes stay readable well below this.
+const MAX_SCAN_DIMENSION = 2000;
+
+const SCANNED_FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.AZTEC,
+  BarcodeFormat.PDF_417,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.ITF,
+];
+
+const toUrl = (text: string): string | null => {
+  try {
+    const url = new URL(text.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const createReader = (): MultiFormatReader => {
+  const reader = new MultiFormatReader();
+  reader.setHints(new Map<DecodeHintType, any>([
+    [DecodeHintType.POSSIBLE_FORMATS, SCANNED_FORMATS],
+    [DecodeHintType.TRY_HARDER, true],
+  ]));
+  return reader;
+};
+
+// Decodes at most one code from a region of the grayscale image; null when there is none.
+const decodeRegion = (reader: MultiFormatReader, luminances: Uint8ClampedArray, width: number, height: number, region: { left: number; top: number; width: number; height: number }) => {
+  try {
+    const source = new RGBLuminanceSource(luminances, region.width, region.height, width, height, region.left, region.top);
+    return reader.decode(new BinaryBitmap(new HybridBinarizer(source)));
+  } catch {
+    return null; // NotFoundException and friends: nothing readable in this region
+  } finally {
+    reader.reset();
+  }
+};
+
+/**
+ * Finds QR codes and barcodes in an image (stored as `metadata.decodedCodes` on the GridFS file).
+ * The whole image is scanned first; when that finds nothing (a small code on a busy certificate),
+ * its overlapping quadrants are scanned one by one. Never throws: unreadable images yield no codes.
+ */
+export async function decodeImageCodes(image: Buffer): Promise<DecodedCode[]> {
+  try {
+    const { createCanvas, loadImage } = await import('canvas');
+    const loaded = await loadImage(image);
+    const scale = Math.min(1, MAX_SCAN_DIMENSION / Math.max(loaded.width, loaded.height));
+    const width = Math.max(1, Math.round(loaded.width * scale));
+    const height = Math.max(1, Math.round(loaded.height * scale));
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#fff'; // Transparent PNG areas would otherwise read as black
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(loaded, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const luminances = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < luminances.length; i++) {
+      luminances[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+
+    const reader = createReader();
+    const halfWidth = Math.ceil(width * 0.6);
+    const halfHeight = Math.ceil(height * 0.6);
+    const regions = [
+      { left: 0, top: 0, width, height },
+      { left: 0, top: 0, width: halfWidth, height: halfHeight },
+      { left: width - halfWidth, top: 0, width: halfWidth, height: halfHeight },
+      { left: 0, top: height - halfHeight, width: halfWidth, height: halfHeight },
+      { left: width - halfWidth, top: height - halfHeight, width: halfWidth, height: halfHeight },
+    ];
+
+    const found = new Map<string, DecodedCode>();
+    for (const [index, region] of regions.entries()) {
+      const result = decodeRegion(reader, luminances, width, height, region);
+      if (result && !found.has(result.getText())) {
+        found.set(result.getText(), { format: BarcodeFormat[result.getBarcodeFormat()], text: result.getText(), url: toUrl(result.getText()) });
+      }
+      if (index === 0 && found.size > 0) break;
+    }
+    return [...found.values()];
+  } catch (error: any) {
+    console.warn(`codeScanning: Could not scan image for codes: ${error.message}`);
+    return [];
+  }
+}
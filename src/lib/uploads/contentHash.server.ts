@@ -0,0 +1,58 @@
+// NO 'use client'; directive - hashes files on the server with Node's crypto and the `canvas` package.
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+// Streams `source` into `filepath` and hashes the bytes on the way through, so large uploads are never held
+// in memory at once and never read back from disk just for their SHA-256.
+export async function writeFileWithSha256(source: Readable, filepath: string): Promise<{ sha256: string; size: number }> {
+  const hash = createHash('sha256');
+  let size = 0;
+  const hashing = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+  await pipeline(source, hashing, fs.createWriteStream(filepath));
+  return { sha256: hash.digest('hex'), size };
+}
+
+// 64-bit difference hash ("dHash") of an image as 16 hex chars. Visually near-identical images
+// (re-saved, re-scanned, resized) land within a few bits of each other; see imageSimilarity.ts.
+// Returns null when the image cannot be decoded, so callers simply skip near-duplicate matching.
+export async function computeImageDHash(image: Buffer): Promise<string | null> {
+  try {
+    const { createCanvas, loadImage } = await import('canvas');
+    const loaded = await loadImage(image);
+    const width = 9;
+    const height = 8;
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(loaded, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const luminance = (x: number, y: number) => {
+      const i = (y * width + x) * 4;
+      return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+    let hex = '';
+    let nibble = 0;
+    let bitCount = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width - 1; x++) {
+        nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+        if (++bitCount % 4 === 0) {
+          hex += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hex;
+  } catch (error: any) {
+    console.warn('contentHash: Could not compute perceptual hash for image:', error.message);
+    return null;
+  }
+}
@@ -0,0 +1,23 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { promises as fsPromises } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { writeFileWithSha256 } from '@/lib/uploads/contentHash.server';
+
+describe('writeFileWithSha256', () => {
+  const filepath = path.join(os.tmpdir(), `contentHash_test_${process.pid}.bin`);
+  after(() => fsPromises.unlink(filepath).catch(() => undefined));
+
+  test('writes the stream to disk and hashes the same bytes', async () => {
+    const parts = [Buffer.from('%PDF-1.7 '), Buffer.alloc(100_000, 1), Buffer.from('%%EOF')];
+    const { sha256, size } = await writeFileWithSha256(Readable.from(parts), filepath);
+
+    const written = await fsPromises.readFile(filepath);
+    assert.equal(size, written.length);
+    assert.deepEqual(written, Buffer.concat(parts));
+    assert.equal(sha256, createHash('sha256').update(written).digest('hex'));
+  });
+});
@@ -0,0 +1,81 @@
+// NO 'use client'; directive - deletes GridFS files and writes the deletion log.
+import type { Db, GridFSBucket, WithId, Document } from 'mongodb';
+import { isLinkedAdminOfStudent_SERVER } from '@/lib/services/userService.server';
+import { CERTIFICATES_COLLECTION, type CertificateDocument } from '@/lib/services/certificateService.server';
+
+const FILE_DELETION_LOG_COLLECTION = 'fileDeletionLog';
+// When "true", an admin with an accepted link to the owning student may delete that student's files.
+const LINKED_ADMIN_CAN_DELETE = process.env.LINKED_ADMIN_CAN_DELETE === 'true';
+
+export type DeletedByRole = 'owner' | 'linkedAdmin';
+
+// The owner may always delete; a linked admin only when LINKED_ADMIN_CAN_DELETE allows it. Null means forbidden.
+export async function resolveDeleteRole_SERVER(requesterUid: string, ownerUserId: string | undefined): Promise<DeletedByRole | null> {
+  if (ownerUserId && ownerUserId === requesterUid) return 'owner';
+  if (ownerUserId && LINKED_ADMIN_CAN_DELETE && await isLinkedAdminOfStudent_SERVER(requesterUid, ownerUserId)) return 'linkedAdmin';
+  return null;
+}
+
+/**
+ * Deletes one stored file (an original PDF also takes its rendered pages with it), unlinks it from
+ * certificates and records the deletion in `fileDeletionLog`. The caller has already authorized the request.
+ */
+export async function deleteStoredFile_SERVER(
+  db: Db,
+  bucket: GridFSBucket,
+  fileDoc: WithId<Document>,
+  { deletedBy, deletedByRole, reqId }: { deletedBy: string; deletedByRole: DeletedByRole; reqId: string }
+): Promise<{ cascadedPageFileIds: string[] }> {
+  const fileId = fileDoc._id.toString();
+  const ownerUserId: string | undefined = fileDoc.metadata?.userId;
+  const logPrefix = `deleteFile (Req ID: ${reqId})`;
+
+  await bucket.delete(fileDoc._id);
+  console.log(`${logPrefix}: File ${fileId} deleted successfully.`);
+
+  // Deleting an original PDF also deletes the page images rendered from it.
+  const cascadedPageFileIds: string[] = [];
+  if (fileDoc.metadata?.isPdfOriginal) {
+    const pages = await db.collection('images.files').find({ 'metadata.parentFileId': fileId, 'metadata.userId': ownerUserId }, { projection: { _id: 1 } }).toArray();
+    for (const page of pages) {
+      try {
+        await bucket.delete(page._id);
+        cascadedPageFileIds.push(page._id.toString());
+      } catch (pageDeleteError: any) {
+        console.error(`${logPrefix}: Could not delete page ${page._id} of PDF ${fileId}:`, { message: pageDeleteError.message });
+      }
+    }
+    console.log(`${logPrefix}: Cascade-deleted ${cascadedPageFileIds.length} of ${pages.length} page(s) of PDF ${fileId}.`);
+  }
+
+  // Certificates keep their other files (and their details) when one of their files goes away;
+  // drafts left without any file are removed.
+  if (ownerUserId) {
+    const removedFileIds = [fileId, ...cascadedPageFileIds];
+    const certificates = db.collection<CertificateDocument>(CERTIFICATES_COLLECTION);
+    await certificates.updateMany(
+      { userId: ownerUserId, fileIds: { $in: removedFileIds } },
+      { $pull: { fileIds: { $in: removedFileIds } }, $set: { updatedAt: new Date() } }
+    );
+    await certificates.deleteMany({ userId: ownerUserId, status: 'draft', fileIds: { $size: 0 } });
+  }
+
+  // Record every deletion. A failure here must not turn a completed deletion into an error.
+  try {
+    await db.collection(FILE_DELETION_LOG_COLLECTION).insertOne({
+      fileId,
+      filename: fileDoc.filename,
+      originalName: fileDoc.metadata?.originalName || fileDoc.filename,
+      ownerUserId: ownerUserId || null,
+      deletedBy,
+      deletedByRole,
+      cascadedPageFileIds,
+      deletedAt: new Date(),
+      reqId,
+    });
+  } catch (logError: any) {
+    console.error(`${logPrefix}: File ${fileId} was deleted but writing the deletion log failed:`, { message: logError.message });
+  }
+
+  return { cascadedPageFileIds };
+}
@@ -0,0 +1,53 @@
+// File type detection from magic bytes. Safe to import from both the browser (pre-upload checks in
+// ImageUploader) and the server (authoritative checks in the upload pipeline).
+
+export type SniffedFileType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' | 'application/pdf';
+
+// Enough leading bytes for every signature below.
+export const SIGNATURE_BYTES_NEEDED = 16;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  bytes.length >= offset + signature.length && signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+export function sniffFileType(bytes: Uint8Array): SniffedFileType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+  return null;
+}
+
+// Browsers and OSes disagree on a few names for the same format.
+const MIME_ALIASES: Record<string, SniffedFileType> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'application/x-pdf': 'application/pdf',
+};
+
+export const normalizeMimeType = (mimeType: string | null | undefined): string =>
+  mimeType ? MIME_ALIASES[mimeType.toLowerCase()] || mimeType.toLowerCase() : '';
+
+// True when the declared type (from the browser) disagrees with what the bytes say.
+// An empty declared type is not a mismatch; the sniffed type is used.
+export const isMimeMismatch = (declared: string | null | undefined, sniffed: SniffedFileType): boolean => {
+  const normalized = normalizeMimeType(declared);
+  return normalized !== '' && normalized !== 'application/octet-stream' && normalized !== sniffed;
+};
+
+/**
+ * Best-effort page count read from the raw PDF bytes: the largest `/Count` of a page tree node, or the
+ * number of `/Type /Page` objects. Returns null when neither is visible (e.g. compressed object streams);
+ * the server then checks the converted page count instead.
+ */
+export function estimatePdfPageCount(bytes: Uint8Array): number | null {
+  const text = new TextDecoder('latin1').decode(bytes);
+  const pageObjects = (text.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  const counts = Array.from(text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g))
+    .map(m => Number(m[1] ?? m[2]))
+    .filter(n => Number.isFinite(n));
+  const estimate = Math.max(pageObjects, ...counts, 0);
+  return estimate > 0 ? estimate : null;
+}
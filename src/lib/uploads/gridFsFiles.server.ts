@@ -0,0 +1,12 @@
+// NO 'use client'; directive - reads files back out of the GridFS 'images' bucket.
+import type { GridFSBucket, ObjectId } from 'mongodb';
+
+export const readGridFsFile = (bucket: GridFSBucket, fileId: ObjectId): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    bucket.openDownloadStream(fileId)
+      .on('data', (data: Buffer) => parts.push(data))
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(parts)));
+  });
+};
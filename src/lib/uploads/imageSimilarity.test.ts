@@ -0,0 +1,40 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dHashDistance, findDuplicateGroups } from '@/lib/uploads/imageSimilarity';
+
+describe('findDuplicateGroups', () => {
+  test('flags exact copies of the same page', () => {
+    const groups = findDuplicateGroups([
+      { fileId: 'a', sha256: 'abc', pageNumber: 1 },
+      { fileId: 'b', sha256: 'abc', pageNumber: 1 },
+      { fileId: 'c', sha256: 'abc', pageNumber: 2 },
+    ]);
+    assert.deepEqual(groups.get('a'), ['b']);
+    assert.equal(groups.has('c'), false);
+  });
+
+  test('flags a re-scan whose hash is a few bits off', () => {
+    assert.equal(dHashDistance('ffff0000ffff0000', 'ffff0000ffff0003'), 2);
+    const groups = findDuplicateGroups([
+      { fileId: 'scan', dHash: 'ffff0000ffff0000', codeTexts: ['https://coursera.org/verify/ABC123'] },
+      { fileId: 'rescan', dHash: 'ffff0000ffff0003' },
+    ]);
+    assert.deepEqual(groups.get('scan'), ['rescan']);
+  });
+
+  test('does not flag certificates from one template with different credential codes', () => {
+    const groups = findDuplicateGroups([
+      { fileId: 'asha', dHash: 'ffff0000ffff0000', codeTexts: ['https://coursera.org/verify/ABC123'] },
+      { fileId: 'ravi', dHash: 'ffff0000ffff0001', codeTexts: ['https://coursera.org/verify/XYZ789'] },
+    ]);
+    assert.equal(groups.size, 0);
+  });
+
+  test('does not flag images more than a few bits apart', () => {
+    const groups = findDuplicateGroups([
+      { fileId: 'a', dHash: 'ffff0000ffff0000' },
+      { fileId: 'b', dHash: 'ffff0000ffff000f' },
+    ]);
+    assert.equal(groups.size, 0);
+  });
+});
@@ -0,0 +1,51 @@
+// Shared by the server (flagging duplicates in /api/user-images) and any client code comparing hashes.
+
+// Max differing bits between two dHashes for images to count as near-identical. Certificates printed from
+// one issuer template differ in only a few bits, so this stays tight and decoded codes must agree as well.
+export const NEAR_DUPLICATE_MAX_DISTANCE = 3;
+
+// Hamming distance between two equal-length hex hashes, compared one nibble at a time.
+export const dHashDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      count += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return count;
+};
+
+export interface HashedFile {
+  fileId: string;
+  sha256?: string;
+  dHash?: string;
+  pageNumber?: number;
+  codeTexts?: string[]; // Contents of QR codes/barcodes decoded from the image, e.g. a credential's verification link
+}
+
+// Two certificates from the same template carry different credential codes; an image without a decoded code
+// (none printed, or unreadable in that scan) neither confirms nor rules out a match.
+const codesAgree = (a: HashedFile, b: HashedFile): boolean =>
+  !a.codeTexts?.length || !b.codeTexts?.length || a.codeTexts.some(text => b.codeTexts!.includes(text));
+
+// For each file, the ids of other files that are exact copies (same content hash and page) or
+// visually near-identical (close dHash, no conflicting codes). Pages of one PDF share the PDF's sha256, hence the page check.
+export function findDuplicateGroups(files: HashedFile[]): Map<string, string[]> {
+  const duplicates = new Map<string, string[]>();
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      const a = files[i];
+      const b = files[j];
+      const exactCopy = !!a.sha256 && a.sha256 === b.sha256 && a.pageNumber === b.pageNumber;
+      const nearIdentical = !!a.dHash && !!b.dHash && dHashDistance(a.dHash, b.dHash) <= NEAR_DUPLICATE_MAX_DISTANCE && codesAgree(a, b);
+      if (exactCopy || nearIdentical) {
+        duplicates.set(a.fileId, [...(duplicates.get(a.fileId) || []), b.fileId]);
+        duplicates.set(b.fileId, [...(duplicates.get(b.fileId) || []), a.fileId]);
+      }
+    }
+  }
+  return duplicates;
+}
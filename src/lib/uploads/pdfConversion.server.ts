@@ -0,0 +1,180 @@
+// NO 'use client'; directive - runs Poppler binaries and talks to the Flask server.
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { promises as fsPromises } from 'fs';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MongoError } from 'mongodb';
+import type { StoredFileResult, TempUploadedFile, UploadContext } from '@/lib/uploads/processUpload.server';
+
+const execFileAsync = promisify(execFile);
+
+const FLASK_SERVER_URL = process.env.NEXT_PUBLIC_FLASK_SERVER_URL;
+const POPPLER_PATH = process.env.POPPLER_PATH; // Same variable the Flask server reads
+const RENDER_DPI = 200; // Matches convert_from_bytes(dpi=200) in app.py
+const FLASK_HEALTH_TIMEOUT_MS = 3000;
+const FLASK_HEALTH_CACHE_MS = 30 * 1000;
+
+// 'flask': always use the Python server. 'local': always rasterize in-process with Poppler.
+// 'auto' (default): use Flask while its health check passes, otherwise (or if it fails mid-request) convert locally.
+export type PdfConversionMode = 'flask' | 'local' | 'auto';
+export const PDF_CONVERSION_MODE: PdfConversionMode =
+  (['flask', 'local', 'auto'] as const).find(m => m === process.env.PDF_CONVERSION_MODE) ?? 'auto';
+
+export type PdfConversionEngine = 'flask' | 'local';
+
+const logPrefix = (reqId: string) => `pdfConversion (Req ID: ${reqId})`;
+
+let flaskHealth: { healthy: boolean; checkedAt: number } | null = null;
+
+// GET / on the Flask server, cached briefly so a burst of uploads does not probe it for every file.
+export async function isFlaskHealthy(): Promise<boolean> {
+  if (!FLASK_SERVER_URL) return false;
+  if (flaskHealth && Date.now() - flaskHealth.checkedAt < FLASK_HEALTH_CACHE_MS) return flaskHealth.healthy;
+
+  let healthy = false;
+  try {
+    const response = await fetch(`${FLASK_SERVER_URL}/`, { signal: AbortSignal.timeout(FLASK_HEALTH_TIMEOUT_MS), cache: 'no-store' });
+    healthy = response.ok;
+  } catch (error: any) {
+    console.warn(`pdfConversion: Flask health check failed for ${FLASK_SERVER_URL}:`, error.message);
+  }
+  flaskHealth = { healthy, checkedAt: Date.now() };
+  return healthy;
+}
+
+const convertViaFlask = async (file: TempUploadedFile, originalName: string, ctx: UploadContext): Promise<StoredFileResult[]> => {
+  const { reqId, userId } = ctx;
+  console.log(`${logPrefix(reqId)}: Sending PDF to Flask for conversion: '${originalName}'. Target: ${FLASK_SERVER_URL}/api/convert-pdf-to-images`);
+
+  const flaskFormData = new FormData();
+  const fileBuffer = await fsPromises.readFile(file.filepath);
+  flaskFormData.append('pdf_file', new Blob([fileBuffer], { type: 'application/pdf' }), originalName);
+  flaskFormData.append('userId', userId);
+  flaskFormData.append('originalName', originalName);
+
+  const flaskResponse = await fetch(`${FLASK_SERVER_URL}/api/convert-pdf-to-images`, {
+    method: 'POST',
+    body: flaskFormData,
+  });
+
+  const flaskResponseText = await flaskResponse.text();
+  console.log(`${logPrefix(reqId)}: Flask response for PDF conversion. Status: ${flaskResponse.status}. Body preview: ${flaskResponseText.substring(0, 200)}`);
+
+  if (!flaskResponse.ok) {
+    let flaskErrorMsg = `Flask server failed to process PDF '${originalName}'. Status: ${flaskResponse.status}.`;
+    try {
+      const parsedFlaskError = JSON.parse(flaskResponseText);
+      flaskErrorMsg = parsedFlaskError.error || flaskErrorMsg;
+    } catch (e) { /* ignore parsing error, use status and raw text if short */
+      if (flaskResponseText.length < 200) flaskErrorMsg += ` Response: ${flaskResponseText}`;
+    }
+    throw new Error(flaskErrorMsg);
+  }
+
+  const flaskResult = JSON.parse(flaskResponseText);
+  if (!flaskResult.converted_files || !Array.isArray(flaskResult.converted_files)) {
+    throw new Error(`Flask server (for PDF '${originalName}') did not return expected "converted_files" array.`);
+  }
+
+  return flaskResult.converted_files.map((convertedFile: any) => ({
+    originalName: convertedFile.originalName,
+    fileId: convertedFile.fileId,
+    filename: convertedFile.filename,
+    contentType: 'image/png',
+    pageNumber: convertedFile.pageNumber,
+  }));
+};
+
+// Resolves the pdftocairo executable: POPPLER_PATH if set, the binaries bundled with pdf-poppler on
+// macOS and Windows, otherwise whatever is on PATH (poppler-utils on Linux).
+const resolvePdftocairo = async (): Promise<string> => {
+  if (POPPLER_PATH) return path.join(POPPLER_PATH, 'pdftocairo');
+  if (process.platform === 'darwin' || process.platform === 'win32') {
+    const poppler = await import('pdf-poppler');
+    return path.join(poppler.path, 'pdftocairo');
+  }
+  return 'pdftocairo';
+};
+
+const pageNumberFromOutputName = (fileName: string): number => Number(/-(\d+)\.png$/.exec(fileName)?.[1] ?? NaN);
+
+const convertLocally = async (file: TempUploadedFile, originalName: string, ctx: UploadContext): Promise<StoredFileResult[]> => {
+  const { reqId, userId, bucket } = ctx;
+  const outputDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), `nextjs_pdfpages_${reqId}_`));
+  try {
+    const pdftocairo = await resolvePdftocairo();
+    console.log(`${logPrefix(reqId)}: Rasterizing '${originalName}' in-process with ${pdftocairo} at ${RENDER_DPI} DPI.`);
+    await execFileAsync(pdftocairo, ['-png', '-r', String(RENDER_DPI), file.filepath, path.join(outputDir, 'page')], { maxBuffer: 5000 * 1024 });
+
+    // pdftocairo writes page-1.png, page-2.png... (zero-padded when there are 10+ pages).
+    const pageFiles = (await fsPromises.readdir(outputDir))
+      .filter(name => Number.isFinite(pageNumberFromOutputName(name)))
+      .sort((a, b) => pageNumberFromOutputName(a) - pageNumberFromOutputName(b));
+    if (pageFiles.length === 0) {
+      throw new Error(`Poppler produced no page images for '${originalName}'.`);
+    }
+
+    const baseName = path.parse(originalName).name.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    const pages: StoredFileResult[] = [];
+    for (const pageFile of pageFiles) {
+      const pageNumber = pageNumberFromOutputName(pageFile);
+      const filename = `${userId}_${Date.now()}_${baseName}_page_${pageNumber}.png`;
+      // Same metadata shape as the Flask converter, so OCR and listing treat both identically.
+      const metadata = {
+        originalName: `${originalName} (Page ${pageNumber})`,
+        userId,
+        uploadedAt: new Date().toISOString(),
+        sourceContentType: 'application/pdf',
+        convertedTo: 'image/png',
+        pageNumber,
+        reqIdParent: reqId,
+      };
+      const uploadStream = bucket.openUploadStream(filename, { contentType: 'image/png', metadata });
+      await new Promise<void>((resolve, reject) => {
+        fs.createReadStream(path.join(outputDir, pageFile))
+          .on('error', reject)
+          .pipe(uploadStream)
+          .on('error', (err: MongoError) => reject(new Error(`GridFS upload error: ${err.message}`)))
+          .on('finish', () => resolve());
+      });
+      pages.push({ originalName: metadata.originalName, fileId: uploadStream.id.toString(), filename, contentType: 'image/png', pageNumber });
+    }
+    return pages;
+  } finally {
+    await fsPromises.rm(outputDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+};
+
+/**
+ * Converts a PDF into one PNG per page stored in the `images` GridFS bucket, using Flask or Poppler
+ * in-process according to PDF_CONVERSION_MODE. Throws when no engine could convert the file.
+ */
+export async function convertPdfToPageImages(
+  file: TempUploadedFile,
+  originalName: string,
+  ctx: UploadContext
+): Promise<{ pages: StoredFileResult[]; engine: PdfConversionEngine }> {
+  if (PDF_CONVERSION_MODE === 'local') {
+    return { pages: await convertLocally(file, originalName, ctx), engine: 'local' };
+  }
+  if (PDF_CONVERSION_MODE === 'flask') {
+    if (!FLASK_SERVER_URL) {
+      throw new Error('Server configuration error: Flask server URL not set (PDF_CONVERSION_MODE=flask).');
+    }
+    return { pages: await convertViaFlask(file, originalName, ctx), engine: 'flask' };
+  }
+
+  if (await isFlaskHealthy()) {
+    try {
+      return { pages: await convertViaFlask(file, originalName, ctx), engine: 'flask' };
+    } catch (flaskError: any) {
+      console.warn(`${logPrefix(ctx.reqId)}: Flask conversion failed (${flaskError.message}). Falling back to in-process conversion.`);
+      flaskHealth = { healthy: false, checkedAt: Date.now() };
+    }
+  } else {
+    console.log(`${logPrefix(ctx.reqId)}: Flask server is ${FLASK_SERVER_URL ? 'unhealthy' : 'not configured'}. Converting in-process.`);
+  }
+  return { pages: await convertLocally(file, originalName, ctx), engine: 'local' };
+}
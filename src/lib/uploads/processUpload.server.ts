@@ -0,0 +1,299 @@
+// NO 'use client'; directive - reads temp files from disk and writes to GridFS.
+import { promises as fsPromises } from 'fs';
+import fs from 'fs';
+import { MongoError, ObjectId, type Db, type GridFSBucket } from 'mongodb';
+import type { AuthenticatedCaller } from '@/lib/auth/apiAuth.server';
+import { recordUploadedCertificate_SERVER } from '@/lib/services/certificateExtraction.server';
+import { isLinkedAdminOfStudent_SERVER } from '@/lib/services/userService.server';
+import { computeImageDHash } from '@/lib/uploads/contentHash.server';
+import { readGridFsFile } from '@/lib/uploads/gridFsFiles.server';
+import { decodeImageCodes } from '@/lib/uploads/codeScanning.server';
+import { convertPdfToPageImages, PDF_CONVERSION_MODE } from '@/lib/uploads/pdfConversion.server';
+import { estimatePdfPageCount, isMimeMismatch, sniffFileType, SIGNATURE_BYTES_NEEDED } from '@/lib/uploads/fileSignature';
+import {
+  fileTooLargeError,
+  mimeMismatchError,
+  tooManyPagesError,
+  unsupportedTypeError,
+  type UploadLimits,
+  type UploadValidationError,
+} from '@/lib/uploads/uploadLimits';
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const SUPPORTED_PDF_TYPE = 'application/pdf';
+const FLASK_SERVER_URL = process.env.NEXT_PUBLIC_FLASK_SERVER_URL;
+
+// 'owner' when the file owner uploaded it themselves, 'linkedAdmin' when an admin uploaded it on behalf of a linked student.
+export type UploaderRole = 'owner' | 'linkedAdmin';
+
+// A multipart file that has already been written to a temp path by the route.
+export interface TempUploadedFile {
+  filepath: string;
+  originalFilename: string | null;
+  mimetype: string | null;
+  size: number;
+  sha256: string; // Hashed while the file was written to `filepath` (see writeFileWithSha256)
+}
+
+// One GridFS file produced by an upload. A PDF yields one entry per converted page.
+export interface StoredFileResult {
+  originalName: string;
+  fileId: string;
+  filename: string;
+  contentType: string;
+  pageNumber?: number;
+  parentFileId?: string; // For converted PDF pages: the GridFS id of the original PDF they were rendered from
+}
+
+export interface UploadContext {
+  reqId: string;
+  userId: string; // Owner of the stored files
+  uploadedBy: string; // UID of the authenticated caller
+  uploadedByRole: UploaderRole;
+  db: Db;
+  bucket: GridFSBucket;
+  allowDuplicate?: boolean; // Store the file even if the owner already has one with the same content
+  limits: UploadLimits; // Size and page limits for the uploading caller's role
+}
+
+export type ProcessUploadResult =
+  | { ok: true; files: StoredFileResult[] }
+  // errorKey 'DUPLICATE_FILE' carries the existing copy; resend with allowDuplicate to store it anyway.
+  | { ok: false; status: number; errorKey: string; message: string; existingFileId?: string; existingOriginalName?: string };
+
+const logPrefix = (reqId: string) => `processUpload (Req ID: ${reqId})`;
+
+const readFileHead = async (filepath: string): Promise<Uint8Array> => {
+  const handle = await fsPromises.open(filepath, 'r');
+  try {
+    const head = Buffer.alloc(SIGNATURE_BYTES_NEEDED);
+    const { bytesRead } = await handle.read(head, 0, SIGNATURE_BYTES_NEEDED, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+// Finds a file the owner already has with the same source bytes (for a PDF, its stored original or else its first page).
+export const findExistingCopy = (db: Db, userId: string, sha256: string, excludeFileId?: ObjectId) =>
+  db.collection('images.files').findOne(
+    { 'metadata.userId': userId, 'metadata.sha256': sha256, ...(excludeFileId ? { _id: { $ne: excludeFileId } } : {}) },
+    { sort: { 'metadata.pageNumber': 1, uploadDate: 1 }, projection: { _id: 1, 'metadata.originalName': 1, filename: 1 } }
+  );
+
+export type UploadOwnerResult =
+  | { ok: true; userId: string; uploadedByRole: UploaderRole }
+  | { ok: false; status: number; errorKey: string; message: string };
+
+/**
+ * Decides whose hub an upload lands in. The owner comes from the verified ID token; a requested `userId`
+ * is only honoured when it names the caller, or a student linked to the calling admin (admin uploading
+ * paper certificates on their behalf).
+ */
+export async function resolveUploadOwner_SERVER(caller: AuthenticatedCaller, requestedUserId: string | undefined, reqId: string): Promise<UploadOwnerResult> {
+  const userId = requestedUserId || caller.uid;
+  if (userId === caller.uid) {
+    return { ok: true, userId, uploadedByRole: 'owner' };
+  }
+
+  const canUploadForStudent = caller.role === 'admin' && await isLinkedAdminOfStudent_SERVER(caller.uid, userId);
+  if (!canUploadForStudent) {
+    console.warn(`${logPrefix(reqId)}: UPLOAD FORBIDDEN - Caller ${caller.uid} (role: ${caller.role}) attempted to upload for user ${userId}.`);
+    return { ok: false, status: 403, errorKey: 'UPLOAD_FORBIDDEN', message: 'Forbidden: You can only upload to your own account or to a student linked to you.' };
+  }
+  console.log(`${logPrefix(reqId)}: Linked admin ${caller.uid} is uploading on behalf of student ${userId}.`);
+  return { ok: true, userId, uploadedByRole: 'linkedAdmin' };
+}
+
+// Both converters write the page files themselves, so stamp the uploader and content hashes onto their metadata here.
+// Every page carries the PDF's sha256; each page image also gets its own perceptual hash and decoded QR codes/barcodes.
+// Pages are linked to the stored original PDF through `parentFileId`.
+const stampConvertedPages = async (pages: StoredFileResult[], sha256: string, parentFileId: string, ctx: UploadContext): Promise<void> => {
+  for (const page of pages.filter(p => ObjectId.isValid(p.fileId))) {
+    page.parentFileId = parentFileId;
+    const pageObjectId = new ObjectId(page.fileId);
+    const pageBuffer = await readGridFsFile(ctx.bucket, pageObjectId).catch(() => null);
+    const dHash = pageBuffer ? await computeImageDHash(pageBuffer) : null;
+    const decodedCodes = pageBuffer ? await decodeImageCodes(pageBuffer) : [];
+    await ctx.db.collection('images.files').updateOne(
+      { _id: pageObjectId, 'metadata.userId': ctx.userId },
+      { $set: { 'metadata.uploadedBy': ctx.uploadedBy, 'metadata.uploadedByRole': ctx.uploadedByRole, 'metadata.sha256': sha256, 'metadata.dHash': dHash, 'metadata.parentFileId': parentFileId, 'metadata.decodedCodes': decodedCodes } }
+    );
+  }
+};
+
+// Streams the temp file into GridFS as-is. Used for images and for the original of a converted PDF.
+const storeFileInGridFS = async (
+  file: TempUploadedFile,
+  originalName: string,
+  fileType: string,
+  sha256: string,
+  ctx: UploadContext,
+  extraMetadata: Record<string, unknown> = {}
+): Promise<StoredFileResult> => {
+  const { reqId, userId } = ctx;
+  console.log(`${logPrefix(reqId)}: Storing ${fileType} directly in GridFS for file '${originalName}'.`);
+  const imageFilename = `${userId}_${Date.now()}_${originalName.replace(/[^a-zA-Z0-9_.-]/g, '_')}`;
+  const imageBuffer = fileType === SUPPORTED_PDF_TYPE ? null : await fsPromises.readFile(file.filepath);
+  const dHash = imageBuffer ? await computeImageDHash(imageBuffer) : null;
+  const decodedCodes = imageBuffer ? await decodeImageCodes(imageBuffer) : undefined;
+  if (decodedCodes && decodedCodes.length > 0) {
+    console.log(`${logPrefix(reqId)}: Decoded ${decodedCodes.length} code(s) from '${originalName}': ${decodedCodes.map(c => c.format).join(', ')}.`);
+  }
+  const metadata = {
+    ...extraMetadata,
+    originalName,
+    userId,
+    uploadedBy: ctx.uploadedBy,
+    uploadedByRole: ctx.uploadedByRole,
+    uploadedAt: new Date().toISOString(),
+    sourceContentType: fileType,
+    explicitContentType: fileType,
+    reqIdParent: reqId,
+    sha256,
+    dHash,
+    ...(decodedCodes ? { decodedCodes } : {}),
+  };
+
+  const uploadStream = ctx.bucket.openUploadStream(imageFilename, { contentType: fileType, metadata });
+  const readable = fs.createReadStream(file.filepath);
+
+  await new Promise<void>((resolveStream, rejectStream) => {
+    readable.on('error', (err) => {
+      console.error(`${logPrefix(reqId)}: Error reading temp file ${file.filepath} for ${imageFilename}. Name: ${err.name}, Message: ${err.message}`);
+      rejectStream(new Error(`Error reading temporary file: ${err.message}`));
+    });
+    uploadStream.on('error', (err: MongoError) => {
+      console.error(`${logPrefix(reqId)}: GridFS Stream Error for image ${imageFilename}. Name: ${err.name}, Message: ${err.message}`);
+      rejectStream(new Error(`GridFS upload error: ${err.message}`));
+    });
+    uploadStream.on('finish', () => {
+      console.log(`${logPrefix(reqId)}: GridFS Upload finished successfully for image: ${imageFilename}, ID: ${uploadStream.id}.`);
+      resolveStream();
+    });
+    readable.pipe(uploadStream);
+  });
+
+  return { originalName, fileId: uploadStream.id.toString(), filename: imageFilename, contentType: fileType };
+};
+
+// Creates the draft certificate for stored files and starts field extraction. The upload itself already
+// succeeded, so a failure here is only logged; the certificates list backfills missing drafts later.
+export const recordCertificateForUpload = async (
+  ctx: Pick<UploadContext, 'db' | 'bucket' | 'userId' | 'uploadedBy' | 'reqId'>,
+  fileIds: string[],
+  analyzeFileId: string
+): Promise<void> => {
+  await recordUploadedCertificate_SERVER({ ...ctx, fileIds, analyzeFileId }).catch((error: any) => {
+    console.error(`${logPrefix(ctx.reqId)}: Could not record certificate for file(s) ${fileIds.join(', ')}:`, error.message);
+  });
+};
+
+/**
+ * Validates (size, magic bytes, page count, duplicates) and stores one uploaded file for `ctx.userId`:
+ * images go straight into GridFS, PDFs are converted to one image per page (Flask server or in-process Poppler, see pdfConversion.server.ts). Never throws; failures come back as `{ ok: false, errorKey }` so
+ * batch uploads can report them per file without aborting the rest.
+ */
+export async function processUploadedFile_SERVER(file: TempUploadedFile, ctx: UploadContext): Promise<ProcessUploadResult> {
+  const originalName = file.originalFilename || 'unknown_file';
+  const declaredType = file.mimetype;
+  console.log(`${logPrefix(ctx.reqId)}: Processing file: ${originalName}, Declared type: ${declaredType}, Size: ${file.size}, Temp path: ${file.filepath}`);
+
+  const rejectWith = (status: number, { errorKey, message }: UploadValidationError): ProcessUploadResult => {
+    console.warn(`${logPrefix(ctx.reqId)}: Rejected '${originalName}' with ${errorKey}: ${message}`);
+    return { ok: false, status, errorKey, message };
+  };
+
+  if (file.size > ctx.limits.maxFileBytes) {
+    return rejectWith(413, fileTooLargeError(file.size, ctx.limits));
+  }
+
+  // Reading the file or querying for duplicates can fail on its own; report that for this file only.
+  let fileType: ReturnType<typeof sniffFileType>;
+  const { sha256 } = file;
+  let existing: Awaited<ReturnType<typeof findExistingCopy>>;
+  try {
+    // The browser-supplied mimetype is only a claim; the file's own signature decides how it is processed.
+    fileType = sniffFileType(await readFileHead(file.filepath));
+    if (!fileType) {
+      return rejectWith(415, unsupportedTypeError(declaredType));
+    }
+    if (isMimeMismatch(declaredType, fileType)) {
+      return rejectWith(415, mimeMismatchError(declaredType || '', fileType));
+    }
+    if (fileType === SUPPORTED_PDF_TYPE) {
+      const estimatedPages = estimatePdfPageCount(await fsPromises.readFile(file.filepath));
+      if (estimatedPages !== null && estimatedPages > ctx.limits.maxPdfPages) {
+        return rejectWith(413, tooManyPagesError(estimatedPages, ctx.limits));
+      }
+    }
+
+    existing = await findExistingCopy(ctx.db, ctx.userId, sha256);
+  } catch (checkError: any) {
+    console.error(`${logPrefix(ctx.reqId)}: Could not read or check '${originalName}' before storing it. Message: ${checkError.message}`);
+    return { ok: false, status: 500, errorKey: 'UPLOAD_CHECK_FAILED', message: `Server Error: Could not read or check '${originalName}': ${checkError.message}` };
+  }
+  if (existing && !ctx.allowDuplicate) {
+    const existingOriginalName = existing.metadata?.originalName || existing.filename;
+    console.log(`${logPrefix(ctx.reqId)}: Duplicate of existing file ${existing._id} ('${existingOriginalName}') for user ${ctx.userId}. Not storing.`);
+    return {
+      ok: false,
+      status: 409,
+      errorKey: 'DUPLICATE_FILE',
+      message: `You already uploaded this file as '${existingOriginalName}'.`,
+      existingFileId: existing._id.toString(),
+      existingOriginalName,
+    };
+  }
+
+  if (fileType === SUPPORTED_PDF_TYPE) {
+    if (PDF_CONVERSION_MODE === 'flask' && !FLASK_SERVER_URL) {
+      console.error(`${logPrefix(ctx.reqId)}: Configuration Error - NEXT_PUBLIC_FLASK_SERVER_URL is not set and PDF_CONVERSION_MODE is 'flask'.`);
+      return { ok: false, status: 500, errorKey: 'FLASK_URL_MISSING', message: 'Server configuration error: Flask server URL not set.' };
+    }
+    try {
+      console.log(`${logPrefix(ctx.reqId)}: PDF file detected. Converting '${originalName}' (mode: ${PDF_CONVERSION_MODE}).`);
+      const { pages, engine } = await convertPdfToPageImages(file, originalName, ctx);
+      console.log(`${logPrefix(ctx.reqId)}: PDF successfully converted (${engine}). ${pages.length} page(s) processed for '${originalName}'.`);
+      const deletePages = () => Promise.all(pages.filter(p => ObjectId.isValid(p.fileId)).map(p => ctx.bucket.delete(new ObjectId(p.fileId)).catch(() => undefined)));
+      if (pages.length === 0) {
+        console.error(`${logPrefix(ctx.reqId)}: Conversion of '${originalName}' produced no pages. Not storing the original.`);
+        return { ok: false, status: 422, errorKey: 'PDF_NO_PAGES', message: `No pages could be rendered from '${originalName}'.` };
+      }
+      // The pre-check above cannot see pages inside compressed object streams, so verify the real count too.
+      if (pages.length > ctx.limits.maxPdfPages) {
+        await deletePages();
+        return rejectWith(413, tooManyPagesError(pages.length, ctx.limits));
+      }
+      // Keep the source PDF too (embedded text, digital signatures); the pages stay the viewable/OCR-able copies.
+      const original = await storeFileInGridFS(file, originalName, SUPPORTED_PDF_TYPE, sha256, ctx, { isPdfOriginal: true, pageCount: pages.length })
+        .catch(async (storeError) => { await deletePages(); throw storeError; });
+      await stampConvertedPages(pages, sha256, original.fileId, ctx).catch(async (stampError) => {
+        await Promise.all([deletePages(), ctx.bucket.delete(new ObjectId(original.fileId)).catch(() => undefined)]);
+        throw stampError;
+      });
+      await recordCertificateForUpload(ctx, [original.fileId, ...pages.map(p => p.fileId)], pages[0].fileId);
+      return { ok: true, files: pages };
+    } catch (pdfProcessingError: any) {
+      let detailedErrorMessage = `Failed PDF processing for '${originalName}'.`;
+      if (pdfProcessingError.code === 'ENOENT') {
+        detailedErrorMessage += ` Poppler's pdftocairo was not found, so the PDF could not be converted locally. Install poppler-utils or set POPPLER_PATH${FLASK_SERVER_URL ? `, or make sure the Flask server at ${FLASK_SERVER_URL} is running` : ''}.`;
+      } else if (pdfProcessingError.message && pdfProcessingError.message.toLowerCase().includes('fetch failed')) {
+        detailedErrorMessage += ` The Next.js server could not connect to the Flask server at ${FLASK_SERVER_URL}/api/convert-pdf-to-images. Please ensure the Flask server is running, accessible, and the URL is correct. Original error: ${pdfProcessingError.message}`;
+      } else {
+        detailedErrorMessage += ` Error during conversion: ${pdfProcessingError.message}`;
+      }
+      console.error(`${logPrefix(ctx.reqId)}: Error during PDF processing for '${originalName}'. Detailed Message: ${detailedErrorMessage}`);
+      return { ok: false, status: 500, errorKey: 'PDF_CONVERSION_FAILED', message: `Server Error: ${detailedErrorMessage}` };
+    }
+  }
+
+  try {
+    const stored = await storeFileInGridFS(file, originalName, fileType, sha256, ctx);
+    await recordCertificateForUpload(ctx, [stored.fileId], stored.fileId);
+    return { ok: true, files: [stored] };
+  } catch (imageProcessingError: any) {
+    console.error(`${logPrefix(ctx.reqId)}: Error during direct image processing/upload for '${originalName}'. Message: ${imageProcessingError.message}`);
+    return { ok: false, status: 500, errorKey: 'IMAGE_UPLOAD_FAILED', message: `Server Error: Failed during image processing for '${originalName}': ${imageProcessingError.message}` };
+  }
+}
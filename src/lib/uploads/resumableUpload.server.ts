@@ -0,0 +1,447 @@
+// NO 'use client'; directive - writes upload chunks straight into GridFS and publishes the file once complete.
+import { createHash, randomBytes } from 'crypto';
+import { promises as fsPromises } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Binary, ObjectId, type Db, type GridFSBucket } from 'mongodb';
+import {
+  findExistingCopy,
+  processUploadedFile_SERVER,
+  recordCertificateForUpload,
+  SUPPORTED_IMAGE_TYPES,
+  SUPPORTED_PDF_TYPE,
+  type StoredFileResult,
+  type UploaderRole,
+} from '@/lib/uploads/processUpload.server';
+import { computeImageDHash, writeFileWithSha256 } from '@/lib/uploads/contentHash.server';
+import { readGridFsFile } from '@/lib/uploads/gridFsFiles.server';
+import { decodeImageCodes } from '@/lib/uploads/codeScanning.server';
+import { isMimeMismatch, normalizeMimeType, sniffFileType } from '@/lib/uploads/fileSignature';
+import { fileTooLargeError, mimeMismatchError, unsupportedTypeError, type UploadLimits } from '@/lib/uploads/uploadLimits';
+
+// Resumable upload protocol:
+//   1. init     - POST   /api/uploads/resumable                     -> creates an `uploadSessions` doc and returns its id
+//   2. chunks   - PUT    /api/uploads/resumable/[uploadId]?offset=N -> writes the bytes as GridFS chunks of the session's file
+//   3. complete - POST   /api/uploads/resumable/[uploadId]/complete -> adds the GridFS file document (and converts PDFs)
+// GET /api/uploads/resumable/[uploadId] reports how many bytes the server has, so a client can resume after a reload.
+// Chunks go straight into the 'images' bucket rather than server memory, so uploads survive restarts and work across
+// instances. Until the file is published, its GridFS documents carry `expiresAt`; TTL indexes on that field remove
+// abandoned sessions and the chunks and staged files they left behind.
+
+export const UPLOAD_SESSIONS_COLLECTION = 'uploadSessions';
+const GRIDFS_FILES_COLLECTION = 'images.files';
+const GRIDFS_CHUNKS_COLLECTION = 'images.chunks';
+// GridFS chunk size of resumable uploads. Upload chunks are whole multiples of it, so every PUT maps onto whole GridFS chunks.
+const GRIDFS_CHUNK_SIZE_BYTES = 256 * 1024;
+const MAX_CHUNK_SIZE_BYTES = 64 * 1024 * 1024; // Each upload chunk is held in memory while it is written
+export const RESUMABLE_CHUNK_SIZE_BYTES = Math.min(
+  Math.max(1, Math.round((Number(process.env.RESUMABLE_UPLOAD_CHUNK_BYTES) || 4 * 1024 * 1024) / GRIDFS_CHUNK_SIZE_BYTES)) * GRIDFS_CHUNK_SIZE_BYTES,
+  MAX_CHUNK_SIZE_BYTES
+); // 4 MB
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // Unfinished sessions are abandoned after a day
+const ASSEMBLY_CLAIM_MS = 10 * 60 * 1000; // A completion whose worker died can be retried after this
+
+export type UploadSessionStatus = 'active' | 'completed' | 'aborted';
+
+export interface UploadSession {
+  _id: string;
+  userId: string; // Owner of the stored files
+  uploadedBy: string;
+  uploadedByRole: UploaderRole;
+  originalName: string;
+  contentType: string;
+  totalBytes: number;
+  receivedBytes: number;
+  gridFsFileId: ObjectId; // GridFS file the chunks are written to
+  assemblingUntil?: Date | null; // Set while a completion request finalizes the file
+  allowDuplicate: boolean;
+  limits: UploadLimits; // The uploader's limits when the session started
+  status: UploadSessionStatus;
+  results?: StoredFileResult[];
+  abortReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+// A GridFS chunk written by a resumable upload. `expiresAt` is removed when the file is published.
+interface StagedGridFsChunk {
+  files_id: ObjectId;
+  n: number;
+  data: Binary;
+  expiresAt?: Date;
+}
+
+// What the routes send back to the client.
+export interface UploadSessionView {
+  uploadId: string;
+  originalName: string;
+  contentType: string;
+  totalBytes: number;
+  receivedBytes: number;
+  chunkSize: number;
+  status: UploadSessionStatus;
+  results?: StoredFileResult[];
+}
+
+type Failure = { ok: false; status: number; errorKey: string; message: string; details?: Record<string, unknown>; existingFileId?: string };
+export type UploadSessionResult = { ok: true; session: UploadSessionView } | Failure;
+export type CompleteUploadResult = { ok: true; session: UploadSessionView; files: StoredFileResult[] } | Failure;
+
+interface StorageHandles {
+  db: Db;
+  bucket: GridFSBucket;
+}
+
+const logPrefix = (uploadId: string) => `resumableUpload (Upload ID: ${uploadId})`;
+
+const toView = (session: UploadSession): UploadSessionView => ({
+  uploadId: session._id,
+  originalName: session.originalName,
+  contentType: session.contentType,
+  totalBytes: session.totalBytes,
+  receivedBytes: session.receivedBytes,
+  chunkSize: RESUMABLE_CHUNK_SIZE_BYTES,
+  status: session.status,
+  results: session.results,
+});
+
+const sessions = (db: Db) => db.collection<UploadSession>(UPLOAD_SESSIONS_COLLECTION);
+const gridFsChunks = (db: Db) => db.collection<StagedGridFsChunk>(GRIDFS_CHUNKS_COLLECTION);
+
+let indexesReady: Promise<void> | null = null;
+
+// Creates the TTL indexes once per process; a failure is retried on the next session.
+const ensureIndexes = (db: Db): Promise<void> => {
+  indexesReady ??= Promise.all([
+    sessions(db).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    // Only staged GridFS documents have `expiresAt`; the partial filter keeps published files out of the indexes.
+    db.collection(GRIDFS_FILES_COLLECTION).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0, partialFilterExpression: { expiresAt: { $exists: true } } }),
+    gridFsChunks(db).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0, partialFilterExpression: { expiresAt: { $exists: true } } }),
+    // GridFS's own chunk index, normally created by the driver's first upload stream.
+    gridFsChunks(db).createIndex({ files_id: 1, n: 1 }, { unique: true }),
+  ]).then(() => undefined).catch((error: any) => {
+    indexesReady = null;
+    console.warn('resumableUpload: Could not create upload session indexes:', error.message);
+  });
+  return indexesReady;
+};
+
+// Removes the session's GridFS file: its chunks and, if completion got that far, its file document.
+const deleteStagedFile = async (db: Db, fileId: ObjectId) => {
+  await gridFsChunks(db).deleteMany({ files_id: fileId });
+  await db.collection(GRIDFS_FILES_COLLECTION).deleteOne({ _id: fileId });
+};
+
+// Checks that the written chunks add up to the whole file, then adds the GridFS file document that makes them readable.
+const finalizeStagedFile = async (session: UploadSession, { db }: StorageHandles): Promise<{ filename: string }> => {
+  const expectedChunks = Math.ceil(session.totalBytes / GRIDFS_CHUNK_SIZE_BYTES);
+  const [written] = await gridFsChunks(db).aggregate<{ count: number; bytes: number; lastN: number }>([
+    { $match: { files_id: session.gridFsFileId } },
+    { $group: { _id: null, count: { $sum: 1 }, bytes: { $sum: { $binarySize: '$data' } }, lastN: { $max: '$n' } } },
+  ]).toArray();
+  if (!written || written.count !== expectedChunks || written.lastN !== expectedChunks - 1 || written.bytes !== session.totalBytes) {
+    throw new Error(`GridFS holds ${written?.bytes ?? 0} of ${session.totalBytes} bytes in ${written?.count ?? 0} of ${expectedChunks} chunks.`);
+  }
+
+  const filename = `${session.userId}_${Date.now()}_${session.originalName.replace(/[^a-zA-Z0-9_.-]/g, '_')}`;
+  // The file is only staged here (no `userId`, so it stays out of the user's hub and out of Flask's per-user
+  // queries). On completion images are published to the owner; PDFs are converted to page images instead.
+  const metadata = {
+    originalName: session.originalName,
+    stagedForUserId: session.userId,
+    stagedUpload: true,
+    uploadedBy: session.uploadedBy,
+    uploadedByRole: session.uploadedByRole,
+    uploadedAt: new Date().toISOString(),
+    sourceContentType: session.contentType,
+    explicitContentType: session.contentType,
+    reqIdParent: session._id,
+  };
+  await db.collection(GRIDFS_FILES_COLLECTION).replaceOne(
+    { _id: session.gridFsFileId },
+    {
+      length: session.totalBytes,
+      chunkSize: GRIDFS_CHUNK_SIZE_BYTES,
+      uploadDate: new Date(),
+      filename,
+      contentType: session.contentType,
+      metadata,
+      expiresAt: session.expiresAt,
+    },
+    { upsert: true }
+  );
+  return { filename };
+};
+
+// The written chunks are dropped with the session; an aborted upload is never resumed.
+const markAborted = async (db: Db, session: UploadSession, abortReason: string) => {
+  await sessions(db).updateOne({ _id: session._id }, { $set: { status: 'aborted', abortReason, assemblingUntil: null, updatedAt: new Date() } });
+  await deleteStagedFile(db, session.gridFsFileId);
+};
+
+// Loads a session and checks that `callerUid` started it and that it can still accept work.
+const loadActiveSession = async (uploadId: string, callerUid: string, db: Db, { allowCompleted = false } = {}): Promise<{ ok: true; session: UploadSession } | Failure> => {
+  const session = await sessions(db).findOne({ _id: uploadId });
+  if (!session) {
+    return { ok: false, status: 404, errorKey: 'UPLOAD_SESSION_NOT_FOUND', message: 'Upload session not found.' };
+  }
+  if (session.uploadedBy !== callerUid) {
+    console.warn(`${logPrefix(uploadId)}: Caller ${callerUid} does not own this session (started by ${session.uploadedBy}).`);
+    return { ok: false, status: 403, errorKey: 'UPLOAD_SESSION_FORBIDDEN', message: 'Forbidden: This upload session belongs to another user.' };
+  }
+  if (session.status === 'completed' && allowCompleted) {
+    return { ok: true, session };
+  }
+  if (session.status !== 'active') {
+    return { ok: false, status: 409, errorKey: 'UPLOAD_SESSION_NOT_ACTIVE', message: `Upload session is ${session.status}.` };
+  }
+  if (session.expiresAt.getTime() < Date.now()) {
+    await markAborted(db, session, 'expired');
+    return { ok: false, status: 410, errorKey: 'UPLOAD_SESSION_EXPIRED', message: 'Upload session has expired. Please upload the file again.' };
+  }
+  return { ok: true, session };
+};
+
+export async function createUploadSession_SERVER(
+  input: { userId: string; uploadedBy: string; uploadedByRole: UploaderRole; originalName: string; contentType: string; totalBytes: number; allowDuplicate?: boolean; limits: UploadLimits },
+  { db }: StorageHandles
+): Promise<UploadSessionResult> {
+  input = { ...input, contentType: normalizeMimeType(input.contentType) };
+  if (!SUPPORTED_IMAGE_TYPES.includes(input.contentType) && input.contentType !== SUPPORTED_PDF_TYPE) {
+    return { ok: false, status: 415, ...unsupportedTypeError(input.contentType) };
+  }
+  if (!Number.isSafeInteger(input.totalBytes) || input.totalBytes <= 0) {
+    return { ok: false, status: 400, errorKey: 'INVALID_TOTAL_BYTES', message: 'totalBytes must be a positive integer.' };
+  }
+  if (input.totalBytes > input.limits.maxFileBytes) {
+    return { ok: false, status: 413, ...fileTooLargeError(input.totalBytes, input.limits) };
+  }
+
+  const now = new Date();
+  const session: UploadSession = {
+    _id: randomBytes(16).toString('hex'),
+    userId: input.userId,
+    uploadedBy: input.uploadedBy,
+    uploadedByRole: input.uploadedByRole,
+    originalName: input.originalName,
+    contentType: input.contentType,
+    totalBytes: input.totalBytes,
+    receivedBytes: 0,
+    gridFsFileId: new ObjectId(),
+    allowDuplicate: !!input.allowDuplicate,
+    limits: input.limits,
+    status: 'active',
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+  };
+  await ensureIndexes(db);
+  await sessions(db).insertOne(session);
+  console.log(`${logPrefix(session._id)}: Session created for '${session.originalName}' (${session.totalBytes} bytes) owned by ${session.userId}.`);
+  return { ok: true, session: toView(session) };
+}
+
+export async function getUploadSession_SERVER(uploadId: string, callerUid: string, { db }: StorageHandles): Promise<UploadSessionResult> {
+  const session = await sessions(db).findOne({ _id: uploadId });
+  if (!session) {
+    return { ok: false, status: 404, errorKey: 'UPLOAD_SESSION_NOT_FOUND', message: 'Upload session not found.' };
+  }
+  if (session.uploadedBy !== callerUid) {
+    return { ok: false, status: 403, errorKey: 'UPLOAD_SESSION_FORBIDDEN', message: 'Forbidden: This upload session belongs to another user.' };
+  }
+  return { ok: true, session: toView(session) };
+}
+
+// Reads a chunk request body, giving up (null) as soon as it grows past `maxBytes`, so a PUT cannot buffer more than that.
+export async function readChunkBody(body: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<Buffer | null> {
+  if (!body) return Buffer.alloc(0);
+  const reader = body.getReader();
+  const parts: Uint8Array[] = [];
+  let totalBytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.byteLength;
+    if (totalBytes > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    parts.push(value);
+  }
+  return Buffer.concat(parts, totalBytes);
+}
+
+export async function appendUploadChunk_SERVER(uploadId: string, callerUid: string, offset: number, chunk: Buffer, handles: StorageHandles): Promise<UploadSessionResult> {
+  const loaded = await loadActiveSession(uploadId, callerUid, handles.db);
+  if (!loaded.ok) return loaded;
+  const { session } = loaded;
+
+  if (offset !== session.receivedBytes) {
+    // Usually a retried chunk whose first attempt did reach the server; the client continues from expectedOffset.
+    return { ok: false, status: 409, errorKey: 'CHUNK_OFFSET_MISMATCH', message: `Expected a chunk at offset ${session.receivedBytes}.`, details: { expectedOffset: session.receivedBytes } };
+  }
+  if (chunk.length === 0 || chunk.length > RESUMABLE_CHUNK_SIZE_BYTES) {
+    return { ok: false, status: 400, errorKey: 'INVALID_CHUNK_SIZE', message: `Chunks must be between 1 and ${RESUMABLE_CHUNK_SIZE_BYTES} bytes.` };
+  }
+  if (offset + chunk.length > session.totalBytes) {
+    return { ok: false, status: 400, errorKey: 'CHUNK_EXCEEDS_FILE_SIZE', message: 'Chunk extends past the declared file size.' };
+  }
+  // Only the last chunk may end part-way through a GridFS chunk.
+  if (chunk.length % GRIDFS_CHUNK_SIZE_BYTES !== 0 && offset + chunk.length !== session.totalBytes) {
+    return { ok: false, status: 400, errorKey: 'INVALID_CHUNK_SIZE', message: `Every chunk but the last must be a multiple of ${GRIDFS_CHUNK_SIZE_BYTES} bytes.` };
+  }
+
+  // The declared content type is checked against the file's magic bytes as soon as they arrive.
+  if (offset === 0) {
+    const sniffed = sniffFileType(chunk);
+    const rejection = !sniffed ? unsupportedTypeError(session.contentType) : isMimeMismatch(session.contentType, sniffed) ? mimeMismatchError(session.contentType, sniffed) : null;
+    if (rejection) {
+      console.warn(`${logPrefix(uploadId)}: First chunk rejected with ${rejection.errorKey}.`);
+      await markAborted(handles.db, session, rejection.errorKey);
+      return { ok: false, status: 415, ...rejection };
+    }
+  }
+
+  const firstN = offset / GRIDFS_CHUNK_SIZE_BYTES;
+  try {
+    // Replacing by chunk number makes a retried PUT overwrite what an earlier attempt wrote.
+    const writes = [];
+    for (let start = 0; start < chunk.length; start += GRIDFS_CHUNK_SIZE_BYTES) {
+      const n = firstN + start / GRIDFS_CHUNK_SIZE_BYTES;
+      const data = new Binary(chunk.subarray(start, start + GRIDFS_CHUNK_SIZE_BYTES));
+      writes.push({ replaceOne: { filter: { files_id: session.gridFsFileId, n }, replacement: { files_id: session.gridFsFileId, n, data, expiresAt: session.expiresAt }, upsert: true } });
+    }
+    await gridFsChunks(handles.db).bulkWrite(writes, { ordered: false });
+    // Only advances if no other request stored a chunk at this offset in the meantime.
+    const receivedBytes = session.receivedBytes + chunk.length;
+    const advanced = await sessions(handles.db).updateOne(
+      { _id: uploadId, status: 'active', receivedBytes: offset },
+      { $set: { receivedBytes, updatedAt: new Date() } }
+    );
+    if (advanced.modifiedCount === 0) {
+      const current = await sessions(handles.db).findOne({ _id: uploadId }, { projection: { receivedBytes: 1 } });
+      return { ok: false, status: 409, errorKey: 'CHUNK_OFFSET_MISMATCH', message: 'Another chunk for this upload was stored first.', details: { expectedOffset: current?.receivedBytes ?? offset } };
+    }
+    return { ok: true, session: toView({ ...session, receivedBytes }) };
+  } catch (error: any) {
+    console.error(`${logPrefix(uploadId)}: Storing the chunk at offset ${offset} failed:`, error.message);
+    return { ok: false, status: 500, errorKey: 'CHUNK_WRITE_FAILED', message: `Failed to store chunk: ${error.message}` };
+  }
+}
+
+// Converts a staged PDF into page images via the normal upload pipeline, then removes the staged copy.
+const convertStagedPdf = async (session: UploadSession, handles: StorageHandles) => {
+  const tempFilePath = path.join(os.tmpdir(), `nextjs_resumable_${session._id}.pdf`);
+  try {
+    const { sha256 } = await writeFileWithSha256(handles.bucket.openDownloadStream(session.gridFsFileId), tempFilePath);
+    const outcome = await processUploadedFile_SERVER(
+      { filepath: tempFilePath, originalFilename: session.originalName, mimetype: session.contentType, size: session.totalBytes, sha256 },
+      { reqId: session._id, userId: session.userId, uploadedBy: session.uploadedBy, uploadedByRole: session.uploadedByRole, allowDuplicate: session.allowDuplicate, limits: session.limits, ...handles }
+    );
+    await handles.bucket.delete(session.gridFsFileId).catch((error: any) => {
+      console.warn(`${logPrefix(session._id)}: Could not delete staged PDF ${session.gridFsFileId}:`, error.message);
+    });
+    return outcome;
+  } finally {
+    await fsPromises.unlink(tempFilePath).catch(() => undefined);
+  }
+};
+
+// Moves a fully received image from staging into the owner's hub, unless the owner already has the same bytes.
+const publishStagedImage = async (session: UploadSession, handles: StorageHandles): Promise<{ ok: true } | Failure> => {
+  const imageBuffer = await readGridFsFile(handles.bucket, session.gridFsFileId);
+  const sha256 = createHash('sha256').update(imageBuffer).digest('hex');
+  const existing = await findExistingCopy(handles.db, session.userId, sha256, session.gridFsFileId);
+  if (existing && !session.allowDuplicate) {
+    const existingOriginalName = existing.metadata?.originalName || existing.filename;
+    console.log(`${logPrefix(session._id)}: Duplicate of existing file ${existing._id} for user ${session.userId}. Discarding staged copy.`);
+    await handles.bucket.delete(session.gridFsFileId).catch(() => undefined);
+    return {
+      ok: false,
+      status: 409,
+      errorKey: 'DUPLICATE_FILE',
+      message: `You already uploaded this file as '${existingOriginalName}'.`,
+      existingFileId: existing._id.toString(),
+    };
+  }
+
+  const dHash = await computeImageDHash(imageBuffer);
+  const decodedCodes = await decodeImageCodes(imageBuffer);
+  // Chunks first: a file document without `expiresAt` must never point at chunks that can still expire.
+  await gridFsChunks(handles.db).updateMany({ files_id: session.gridFsFileId }, { $unset: { expiresAt: '' } });
+  await handles.db.collection(GRIDFS_FILES_COLLECTION).updateOne(
+    { _id: session.gridFsFileId },
+    {
+      $set: { 'metadata.userId': session.userId, 'metadata.sha256': sha256, 'metadata.dHash': dHash, 'metadata.decodedCodes': decodedCodes },
+      $unset: { 'metadata.stagedForUserId': '', 'metadata.stagedUpload': '', expiresAt: '' },
+    }
+  );
+  return { ok: true };
+};
+
+export async function completeUploadSession_SERVER(uploadId: string, callerUid: string, handles: StorageHandles): Promise<CompleteUploadResult> {
+  const loaded = await loadActiveSession(uploadId, callerUid, handles.db, { allowCompleted: true });
+  if (!loaded.ok) return loaded;
+  const { session } = loaded;
+
+  // Completing twice (e.g. the first response was lost) returns the original result.
+  if (session.status === 'completed') {
+    return { ok: true, session: toView(session), files: session.results || [] };
+  }
+  if (session.receivedBytes !== session.totalBytes) {
+    return { ok: false, status: 409, errorKey: 'UPLOAD_INCOMPLETE', message: `Only ${session.receivedBytes} of ${session.totalBytes} bytes received.`, details: { expectedOffset: session.receivedBytes } };
+  }
+
+  // Claim the session so a concurrent completion does not publish the same file twice.
+  const now = new Date();
+  const claimed = await sessions(handles.db).findOneAndUpdate(
+    { _id: uploadId, status: 'active', $or: [{ assemblingUntil: null }, { assemblingUntil: { $exists: false } }, { assemblingUntil: { $lt: now } }] },
+    { $set: { assemblingUntil: new Date(now.getTime() + ASSEMBLY_CLAIM_MS), updatedAt: now } }
+  );
+  if (!claimed) {
+    return { ok: false, status: 409, errorKey: 'UPLOAD_COMPLETING', message: 'This upload is already being completed. Check its status again shortly.' };
+  }
+
+  let filename: string;
+  try {
+    ({ filename } = await finalizeStagedFile(session, handles));
+  } catch (error: any) {
+    console.error(`${logPrefix(uploadId)}: Failed to finalize GridFS file:`, error.message);
+    await markAborted(handles.db, session, 'finalize_failed');
+    return { ok: false, status: 500, errorKey: 'UPLOAD_FINALIZE_FAILED', message: `Failed to finalize upload: ${error.message}` };
+  }
+  console.log(`${logPrefix(uploadId)}: GridFS file ${session.gridFsFileId} finalized (${session.totalBytes} bytes).`);
+
+  let files: StoredFileResult[];
+  if (session.contentType === SUPPORTED_PDF_TYPE) {
+    const outcome = await convertStagedPdf(session, handles);
+    if (!outcome.ok) {
+      await markAborted(handles.db, session, outcome.errorKey);
+      return outcome;
+    }
+    files = outcome.files;
+  } else {
+    const published = await publishStagedImage(session, handles).catch((error: any): Failure => {
+      console.error(`${logPrefix(uploadId)}: Failed to publish GridFS file:`, error.message);
+      return { ok: false, status: 500, errorKey: 'UPLOAD_FINALIZE_FAILED', message: `Failed to finalize upload: ${error.message}` };
+    });
+    if (!published.ok) {
+      await markAborted(handles.db, session, published.errorKey);
+      return published;
+    }
+    files = [{ originalName: session.originalName, fileId: session.gridFsFileId.toString(), filename, contentType: session.contentType }];
+    await recordCertificateForUpload({ ...handles, userId: session.userId, uploadedBy: session.uploadedBy, reqId: uploadId }, [files[0].fileId], files[0].fileId);
+  }
+
+  await sessions(handles.db).updateOne({ _id: uploadId }, { $set: { status: 'completed', results: files, assemblingUntil: null, updatedAt: new Date() } });
+  return { ok: true, session: toView({ ...session, status: 'completed', results: files }), files };
+}
+
+export async function abortUploadSession_SERVER(uploadId: string, callerUid: string, handles: StorageHandles): Promise<UploadSessionResult> {
+  const loaded = await loadActiveSession(uploadId, callerUid, handles.db);
+  if (!loaded.ok) return loaded;
+  await markAborted(handles.db, loaded.session, 'client_aborted');
+  console.log(`${logPrefix(uploadId)}: Session aborted by client.`);
+  return { ok: true, session: toView({ ...loaded.session, status: 'aborted' }) };
+}
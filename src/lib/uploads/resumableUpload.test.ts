@@ -0,0 +1,33 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readChunkBody } from '@/lib/uploads/resumableUpload.server';
+
+const streamOf = (...parts: number[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    for (const size of parts) controller.enqueue(new Uint8Array(size).fill(7));
+    controller.close();
+  },
+});
+
+describe('readChunkBody', () => {
+  test('returns the whole body up to the limit', async () => {
+    const body = await readChunkBody(streamOf(3, 5), 8);
+    assert.equal(body?.length, 8);
+  });
+
+  test('stops reading once the body passes the limit', async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled += 1;
+        controller.enqueue(new Uint8Array(4));
+      },
+    });
+    assert.equal(await readChunkBody(endless, 10), null);
+    assert.ok(pulled <= 4, `read ${pulled} parts of an endless body`);
+  });
+
+  test('treats a missing body as empty', async () => {
+    assert.equal((await readChunkBody(null, 8))?.length, 0);
+  });
+});
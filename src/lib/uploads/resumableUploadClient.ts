@@ -0,0 +1,198 @@
+// Browser side of the resumable upload protocol served by /api/uploads/resumable (see resumableUpload.server.ts).
+// Unfinished uploads are remembered in localStorage so that selecting the same file again after a page
+// reload continues from the last byte the server acknowledged.
+
+// Files at or above this size use the resumable protocol instead of a single multipart request.
+export const RESUMABLE_UPLOAD_THRESHOLD_BYTES = 8 * 1024 * 1024; // 8 MB
+
+const PENDING_UPLOADS_STORAGE_KEY = 'certintel.pendingResumableUploads';
+const MAX_CHUNK_ATTEMPTS = 4;
+
+export interface PendingResumableUpload {
+  uploadId: string;
+  fingerprint: string;
+  fileName: string;
+  size: number;
+  ownerUserId: string;
+  startedAt: string;
+}
+
+export interface StoredFileMeta {
+  originalName: string;
+  fileId: string;
+  filename?: string;
+  pageNumber?: number;
+}
+
+export type ResumableUploadOutcome =
+  | { ok: true; files: StoredFileMeta[]; resumedFromBytes: number }
+  | { ok: false; message: string; errorKey?: string; existingFileId?: string };
+
+interface ResumableUploadOptions {
+  ownerUserId: string;
+  getIdToken: () => Promise<string>;
+  onProgress?: (fraction: number) => void;
+  allowDuplicate?: boolean; // Store the file even if the owner already has an identical copy
+}
+
+// Identifies "the same file" across reloads. File objects cannot be persisted, so the user re-selects it.
+export const getFileFingerprint = (file: File, ownerUserId: string): string =>
+  `${ownerUserId}:${file.name}:${file.size}:${file.lastModified}`;
+
+export const listPendingResumableUploads = (): PendingResumableUpload[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(PENDING_UPLOADS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.warn('resumableUploadClient: Could not read pending uploads from localStorage.', error);
+    return [];
+  }
+};
+
+const writePendingResumableUploads = (entries: PendingResumableUpload[]) => {
+  try {
+    window.localStorage.setItem(PENDING_UPLOADS_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn('resumableUploadClient: Could not save pending uploads to localStorage.', error);
+  }
+};
+
+const rememberPendingUpload = (entry: PendingResumableUpload) =>
+  writePendingResumableUploads([...listPendingResumableUploads().filter(p => p.fingerprint !== entry.fingerprint), entry]);
+
+const forgetPendingUpload = (uploadId: string) =>
+  writePendingResumableUploads(listPendingResumableUploads().filter(p => p.uploadId !== uploadId));
+
+const readJson = async (response: Response): Promise<any> => {
+  try {
+    return await response.json();
+  } catch {
+    return {};
+  }
+};
+
+// Tells the server to discard an unfinished upload and forgets it locally.
+export async function discardPendingResumableUpload(uploadId: string, idToken: string): Promise<void> {
+  forgetPendingUpload(uploadId);
+  try {
+    await fetch(`/api/uploads/resumable/${uploadId}`, { method: 'DELETE', headers: { 'Authorization': `Bearer ${idToken}` } });
+  } catch (error: any) {
+    console.warn(`resumableUploadClient: Could not abort upload ${uploadId} on the server:`, error.message);
+  }
+}
+
+// Returns the offset to continue from for a remembered upload, or null when it has to start over.
+const resumeOffsetFor = async (pending: PendingResumableUpload, idToken: string): Promise<{ offset: number; chunkSize: number; completedFiles?: StoredFileMeta[] } | null> => {
+  const response = await fetch(`/api/uploads/resumable/${pending.uploadId}`, { headers: { 'Authorization': `Bearer ${idToken}` } });
+  const body = await readJson(response);
+  if (!response.ok || body.status === 'aborted') {
+    console.log(`resumableUploadClient: Upload ${pending.uploadId} cannot be resumed (${body.errorKey || body.status}). Starting over.`);
+    forgetPendingUpload(pending.uploadId);
+    return null;
+  }
+  if (body.status === 'completed') {
+    return { offset: body.totalBytes, chunkSize: body.chunkSize, completedFiles: body.results || [] };
+  }
+  return { offset: body.receivedBytes, chunkSize: body.chunkSize };
+};
+
+/**
+ * Uploads `file` in chunks, resuming a previously started upload of the same file when the server still has it.
+ * Transient chunk failures are retried with backoff; the upload stays resumable if it ultimately fails.
+ */
+export async function uploadFileResumable(file: File, { ownerUserId, getIdToken, onProgress, allowDuplicate = false }: ResumableUploadOptions): Promise<ResumableUploadOutcome> {
+  const fingerprint = getFileFingerprint(file, ownerUserId);
+  let uploadId: string | null = null;
+  let offset = 0;
+  let chunkSize = 0;
+
+  const pending = listPendingResumableUploads().find(p => p.fingerprint === fingerprint);
+  if (pending) {
+    const resume = await resumeOffsetFor(pending, await getIdToken());
+    if (resume?.completedFiles) {
+      forgetPendingUpload(pending.uploadId);
+      onProgress?.(1);
+      return { ok: true, files: resume.completedFiles, resumedFromBytes: file.size };
+    }
+    if (resume) {
+      uploadId = pending.uploadId;
+      offset = resume.offset;
+      chunkSize = resume.chunkSize;
+      console.log(`resumableUploadClient: Resuming upload ${uploadId} for '${file.name}' at byte ${offset} of ${file.size}.`);
+    }
+  }
+  const resumedFromBytes = offset;
+
+  if (!uploadId) {
+    const initResponse = await fetch('/api/uploads/resumable', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${await getIdToken()}` },
+      body: JSON.stringify({ fileName: file.name, contentType: file.type, totalBytes: file.size, userId: ownerUserId, allowDuplicate }),
+    });
+    const initBody = await readJson(initResponse);
+    if (!initResponse.ok) {
+      return { ok: false, message: initBody.message || `Could not start upload. Server responded with status ${initResponse.status}.`, errorKey: initBody.errorKey };
+    }
+    uploadId = initBody.uploadId as string;
+    chunkSize = initBody.chunkSize;
+    rememberPendingUpload({ uploadId, fingerprint, fileName: file.name, size: file.size, ownerUserId, startedAt: new Date().toISOString() });
+  }
+  onProgress?.(offset / file.size);
+
+  let attempt = 0;
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + chunkSize);
+    try {
+      const response = await fetch(`/api/uploads/resumable/${uploadId}?offset=${offset}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream', 'Authorization': `Bearer ${await getIdToken()}` },
+        body: chunk,
+      });
+      const body = await readJson(response);
+
+      if (response.ok) {
+        offset = body.receivedBytes;
+        chunkSize = body.chunkSize || chunkSize;
+        attempt = 0;
+        onProgress?.(offset / file.size);
+        continue;
+      }
+      if (body.errorKey === 'CHUNK_OFFSET_MISMATCH' && typeof body.expectedOffset === 'number') {
+        offset = body.expectedOffset; // A retried chunk that had in fact arrived; continue from the server's position
+        continue;
+      }
+      if (response.status < 500 && response.status !== 409) {
+        // Not retryable (session lost, expired, forbidden...). Start fresh next time.
+        forgetPendingUpload(uploadId);
+        return { ok: false, message: body.message || `Upload failed with status ${response.status}.`, errorKey: body.errorKey };
+      }
+      throw new Error(body.message || `Server responded with status ${response.status}.`);
+    } catch (error: any) {
+      attempt += 1;
+      if (attempt >= MAX_CHUNK_ATTEMPTS) {
+        return { ok: false, message: `Upload paused at ${Math.round((offset / file.size) * 100)}%: ${error.message} Select the file again to resume.`, errorKey: 'CHUNK_UPLOAD_FAILED' };
+      }
+      console.warn(`resumableUploadClient: Chunk at offset ${offset} failed (attempt ${attempt}/${MAX_CHUNK_ATTEMPTS}). Retrying...`, error.message);
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+
+  const completeResponse = await fetch(`/api/uploads/resumable/${uploadId}/complete`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${await getIdToken()}` },
+  });
+  const completeBody = await readJson(completeResponse);
+  if (!completeResponse.ok) {
+    // UPLOAD_INCOMPLETE and UPLOAD_COMPLETING (409) can still be resumed; anything else, including DUPLICATE_FILE, ends the session.
+    if (completeBody.errorKey !== 'UPLOAD_INCOMPLETE' && completeBody.errorKey !== 'UPLOAD_COMPLETING') forgetPendingUpload(uploadId);
+    return {
+      ok: false,
+      message: completeBody.message || `Could not finish upload. Server responded with status ${completeResponse.status}.`,
+      errorKey: completeBody.errorKey,
+      existingFileId: completeBody.existingFileId,
+    };
+  }
+  forgetPendingUpload(uploadId);
+  return { ok: true, files: Array.isArray(completeBody) ? completeBody : [], resumedFromBytes };
+}
@@ -0,0 +1,25 @@
+// NO 'use client'; directive - reads server-only environment configuration.
+import type { UserRole } from '@/lib/models/user';
+import type { UploadLimits } from '@/lib/uploads/uploadLimits';
+
+const MB = 1024 * 1024;
+
+const readPositiveNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Limits follow the role of whoever uploads, so an admin digitizing paper certificates for a
+// student gets the admin limits.
+const LIMITS_BY_ROLE: Record<UserRole, UploadLimits> = {
+  student: {
+    maxFileBytes: readPositiveNumber('UPLOAD_MAX_FILE_MB_STUDENT', 20) * MB,
+    maxPdfPages: readPositiveNumber('UPLOAD_MAX_PDF_PAGES_STUDENT', 30),
+  },
+  admin: {
+    maxFileBytes: readPositiveNumber('UPLOAD_MAX_FILE_MB_ADMIN', 50) * MB,
+    maxPdfPages: readPositiveNumber('UPLOAD_MAX_PDF_PAGES_ADMIN', 100),
+  },
+};
+
+export const getUploadLimitsForRole = (role: UserRole): UploadLimits => LIMITS_BY_ROLE[role] ?? LIMITS_BY_ROLE.student;
@@ -0,0 +1,68 @@
+// Upload limit types and checks shared by the server pipeline and ImageUploader's pre-upload validation.
+// The actual per-role values are configured on the server (uploadLimits.server.ts) and exposed to the
+// client through GET /api/uploads/limits.
+import {
+  estimatePdfPageCount,
+  isMimeMismatch,
+  sniffFileType,
+  SIGNATURE_BYTES_NEEDED,
+} from '@/lib/uploads/fileSignature';
+
+export interface UploadLimits {
+  maxFileBytes: number;
+  maxPdfPages: number;
+}
+
+export type UploadValidationErrorKey = 'FILE_TOO_LARGE' | 'MIME_MISMATCH' | 'TOO_MANY_PAGES' | 'UNSUPPORTED_FILE_TYPE';
+
+export interface UploadValidationError {
+  errorKey: UploadValidationErrorKey;
+  message: string;
+}
+
+export const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
+export const fileTooLargeError = (size: number, limits: UploadLimits): UploadValidationError => ({
+  errorKey: 'FILE_TOO_LARGE',
+  message: `File is ${formatMegabytes(size)}; the limit is ${formatMegabytes(limits.maxFileBytes)}.`,
+});
+
+export const mimeMismatchError = (declared: string, sniffed: string): UploadValidationError => ({
+  errorKey: 'MIME_MISMATCH',
+  message: `File claims to be ${declared} but its contents are ${sniffed}. Please re-export or rename the file.`,
+});
+
+export const tooManyPagesError = (pages: number, limits: UploadLimits): UploadValidationError => ({
+  errorKey: 'TOO_MANY_PAGES',
+  message: `PDF has ${pages} pages; the limit is ${limits.maxPdfPages}. Please split it into smaller files.`,
+});
+
+export const unsupportedTypeError = (declared: string | null | undefined): UploadValidationError => ({
+  errorKey: 'UNSUPPORTED_FILE_TYPE',
+  message: `Unsupported file type${declared ? ` (${declared})` : ''}. Only JPEG, PNG, GIF, WebP images and PDFs are accepted.`,
+});
+
+/**
+ * Client-side pre-check of a selected File against the caller's limits. The server repeats every check,
+ * so this only exists to fail fast before sending bytes.
+ */
+export async function validateFileBeforeUpload(file: File, limits: UploadLimits): Promise<UploadValidationError | null> {
+  if (file.size > limits.maxFileBytes) {
+    return fileTooLargeError(file.size, limits);
+  }
+  const head = new Uint8Array(await file.slice(0, SIGNATURE_BYTES_NEEDED).arrayBuffer());
+  const sniffed = sniffFileType(head);
+  if (!sniffed) {
+    return unsupportedTypeError(file.type);
+  }
+  if (isMimeMismatch(file.type, sniffed)) {
+    return mimeMismatchError(file.type, sniffed);
+  }
+  if (sniffed === 'application/pdf') {
+    const pages = estimatePdfPageCount(new Uint8Array(await file.arrayBuffer()));
+    if (pages !== null && pages > limits.maxPdfPages) {
+      return tooManyPagesError(pages, limits);
+    }
+  }
+  return null;
+}
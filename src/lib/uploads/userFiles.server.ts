@@ -0,0 +1,54 @@
+// NO 'use client'; directive - reads GridFS file metadata and signs image URLs.
+import type { Db } from 'mongodb';
+import type { DecodedCode, UserImage } from '@/lib/models/userImage';
+import { findDuplicateGroups } from '@/lib/uploads/imageSimilarity';
+import { createSignedImageUrl } from '@/lib/imageUrlSigning.server';
+
+/**
+ * Lists every file in the 'images' bucket owned by `userId`, newest first, in the shape the grid expects.
+ * Signed URLs are issued to `viewerUid`, the authenticated caller (the owner or their linked admin).
+ */
+export async function listUserFiles_SERVER(db: Db, userId: string, viewerUid: string): Promise<UserImage[]> {
+  const userImages = await db.collection('images.files').find(
+    { 'metadata.userId': userId },
+    {
+      projection: {
+        _id: 1,
+        filename: 1,
+        uploadDate: 1,
+        contentType: 1,
+        length: 1,
+        metadata: 1
+      }
+    }
+  ).sort({ uploadDate: -1 }).toArray();
+
+  // Exact copies (same sha256) and visually near-identical items (close dHash, matching codes) are flagged for the grid.
+  const duplicateGroups = findDuplicateGroups(userImages.map(img => ({
+    fileId: img._id.toString(),
+    sha256: img.metadata?.sha256,
+    dHash: img.metadata?.dHash,
+    pageNumber: img.metadata?.pageNumber,
+    codeTexts: ((img.metadata?.decodedCodes || []) as DecodedCode[]).map(code => code.text),
+  })));
+
+  return userImages.map(img => ({
+    fileId: img._id.toString(),
+    filename: img.filename,
+    uploadDate: img.uploadDate as string,
+    contentType: img.contentType,
+    originalName: img.metadata?.originalName || img.filename,
+    dataAiHint: img.metadata?.dataAiHint || '',
+    size: img.length || 0,
+    userId: img.metadata?.userId,
+    uploadedBy: img.metadata?.uploadedBy,
+    uploadedByRole: img.metadata?.uploadedByRole,
+    isPdfOriginal: img.metadata?.isPdfOriginal === true,
+    pageCount: img.metadata?.pageCount,
+    pageNumber: img.metadata?.pageNumber,
+    parentFileId: img.metadata?.parentFileId,
+    decodedCodes: img.metadata?.decodedCodes || [],
+    possibleDuplicateOf: duplicateGroups.get(img._id.toString()) || [],
+    signedUrl: createSignedImageUrl(img._id.toString(), viewerUid) ?? undefined,
+  }));
+}
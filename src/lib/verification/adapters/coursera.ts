@@ -0,0 +1,16 @@
+import { createPageVerifier, hostMatches } from '@/lib/verification/pageVerifier';
+
+const HOSTS = ['coursera.org'];
+
+// Coursera course and specialization certificates: coursera.org/verify/<code> (also /verify/specialization/<code>).
+export const courseraVerifier = createPageVerifier({
+  id: 'coursera',
+  issuerName: 'Coursera',
+  hosts: HOSTS,
+  issuerPattern: /coursera/i,
+  buildUrl: ({ verificationUrl, credentialId }) => {
+    if (hostMatches(verificationUrl, HOSTS)) return verificationUrl;
+    return credentialId && /^[A-Z0-9]{8,16}$/i.test(credentialId) ? `https://www.coursera.org/verify/${credentialId.toUpperCase()}` : null;
+  },
+  notFoundPattern: /page not found|we can(?:'|&#39;)t find the page/i,
+});
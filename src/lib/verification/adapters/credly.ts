@@ -0,0 +1,18 @@
+import { createPageVerifier, hostMatches } from '@/lib/verification/pageVerifier';
+
+const HOSTS = ['credly.com', 'youracclaim.com'];
+
+// Credly (formerly Acclaim) badges: credly.com/badges/<uuid>.
+export const credlyVerifier = createPageVerifier({
+  id: 'credly',
+  issuerName: 'Credly',
+  hosts: HOSTS,
+  issuerPattern: /credly|acclaim/i,
+  buildUrl: ({ verificationUrl, credentialId }) => {
+    if (hostMatches(verificationUrl, HOSTS)) return verificationUrl;
+    return credentialId && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(credentialId)
+      ? `https://www.credly.com/badges/${credentialId.toLowerCase()}`
+      : null;
+  },
+  notFoundPattern: /badge (?:could not be found|not found)/i,
+});
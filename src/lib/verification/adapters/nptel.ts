@@ -0,0 +1,13 @@
+import { createPageVerifier, hostMatches } from '@/lib/verification/pageVerifier';
+
+const HOSTS = ['nptel.ac.in', 'swayam.gov.in'];
+
+// NPTEL / SWAYAM e-certificates. Their roll-number style ids cannot be looked up directly,
+// so only the verification link printed (or QR-encoded) on the certificate is checked.
+export const nptelVerifier = createPageVerifier({
+  id: 'nptel',
+  issuerName: 'NPTEL',
+  hosts: HOSTS,
+  issuerPattern: /nptel|swayam/i,
+  buildUrl: ({ verificationUrl }) => (hostMatches(verificationUrl, HOSTS) ? verificationUrl : null),
+});
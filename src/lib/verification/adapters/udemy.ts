@@ -0,0 +1,15 @@
+import { createPageVerifier, hostMatches } from '@/lib/verification/pageVerifier';
+
+const HOSTS = ['udemy.com', 'ude.my'];
+
+// Udemy certificates of completion: udemy.com/certificate/UC-<uuid>/ (short links on ude.my).
+export const udemyVerifier = createPageVerifier({
+  id: 'udemy',
+  issuerName: 'Udemy',
+  hosts: HOSTS,
+  issuerPattern: /udemy/i,
+  buildUrl: ({ verificationUrl, credentialId }) => {
+    if (hostMatches(verificationUrl, HOSTS)) return verificationUrl;
+    return credentialId && /^UC-[0-9a-f-]{8,}$/i.test(credentialId) ? `https://www.udemy.com/certificate/${credentialId}/` : null;
+  },
+});
@@ -0,0 +1,29 @@
+import type { VerificationFetcher, VerificationHttpResponse } from '@/lib/verification/types';
+
+// A recorded issuer response. `finalUrl` is where redirects ended, when different from `url`.
+export interface RecordedHttpFixture {
+  url: string;
+  status: number;
+  finalUrl?: string;
+  body: string;
+}
+
+// Replays recorded responses; a request without a recording fails, so adapters never reach the network.
+export function createFixtureFetcher(fixtures: RecordedHttpFixture[]): VerificationFetcher {
+  const byUrl = new Map(fixtures.map(f => [f.url, f]));
+  return async (url: string): Promise<VerificationHttpResponse> => {
+    const fixture = byUrl.get(url);
+    if (!fixture) throw new Error(`No recorded fixture for ${url}`);
+    return { status: fixture.status, url: fixture.finalUrl || fixture.url, text: async () => fixture.body };
+  };
+}
+
+// Wraps a fetcher and hands every response to `record`, to capture new fixtures from live issuers.
+export function createRecordingFetcher(fetcher: VerificationFetcher, record: (fixture: RecordedHttpFixture) => void): VerificationFetcher {
+  return async (url: string): Promise<VerificationHttpResponse> => {
+    const response = await fetcher(url);
+    const body = await response.text();
+    record({ url, status: response.status, ...(response.url !== url ? { finalUrl: response.url } : {}), body });
+    return { status: response.status, url: response.url, text: async () => body };
+  };
+}
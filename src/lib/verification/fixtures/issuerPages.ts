@@ -0,0 +1,66 @@
+import type { RecordedHttpFixture } from '@/lib/verification/fixtureFetcher';
+
+// Issuer responses in the shape createRecordingFetcher captures, trimmed to the parts adapters read.
+// Each credential page names Asha Verma as the recipient.
+
+export const RECIPIENT_NAME = 'Asha Verma';
+
+export const COURSERA_VERIFIED = 'https://www.coursera.org/verify/ABCD1234EFGH';
+export const COURSERA_NOT_FOUND = 'https://www.coursera.org/verify/ZZZZ9999ZZZZ';
+export const UDEMY_VERIFIED = 'https://www.udemy.com/certificate/UC-1a2b3c4d-5e6f-7a8b-9c0d-1e2f3a4b5c6d/';
+export const UDEMY_REDIRECTED = 'https://www.udemy.com/certificate/UC-00000000-0000-0000-0000-000000000000/';
+export const CREDLY_VERIFIED = 'https://www.credly.com/badges/0f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a';
+export const CREDLY_GONE = 'https://www.credly.com/badges/11111111-2222-4333-8444-555555555555';
+export const NPTEL_VERIFIED = 'https://archive.nptel.ac.in/noc/Ecertificate/?q=NPTEL24CS01S12345678';
+
+export const issuerPageFixtures: RecordedHttpFixture[] = [
+  {
+    url: COURSERA_VERIFIED,
+    status: 200,
+    body: `<!DOCTYPE html><html><head><title>Verify | Coursera</title><script>window.__APP__ = {"user":"someone else"};</script></head>
+<body><main><h1>Course Certificate</h1>
+<p><strong>Asha Verma</strong>'s account is verified. Coursera certifies their successful completion of
+<a href="/learn/machine-learning">Machine Learning</a>.</p>
+<p>Completed by Asha Verma on March 3, 2024</p></main></body></html>`,
+  },
+  {
+    url: COURSERA_NOT_FOUND,
+    status: 200,
+    body: `<!DOCTYPE html><html><head><title>Coursera</title></head><body><h1>Page not found</h1>
+<p>We can&#39;t find the page you&#39;re looking for.</p></body></html>`,
+  },
+  {
+    url: UDEMY_VERIFIED,
+    status: 200,
+    body: `<!DOCTYPE html><html><head><title>Certificate of Completion | Udemy</title></head><body>
+<div class="certificate--certificate-container"><span>Certificate no: UC-1a2b3c4d-5e6f-7a8b-9c0d-1e2f3a4b5c6d</span>
+<h2>The Complete JavaScript Course 2024</h2><p>Instructors Jonas Schmedtmann</p>
+<div class="certificate--recipient">Asha Verma</div><p>Date Jan. 15, 2024 Length 69 total hours</p></div></body></html>`,
+  },
+  {
+    url: UDEMY_REDIRECTED,
+    status: 200,
+    finalUrl: 'https://www.example-partner.com/',
+    body: '<!DOCTYPE html><html><body><h1>Welcome</h1></body></html>',
+  },
+  {
+    url: CREDLY_VERIFIED,
+    status: 200,
+    body: `<!DOCTYPE html><html><head><title>AWS Certified Cloud Practitioner - Credly</title></head><body>
+<div class="badge-banner"><h1>AWS Certified Cloud Practitioner</h1><p>Issued by Amazon Web Services Training and Certification</p></div>
+<div class="earner"><p>This badge was issued to <a href="/users/asha-verma">Asha Verma</a> on February 10, 2024</p></div></body></html>`,
+  },
+  {
+    url: CREDLY_GONE,
+    status: 404,
+    body: '<!DOCTYPE html><html><body><h1>Badge not found</h1></body></html>',
+  },
+  {
+    url: NPTEL_VERIFIED,
+    status: 200,
+    body: `<!DOCTYPE html><html><body><table>
+<tr><td>Name</td><td>ASHA VERMA</td></tr>
+<tr><td>Course</td><td>Programming, Data Structures and Algorithms using Python</td></tr>
+<tr><td>Score</td><td>78%</td></tr></table></body></html>`,
+  },
+];
@@ -0,0 +1,85 @@
+import { normalizeNameTokens } from '@/lib/nameMatch';
+import type { CredentialToVerify, CredentialVerifier, VerificationFetcher, VerificationResult } from '@/lib/verification/types';
+
+// Most issuers publish one public page per credential. Such a page proves the credential exists;
+// only finding the recipient's name on it ties it to this certificate. Anyone can link a public page,
+// so a page that names the course but not the recipient leaves the result 'unknown'.
+export interface PageVerifierConfig {
+  id: string;
+  issuerName: string;
+  hosts: string[]; // Hostnames (and their subdomains) of the issuer's verification pages
+  issuerPattern: RegExp; // Matches the issuer name as written on certificates
+  // The page to check: the certificate's own verification URL when it points at the issuer, else one built from the credential id.
+  buildUrl(credential: CredentialToVerify): string | null;
+  notFoundPattern?: RegExp; // Text of the issuer's "no such credential" page when it answers 200
+}
+
+export const hostMatches = (url: string | null, hosts: string[]): boolean => {
+  if (!url) return false;
+  try {
+    const { hostname } = new URL(url);
+    return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+};
+
+const pageText = (html: string): string =>
+  normalizeNameTokens(html.replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]+>/g, ' ')).join(' ');
+
+const mentions = (text: string, value: string | null): boolean => {
+  const tokens = value ? normalizeNameTokens(value) : [];
+  return tokens.length > 0 && ` ${text} `.includes(` ${tokens.join(' ')} `);
+};
+
+export function createPageVerifier(config: PageVerifierConfig): CredentialVerifier {
+  const result = (status: VerificationResult['status'], detail: string, extra: Partial<VerificationResult['evidence']> = {}): VerificationResult => ({
+    status,
+    verifierId: config.id,
+    evidence: { checkedUrl: null, httpStatus: null, matchedFields: [], detail, ...extra },
+  });
+
+  return {
+    id: config.id,
+    issuerName: config.issuerName,
+    supports: (credential) =>
+      hostMatches(credential.verificationUrl, config.hosts) || (!!credential.issuer && config.issuerPattern.test(credential.issuer)),
+
+    async verify(credential: CredentialToVerify, fetcher: VerificationFetcher): Promise<VerificationResult> {
+      const checkedUrl = config.buildUrl(credential);
+      if (!checkedUrl) return result('unknown', `No ${config.issuerName} verification URL or credential ID to check.`);
+
+      let response;
+      try {
+        response = await fetcher(checkedUrl);
+      } catch (error: any) {
+        return result('unknown', `${config.issuerName} could not be reached: ${error.message}`, { checkedUrl });
+      }
+      const httpStatus = response.status;
+      if (httpStatus === 404 || httpStatus === 410) {
+        return result('invalid', `${config.issuerName} has no credential at this address.`, { checkedUrl, httpStatus });
+      }
+      if (httpStatus !== 200) {
+        return result('unknown', `${config.issuerName} answered with HTTP ${httpStatus}.`, { checkedUrl, httpStatus });
+      }
+      // Some issuers redirect unknown credentials to their home page instead of answering 404.
+      if (!hostMatches(response.url || checkedUrl, config.hosts)) {
+        return result('unknown', `Redirected away from ${config.issuerName} to ${response.url}.`, { checkedUrl, httpStatus });
+      }
+
+      const html = await response.text();
+      if (config.notFoundPattern?.test(html)) {
+        return result('invalid', `${config.issuerName} reports that this credential does not exist.`, { checkedUrl, httpStatus });
+      }
+      const text = pageText(html);
+      const matchedFields = (['recipientName', 'courseTitle'] as const).filter(field => mentions(text, credential[field]));
+      if (!matchedFields.includes('recipientName')) {
+        const detail = matchedFields.length > 0
+          ? `The ${config.issuerName} page names this course but not the certificate's recipient.`
+          : `The ${config.issuerName} page exists but does not mention this certificate's recipient or course.`;
+        return result('unknown', detail, { checkedUrl, httpStatus, matchedFields });
+      }
+      return result('verified', `${config.issuerName} lists this credential.`, { checkedUrl, httpStatus, matchedFields });
+    },
+  };
+}
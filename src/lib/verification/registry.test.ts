@@ -0,0 +1,85 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFixtureFetcher } from '@/lib/verification/fixtureFetcher';
+import { verifyCredential } from '@/lib/verification/registry';
+import type { CredentialToVerify } from '@/lib/verification/types';
+import {
+  COURSERA_NOT_FOUND,
+  COURSERA_VERIFIED,
+  CREDLY_GONE,
+  CREDLY_VERIFIED,
+  NPTEL_VERIFIED,
+  RECIPIENT_NAME,
+  UDEMY_REDIRECTED,
+  UDEMY_VERIFIED,
+  issuerPageFixtures,
+} from '@/lib/verification/fixtures/issuerPages';
+
+const fetcher = createFixtureFetcher(issuerPageFixtures);
+
+const credential = (fields: Partial<CredentialToVerify>): CredentialToVerify => ({
+  issuer: null,
+  courseTitle: null,
+  recipientName: RECIPIENT_NAME,
+  credentialId: null,
+  verificationUrl: null,
+  ...fields,
+});
+
+describe('verifyCredential with recorded issuer pages', () => {
+  test('verifies a Coursera certificate that names the recipient', async () => {
+    const result = await verifyCredential(credential({ issuer: 'Coursera', courseTitle: 'Machine Learning', verificationUrl: COURSERA_VERIFIED }), { fetcher });
+    assert.equal(result.status, 'verified');
+    assert.equal(result.verifierId, 'coursera');
+    assert.deepEqual(result.evidence.matchedFields, ['recipientName', 'courseTitle']);
+  });
+
+  test('builds the Coursera URL from the credential ID', async () => {
+    const result = await verifyCredential(credential({ issuer: 'Coursera', credentialId: 'abcd1234efgh' }), { fetcher });
+    assert.equal(result.evidence.checkedUrl, COURSERA_VERIFIED);
+    assert.equal(result.status, 'verified');
+  });
+
+  test("marks Coursera's not-found page as invalid", async () => {
+    const result = await verifyCredential(credential({ issuer: 'Coursera', verificationUrl: COURSERA_NOT_FOUND }), { fetcher });
+    assert.equal(result.status, 'invalid');
+  });
+
+  test('verifies Udemy, Credly and NPTEL pages that name the recipient', async () => {
+    for (const [issuer, verificationUrl] of [['Udemy', UDEMY_VERIFIED], ['Credly', CREDLY_VERIFIED], ['NPTEL', NPTEL_VERIFIED]]) {
+      const result = await verifyCredential(credential({ issuer, verificationUrl }), { fetcher });
+      assert.equal(result.status, 'verified', issuer);
+    }
+  });
+
+  test('does not verify a page that names the course but not the recipient', async () => {
+    const result = await verifyCredential(
+      credential({ issuer: 'Coursera', courseTitle: 'Machine Learning', recipientName: 'Ravi Kumar', verificationUrl: COURSERA_VERIFIED }),
+      { fetcher }
+    );
+    assert.equal(result.status, 'unknown');
+    assert.deepEqual(result.evidence.matchedFields, ['courseTitle']);
+  });
+
+  test('does not verify when the certificate has no recipient name', async () => {
+    const result = await verifyCredential(credential({ courseTitle: 'The Complete JavaScript Course 2024', recipientName: null, verificationUrl: UDEMY_VERIFIED }), { fetcher });
+    assert.equal(result.status, 'unknown');
+  });
+
+  test('treats a redirect away from the issuer as unknown', async () => {
+    const result = await verifyCredential(credential({ verificationUrl: UDEMY_REDIRECTED }), { fetcher });
+    assert.equal(result.status, 'unknown');
+  });
+
+  test('marks a missing Credly badge as invalid', async () => {
+    const result = await verifyCredential(credential({ verificationUrl: CREDLY_GONE }), { fetcher });
+    assert.equal(result.status, 'invalid');
+    assert.equal(result.evidence.httpStatus, 404);
+  });
+
+  test('reports unknown for issuers without an adapter', async () => {
+    const result = await verifyCredential(credential({ issuer: 'Some Training Institute', credentialId: 'STI-42' }), { fetcher });
+    assert.equal(result.status, 'unknown');
+    assert.equal(result.verifierId, null);
+  });
+});
@@ -0,0 +1,54 @@
+import { courseraVerifier } from '@/lib/verification/adapters/coursera';
+import { credlyVerifier } from '@/lib/verification/adapters/credly';
+import { nptelVerifier } from '@/lib/verification/adapters/nptel';
+import { udemyVerifier } from '@/lib/verification/adapters/udemy';
+import type {
+  CredentialToVerify,
+  CredentialVerifier,
+  VerificationFetcher,
+  VerificationResult,
+} from '@/lib/verification/types';
+
+const VERIFICATION_TIMEOUT_MS = 10 * 1000;
+
+// Checked in order; the first adapter that supports a credential verifies it.
+const verifiers: CredentialVerifier[] = [courseraVerifier, udemyVerifier, credlyVerifier, nptelVerifier];
+
+// Adds an issuer adapter. Adapters registered later take precedence over the built-in ones.
+export function registerCredentialVerifier(verifier: CredentialVerifier): void {
+  const existingIndex = verifiers.findIndex(v => v.id === verifier.id);
+  if (existingIndex !== -1) verifiers.splice(existingIndex, 1);
+  verifiers.unshift(verifier);
+}
+
+export const listCredentialVerifiers = (): readonly CredentialVerifier[] => verifiers;
+
+export const findCredentialVerifier = (credential: CredentialToVerify): CredentialVerifier | null =>
+  verifiers.find(v => v.supports(credential)) || null;
+
+export const networkFetcher: VerificationFetcher = (url) =>
+  fetch(url, {
+    signal: AbortSignal.timeout(VERIFICATION_TIMEOUT_MS),
+    cache: 'no-store',
+    redirect: 'follow',
+    headers: { 'User-Agent': 'CertIntel credential verification' },
+  });
+
+/**
+ * Verifies a credential with the adapter for its issuer. Pass a `fetcher` (see fixtureFetcher.ts)
+ * to run adapters against recorded responses instead of the network.
+ */
+export async function verifyCredential(
+  credential: CredentialToVerify,
+  { fetcher = networkFetcher }: { fetcher?: VerificationFetcher } = {}
+): Promise<VerificationResult> {
+  const verifier = findCredentialVerifier(credential);
+  if (!verifier) {
+    return {
+      status: 'unknown',
+      verifierId: null,
+      evidence: { checkedUrl: null, httpStatus: null, matchedFields: [], detail: 'No online verification is available for this issuer.' },
+    };
+  }
+  return verifier.verify(credential, fetcher);
+}
@@ -0,0 +1,45 @@
+// Shared types for online credential verification (see registry.ts).
+
+// 'verified': the issuer confirms the credential. 'invalid': the issuer says it does not exist.
+// 'unknown': no adapter for the issuer, not enough data, or the issuer could not be reached.
+export type VerificationStatus = 'verified' | 'invalid' | 'unknown';
+
+// What an adapter saw, kept so a reviewer can follow up on the result.
+export interface VerificationEvidence {
+  checkedUrl: string | null;
+  httpStatus: number | null;
+  matchedFields: string[]; // Certificate fields (e.g. 'recipientName') found on the issuer's page
+  detail: string;
+}
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  verifierId: string | null; // Adapter that produced the result; null when none applies
+  evidence: VerificationEvidence;
+}
+
+// The certificate fields adapters work with.
+export interface CredentialToVerify {
+  issuer: string | null;
+  courseTitle: string | null;
+  recipientName: string | null;
+  credentialId: string | null;
+  verificationUrl: string | null;
+}
+
+// The subset of a fetch Response adapters rely on, so recorded fixtures can stand in for the network.
+export interface VerificationHttpResponse {
+  status: number;
+  url: string;
+  text(): Promise<string>;
+}
+
+export type VerificationFetcher = (url: string) => Promise<VerificationHttpResponse>;
+
+export interface CredentialVerifier {
+  id: string;
+  issuerName: string;
+  // Whether this adapter handles the credential (by verification URL host or issuer name).
+  supports(credential: CredentialToVerify): boolean;
+  verify(credential: CredentialToVerify, fetcher: VerificationFetcher): Promise<VerificationResult>;
+}
@@ -1,29 +1,60 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME, getPageAccessRequirement, isRoleAllowed } from '@/lib/auth/accessRules';
+import type { UserRole } from '@/lib/models/user';
 
+// Page-route protection using the Firebase session cookie set by /api/auth/session.
+// API routes are excluded by the matcher below; they authenticate each request with `requireAuth`
+// from '@/lib/auth/apiAuth.server' against the same rules in '@/lib/auth/accessRules'.
+// The client-side `ProtectedPage` component stays in place for UX (loading states, redirects after logout).
 export async function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
-
-  // This is a placeholder middleware.
-  // Firebase Authentication primarily works on the client-side.
-  // Protecting server-rendered pages or API routes usually involves:
-  // 1. Client sends Firebase ID token (e.g., in a cookie or Authorization header).
-  // 2. Middleware (or API route handler) verifies this token using Firebase Admin SDK.
-  //
-  // For client-side route protection, we are using the `ProtectedPage` component
-  // which checks auth state via `useAuth()` hook from `AuthContext`.
-  //
-  // This middleware can be expanded for tasks like:
-  // - Setting security headers
-  // - Rate limiting
-  // - Redirects based on geo-location, etc.
-  // - Advanced Firebase token verification if you implement a cookie-based session.
-
-  // Example: Log all requests
-  // console.log(`Middleware: Path accessed - ${pathname}`);
-
-  // Allow all requests to proceed for now.
-  // Client-side checks in `ProtectedPage` will handle auth redirects.
+  const { pathname, search } = request.nextUrl;
+  const requirement = getPageAccessRequirement(pathname);
+
+  if (requirement === 'public') {
+    return NextResponse.next();
+  }
+
+  // The session cookie is kept when the session is valid but the profile is missing, so registration can finish.
+  const redirectToLogin = ({ keepSession = false }: { keepSession?: boolean } = {}) => {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    const response = NextResponse.redirect(loginUrl);
+    if (!keepSession) response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+  };
+
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    return redirectToLogin();
+  }
+
+  // The Edge runtime cannot run the Firebase Admin SDK, so the cookie is verified by a Node.js route.
+  let role: UserRole | null = null;
+  try {
+    const sessionResponse = await fetch(new URL('/api/auth/session', request.url), {
+      headers: { cookie: `${SESSION_COOKIE_NAME}=${sessionCookie}` },
+      cache: 'no-store',
+    });
+    if (!sessionResponse.ok) {
+      return redirectToLogin();
+    }
+    ({ role } = await sessionResponse.json());
+  } catch (error: any) {
+    console.error(`Middleware: Session verification request failed for ${pathname}:`, error.message);
+    return redirectToLogin();
+  }
+
+  if (!isRoleAllowed(role, requirement)) {
+    if (!role) {
+      // Redirecting to '/' here would not help: without a profile there is no role to check against.
+      console.warn(`Middleware: No profile for this session on role-restricted ${pathname}. Redirecting to login.`);
+      return redirectToLogin({ keepSession: true });
+    }
+    console.warn(`Middleware: Role '${role}' is not allowed on ${pathname}. Redirecting to home.`);
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
   return NextResponse.next();
 }
 
@@ -36,9 +67,8 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
-     * - login
-     * - register
+     * - any path with a file extension (public assets)
      */
-    // '/((?!api|_next/static|_next/image|favicon.ico|login|register).*)', // Example matcher
+    '/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)',
   ],
 };
@@ -0,0 +1,13 @@
+import { format } from 'node:util';
+import type { TestContext } from 'node:test';
+
+const CAPTURED_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+// Records everything written through `console` for the rest of the test, formatted as it would be printed.
+export function captureConsole(t: TestContext): { output: () => string } {
+  const lines: string[] = [];
+  for (const method of CAPTURED_METHODS) {
+    t.mock.method(console, method, (...args: unknown[]) => { lines.push(format(...args)); });
+  }
+  return { output: () => lines.join('\n') };
+}
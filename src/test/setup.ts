@@ -0,0 +1,8 @@
+// Loaded before every test file (see the "test" script in package.json), so tests never reach real services.
+process.env.MONGODB_URI ||= 'mongodb://127.0.0.1:1/certintel-test'; // Unreachable; modules only need it set to load
+process.env.OTP_STORE = 'memory';
+process.env.EMAIL_TRANSPORT = 'memory';
+// Placeholders so the Genkit and Firebase client modules load; no test reaches those services.
+process.env.GEMINI_API_KEY ||= 'test-gemini-api-key';
+process.env.NEXT_PUBLIC_FIREBASE_API_KEY ||= 'test-firebase-api-key';
+process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||= 'certintel-test';
@@ -0,0 +1,6 @@
+// Minimal typings for the parts of pdf-poppler used by src/lib/uploads/pdfConversion.server.ts.
+// Note: the package calls process.exit(1) when imported on platforms other than macOS and Windows.
+declare module 'pdf-poppler' {
+  export const path: string; // Directory containing the bundled Poppler binaries
+  export const exec_options: Record<string, unknown>;
+}